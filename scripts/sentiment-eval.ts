@@ -0,0 +1,73 @@
+// Sentiment evaluation runner: scores a provider against a golden dataset and, with --record,
+// refreshes the recorded LLM responses that offline runs and /api/ai/sentiment-eval replay.
+//
+//   npm run eval:sentiment -- --provider groq [--dataset v1] [--record]
+import { loadEnvConfig } from '@next/env';
+import type { EvaluationMetrics } from '@/types';
+
+// API keys come from .env.local the same way `next dev` reads them
+loadEnvConfig(process.cwd());
+
+const readFlag = (name: string): string | undefined => {
+  const index = process.argv.indexOf(`--${name}`);
+  return index >= 0 ? process.argv[index + 1] : undefined;
+};
+
+const summarize = (metrics: EvaluationMetrics) => ({
+  count: metrics.count,
+  accuracy: metrics.accuracy,
+  macroF1: metrics.macroF1,
+  positiveF1: metrics.perClass.positive.f1,
+  neutralF1: metrics.perClass.neutral.f1,
+  negativeF1: metrics.perClass.negative.f1
+});
+
+async function main() {
+  // Loaded after the env so the LLM clients see the keys
+  const {
+    EVALUATION_PROVIDERS,
+    listEvaluationDatasets,
+    loadEvaluationDataset,
+    runSentimentEvaluation
+  } = await import('@/lib/sentiment-eval');
+
+  const provider = readFlag('provider') || 'local';
+  if (!EVALUATION_PROVIDERS.some(name => name === provider)) {
+    throw new Error(`--provider must be one of: ${EVALUATION_PROVIDERS.join(', ')}`);
+  }
+  const record = process.argv.includes('--record');
+  if (record && provider === 'local') {
+    throw new Error('The local provider runs offline; there is nothing to record');
+  }
+
+  const versions = await listEvaluationDatasets();
+  const version = readFlag('dataset') || versions[versions.length - 1];
+  const dataset = version ? await loadEvaluationDataset(version) : null;
+  if (!dataset) {
+    throw new Error(`Unknown dataset "${version}". Available: ${versions.join(', ') || 'none'}`);
+  }
+
+  const report = await runSentimentEvaluation(dataset, provider as (typeof EVALUATION_PROVIDERS)[number], { record });
+
+  console.log(`\n📊 ${report.provider} (${report.model}) on golden-${report.dataset}, ${report.mode} mode`);
+  console.table({
+    overall: summarize(report.overall),
+    ...Object.fromEntries(Object.entries(report.byLanguage).map(([language, metrics]) => [language, summarize(metrics)])),
+    ...Object.fromEntries(Object.entries(report.byTag).map(([tag, metrics]) => [`#${tag}`, summarize(metrics)]))
+  });
+
+  console.log('Confusion matrix (rows: label, columns: predicted)');
+  console.table(report.overall.confusion);
+
+  if (report.unparsed > 0) {
+    console.warn(`⚠️ ${report.unparsed} comments had no parsable result and were counted as neutral`);
+  }
+  if (record) {
+    console.log('🎙️ Recordings updated; commit them together with the prompt or CONFIG change');
+  }
+}
+
+main().catch(error => {
+  console.error(`❌ ${error instanceof Error ? error.message : error}`);
+  process.exit(1);
+});
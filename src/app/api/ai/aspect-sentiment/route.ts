@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import { APIResponse, AspectSentimentReport, CommentData } from '@/types';
+import { analyzeAspects, BUILT_IN_ASPECTS, getCustomAspects } from '@/lib/aspect-sentiment';
+import { CONFIG, getSentimentProvider } from '@/lib/ai-services-pro';
+import { cachedAnalysis } from '@/lib/analysis-cache';
+
+/**
+ * POST /api/ai/aspect-sentiment
+ *
+ * Per-aspect sentiment (audio, editing, pacing, ... plus the creator's custom aspects) with example quotes
+ * Body: { videoId?, comments: CommentData[], refresh? }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { videoId, comments, refresh } = await request.json();
+
+    if (!Array.isArray(comments) || comments.length === 0) {
+      return NextResponse.json<APIResponse<null>>({
+        success: false,
+        error: 'Comments array is required and must contain at least one comment'
+      }, { status: 400 });
+    }
+
+    if (videoId && !/^[a-zA-Z0-9_-]{11}$/.test(videoId)) {
+      return NextResponse.json<APIResponse<null>>({
+        success: false,
+        error: 'Invalid video ID format'
+      }, { status: 400 });
+    }
+
+    // Spam would skew every aspect it name-drops
+    const validComments: CommentData[] = comments.filter((comment: CommentData) =>
+      comment && typeof comment.textDisplay === 'string' && comment.textDisplay.trim() && !comment.spam?.isSpam
+    );
+
+    const session = await getServerSession(authOptions);
+    const userId = session?.user?.id || session?.user?.email;
+    const customAspects = userId ? await getCustomAspects(userId) : [];
+
+    const { value: report, cached } = await cachedAnalysis(
+      {
+        kind: 'aspect-sentiment',
+        model: getSentimentProvider().name === 'local' ? 'lexicon' : CONFIG.mistral.analyticsModel,
+        videoId,
+        comments: validComments,
+        inputs: { customAspects },
+        refresh: refresh === true
+      },
+      () => analyzeAspects(validComments, customAspects)
+    );
+
+    console.log(`🔬 Aspect sentiment ${cached ? 'served from cache' : 'extracted'}: ${report.aspects.length} aspects mentioned`);
+
+    return NextResponse.json<APIResponse<AspectSentimentReport & { cached: boolean }>>({
+      success: true,
+      data: { ...report, cached }
+    });
+
+  } catch (error) {
+    console.error('❌ Aspect sentiment extraction failed:', error);
+    return NextResponse.json<APIResponse<null>>({
+      success: false,
+      error: 'Failed to extract aspect sentiment'
+    }, { status: 500 });
+  }
+}
+
+/**
+ * GET /api/ai/aspect-sentiment
+ * API documentation
+ */
+export async function GET() {
+  return NextResponse.json({
+    service: 'Aspect Sentiment API',
+    description: 'What viewers think about each aspect of a video, with example quotes',
+    builtInAspects: BUILT_IN_ASPECTS.map(aspect => ({ id: aspect.id, label: aspect.label })),
+    usage: {
+      endpoint: 'POST /api/ai/aspect-sentiment',
+      requiredFields: ['comments'],
+      optionalFields: ['videoId', 'refresh'],
+      customAspects: 'GET/PUT /api/youtube/custom-aspects'
+    }
+  });
+}
@@ -3,8 +3,10 @@ import { APIResponse, CommentData } from '@/types';
 import { 
   generateCreatorInsightsWithMistral, 
   type CreatorInsights,
-  cleanText
+  cleanText,
+  CONFIG
 } from '@/lib/ai-services-pro';
+import { cachedAnalysis } from '@/lib/analysis-cache';
 
 /**
  * POST /api/ai/feedback-insights
@@ -17,6 +19,8 @@ export async function POST(request: NextRequest) {
     
     const body = await request.json();
     const { 
+      videoId,
+      refresh,
       videoTitle,
       videoDescription,
       transcript,
@@ -68,16 +72,27 @@ export async function POST(request: NextRequest) {
     console.log(`✅ Validated ${validComments.length} comments for insights generation`);
 
     // Generate comprehensive insights using Mistral large-latest
-    const insights = await generateCreatorInsightsWithMistral(
-      cleanVideoTitle,
-      cleanTranscript,
-      validComments,
-      sentimentDistribution
+    // Keyed by the exact comment set, so teammates viewing the same video share one result
+    const { value: insights, cached } = await cachedAnalysis(
+      {
+        kind: 'feedback-insights',
+        model: CONFIG.mistral.analyticsModel,
+        videoId,
+        comments: validComments,
+        inputs: { videoTitle: cleanVideoTitle, transcript: cleanTranscript, sentimentDistribution },
+        refresh: refresh === true
+      },
+      () => generateCreatorInsightsWithMistral(
+        cleanVideoTitle,
+        cleanTranscript,
+        validComments,
+        sentimentDistribution
+      )
     );
 
     const processingTime = Date.now() - startTime;
     
-    console.log(`✅ Feedback insights generated successfully in ${processingTime}ms`);
+    console.log(`✅ Feedback insights ${cached ? 'served from cache' : 'generated successfully'} in ${processingTime}ms`);
 
     // Return comprehensive insights
     return NextResponse.json<APIResponse<{
@@ -88,6 +103,7 @@ export async function POST(request: NextRequest) {
         processingTimeMs: number;
         model: string;
         analysisTimestamp: string;
+        cached: boolean;
       }
     }>>({
       success: true,
@@ -97,8 +113,9 @@ export async function POST(request: NextRequest) {
           videoTitle: cleanVideoTitle,
           commentsAnalyzed: validComments.length,
           processingTimeMs: processingTime,
-          model: 'mistral-large-latest',
-          analysisTimestamp: new Date().toISOString()
+          model: CONFIG.mistral.analyticsModel,
+          analysisTimestamp: new Date().toISOString(),
+          cached
         }
       }
     });
@@ -1,10 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { APIResponse } from '@/types';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import { APIResponse, GuardrailResult } from '@/types';
+import { getVoiceProfile } from '@/lib/voice-profile';
+import { buildReplyLanguagePolicy, INVALID_LANGUAGE_POLICY, REPLY_LANGUAGE_MODES, resolveReplyLanguage } from '@/lib/reply-language';
+import { LANGUAGE_NAMES } from '@/lib/language-id';
+import { checkReplySafety } from '@/lib/reply-guardrails';
 import { 
   generateReplyWithMistral, 
   type ReplyGenerationContext,
   cleanText
 } from '@/lib/ai-services-pro';
+import { rememberReplyDraft } from '@/lib/reply-audit';
 
 /**
  * POST /api/ai/generate-reply
@@ -24,6 +31,10 @@ export async function POST(request: NextRequest) {
       videoDescription,
       transcript,
       channelTitle,
+      commentLanguage,
+      languageMode,
+      channelLanguage,
+      replyLanguage,
       replyTone = 'friendly'
     } = body;
 
@@ -42,54 +53,94 @@ export async function POST(request: NextRequest) {
       }, { status: 400 });
     }
 
+    const languagePolicy = buildReplyLanguagePolicy({ mode: languageMode, channelLanguage, fixedLanguage: replyLanguage });
+    if (!languagePolicy) {
+      return NextResponse.json<APIResponse<null>>({
+        success: false,
+        error: INVALID_LANGUAGE_POLICY
+      }, { status: 400 });
+    }
+
     console.log(`🤖 Generating AI reply for comment: "${commentText.substring(0, 50)}..."`);
     console.log(`📹 Video: "${videoTitle}" (${videoId})`);
 
-    // Clean and prepare context with FORCED English language
+    // Signed-in creators get drafts in their learned voice
+    const session = await getServerSession(authOptions);
+    const userId = session?.user?.id || session?.user?.email;
+    const voiceProfile = userId ? await getVoiceProfile(userId) : null;
+
+    const languageDecision = resolveReplyLanguage(commentText, languagePolicy, commentLanguage);
+
     const replyContext: ReplyGenerationContext = {
       commentText: cleanText(commentText),
       videoTitle: cleanText(videoTitle),
       videoDescription: videoDescription ? cleanText(videoDescription) : '',
       transcript: transcript ? cleanText(transcript) : '',
       channelName: channelTitle ? cleanText(channelTitle) : 'Creator',
-      commentLanguage: 'en', // FORCE English for all replies
-      replyTone: replyTone as 'friendly' | 'professional' | 'casual' | 'humorous'
+      commentLanguage: languageDecision.commentLanguage,
+      replyLanguage: languageDecision.language,
+      replyTone: replyTone as 'friendly' | 'professional' | 'casual' | 'humorous',
+      voiceProfile
     };
 
     console.log(`🧠 Generating AI reply with Mistral medium-2508`);
-    console.log(`🌍 FORCED English language (was: ${detectLanguage(commentText)}), Tone: ${replyTone}`);
+    console.log(`🌍 Comment language: ${languageDecision.commentLanguage} (${languageDecision.confidence}), reply in ${languageDecision.language} [${languageDecision.mode}], Tone: ${replyTone}`);
 
     // Generate reply using Mistral medium-2508
-    const generatedReply = await generateReplyWithMistral(replyContext);
+    const generated = await generateReplyWithMistral(replyContext);
+    const generatedReply = generated.text;
 
     if (!generatedReply || generatedReply.length < 3) {
       throw new Error('Generated reply is too short or empty');
     }
 
+    // Posting this draft later audits the prompt recorded here, not one sent by the client
+    if (userId) {
+      await rememberReplyDraft(userId, generated);
+    }
+
+    // Preview only: the issues are shown next to the draft and enforced again when posting
+    const guardrail = checkReplySafety(generatedReply, {
+      commentText,
+      videoTitle,
+      videoDescription,
+      transcript
+    });
+
     const processingTime = Date.now() - startTime;
     
     console.log(`✅ Generated AI reply: "${generatedReply}"`);
 
     return NextResponse.json<APIResponse<{
       reply: string;
+      guardrail: GuardrailResult;
       metadata: {
         videoId: string;
         commentId: string;
         tone: string;
+        commentLanguage: string;
+        replyLanguage: string;
+        languageMode: string;
         processingTimeMs: number;
         model: string;
+        voiceProfile: boolean;
         generatedAt: string;
       }
     }>>({
       success: true,
       data: {
         reply: generatedReply,
+        guardrail,
         metadata: {
           videoId,
           commentId,
           tone: replyTone,
+          commentLanguage: languageDecision.commentLanguage,
+          replyLanguage: languageDecision.language,
+          languageMode: languageDecision.mode,
           processingTimeMs: processingTime,
-          model: 'mistral-medium-latest',
+          model: generated.model,
+          voiceProfile: Boolean(voiceProfile),
           generatedAt: new Date().toISOString()
         }
       }
@@ -129,8 +180,10 @@ export async function GET() {
     usage: {
       endpoint: 'POST /api/ai/generate-reply',
       requiredFields: ['videoId', 'commentId', 'commentText', 'videoTitle'],
-      optionalFields: ['videoDescription', 'transcript', 'channelTitle', 'replyTone']
+      optionalFields: ['videoDescription', 'transcript', 'channelTitle', 'replyTone', 'commentLanguage', 'languageMode', 'channelLanguage', 'replyLanguage']
     },
+    languageModes: REPLY_LANGUAGE_MODES,
+    supportedLanguages: LANGUAGE_NAMES,
     toneOptions: ['friendly', 'professional', 'casual', 'humorous'],
     healthCheck: {
       status: 'healthy',
@@ -139,28 +192,3 @@ export async function GET() {
     }
   });
 }
-
-/**
- * Simple language detection for reply context
- */
-function detectLanguage(text: string): string {
-  const hindiPattern = /[\u0900-\u097F]/;
-  const arabicPattern = /[\u0600-\u06FF]/;
-  const chinesePattern = /[\u4e00-\u9fff]/;
-  const japanesePattern = /[\u3040-\u309f\u30a0-\u30ff]/;
-  const koreanPattern = /[\uac00-\ud7af]/;
-  
-  if (hindiPattern.test(text)) return 'hi';
-  if (arabicPattern.test(text)) return 'ar';
-  if (chinesePattern.test(text)) return 'zh';
-  if (japanesePattern.test(text)) return 'ja';
-  if (koreanPattern.test(text)) return 'ko';
-  
-  // Check for common Spanish words
-  if (/\b(gracias|muy|bien|bueno|hola|como)\b/i.test(text)) return 'es';
-  
-  // Check for common French words
-  if (/\b(merci|très|bien|bonjour|comment)\b/i.test(text)) return 'fr';
-  
-  return 'en'; // Default to English
-}
\ No newline at end of file
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { APIResponse, CommentData } from '@/types';
+import { compareSentimentProviders, getSentimentProvider, SentimentProviderComparison } from '@/lib/ai-services-pro';
+
+/**
+ * POST /api/ai/sentiment-compare
+ * 
+ * Score the same comment set with several sentiment providers and report agreement
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { comments, providers = ['groq', 'mistral', 'local'] } = body as {
+      comments?: CommentData[];
+      providers?: string[];
+    };
+
+    if (!Array.isArray(comments) || comments.length === 0) {
+      return NextResponse.json<APIResponse<null>>({
+        success: false,
+        error: 'A non-empty comments array is required'
+      }, { status: 400 });
+    }
+
+    try {
+      providers.forEach(name => getSentimentProvider(name));
+    } catch (error) {
+      return NextResponse.json<APIResponse<null>>({
+        success: false,
+        error: error instanceof Error ? error.message : 'Invalid provider'
+      }, { status: 400 });
+    }
+
+    console.log(`⚖️ Comparing sentiment providers [${providers.join(', ')}] on ${comments.length} comments`);
+
+    const comparison = await compareSentimentProviders(comments.slice(0, 200), providers);
+
+    return NextResponse.json<APIResponse<SentimentProviderComparison>>({
+      success: true,
+      data: comparison
+    });
+
+  } catch (error) {
+    console.error('Error in /api/ai/sentiment-compare:', error);
+    return NextResponse.json<APIResponse<null>>({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { APIResponse, SentimentEvaluationReport } from '@/types';
+import {
+  EVALUATION_PROVIDERS,
+  EvaluationProvider,
+  findMissingRecordings,
+  listEvaluationDatasets,
+  loadEvaluationDataset,
+  runSentimentEvaluation
+} from '@/lib/sentiment-eval';
+
+/**
+ * POST /api/ai/sentiment-eval
+ *
+ * Score a sentiment provider against a labelled golden dataset: precision/recall/F1 and a
+ * confusion matrix overall, per language and per tag. LLM providers only replay recorded
+ * responses; recordings are made with `npm run eval:sentiment -- --record`.
+ * Body: { provider?: 'groq' | 'mistral' | 'local', dataset?: 'v1' }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { provider = 'local', dataset: version } = await request.json();
+
+    if (!EVALUATION_PROVIDERS.includes(provider)) {
+      return NextResponse.json<APIResponse<null>>({
+        success: false,
+        error: `provider must be one of: ${EVALUATION_PROVIDERS.join(', ')}`
+      }, { status: 400 });
+    }
+
+    const versions = await listEvaluationDatasets();
+    const dataset = await loadEvaluationDataset(version || versions[versions.length - 1] || '');
+    if (!dataset) {
+      return NextResponse.json<APIResponse<null>>({
+        success: false,
+        error: `Unknown dataset. Available: ${versions.join(', ')}`
+      }, { status: 404 });
+    }
+
+    if (provider !== 'local') {
+      const { missing, total } = await findMissingRecordings(dataset, provider);
+      if (missing > 0) {
+        return NextResponse.json<APIResponse<null>>({
+          success: false,
+          error: `${missing} of ${total} ${provider} batches have no recorded response for the current prompt and model. Record them with: npm run eval:sentiment -- --provider ${provider} --record`
+        }, { status: 409 });
+      }
+    }
+
+    const report = await runSentimentEvaluation(dataset, provider as EvaluationProvider);
+
+    return NextResponse.json<APIResponse<SentimentEvaluationReport>>({
+      success: true,
+      data: report
+    });
+
+  } catch (error) {
+    console.error('Error in /api/ai/sentiment-eval:', error);
+    return NextResponse.json<APIResponse<null>>({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
+
+/**
+ * GET /api/ai/sentiment-eval
+ * API documentation
+ */
+export async function GET() {
+  let datasets: string[] = [];
+  try {
+    datasets = await listEvaluationDatasets();
+  } catch (error) {
+    console.error('Error listing evaluation datasets:', error);
+  }
+
+  return NextResponse.json({
+    service: 'Sentiment Evaluation API',
+    description: 'Precision, recall, F1 and confusion matrices for a sentiment provider on a labelled golden dataset',
+    datasets,
+    providers: EVALUATION_PROVIDERS,
+    usage: {
+      endpoint: 'POST /api/ai/sentiment-eval',
+      optionalFields: ['provider', 'dataset'],
+      replay: 'groq and mistral replay responses recorded in src/data/sentiment-eval/recordings, so runs need no API access',
+      record: 'npm run eval:sentiment -- --provider groq --record calls the live API and overwrites the recordings'
+    }
+  });
+}
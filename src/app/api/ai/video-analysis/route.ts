@@ -7,6 +7,9 @@ import {
   cleanText
 } from '@/lib/ai-services-pro';
 import { Mistral } from '@mistralai/mistralai';
+import { cachedAnalysis, markUncacheable } from '@/lib/analysis-cache';
+
+const ANALYSIS_MODEL = 'mistral-large-latest';
 
 // Initialize Mistral client
 const mistralClient = new Mistral({ 
@@ -30,7 +33,7 @@ export async function POST(request: NextRequest) {
     }
 
     const body = await request.json();
-    const { videoTitle, transcript, description, tags } = body;
+    const { videoId, videoTitle, transcript, description, tags, refresh } = body;
 
     if (!videoTitle) {
       return NextResponse.json<APIResponse<null>>({
@@ -41,11 +44,15 @@ export async function POST(request: NextRequest) {
 
     console.log(`🔍 Starting video analysis for: "${videoTitle}"`);
 
-    const analysis = await analyzeVideoWithMistral(
-      videoTitle,
-      transcript || '',
-      description || '',
-      tags || []
+    const { value: analysis, cached } = await cachedAnalysis(
+      {
+        kind: 'video-analysis',
+        model: ANALYSIS_MODEL,
+        videoId,
+        inputs: { videoTitle, transcript: transcript || '', description: description || '', tags: tags || [] },
+        refresh: refresh === true
+      },
+      () => analyzeVideoWithMistral(videoTitle, transcript || '', description || '', tags || [])
     );
 
     const response = NextResponse.json<APIResponse<typeof analysis>>({
@@ -55,6 +62,7 @@ export async function POST(request: NextRequest) {
 
     // Cache for 2 hours
     response.headers.set('Cache-Control', 'private, s-maxage=7200, stale-while-revalidate=3600');
+    response.headers.set('X-Analysis-Cache', cached ? 'hit' : 'miss');
     
     return response;
 
@@ -159,7 +167,7 @@ Provide a comprehensive analysis in the following JSON format:
 Return only the JSON object, no additional text.`;
 
     const mistralResponse = await mistralClient.chat.complete({
-      model: 'mistral-large-latest',
+      model: ANALYSIS_MODEL,
       messages: [{ role: 'user', content: analysisPrompt }],
       temperature: 0.3,
       maxTokens: 2000,
@@ -178,8 +186,8 @@ Return only the JSON object, no additional text.`;
   } catch (mistralError) {
     console.error(`❌ Mistral analysis failed, using smart fallback:`, mistralError);
     
-    // Smart fallback analysis based on available data
-    return {
+    // Smart fallback analysis based on available data (never cached, so the next request retries)
+    return markUncacheable({
       summary: [
         `Video titled "${videoTitle}" contains ${transcript.length > 100 ? 'detailed' : 'basic'} content`,
         `${tags.length > 0 ? 'Tagged with relevant keywords' : 'No tags provided'}`,
@@ -215,6 +223,6 @@ Return only the JSON object, no additional text.`;
           'Analysis tools temporarily unavailable - manual review recommended'
         ]
       }
-    };
+    });
   }
 }
\ No newline at end of file
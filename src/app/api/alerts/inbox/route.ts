@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import { listInbox, markInboxRead } from '@/lib/alerts';
+import { AlertEvent, APIResponse } from '@/types';
+
+const unauthorized = () => NextResponse.json<APIResponse<null>>({
+  success: false,
+  error: 'Unauthorized'
+}, { status: 401 });
+
+/**
+ * GET /api/alerts/inbox
+ *
+ * In-app alerts for the signed-in user, newest first
+ */
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+    const userId = session?.user?.id || session?.user?.email;
+    if (!userId) {
+      return unauthorized();
+    }
+
+    const events = await listInbox(userId);
+    return NextResponse.json<APIResponse<{ events: AlertEvent[]; unread: number }>>({
+      success: true,
+      data: { events, unread: events.filter(event => !event.read).length }
+    });
+
+  } catch (error) {
+    console.error('Error in /api/alerts/inbox:', error);
+    return NextResponse.json<APIResponse<null>>({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
+
+/**
+ * PATCH /api/alerts/inbox
+ *
+ * Mark { ids } (or every alert when omitted) as read
+ */
+export async function PATCH(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    const userId = session?.user?.id || session?.user?.email;
+    if (!userId) {
+      return unauthorized();
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const { ids } = body as { ids?: string[] };
+    if (ids !== undefined && !Array.isArray(ids)) {
+      return NextResponse.json<APIResponse<null>>({
+        success: false,
+        error: 'ids must be an array'
+      }, { status: 400 });
+    }
+
+    return NextResponse.json<APIResponse<{ marked: number }>>({
+      success: true,
+      data: { marked: await markInboxRead(userId, ids) }
+    });
+
+  } catch (error) {
+    console.error('Error in /api/alerts/inbox:', error);
+    return NextResponse.json<APIResponse<null>>({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
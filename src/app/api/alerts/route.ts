@@ -0,0 +1,183 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import { createAlertRule, deleteAlertRule, isPublicWebhookUrl, listAlertRules } from '@/lib/alerts';
+import { AlertChannel, AlertRule, APIResponse } from '@/types';
+
+const unauthorized = () => NextResponse.json<APIResponse<null>>({
+  success: false,
+  error: 'Unauthorized'
+}, { status: 401 });
+
+const badRequest = (error: string) => NextResponse.json<APIResponse<null>>({
+  success: false,
+  error
+}, { status: 400 });
+
+const isPositiveNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value > 0;
+
+/**
+ * Validate delivery channels from a request body, returning null when any is malformed
+ */
+function parseChannels(value: unknown): AlertChannel[] | null {
+  if (value === undefined) {
+    return [{ type: 'inbox' }];
+  }
+  if (!Array.isArray(value) || value.length === 0) {
+    return null;
+  }
+
+  const channels: AlertChannel[] = [];
+  for (const channel of value) {
+    if (channel?.type === 'webhook' && typeof channel.url === 'string' && /^https?:\/\//.test(channel.url)) {
+      channels.push({ type: 'webhook', url: channel.url });
+    } else if (channel?.type === 'email' && typeof channel.to === 'string' && /^[^\s@]+@[^\s@]+$/.test(channel.to)) {
+      channels.push({ type: 'email', to: channel.to });
+    } else if (channel?.type === 'inbox') {
+      channels.push({ type: 'inbox' });
+    } else {
+      return null;
+    }
+  }
+  return channels;
+}
+
+/**
+ * GET /api/alerts
+ *
+ * The signed-in user's alert rules
+ */
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+    const userId = session?.user?.id || session?.user?.email;
+    if (!userId) {
+      return unauthorized();
+    }
+
+    return NextResponse.json<APIResponse<AlertRule[]>>({
+      success: true,
+      data: await listAlertRules(userId)
+    });
+
+  } catch (error) {
+    console.error('Error in /api/alerts:', error);
+    return NextResponse.json<APIResponse<null>>({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/alerts
+ *
+ * Create a negative-sentiment rule, or update the user's rule for the same video and channels:
+ * { videoId, thresholdPercent?, changePercent?, minSampleSize?, windowHours?, cooldownMinutes?, channels? }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    const userId = session?.user?.id || session?.user?.email;
+    if (!userId) {
+      return unauthorized();
+    }
+
+    const body = await request.json();
+    const { videoId, thresholdPercent, changePercent, minSampleSize, windowHours, cooldownMinutes } = body;
+
+    if (typeof videoId !== 'string' || !/^[a-zA-Z0-9_-]{11}$/.test(videoId)) {
+      return badRequest('Invalid video ID format');
+    }
+    if (thresholdPercent === undefined && changePercent === undefined) {
+      return badRequest('thresholdPercent or changePercent is required');
+    }
+    if (thresholdPercent !== undefined && (!isPositiveNumber(thresholdPercent) || thresholdPercent > 100)) {
+      return badRequest('thresholdPercent must be between 0 and 100');
+    }
+    if (changePercent !== undefined && !isPositiveNumber(changePercent)) {
+      return badRequest('changePercent must be a positive number');
+    }
+    if (minSampleSize !== undefined && (!Number.isInteger(minSampleSize) || minSampleSize < 1)) {
+      return badRequest('minSampleSize must be a positive integer');
+    }
+    if (windowHours !== undefined && (!isPositiveNumber(windowHours) || windowHours > 24 * 30)) {
+      return badRequest('windowHours must be between 0 and 720');
+    }
+    if (cooldownMinutes !== undefined && (typeof cooldownMinutes !== 'number' || cooldownMinutes < 0)) {
+      return badRequest('cooldownMinutes must be zero or more');
+    }
+
+    const channels = parseChannels(body.channels);
+    if (!channels) {
+      return badRequest('channels must be a non-empty list of webhook (url), email (to) or inbox channels');
+    }
+    for (const channel of channels) {
+      if (channel.type === 'webhook' && !(await isPublicWebhookUrl(channel.url))) {
+        return badRequest('Webhook URLs must resolve to a public internet address');
+      }
+    }
+
+    const rule = await createAlertRule(userId, {
+      videoId,
+      thresholdPercent,
+      changePercent,
+      minSampleSize,
+      windowHours,
+      cooldownMinutes,
+      channels
+    });
+
+    return NextResponse.json<APIResponse<AlertRule>>({
+      success: true,
+      data: rule
+    });
+
+  } catch (error) {
+    console.error('Error in /api/alerts:', error);
+    return NextResponse.json<APIResponse<null>>({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/alerts?id=...
+ *
+ * Delete an alert rule
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    const userId = session?.user?.id || session?.user?.email;
+    if (!userId) {
+      return unauthorized();
+    }
+
+    const ruleId = new URL(request.url).searchParams.get('id');
+    if (!ruleId) {
+      return badRequest('id parameter is required');
+    }
+
+    if (!(await deleteAlertRule(userId, ruleId))) {
+      return NextResponse.json<APIResponse<null>>({
+        success: false,
+        error: 'Alert rule not found'
+      }, { status: 404 });
+    }
+
+    return NextResponse.json<APIResponse<{ removed: string }>>({
+      success: true,
+      data: { removed: ruleId }
+    });
+
+  } catch (error) {
+    console.error('Error in /api/alerts:', error);
+    return NextResponse.json<APIResponse<null>>({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
@@ -1,6 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { fetchAllVideoComments, fetchLatestVideoComments } from '@/lib/youtube';
-import { analyzeSentimentWithGroq } from '@/lib/ai-services-pro';
+import { syncVideoComments, scoreStoredComments, selectStoredComments } from '@/lib/comment-store';
 import { APIResponse, CommentData } from '@/types';
 
 export async function GET(request: NextRequest) {
@@ -26,8 +25,8 @@ export async function GET(request: NextRequest) {
       }, { status: 400 });
     }
 
-    // Fetch ALL comments first
-    const allComments = await fetchAllVideoComments(videoId);
+    // Sync new threads into the local store instead of re-pulling every page
+    const { comments: allComments } = await syncVideoComments(videoId);
 
     if (!allComments || allComments.length === 0) {
       return NextResponse.json<APIResponse<null>>({
@@ -37,13 +36,16 @@ export async function GET(request: NextRequest) {
     }
 
     if (getAllComments) {
-      // For pie chart: return TOP 100 comments by relevance with sentiment analysis
-      const topCommentsForPieChart = allComments.slice(0, 100);
+      // For pie chart: return TOP 100 comments by engagement with sentiment analysis
+      const topCommentsForPieChart = selectStoredComments(allComments, { order: 'likes', limit: 100 });
       console.log(`Processing TOP ${topCommentsForPieChart.length} comments for pie chart analysis`);
       
       try {
-        // Analyze sentiment with Groq llama-3.3-70b-versatile
-        const allCommentsWithSentiment = await analyzeSentimentWithGroq(topCommentsForPieChart);
+        // Only new or edited comments are sent to Groq; the rest reuse stored scores
+        const allCommentsWithSentiment = await scoreStoredComments(
+          videoId,
+          topCommentsForPieChart.map(comment => comment.id)
+        );
         console.log(`Successfully analyzed ${allCommentsWithSentiment.length} top comments for pie chart`);
         
         return NextResponse.json<APIResponse<CommentData[]>>({
@@ -65,10 +67,12 @@ export async function GET(request: NextRequest) {
       }
     }
 
-    // For display: fetch LATEST 25 comments sorted by time, analyze sentiment
-    const latestComments = await fetchLatestVideoComments(videoId, 25);
-    // Analyze sentiment with Groq llama-3.3-70b-versatile
-    const commentsWithSentiment = await analyzeSentimentWithGroq(latestComments);
+    // For display: LATEST 25 stored comments sorted by time, scoring any unscored ones
+    const latestComments = selectStoredComments(allComments, { order: 'time', limit: 25 });
+    const commentsWithSentiment = await scoreStoredComments(
+      videoId,
+      latestComments.map(comment => comment.id)
+    );
 
     // Return paginated results - use requested limit (up to 25 for display)
     const startIndex = pageToken ? parseInt(pageToken) : 0;
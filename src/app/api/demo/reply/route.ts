@@ -4,7 +4,7 @@
  * Uses Mistral medium-2508 for context-aware, multilingual, personalized replies
  * Features:
  * - Proper \n character handling
- * - Multilingual support (EN, HI, MR, ES, FR, DE, AR, ZH, JA, KO)
+ * - Multilingual support via the shared reply language policy
  * - Context-aware responses using video content
  * - Creator-authentic tone with humor when appropriate
  * - Professional error handling and fallbacks
@@ -15,9 +15,10 @@ import { APIResponse } from '@/types';
 import { 
   generateReplyWithMistral, 
   type ReplyGenerationContext,
-  cleanText,
-  detectLanguage
+  cleanText
 } from '@/lib/ai-services-pro';
+import { buildReplyLanguagePolicy, INVALID_LANGUAGE_POLICY, REPLY_LANGUAGE_MODES, resolveReplyLanguage } from '@/lib/reply-language';
+import { LANGUAGE_NAMES } from '@/lib/language-id';
 
 /**
  * POST /api/demo/reply
@@ -38,6 +39,9 @@ export async function POST(request: NextRequest) {
       videoSummary, 
       channelTitle, 
       commentLanguage, 
+      languageMode,
+      channelLanguage,
+      replyLanguage,
       commentSentiment,
       replyTone = 'friendly',
       includeHumor = false
@@ -67,13 +71,21 @@ export async function POST(request: NextRequest) {
       }, { status: 400 });
     }
 
+    const languagePolicy = buildReplyLanguagePolicy({ mode: languageMode, channelLanguage, fixedLanguage: replyLanguage });
+    if (!languagePolicy) {
+      return NextResponse.json<APIResponse<null>>({
+        success: false,
+        error: INVALID_LANGUAGE_POLICY
+      }, { status: 400 });
+    }
+
     console.log(`🤖 Starting reply generation for comment: "${comment.substring(0, 50)}..."`);
     console.log(`📹 Video: "${videoTitle}"`);
-    console.log(`🎯 Tone: ${replyTone}, Language: ${commentLanguage || 'auto-detect'}`);
+    console.log(`🎯 Tone: ${replyTone}, Language: ${commentLanguage || 'auto-detect'}, Mode: ${languagePolicy.mode}`);
 
     // Clean and prepare comment text
     const cleanComment = cleanText(comment);
-    const detectedLanguage = commentLanguage || detectLanguage(cleanComment);
+    const languageDecision = resolveReplyLanguage(cleanComment, languagePolicy, commentLanguage);
     
     // Determine optimal tone based on context
     let finalTone = replyTone;
@@ -88,16 +100,17 @@ export async function POST(request: NextRequest) {
       videoDescription: videoDescription ? cleanText(videoDescription) : undefined,
       transcript: transcript ? cleanText(transcript) : undefined,
       channelName: channelTitle ? cleanText(channelTitle) : undefined,
-      commentLanguage: detectedLanguage,
+      commentLanguage: languageDecision.commentLanguage,
+      replyLanguage: languageDecision.language,
       commentSentiment: commentSentiment || 'neutral',
       replyTone: finalTone as 'friendly' | 'professional' | 'casual' | 'humorous'
     };
 
     console.log(`🧠 Generating reply with Mistral medium-2508...`);
-    console.log(`📊 Context: Language=${detectedLanguage}, Sentiment=${commentSentiment}, Tone=${finalTone}`);
+    console.log(`📊 Context: Language=${languageDecision.commentLanguage}→${languageDecision.language}, Sentiment=${commentSentiment}, Tone=${finalTone}`);
 
     // Generate reply using Mistral
-    const reply = await generateReplyWithMistral(replyContext);
+    const { text: reply, model } = await generateReplyWithMistral(replyContext);
     
     const processingTime = Date.now() - startTime;
     
@@ -110,6 +123,8 @@ export async function POST(request: NextRequest) {
       metadata: {
         tone: string;
         language: string;
+        commentLanguage: string;
+        languageMode: string;
         processingTimeMs: number;
         model: string;
         contextUsed: boolean;
@@ -120,9 +135,11 @@ export async function POST(request: NextRequest) {
         reply,
         metadata: {
           tone: finalTone,
-          language: detectedLanguage,
+          language: languageDecision.language,
+          commentLanguage: languageDecision.commentLanguage,
+          languageMode: languageDecision.mode,
           processingTimeMs: processingTime,
-          model: 'mistral-medium-2508',
+          model,
           contextUsed: !!(videoDescription || transcript)
         }
       }
@@ -164,18 +181,8 @@ export async function GET() {
       'Professional error handling',
       'Proper character encoding'
     ],
-    supportedLanguages: [
-      'English (en)',
-      'Hindi (hi)', 
-      'Marathi (mr)',
-      'Spanish (es)',
-      'French (fr)',
-      'German (de)',
-      'Arabic (ar)',
-      'Chinese (zh)',
-      'Japanese (ja)',
-      'Korean (ko)'
-    ],
+    supportedLanguages: Object.entries(LANGUAGE_NAMES).map(([code, name]) => `${name} (${code})`),
+    languageModes: REPLY_LANGUAGE_MODES,
     supportedTones: [
       'friendly',
       'professional', 
@@ -190,6 +197,9 @@ export async function GET() {
         'transcript', 
         'channelTitle',
         'commentLanguage',
+        'languageMode',
+        'channelLanguage',
+        'replyLanguage',
         'commentSentiment',
         'replyTone',
         'includeHumor'
@@ -0,0 +1,116 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getScoredComments } from '@/lib/comment-store';
+import { calculateSentimentOverTime, chooseSentimentBucket } from '@/lib/metrics';
+import { APIResponse, CommentData, SentimentTimeBucket, SentimentTimePoint } from '@/types';
+
+const BUCKETS: SentimentTimeBucket[] = ['hour', 'day', 'week'];
+
+interface SentimentOverTimeResponse {
+  bucket: SentimentTimeBucket;
+  commentCount: number;
+  series: SentimentTimePoint[];
+}
+
+/**
+ * Resolve the bucket query value ("auto" or missing picks one from the comment span)
+ */
+function resolveBucket(value: string | null | undefined, comments: CommentData[]): SentimentTimeBucket | null {
+  if (!value || value === 'auto') {
+    return chooseSentimentBucket(comments);
+  }
+  return BUCKETS.includes(value as SentimentTimeBucket) ? value as SentimentTimeBucket : null;
+}
+
+const invalidBucket = () => NextResponse.json<APIResponse<null>>({
+  success: false,
+  error: `bucket must be one of: auto, ${BUCKETS.join(', ')}`
+}, { status: 400 });
+
+/**
+ * GET /api/demo/sentiment-over-time?videoId=...&bucket=hour|day|week|auto
+ *
+ * Sentiment series over the analyzed comments stored for a video
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const videoId = searchParams.get('videoId');
+
+    if (!videoId) {
+      return NextResponse.json<APIResponse<null>>({
+        success: false,
+        error: 'videoId parameter is required'
+      }, { status: 400 });
+    }
+
+    // Validate videoId format
+    if (!/^[a-zA-Z0-9_-]{11}$/.test(videoId)) {
+      return NextResponse.json<APIResponse<null>>({
+        success: false,
+        error: 'Invalid video ID format'
+      }, { status: 400 });
+    }
+
+    const comments = await getScoredComments(videoId);
+    const bucket = resolveBucket(searchParams.get('bucket'), comments);
+    if (!bucket) {
+      return invalidBucket();
+    }
+
+    return NextResponse.json<APIResponse<SentimentOverTimeResponse>>({
+      success: true,
+      data: {
+        bucket,
+        commentCount: comments.length,
+        series: calculateSentimentOverTime(comments, bucket)
+      }
+    });
+
+  } catch (error) {
+    console.error('Error in /api/demo/sentiment-over-time:', error);
+    return NextResponse.json<APIResponse<null>>({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/demo/sentiment-over-time
+ *
+ * Sentiment series over a caller-supplied set of analyzed comments
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { comments, bucket: bucketParam } = body as { comments?: CommentData[]; bucket?: string };
+
+    if (!Array.isArray(comments)) {
+      return NextResponse.json<APIResponse<null>>({
+        success: false,
+        error: 'comments array is required'
+      }, { status: 400 });
+    }
+
+    const bucket = resolveBucket(bucketParam, comments);
+    if (!bucket) {
+      return invalidBucket();
+    }
+
+    return NextResponse.json<APIResponse<SentimentOverTimeResponse>>({
+      success: true,
+      data: {
+        bucket,
+        commentCount: comments.length,
+        series: calculateSentimentOverTime(comments, bucket)
+      }
+    });
+
+  } catch (error) {
+    console.error('Error in /api/demo/sentiment-over-time:', error);
+    return NextResponse.json<APIResponse<null>>({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
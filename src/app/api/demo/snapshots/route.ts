@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSnapshotHistory, recordSnapshot, trackVideoSnapshots } from '@/lib/snapshots';
+import { fetchVideoData } from '@/lib/youtube';
+import { calculateGrowthRates } from '@/lib/metrics';
+import { APIResponse, GrowthRates, StatsSnapshot } from '@/types';
+
+interface SnapshotSeriesResponse {
+  videoId: string;
+  snapshots: StatsSnapshot[];
+  growth: GrowthRates | null;
+}
+
+/**
+ * GET /api/demo/snapshots?videoId=...&hours=24
+ *
+ * Recorded view/like/comment history for a video plus growth over the last `hours`.
+ * Requesting an existing video (re)starts periodic tracking for it.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const videoId = searchParams.get('videoId');
+    const hours = Number(searchParams.get('hours') || 24);
+
+    if (!videoId) {
+      return NextResponse.json<APIResponse<null>>({
+        success: false,
+        error: 'videoId parameter is required'
+      }, { status: 400 });
+    }
+
+    // Validate videoId format
+    if (!/^[a-zA-Z0-9_-]{11}$/.test(videoId)) {
+      return NextResponse.json<APIResponse<null>>({
+        success: false,
+        error: 'Invalid video ID format'
+      }, { status: 400 });
+    }
+
+    if (!Number.isFinite(hours) || hours <= 0) {
+      return NextResponse.json<APIResponse<null>>({
+        success: false,
+        error: 'hours must be a positive number'
+      }, { status: 400 });
+    }
+
+    let history = await getSnapshotHistory(videoId);
+    if (history.snapshots.length === 0) {
+      // Unknown IDs never join the poller, where they would burn quota for the whole tracking window
+      const videoData = await fetchVideoData(videoId);
+      if (!videoData) {
+        return NextResponse.json<APIResponse<null>>({
+          success: false,
+          error: 'Video not found or unavailable'
+        }, { status: 404 });
+      }
+      await recordSnapshot(videoId, videoData);
+      history = await getSnapshotHistory(videoId);
+    }
+
+    await trackVideoSnapshots(videoId);
+
+    const latest = history.snapshots[history.snapshots.length - 1];
+    const growth = latest && history.publishedAt
+      ? calculateGrowthRates({ ...latest, publishedAt: history.publishedAt }, history.snapshots, hours)
+      : null;
+
+    return NextResponse.json<APIResponse<SnapshotSeriesResponse>>({
+      success: true,
+      data: {
+        videoId,
+        snapshots: history.snapshots,
+        growth
+      }
+    });
+
+  } catch (error) {
+    console.error('Error in /api/demo/snapshots:', error);
+    return NextResponse.json<APIResponse<null>>({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
@@ -1,12 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { generateVideoSummaryWithMistral } from '@/lib/ai-services-pro';
-import { fetchVideoTranscript } from '@/lib/youtube';
-import { APIResponse } from '@/types';
+import { CONFIG, generateVideoSummaryWithMistral } from '@/lib/ai-services-pro';
+import { cachedAnalysis } from '@/lib/analysis-cache';
+import { fetchVideoTranscriptSegments } from '@/lib/youtube';
+import { APIResponse, VideoTranscript } from '@/types';
 
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { videoId, videoTitle, description, comments } = body;
+    const { videoId, videoTitle, description, comments, language, refresh } = body;
 
     if (!videoTitle || !Array.isArray(comments)) {
       return NextResponse.json<APIResponse<null>>({
@@ -15,27 +16,34 @@ export async function POST(request: NextRequest) {
       }, { status: 400 });
     }
 
-    // Try to fetch transcript, fallback to description if unavailable
-    let transcript = '';
-    if (videoId) {
-      transcript = await fetchVideoTranscript(videoId);
-    }
-    
-    // If no transcript, use description as content source
-    if (!transcript && description) {
-      transcript = description;
+    // Fetch caption-based transcript (falls back to title + description inside)
+    let transcript: VideoTranscript | null = null;
+    if (videoId && /^[a-zA-Z0-9_-]{11}$/.test(videoId)) {
+      transcript = await fetchVideoTranscriptSegments(videoId, {
+        languages: language ? [language, 'en'] : undefined
+      });
     }
 
-    const summary = await generateVideoSummaryWithMistral(
-      videoTitle,
-      description || '',
-      comments
+    // Description is already in the prompt, so only pass real caption text
+    const transcriptText = transcript && transcript.source !== 'description' ? transcript.text : undefined;
+    const { value: summary, cached } = await cachedAnalysis(
+      {
+        kind: 'video-summary',
+        model: CONFIG.mistral.analyticsModel,
+        videoId,
+        comments: comments.slice(0, 10),
+        inputs: { videoTitle, description: description || '', transcript: transcriptText || null },
+        refresh: refresh === true
+      },
+      () => generateVideoSummaryWithMistral(videoTitle, description || '', comments, transcriptText)
     );
 
-    return NextResponse.json<APIResponse<{ summary: string[] }>>({
+    const response = NextResponse.json<APIResponse<{ summary: string[]; transcript: VideoTranscript | null }>>({
       success: true,
-      data: { summary }
+      data: { summary, transcript }
     });
+    response.headers.set('X-Analysis-Cache', cached ? 'hit' : 'miss');
+    return response;
 
   } catch (error) {
     console.error('Error in /api/demo/summary:', error);
@@ -44,4 +52,4 @@ export async function POST(request: NextRequest) {
       error: 'Internal server error'
     }, { status: 500 });
   }
-}
\ No newline at end of file
+}
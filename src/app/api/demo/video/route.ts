@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { fetchVideoData } from '@/lib/youtube';
+import { recordSnapshot, trackVideoSnapshots } from '@/lib/snapshots';
 import { APIResponse, VideoData } from '@/types';
 
 export async function GET(request: NextRequest) {
@@ -31,6 +32,10 @@ export async function GET(request: NextRequest) {
       }, { status: 404 });
     }
 
+    // Every analyzed video joins the snapshot schedule; reuse this fetch as a data point
+    await trackVideoSnapshots(videoId);
+    await recordSnapshot(videoId, videoData);
+
     const response = NextResponse.json<APIResponse<VideoData>>({
       success: true,
       data: videoData
@@ -0,0 +1,129 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import { addWatchlistItem, listWatchlist, MAX_WATCHLIST_ITEMS, removeWatchlistItem } from '@/lib/watchlist';
+import { parseYouTubeUrl } from '@/lib/youtube';
+import { APIResponse, ParsedUrl, WatchlistEntry, WatchlistItem } from '@/types';
+
+const unauthorized = () => NextResponse.json<APIResponse<null>>({
+  success: false,
+  error: 'Unauthorized'
+}, { status: 401 });
+
+/**
+ * GET /api/watchlist
+ *
+ * The signed-in user's tracked videos and channels with deltas since the previous run
+ */
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+    const userId = session?.user?.id || session?.user?.email;
+    if (!userId) {
+      return unauthorized();
+    }
+
+    return NextResponse.json<APIResponse<WatchlistEntry[]>>({
+      success: true,
+      data: await listWatchlist(userId)
+    });
+
+  } catch (error) {
+    console.error('Error in /api/watchlist:', error);
+    return NextResponse.json<APIResponse<null>>({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/watchlist
+ *
+ * Track a video or channel, given as { url } or a parsed { target }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    const userId = session?.user?.id || session?.user?.email;
+    if (!userId) {
+      return unauthorized();
+    }
+
+    const body = await request.json();
+    const { url, target } = body as { url?: string; target?: ParsedUrl };
+    const parsed: ParsedUrl = url ? parseYouTubeUrl(url) : target || { type: null, id: '' };
+
+    const validTarget =
+      (parsed.type === 'video' && /^[a-zA-Z0-9_-]{11}$/.test(parsed.id)) ||
+      (parsed.type === 'channel' && /^[a-zA-Z0-9_.-]{1,100}$/.test(parsed.id));
+    if (!validTarget) {
+      return NextResponse.json<APIResponse<null>>({
+        success: false,
+        error: 'A YouTube video or channel URL is required'
+      }, { status: 400 });
+    }
+
+    const item = await addWatchlistItem(userId, parsed);
+    if (!item) {
+      return NextResponse.json<APIResponse<null>>({
+        success: false,
+        error: `Watchlist is limited to ${MAX_WATCHLIST_ITEMS} items`
+      }, { status: 400 });
+    }
+
+    return NextResponse.json<APIResponse<WatchlistItem>>({
+      success: true,
+      data: item
+    });
+
+  } catch (error) {
+    console.error('Error in /api/watchlist:', error);
+    return NextResponse.json<APIResponse<null>>({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/watchlist?id=video:abc123def45
+ *
+ * Stop tracking an item
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    const userId = session?.user?.id || session?.user?.email;
+    if (!userId) {
+      return unauthorized();
+    }
+
+    const itemId = new URL(request.url).searchParams.get('id');
+    if (!itemId) {
+      return NextResponse.json<APIResponse<null>>({
+        success: false,
+        error: 'id parameter is required'
+      }, { status: 400 });
+    }
+
+    if (!(await removeWatchlistItem(userId, itemId))) {
+      return NextResponse.json<APIResponse<null>>({
+        success: false,
+        error: 'Watchlist item not found'
+      }, { status: 404 });
+    }
+
+    return NextResponse.json<APIResponse<{ removed: string }>>({
+      success: true,
+      data: { removed: itemId }
+    });
+
+  } catch (error) {
+    console.error('Error in /api/watchlist:', error);
+    return NextResponse.json<APIResponse<null>>({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
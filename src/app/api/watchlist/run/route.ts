@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import { runWatchlist } from '@/lib/watchlist';
+import { APIResponse, WatchlistEntry } from '@/types';
+
+/**
+ * POST /api/watchlist/run
+ *
+ * Refresh sentiment for { itemIds } (or the whole watchlist) and return the updated list
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    const userId = session?.user?.id || session?.user?.email;
+    if (!userId) {
+      return NextResponse.json<APIResponse<null>>({
+        success: false,
+        error: 'Unauthorized'
+      }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const { itemIds } = body as { itemIds?: string[] };
+
+    if (itemIds !== undefined && !Array.isArray(itemIds)) {
+      return NextResponse.json<APIResponse<null>>({
+        success: false,
+        error: 'itemIds must be an array'
+      }, { status: 400 });
+    }
+
+    return NextResponse.json<APIResponse<WatchlistEntry[]>>({
+      success: true,
+      data: await runWatchlist(userId, { itemIds })
+    });
+
+  } catch (error) {
+    console.error('Error in /api/watchlist/run:', error);
+    return NextResponse.json<APIResponse<null>>({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
@@ -3,11 +3,17 @@ import { getServerSession } from 'next-auth';
 import { authOptions } from '@/app/api/auth/[...nextauth]/route';
 import { google } from 'googleapis';
 import { APIResponse } from '@/types';
+import { fetchVideoData } from '@/lib/youtube';
+import { estimateDailyViews, ViewsEstimate } from '@/lib/view-estimate';
+import { getSnapshots, recordSnapshot, trackVideoSnapshots } from '@/lib/snapshots';
 
 interface ViewsData {
   date: string;
   views: number;
   dailyViews: number;
+  dailyViewsLow?: number; // confidence band, estimates only
+  dailyViewsHigh?: number;
+  observed?: boolean;
 }
 
 interface AnalyticsResponse {
@@ -18,145 +24,80 @@ interface AnalyticsResponse {
     date: string;
     views: number;
   };
-  dataSource: 'analytics' | 'fallback';
+  dataSource: 'analytics' | 'estimate';
   errorReason?: string;
+  estimate?: {
+    method: ViewsEstimate['method'];
+    decayExponent: number;
+    exponentRange: [number, number];
+    snapshotsUsed: number;
+    note: string;
+  };
   summary: {
-    totalWatchTime: number;
-    averageViewDuration: number;
+    totalWatchTime: number | null; // null when not observable without Analytics access
+    averageViewDuration: number | null;
     likes: number;
     comments: number;
-    subscribersGained: number;
+    subscribersGained: number | null;
   };
 }
 
-// Generate fallback data when analytics API is not available
-async function generateFallbackViewsData(videoId: string): Promise<AnalyticsResponse> {
+// Estimate daily views from public statistics when the Analytics API is not available
+async function generateEstimatedViewsData(videoId: string): Promise<AnalyticsResponse> {
   try {
-    console.log(`🔄 Generating fallback analytics for video ${videoId}`);
-    
-    // Fetch basic video stats
-    const response = await fetch(
-      `https://www.googleapis.com/youtube/v3/videos?id=${videoId}&part=statistics,snippet&key=${process.env.YOUTUBE_API_KEY}`
-    );
+    console.log(`📐 Estimating daily views for video ${videoId}`);
 
-    if (!response.ok) {
-      throw new Error(`YouTube API error: ${response.status}`);
-    }
-
-    const data = await response.json();
-    
-    if (!data.items || data.items.length === 0) {
+    const video = await fetchVideoData(videoId);
+    if (!video) {
       throw new Error('Video not found');
     }
 
-    const video = data.items[0];
-    const totalViews = parseInt(video.statistics.viewCount || '0');
-    const publishedDate = new Date(video.snippet.publishedAt);
-    const currentDate = new Date();
-    
-    // Calculate days since publication, accounting for YouTube Analytics API delay (24-48 hours)
-    // Analytics data is typically available up to 2 days ago (Oct 3rd), not today (Oct 5th)
-    const analyticsEndDate = new Date(currentDate);
-    analyticsEndDate.setDate(currentDate.getDate() - 2); // 2 days ago to match API delay
-    
-    const daysSincePublished = Math.max(1, Math.ceil((analyticsEndDate.getTime() - publishedDate.getTime()) / (1000 * 60 * 60 * 24)));
-    
-    // Show data up to analytics end date (Oct 3rd), limited to 30 days max
-    const daysToShow = Math.min(30, daysSincePublished + 1); // +1 to include the end date
-    
-    console.log(`📅 Video published: ${publishedDate.toDateString()}, analytics available up to: ${analyticsEndDate.toDateString()}, showing ${daysToShow} days`);
-    
-    // Generate realistic daily view distribution from published date up to analytics end date
-    const viewsData: ViewsData[] = [];
-    let cumulativeViews = 0;
-    
-    for (let i = 0; i < daysToShow; i++) {
-      // Calculate date starting from published date + i days
-      const date = new Date(publishedDate);
-      date.setDate(publishedDate.getDate() + i);
-      
-      // Stop if we exceed the analytics end date (2 days ago)
-      if (date > analyticsEndDate) {
-        break;
-      }
-      
-      // Simulate realistic view distribution (viral pattern)
-      let dailyViews: number;
-      const dayIndex = i / Math.max(daysToShow - 1, 1); // Avoid division by zero
-      
-      // Check if this is the most recent available day (analytics end date)
-      const isLatestAvailable = date.toDateString() === analyticsEndDate.toDateString();
-      
-      if (i === 0) {
-        // First day (publish day): 20-40% of total views
-        dailyViews = Math.round(totalViews * (0.20 + Math.random() * 0.20));
-      } else if (isLatestAvailable) {
-        // Latest available day gets normal distribution (not partial like "today" would)
-        const remainingViews = Math.max(0, totalViews - cumulativeViews);
-        dailyViews = Math.round(remainingViews * (0.2 + Math.random() * 0.3)); // 20-50% of remaining views
-      } else if (dayIndex < 0.2) {
-        // Next few days: 15-25% of total views
-        dailyViews = Math.round(totalViews * (0.10 + Math.random() * 0.15));
-      } else if (dayIndex < 0.5) {
-        // Middle period: 5-15% of total views
-        dailyViews = Math.round(totalViews * (0.03 + Math.random() * 0.12));
-      } else {
-        // Tail: remaining views distributed with decay
-        const remainingViews = Math.max(0, totalViews - cumulativeViews);
-        const remainingDays = daysToShow - i;
-        const decayFactor = Math.pow(0.9, i - daysToShow * 0.5); // Exponential decay
-        dailyViews = Math.round((remainingViews / remainingDays) * decayFactor * (0.5 + Math.random() * 0.5));
-      }
-      
-      // Ensure we don't exceed total views and have realistic minimums
-      dailyViews = Math.max(0, Math.min(dailyViews, totalViews - cumulativeViews));
-      
-      // For very small videos, ensure some minimum activity
-      if (totalViews > 0 && dailyViews === 0 && cumulativeViews < totalViews) {
-        dailyViews = Math.min(1, totalViews - cumulativeViews);
-      }
-      
-      cumulativeViews += dailyViews;
-      
-      viewsData.push({
-        date: date.toISOString().split('T')[0],
-        views: cumulativeViews,
-        dailyViews
-      });
-    }
+    await trackVideoSnapshots(videoId);
+    await recordSnapshot(videoId, video);
 
-    // Ensure final cumulative views match actual total views
-    if (cumulativeViews !== totalViews) {
-      const adjustment = totalViews - cumulativeViews;
-      viewsData[viewsData.length - 1].views = totalViews;
-      viewsData[viewsData.length - 1].dailyViews = Math.max(0, viewsData[viewsData.length - 1].dailyViews + adjustment);
-    }
+    const estimate = estimateDailyViews({
+      publishedAt: video.publishedAt,
+      totalViews: video.viewCount,
+      snapshots: await getSnapshots(videoId)
+    });
 
-    const averageDailyViews = daysToShow > 0 ? Math.round(totalViews / daysToShow) : 0;
+    const viewsData = estimate.viewsPerDay;
+    const averageDailyViews = viewsData.length > 0
+      ? Math.round(viewsData.reduce((sum, day) => sum + day.dailyViews, 0) / viewsData.length)
+      : 0;
     const peakDay = viewsData.reduce((peak, day) => 
       day.dailyViews > peak.dailyViews ? day : peak, viewsData[0] || { date: '', dailyViews: 0 }
     );
 
     return {
       viewsPerDay: viewsData,
-      totalViews,
+      totalViews: video.viewCount,
       averageDailyViews,
       peakDay: {
         date: peakDay.date,
         views: peakDay.dailyViews
       },
-      dataSource: 'fallback',
+      dataSource: 'estimate',
+      estimate: {
+        method: estimate.method,
+        decayExponent: estimate.decayExponent,
+        exponentRange: estimate.exponentRange,
+        snapshotsUsed: estimate.snapshotsUsed,
+        note: estimate.snapshotsUsed > 0
+          ? `Modelled from publish date, current total views and ${estimate.snapshotsUsed} stored snapshots`
+          : 'Modelled from publish date and current total views only; daily values are not measured'
+      },
       summary: {
-        totalWatchTime: Math.round(totalViews * 120), // Estimated 2 min avg
-        averageViewDuration: 120,
-        likes: parseInt(video.statistics.likeCount || '0'),
-        comments: parseInt(video.statistics.commentCount || '0'),
-        subscribersGained: Math.round(totalViews * 0.01) // Estimated
+        totalWatchTime: null,
+        averageViewDuration: null,
+        likes: video.likeCount,
+        comments: video.commentCount,
+        subscribersGained: null
       }
     };
 
   } catch (error) {
-    console.error('❌ Error generating fallback analytics:', error);
+    console.error('❌ Error estimating views:', error);
     throw error;
   }
 }
@@ -218,7 +159,7 @@ export async function GET(req: NextRequest) {
       const userOwnedChannels = channelsResponse.data.items?.map(item => item.id) || [];
       
       if (!userOwnedChannels.includes(channelId)) {
-        console.log(`⚠️ User doesn't own channel ${channelId}, using fallback data`);
+        console.log(`⚠️ User doesn't own channel ${channelId}, using estimated data`);
         throw new Error('User does not own this channel - cannot access analytics');
       }
 
@@ -262,7 +203,7 @@ export async function GET(req: NextRequest) {
       });
 
       if (!viewsResponse.data.rows || viewsResponse.data.rows.length === 0) {
-        console.log('⚠️ No analytics data available for this video, using fallback');
+        console.log('⚠️ No analytics data available for this video, using estimate');
         throw new Error('No analytics data available for this video');
       }
 
@@ -334,8 +275,8 @@ export async function GET(req: NextRequest) {
         }
       }
       
-      console.log(`🔄 Using intelligent fallback due to: ${errorReason}`);
-      analyticsData = await generateFallbackViewsData(videoId);
+      console.log(`📐 Using view estimate due to: ${errorReason}`);
+      analyticsData = await generateEstimatedViewsData(videoId);
       
       // Add error reason to the response
       analyticsData.errorReason = errorReason;
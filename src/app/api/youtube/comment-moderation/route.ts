@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import { moderateComments, MODERATION_ACTIONS } from '@/lib/comment-moderation';
+import { APIResponse, ModerationAction, ModerationResult } from '@/types';
+
+const MAX_COMMENTS = 200;
+
+/**
+ * POST /api/youtube/comment-moderation
+ *
+ * Hold for review, reject, ban the author of, or report as spam one or more comments on a video.
+ * Body: { videoId, commentIds: string[], action: 'hold' | 'reject' | 'ban' | 'spam' }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.accessToken) {
+      return NextResponse.json<APIResponse<null>>({
+        success: false,
+        error: 'Authentication required'
+      }, { status: 401 });
+    }
+
+    const { videoId, commentIds, action } = await request.json();
+
+    if (!videoId || !/^[a-zA-Z0-9_-]{11}$/.test(videoId)) {
+      return NextResponse.json<APIResponse<null>>({
+        success: false,
+        error: 'A valid videoId is required'
+      }, { status: 400 });
+    }
+
+    if (!MODERATION_ACTIONS.includes(action)) {
+      return NextResponse.json<APIResponse<null>>({
+        success: false,
+        error: `action must be one of: ${MODERATION_ACTIONS.join(', ')}`
+      }, { status: 400 });
+    }
+
+    if (
+      !Array.isArray(commentIds) ||
+      commentIds.length === 0 ||
+      commentIds.length > MAX_COMMENTS ||
+      !commentIds.every(id => typeof id === 'string' && id.length > 0)
+    ) {
+      return NextResponse.json<APIResponse<null>>({
+        success: false,
+        error: `commentIds must be a list of 1-${MAX_COMMENTS} comment ids`
+      }, { status: 400 });
+    }
+
+    const uniqueIds = [...new Set<string>(commentIds)];
+    const result = await moderateComments(session.accessToken, videoId, uniqueIds, action as ModerationAction);
+
+    // Nothing applied: surface the YouTube error instead of a partial result
+    if (result.succeeded.length === 0) {
+      return NextResponse.json<APIResponse<ModerationResult>>({
+        success: false,
+        error: result.failed[0]?.error || 'Failed to moderate comments',
+        data: result
+      }, { status: 502 });
+    }
+
+    return NextResponse.json<APIResponse<ModerationResult>>({
+      success: true,
+      data: result
+    });
+
+  } catch (error) {
+    console.error('Error in /api/youtube/comment-moderation:', error);
+    return NextResponse.json<APIResponse<null>>({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
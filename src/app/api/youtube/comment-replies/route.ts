@@ -1,12 +1,21 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth/next';
 import { authOptions } from '@/app/api/auth/[...nextauth]/route';
-import { google } from 'googleapis';
+import { YouTubeService } from '@/lib/youtube-service';
+import { getStoredReplies, scoreStoredComments, storeCommentReplies } from '@/lib/comment-store';
+import { getCorrectionExamplesForVideo } from '@/lib/sentiment-corrections';
 
+/**
+ * GET /api/youtube/comment-replies?commentId=...&ownerOnly=true&videoId=...
+ *
+ * Replies to a comment; ownerOnly keeps just the signed-in channel's own replies.
+ * With videoId, the full thread is stored and scored (with the parent as context) and the
+ * response adds each reply's sentiment and the thread-level sentiment.
+ */
 export async function GET(request: NextRequest) {
   try {
     const session = await getServerSession(authOptions);
-    
+
     if (!session?.accessToken) {
       return NextResponse.json({
         success: false,
@@ -16,6 +25,8 @@ export async function GET(request: NextRequest) {
 
     const { searchParams } = new URL(request.url);
     const commentId = searchParams.get('commentId');
+    const videoId = searchParams.get('videoId');
+    const ownerOnly = searchParams.get('ownerOnly') === 'true';
 
     if (!commentId) {
       return NextResponse.json({
@@ -24,43 +35,60 @@ export async function GET(request: NextRequest) {
       }, { status: 400 });
     }
 
-    // Set up YouTube API client
-    const auth = new google.auth.OAuth2();
-    auth.setCredentials({ access_token: session.accessToken });
-    const youtube = google.youtube({ version: 'v3', auth });
+    if (videoId && !/^[a-zA-Z0-9_-]{11}$/.test(videoId)) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid video ID format'
+      }, { status: 400 });
+    }
+
+    const youtubeService = new YouTubeService(session.accessToken);
 
     try {
-      // Get replies to the comment
-      const repliesResponse = await youtube.comments.list({
-        part: ['snippet'],
-        parentId: commentId,
-        maxResults: 100
-      });
+      // No channel on the account means no owner replies, not every reply
+      const ownerChannelId = ownerOnly
+        ? await youtubeService.getOwnChannelId() || ''
+        : undefined;
+      const replies = await youtubeService.getCommentReplies(commentId, ownerChannelId);
+
+      // Only a complete thread is worth scoring; owner-only lists are a subset
+      if (!videoId || ownerOnly || replies.length === 0) {
+        return NextResponse.json({
+          success: true,
+          data: {
+            replies,
+            totalCount: replies.length
+          }
+        });
+      }
 
-      const replies = repliesResponse.data.items?.map((reply: any) => ({
-        id: reply.id,
-        textDisplay: reply.snippet?.textDisplay || '',
-        authorDisplayName: reply.snippet?.authorDisplayName || '',
-        authorProfileImageUrl: reply.snippet?.authorProfileImageUrl || '',
-        authorChannelId: reply.snippet?.authorChannelId,
-        likeCount: reply.snippet?.likeCount || '0',
-        publishedAt: reply.snippet?.publishedAt || '',
-        updatedAt: reply.snippet?.updatedAt || '',
-      })) || [];
+      await storeCommentReplies(videoId, commentId, replies.map(reply => ({
+        ...reply,
+        parentId: commentId
+      })));
+      const userId = session.user?.id || session.user?.email;
+      const examples = await getCorrectionExamplesForVideo(userId, () => youtubeService.ownsVideo(videoId));
+      const [parent] = await scoreStoredComments(videoId, [commentId], examples);
+      const scoredReplies = new Map((await getStoredReplies(videoId, commentId)).map(reply => [reply.id, reply]));
 
       return NextResponse.json({
         success: true,
         data: {
-          replies,
-          totalCount: replies.length
+          replies: replies.map(reply => ({
+            ...reply,
+            sentiment: scoredReplies.get(reply.id)?.sentiment,
+            confidence: scoredReplies.get(reply.id)?.confidence
+          })),
+          totalCount: replies.length,
+          thread: parent?.thread
         }
       });
 
-    } catch (youtubeError: any) {
+    } catch (youtubeError) {
       console.error('YouTube API error:', youtubeError);
       return NextResponse.json({
         success: false,
-        error: youtubeError.message || 'Failed to fetch comment replies'
+        error: youtubeError instanceof Error ? youtubeError.message : 'Failed to fetch comment replies'
       }, { status: 500 });
     }
 
@@ -71,4 +99,4 @@ export async function GET(request: NextRequest) {
       error: 'Failed to fetch comment replies'
     }, { status: 500 });
   }
-}
\ No newline at end of file
+}
@@ -1,14 +1,20 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/app/api/auth/[...nextauth]/route';
-import { YouTubeService } from '@/lib/youtube-service';
-import { APIResponse } from '@/types';
+import { YouTubeService, describeReplyError } from '@/lib/youtube-service';
+import { APIResponse, GuardrailResult } from '@/types';
+import { getVoiceProfile } from '@/lib/voice-profile';
 import { 
   generateReplyWithMistral, 
   type ReplyGenerationContext,
   cleanText,
-  detectLanguage 
+  FALLBACK_REPLY_MODEL,
+  type GeneratedReply
 } from '@/lib/ai-services-pro';
+import { buildReplyLanguagePolicy, INVALID_LANGUAGE_POLICY, REPLY_LANGUAGE_MODES, resolveReplyLanguage } from '@/lib/reply-language';
+import { LANGUAGE_NAMES } from '@/lib/language-id';
+import { checkReplySafety, describeGuardrailIssues, recordGuardrailCheck } from '@/lib/reply-guardrails';
+import { findReplyDraft, recordPostedReply } from '@/lib/reply-audit';
 
 /**
  * POST /api/youtube/comment-reply
@@ -18,6 +24,7 @@ import {
  * - Context-aware replies using video data
  * - Multilingual support 
  * - Creator-authentic tone
+ * - Safety guardrails: blocked replies are refused (422), flagged ones need confirmFlagged (409)
  * - Professional error handling
  */
 export async function POST(request: NextRequest) {
@@ -43,6 +50,11 @@ export async function POST(request: NextRequest) {
       transcript,
       channelTitle,
       customReply,
+      generatedReply, // AI draft the custom reply started from, for the audit log
+      languageMode,
+      channelLanguage,
+      replyLanguage,
+      confirmFlagged = false,
       replyTone = 'friendly'
     } = body;
 
@@ -61,45 +73,55 @@ export async function POST(request: NextRequest) {
       }, { status: 400 });
     }
 
+    const languagePolicy = buildReplyLanguagePolicy({ mode: languageMode, channelLanguage, fixedLanguage: replyLanguage });
+    if (!languagePolicy) {
+      return NextResponse.json<APIResponse<null>>({
+        success: false,
+        error: INVALID_LANGUAGE_POLICY
+      }, { status: 400 });
+    }
+    const languageDecision = resolveReplyLanguage(cleanText(commentText), languagePolicy);
+
     console.log(`🤖 Generating reply for comment: "${commentText.substring(0, 50)}..."`);
     console.log(`📹 Video: "${videoTitle}" (${videoId})`);
 
     let replyText: string;
+    const userId = session.user?.id || session.user?.email || '';
+
+    // What produced the AI draft, for the audit log; null when the reply was written from scratch
+    let draft: GeneratedReply | null = null;
+
+    const replyContext: ReplyGenerationContext = {
+      commentText: cleanText(commentText),
+      videoTitle: cleanText(videoTitle),
+      videoDescription: videoDescription ? cleanText(videoDescription) : undefined,
+      transcript: transcript ? cleanText(transcript) : undefined,
+      channelName: channelTitle ? cleanText(channelTitle) : undefined,
+      commentLanguage: languageDecision.commentLanguage,
+      replyLanguage: languageDecision.language,
+      commentSentiment: 'neutral', // Could be enhanced with sentiment analysis
+      replyTone: replyTone as 'friendly' | 'professional' | 'casual' | 'humorous',
+      voiceProfile: await getVoiceProfile(userId)
+    };
 
     if (customReply?.trim()) {
       // Use custom reply if provided
       replyText = cleanText(customReply.trim());
+      // Only drafts this server generated for the user carry a model and prompt into the audit log
+      if (typeof generatedReply === 'string' && generatedReply.trim()) {
+        draft = await findReplyDraft(userId, generatedReply);
+      }
       console.log(`✅ Using custom reply: "${replyText.substring(0, 50)}..."`);
     } else {
       // Generate AI reply using Mistral medium-2508
-      const cleanComment = cleanText(commentText);
-      const detectedLanguage = detectLanguage(cleanComment);
-      
       console.log(`🧠 Generating AI reply with Mistral medium-2508`);
-      console.log(`🌍 Detected language: ${detectedLanguage}, Tone: ${replyTone}`);
+      console.log(`🌍 Comment language: ${languageDecision.commentLanguage}, reply in ${languageDecision.language} [${languageDecision.mode}], Tone: ${replyTone}`);
 
-      // Build comprehensive context for Mistral
-      const replyContext: ReplyGenerationContext = {
-        commentText: cleanComment,
-        videoTitle: cleanText(videoTitle),
-        videoDescription: videoDescription ? cleanText(videoDescription) : undefined,
-        transcript: transcript ? cleanText(transcript) : undefined,
-        channelName: channelTitle ? cleanText(channelTitle) : undefined,
-        commentLanguage: detectedLanguage,
-        commentSentiment: 'neutral', // Could be enhanced with sentiment analysis
-        replyTone: replyTone as 'friendly' | 'professional' | 'casual' | 'humorous'
-      };
-
-      try {
-        replyText = await generateReplyWithMistral(replyContext);
-        console.log(`✅ Generated AI reply: "${replyText}"`);
-      } catch (aiError) {
-        console.error('❌ Mistral reply generation failed:', aiError);
-        
-        // Intelligent fallback based on comment analysis
-        replyText = generateIntelligentFallback(cleanComment, detectedLanguage, replyTone);
-        console.log(`🔄 Using intelligent fallback: "${replyText}"`);
-      }
+      draft = await generateReplyWithMistral(replyContext);
+      replyText = draft.text;
+      console.log(draft.model === FALLBACK_REPLY_MODEL
+        ? `🔄 Using intelligent fallback: "${replyText}"`
+        : `✅ Generated AI reply: "${replyText}"`);
     }
 
     // Validate reply length and content
@@ -114,31 +136,62 @@ export async function POST(request: NextRequest) {
       replyText = replyText.substring(0, 277) + '...';
     }
 
+    // Guardrails: blocked replies are never posted, flagged ones need confirmFlagged
+    const guardrail = checkReplySafety(replyText, {
+      commentText,
+      videoTitle,
+      videoDescription,
+      transcript
+    });
+    const held = guardrail.verdict === 'block' || (guardrail.verdict === 'flag' && !confirmFlagged);
+    await recordGuardrailCheck(userId, {
+      source: 'direct',
+      videoId,
+      commentId,
+      reply: replyText,
+      outcome: guardrail.verdict === 'block' ? 'blocked' : held ? 'held' : 'allowed'
+    }, guardrail);
+
+    if (held) {
+      console.log(`🛡️ Reply ${guardrail.verdict === 'block' ? 'blocked' : 'held for confirmation'}: ${describeGuardrailIssues(guardrail)}`);
+      return NextResponse.json<APIResponse<GuardrailResult>>({
+        success: false,
+        error: guardrail.verdict === 'block'
+          ? `Reply blocked: ${describeGuardrailIssues(guardrail)}`
+          : `Reply needs confirmation: ${describeGuardrailIssues(guardrail)}`,
+        data: guardrail
+      }, { status: guardrail.verdict === 'block' ? 422 : 409 });
+    }
+
     // Post reply to YouTube
     try {
       console.log(`📤 Posting reply to YouTube comment ${commentId}`);
       
-      // Initialize YouTube service with access token
       const youtubeService = new YouTubeService(session.accessToken as string);
-      
-      // Use the google.youtube API directly from the service
-      const youtube = (youtubeService as any).youtube;
-      
-      const replyResponse = await youtube.comments.insert({
-        part: ['snippet'],
-        requestBody: {
-          snippet: {
-            parentId: commentId,
-            textOriginal: replyText
-          }
-        }
-      });
+      const replyId = await youtubeService.replyToComment(commentId, replyText);
 
-      const postedReply = replyResponse.data;
       const processingTime = Date.now() - startTime;
 
       console.log(`✅ Reply posted successfully in ${processingTime}ms`);
-      console.log(`📝 Reply ID: ${postedReply.id}`);
+      console.log(`📝 Reply ID: ${replyId}`);
+
+      const aiDraft = customReply ? draft?.text : replyText;
+      const isCustom = !aiDraft || aiDraft !== replyText;
+      await recordPostedReply(userId, {
+        userName: session.user?.name || session.user?.email || undefined,
+        source: 'direct',
+        videoId,
+        videoTitle,
+        commentId,
+        commentText,
+        replyId,
+        replyText,
+        tone: replyTone,
+        model: draft ? draft.model : 'custom',
+        isCustom,
+        aiDraft: isCustom && aiDraft ? aiDraft : undefined,
+        prompt: draft?.prompt
+      }).catch(auditError => console.error(`❌ Audit record failed for reply ${replyId}:`, auditError));
 
       return NextResponse.json<APIResponse<{
         replyId: string;
@@ -155,14 +208,14 @@ export async function POST(request: NextRequest) {
       }>>({
         success: true,
         data: {
-          replyId: postedReply.id!,
+          replyId,
           replyText: replyText,
           metadata: {
             videoId,
             commentId,
             processingTimeMs: processingTime,
-            model: customReply ? 'custom' : 'mistral-medium-latest',
-            language: detectLanguage(commentText),
+            model: draft && !customReply ? draft.model : 'custom',
+            language: languageDecision.language,
             tone: replyTone,
             isCustomReply: !!customReply
           }
@@ -172,19 +225,9 @@ export async function POST(request: NextRequest) {
     } catch (youtubeError: any) {
       console.error('❌ YouTube API error:', youtubeError);
       
-      // Handle specific YouTube API errors
-      let errorMessage = 'Failed to post reply to YouTube';
-      if (youtubeError.response?.status === 403) {
-        errorMessage = 'Insufficient permissions to reply to this comment';
-      } else if (youtubeError.response?.status === 404) {
-        errorMessage = 'Comment not found or video unavailable';
-      } else if (youtubeError.response?.status === 400) {
-        errorMessage = 'Invalid comment or reply content';
-      }
-
       return NextResponse.json<APIResponse<null>>({
         success: false,
-        error: errorMessage
+        error: describeReplyError(youtubeError)
       }, { status: youtubeError.response?.status || 500 });
     }
 
@@ -206,114 +249,6 @@ export async function POST(request: NextRequest) {
   }
 }
 
-/**
- * Generate intelligent fallback reply when AI fails
- */
-function generateIntelligentFallback(
-  commentText: string, 
-  language: string, 
-  tone: string
-): string {
-  const text = commentText.toLowerCase();
-  
-  // Language-specific fallback replies
-  const fallbackReplies = {
-    en: {
-      friendly: {
-        positive: [
-          "Thank you so much! Really appreciate your support! 😊",
-          "So glad you enjoyed it! More content coming soon! 🙌",
-          "Your comment made my day! Thanks for watching! ❤️"
-        ],
-        negative: [
-          "Thanks for the feedback! Always working to improve 💪",
-          "I hear you! Will definitely consider this for next time 👍",
-          "Appreciate the honest feedback! Helps me grow as a creator 🙏"
-        ],
-        neutral: [
-          "Thanks for watching and commenting! 😊",
-          "Great question! Thanks for engaging! 💭",
-          "Appreciate you taking the time to comment! 🙌"
-        ]
-      },
-      professional: {
-        positive: [
-          "Thank you for your positive feedback. I'm glad you found the content valuable.",
-          "I appreciate your support and am pleased the video met your expectations.",
-          "Thank you for watching and for your encouraging comment."
-        ],
-        negative: [
-          "Thank you for your feedback. I'll consider your suggestions for future content.",
-          "I appreciate your perspective and will work to address these concerns.",
-          "Your feedback is valuable and helps me improve my content."
-        ],
-        neutral: [
-          "Thank you for your comment and for watching the video.",
-          "I appreciate your engagement with the content.",
-          "Thank you for taking the time to comment."
-        ]
-      }
-    },
-    hi: {
-      friendly: {
-        positive: [
-          "धन्यवाद! आपका प्यार बहुत अच्छा लगा! 🙏❤️",
-          "खुशी हुई कि आपको पसंद आया! और भी वीडियो आएंगे! 😊",
-          "आपका comment देखकर दिन बन गया! धन्यवाद! 🌟"
-        ],
-        negative: [
-          "सुझाव के लिए धन्यवाद! अगली बार बेहतर करूंगा! 💪",
-          "आपकी बात सही है! मेहनत करता रहूंगा! 👍",
-          "फीडबैक के लिए शुक्रिया! इससे सीखने मिलता है! 🙏"
-        ],
-        neutral: [
-          "देखने के लिए धन्यवाद! 😊",
-          "comment करने के लिए शुक्रिया! 🙌",
-          "आपका साथ बहुत अच्छा लगता है! ❤️"
-        ]
-      }
-    },
-    es: {
-      friendly: {
-        positive: [
-          "¡Muchísimas gracias! Me alegra que te haya gustado! 😊❤️",
-          "¡Qué bueno que lo disfrutaste! ¡Más contenido pronto! 🙌",
-          "¡Tu comentario me hizo el día! ¡Gracias por ver! 🌟"
-        ],
-        negative: [
-          "Gracias por el feedback! Siempre tratando de mejorar 💪",
-          "Tienes razón! Trabajaré en eso para la próxima 👍",
-          "Aprecio tu honestidad! Me ayuda a crecer 🙏"
-        ],
-        neutral: [
-          "¡Gracias por ver y comentar! 😊",
-          "¡Buena pregunta! Gracias por participar 💭",
-          "¡Aprecio que te tomes el tiempo de comentar! 🙌"
-        ]
-      }
-    }
-  };
-
-  // Detect sentiment based on keywords
-  const positiveKeywords = ['good', 'great', 'awesome', 'amazing', 'love', 'like', 'thanks', 'अच्छा', 'बहुत', 'छान', 'bueno', 'gracias'];
-  const negativeKeywords = ['bad', 'terrible', 'hate', 'dislike', 'worst', 'बुरा', 'खराब', 'malo', 'horrible'];
-  
-  const hasPositive = positiveKeywords.some(keyword => text.includes(keyword));
-  const hasNegative = negativeKeywords.some(keyword => text.includes(keyword));
-  
-  let sentiment: 'positive' | 'negative' | 'neutral' = 'neutral';
-  if (hasPositive && !hasNegative) sentiment = 'positive';
-  else if (hasNegative && !hasPositive) sentiment = 'negative';
-
-  // Get appropriate fallback
-  const langReplies = fallbackReplies[language as keyof typeof fallbackReplies] || fallbackReplies.en;
-  const toneReplies = langReplies[tone as keyof typeof langReplies] || langReplies.friendly;
-  const sentimentReplies = toneReplies[sentiment];
-  
-  // Random selection for variety
-  return sentimentReplies[Math.floor(Math.random() * sentimentReplies.length)];
-}
-
 /**
  * GET /api/youtube/comment-reply
  * 
@@ -331,20 +266,11 @@ export async function GET() {
       'Creator-authentic tone',
       'Custom reply support',
       'Intelligent fallbacks',
+      'Safety guardrails before posting',
       'YouTube API integration'
     ],
-    supportedLanguages: [
-      'English (en)',
-      'Hindi (hi)', 
-      'Marathi (mr)',
-      'Spanish (es)',
-      'French (fr)',
-      'German (de)',
-      'Arabic (ar)',
-      'Chinese (zh)',
-      'Japanese (ja)',
-      'Korean (ko)'
-    ],
+    supportedLanguages: Object.entries(LANGUAGE_NAMES).map(([code, name]) => `${name} (${code})`),
+    languageModes: REPLY_LANGUAGE_MODES,
     supportedTones: ['friendly', 'professional', 'casual', 'humorous'],
     usage: {
       endpoint: 'POST /api/youtube/comment-reply',
@@ -354,6 +280,11 @@ export async function GET() {
         'transcript', 
         'channelTitle',
         'customReply',
+        'generatedReply',
+        'confirmFlagged',
+        'languageMode',
+        'channelLanguage',
+        'replyLanguage',
         'replyTone'
       ]
     },
@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import { getCustomAspects, normalizeCustomAspects, saveCustomAspects } from '@/lib/aspect-sentiment';
+import { APIResponse, AspectDefinition } from '@/types';
+
+const unauthorized = () => NextResponse.json<APIResponse<null>>({
+  success: false,
+  error: 'Unauthorized'
+}, { status: 401 });
+
+/**
+ * GET /api/youtube/custom-aspects
+ *
+ * The aspects the signed-in creator tracks on top of the built-in ones
+ */
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+    const userId = session?.user?.id || session?.user?.email;
+    if (!userId) {
+      return unauthorized();
+    }
+
+    return NextResponse.json<APIResponse<AspectDefinition[]>>({
+      success: true,
+      data: await getCustomAspects(userId)
+    });
+
+  } catch (error) {
+    console.error('Error in /api/youtube/custom-aspects:', error);
+    return NextResponse.json<APIResponse<null>>({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
+
+/**
+ * PUT /api/youtube/custom-aspects
+ *
+ * Replace the custom aspects. Body: { aspects: [{ label, keywords: string[] }] }
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    const userId = session?.user?.id || session?.user?.email;
+    if (!userId) {
+      return unauthorized();
+    }
+
+    const { aspects } = await request.json();
+    const normalized = normalizeCustomAspects(aspects);
+    if (typeof normalized === 'string') {
+      return NextResponse.json<APIResponse<null>>({
+        success: false,
+        error: normalized
+      }, { status: 400 });
+    }
+
+    return NextResponse.json<APIResponse<AspectDefinition[]>>({
+      success: true,
+      data: await saveCustomAspects(userId, normalized)
+    });
+
+  } catch (error) {
+    console.error('Error in /api/youtube/custom-aspects:', error);
+    return NextResponse.json<APIResponse<null>>({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
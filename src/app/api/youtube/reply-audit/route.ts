@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import { listReplyAudit, retractReply } from '@/lib/reply-audit';
+import { type GoogleApiError } from '@/lib/youtube-service';
+import { APIResponse, ReplyAuditEntry } from '@/types';
+
+const unauthorized = () => NextResponse.json<APIResponse<null>>({
+  success: false,
+  error: 'Unauthorized'
+}, { status: 401 });
+
+/**
+ * GET /api/youtube/reply-audit?videoId=...&limit=100
+ *
+ * Replies posted through SentimentTrack by the signed-in user, newest first
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    const userId = session?.user?.id || session?.user?.email;
+    if (!userId) {
+      return unauthorized();
+    }
+
+    const { searchParams } = request.nextUrl;
+    const videoId = searchParams.get('videoId') || undefined;
+    if (videoId && !/^[a-zA-Z0-9_-]{11}$/.test(videoId)) {
+      return NextResponse.json<APIResponse<null>>({
+        success: false,
+        error: 'Invalid video ID format'
+      }, { status: 400 });
+    }
+    const limit = Math.min(500, Math.max(1, Number(searchParams.get('limit')) || 100));
+
+    return NextResponse.json<APIResponse<ReplyAuditEntry[]>>({
+      success: true,
+      data: await listReplyAudit(userId, { videoId, limit })
+    });
+
+  } catch (error) {
+    console.error('Error in /api/youtube/reply-audit:', error);
+    return NextResponse.json<APIResponse<null>>({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/youtube/reply-audit?id=...
+ *
+ * Retract a posted reply: delete it from YouTube and mark the audit entry as deleted
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    const userId = session?.user?.id || session?.user?.email;
+    if (!userId || !session?.accessToken) {
+      return unauthorized();
+    }
+
+    const id = request.nextUrl.searchParams.get('id');
+    if (!id) {
+      return NextResponse.json<APIResponse<null>>({
+        success: false,
+        error: 'id is required'
+      }, { status: 400 });
+    }
+
+    let result: Awaited<ReturnType<typeof retractReply>>;
+    try {
+      result = await retractReply(userId, id, session.accessToken, session.user?.email || userId);
+    } catch (youtubeError) {
+      console.error('❌ YouTube API error deleting reply:', youtubeError);
+      const status = (youtubeError as GoogleApiError | undefined)?.response?.status;
+      return NextResponse.json<APIResponse<null>>({
+        success: false,
+        error: status === 403 ? 'Insufficient permissions to delete this reply' : 'Failed to delete reply from YouTube'
+      }, { status: status || 500 });
+    }
+
+    if (result === 'not-found') {
+      return NextResponse.json<APIResponse<null>>({
+        success: false,
+        error: 'Audit entry not found'
+      }, { status: 404 });
+    }
+    if (result === 'already-deleted') {
+      return NextResponse.json<APIResponse<null>>({
+        success: false,
+        error: 'Reply was already deleted'
+      }, { status: 409 });
+    }
+
+    console.log(`🗑️ Reply ${result.replyId} retracted by ${result.deletedBy}`);
+
+    return NextResponse.json<APIResponse<ReplyAuditEntry>>({
+      success: true,
+      data: result
+    });
+
+  } catch (error) {
+    console.error('Error in /api/youtube/reply-audit:', error);
+    return NextResponse.json<APIResponse<null>>({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
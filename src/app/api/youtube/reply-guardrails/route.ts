@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import { listGuardrailLog } from '@/lib/reply-guardrails';
+import { APIResponse, GuardrailLogEntry } from '@/types';
+
+/**
+ * GET /api/youtube/reply-guardrails?limit=100
+ *
+ * Replies the guardrails flagged or blocked for the signed-in creator, newest first, with the reasons
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    const userId = session?.user?.id || session?.user?.email;
+    if (!userId) {
+      return NextResponse.json<APIResponse<null>>({
+        success: false,
+        error: 'Unauthorized'
+      }, { status: 401 });
+    }
+
+    const limit = Math.min(500, Math.max(1, Number(request.nextUrl.searchParams.get('limit')) || 100));
+
+    return NextResponse.json<APIResponse<GuardrailLogEntry[]>>({
+      success: true,
+      data: await listGuardrailLog(userId, limit)
+    });
+
+  } catch (error) {
+    console.error('Error in /api/youtube/reply-guardrails:', error);
+    return NextResponse.json<APIResponse<null>>({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
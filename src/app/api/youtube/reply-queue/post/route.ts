@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import { postApprovedReplies } from '@/lib/reply-queue';
+import { APIResponse } from '@/types';
+
+/**
+ * POST /api/youtube/reply-queue/post
+ *
+ * Start posting the signed-in user's approved replies ({ itemIds? } limits the run).
+ * Replies go out one at a time in the background; poll GET /api/youtube/reply-queue for per-item status.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    const userId = session?.user?.id || session?.user?.email;
+    if (!userId || !session?.accessToken) {
+      return NextResponse.json<APIResponse<null>>({
+        success: false,
+        error: 'Authentication required for comment replies'
+      }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const { itemIds } = body as { itemIds?: string[] };
+    if (itemIds !== undefined && !Array.isArray(itemIds)) {
+      return NextResponse.json<APIResponse<null>>({
+        success: false,
+        error: 'itemIds must be an array'
+      }, { status: 400 });
+    }
+
+    const pending = await postApprovedReplies(userId, session.accessToken as string, itemIds);
+    if (pending === null) {
+      return NextResponse.json<APIResponse<null>>({
+        success: false,
+        error: 'Replies are already being posted'
+      }, { status: 409 });
+    }
+
+    console.log(`📤 Posting ${pending} approved replies`);
+
+    return NextResponse.json<APIResponse<{ pending: number }>>({
+      success: true,
+      data: { pending }
+    });
+
+  } catch (error) {
+    console.error('Error in /api/youtube/reply-queue/post:', error);
+    return NextResponse.json<APIResponse<null>>({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
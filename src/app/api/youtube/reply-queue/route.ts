@@ -0,0 +1,224 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import {
+  enqueueReplies,
+  listReplyQueue,
+  MAX_QUEUE_ITEMS,
+  removeReplyItems,
+  updateReplyItem,
+  type ReplyItemChanges
+} from '@/lib/reply-queue';
+import { APIResponse, CommentData, ReplyQueueItem, ReplyQueueStatus, ReplyTone } from '@/types';
+
+const TONES: ReplyTone[] = ['friendly', 'professional', 'casual', 'humorous'];
+const REVIEW_STATUSES: NonNullable<ReplyItemChanges['status']>[] = ['review', 'approved', 'rejected', 'drafting'];
+const MAX_BATCH_SIZE = 100;
+
+const unauthorized = () => NextResponse.json<APIResponse<null>>({
+  success: false,
+  error: 'Unauthorized'
+}, { status: 401 });
+
+const badRequest = (error: string) => NextResponse.json<APIResponse<null>>({
+  success: false,
+  error
+}, { status: 400 });
+
+/**
+ * GET /api/youtube/reply-queue?videoId=...
+ *
+ * The signed-in user's reply queue, optionally for one video
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    const userId = session?.user?.id || session?.user?.email;
+    if (!userId) {
+      return unauthorized();
+    }
+
+    const videoId = new URL(request.url).searchParams.get('videoId') || undefined;
+    return NextResponse.json<APIResponse<ReplyQueueItem[]>>({
+      success: true,
+      data: await listReplyQueue(userId, videoId)
+    });
+
+  } catch (error) {
+    console.error('Error in /api/youtube/reply-queue:', error);
+    return NextResponse.json<APIResponse<null>>({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/youtube/reply-queue
+ *
+ * Queue { comments } of a video for drafting. Drafts are generated in the background;
+ * poll GET until the items leave the 'drafting' status.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    const userId = session?.user?.id || session?.user?.email;
+    if (!userId) {
+      return unauthorized();
+    }
+
+    const body = await request.json();
+    const { videoId, videoTitle, videoContext, comments, replyTone = 'friendly' } = body as {
+      videoId?: string;
+      videoTitle?: string;
+      videoContext?: string;
+      comments?: Array<Pick<CommentData, 'id' | 'textDisplay' | 'authorDisplayName'>>;
+      replyTone?: ReplyTone;
+    };
+
+    if (!videoId || !/^[a-zA-Z0-9_-]{11}$/.test(videoId)) {
+      return badRequest('A valid videoId is required');
+    }
+    if (!videoTitle) {
+      return badRequest('videoTitle is required for context-aware replies');
+    }
+    if (!Array.isArray(comments) || comments.length === 0 || comments.some(comment => !comment?.id || !comment.textDisplay)) {
+      return badRequest('comments must be a non-empty array of { id, textDisplay, authorDisplayName }');
+    }
+    if (comments.length > MAX_BATCH_SIZE) {
+      return badRequest(`At most ${MAX_BATCH_SIZE} comments can be queued at once`);
+    }
+    if (!TONES.includes(replyTone)) {
+      return badRequest(`replyTone must be one of: ${TONES.join(', ')}`);
+    }
+
+    const queued = await enqueueReplies(userId, {
+      videoId,
+      videoTitle,
+      videoContext,
+      tone: replyTone,
+      comments: comments.map(comment => ({
+        id: comment.id,
+        textDisplay: comment.textDisplay,
+        authorDisplayName: comment.authorDisplayName || 'Viewer'
+      }))
+    });
+
+    console.log(`📝 Queued ${queued.length} of ${comments.length} comments for reply drafting`);
+
+    return NextResponse.json<APIResponse<{ queued: ReplyQueueItem[]; skipped: number; limit: number }>>({
+      success: true,
+      data: { queued, skipped: comments.length - queued.length, limit: MAX_QUEUE_ITEMS }
+    });
+
+  } catch (error) {
+    console.error('Error in /api/youtube/reply-queue:', error);
+    return NextResponse.json<APIResponse<null>>({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
+
+/**
+ * PATCH /api/youtube/reply-queue
+ *
+ * Edit a draft and/or move an item to review, approved, rejected or back to drafting:
+ * { id, draft?, status? }
+ */
+export async function PATCH(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    const userId = session?.user?.id || session?.user?.email;
+    if (!userId) {
+      return unauthorized();
+    }
+
+    const body = await request.json();
+    const { id, draft, status } = body as { id?: string; draft?: string; status?: ReplyItemChanges['status'] };
+
+    if (!id) {
+      return badRequest('id is required');
+    }
+    if (draft !== undefined && typeof draft !== 'string') {
+      return badRequest('draft must be a string');
+    }
+    if (status !== undefined && !REVIEW_STATUSES.includes(status)) {
+      return badRequest(`status must be one of: ${REVIEW_STATUSES.join(', ')}`);
+    }
+
+    const result = await updateReplyItem(userId, id, { draft, status });
+    if (result === 'not-found') {
+      return NextResponse.json<APIResponse<null>>({
+        success: false,
+        error: 'Queue item not found'
+      }, { status: 404 });
+    }
+    if (result === 'locked') {
+      return NextResponse.json<APIResponse<null>>({
+        success: false,
+        error: 'Item is being drafted, posted or was already posted'
+      }, { status: 409 });
+    }
+    if (result === 'empty-draft') {
+      return badRequest('Cannot approve an empty reply');
+    }
+    if (result === 'blocked') {
+      return NextResponse.json<APIResponse<null>>({
+        success: false,
+        error: 'This reply was blocked by the reply guardrails. Edit the draft to resolve the issues first.'
+      }, { status: 422 });
+    }
+
+    return NextResponse.json<APIResponse<ReplyQueueItem>>({
+      success: true,
+      data: result
+    });
+
+  } catch (error) {
+    console.error('Error in /api/youtube/reply-queue:', error);
+    return NextResponse.json<APIResponse<null>>({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/youtube/reply-queue?id=...  or  ?status=posted
+ *
+ * Remove one item, or clear every item with a status
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    const userId = session?.user?.id || session?.user?.email;
+    if (!userId) {
+      return unauthorized();
+    }
+
+    const { searchParams } = new URL(request.url);
+    const id = searchParams.get('id');
+    const status = searchParams.get('status') as ReplyQueueStatus | null;
+    if (!id && !status) {
+      return badRequest('id or status parameter is required');
+    }
+
+    const removed = await removeReplyItems(userId, {
+      ids: id ? [id] : undefined,
+      status: status || undefined
+    });
+
+    return NextResponse.json<APIResponse<{ removed: number }>>({
+      success: true,
+      data: { removed }
+    });
+
+  } catch (error) {
+    console.error('Error in /api/youtube/reply-queue:', error);
+    return NextResponse.json<APIResponse<null>>({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
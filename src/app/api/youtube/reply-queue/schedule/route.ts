@@ -0,0 +1,124 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import { listScheduledReplies, scheduleReplies } from '@/lib/reply-queue';
+import { getCredentialStatus, saveYouTubeCredentials, type CredentialStatus } from '@/lib/youtube-credentials';
+import { APIResponse, ReplyQueueItem } from '@/types';
+
+const MAX_SPACING_MINUTES = 24 * 60;
+// The schedule picker has minute precision, so "now" can arrive slightly in the past
+const START_GRACE_MS = 5 * 60 * 1000;
+
+/**
+ * GET /api/youtube/reply-queue/schedule
+ *
+ * The signed-in user's scheduled replies and whether background posting can use their account
+ */
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+    const userId = session?.user?.id || session?.user?.email;
+    if (!userId) {
+      return NextResponse.json<APIResponse<null>>({
+        success: false,
+        error: 'Unauthorized'
+      }, { status: 401 });
+    }
+
+    const [items, credentials] = await Promise.all([
+      listScheduledReplies(userId),
+      getCredentialStatus(userId)
+    ]);
+
+    return NextResponse.json<APIResponse<{ items: ReplyQueueItem[]; credentials: CredentialStatus }>>({
+      success: true,
+      data: { items, credentials }
+    });
+
+  } catch (error) {
+    console.error('Error in /api/youtube/reply-queue/schedule:', error);
+    return NextResponse.json<APIResponse<null>>({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/youtube/reply-queue/schedule
+ *
+ * Schedule approved replies: { itemIds?, startAt, spacingMinutes }. The first goes out at startAt
+ * and each following one spacingMinutes later. Stores the session's tokens for the background job.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    const userId = session?.user?.id || session?.user?.email;
+    if (!userId || !session?.accessToken) {
+      return NextResponse.json<APIResponse<null>>({
+        success: false,
+        error: 'Authentication required for comment replies'
+      }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const { itemIds, startAt, spacingMinutes = 0 } = body as {
+      itemIds?: string[];
+      startAt?: string;
+      spacingMinutes?: number;
+    };
+
+    const start = new Date(startAt || '');
+    if (isNaN(start.getTime())) {
+      return NextResponse.json<APIResponse<null>>({
+        success: false,
+        error: 'startAt must be an ISO date'
+      }, { status: 400 });
+    }
+    if (start.getTime() < Date.now() - START_GRACE_MS) {
+      return NextResponse.json<APIResponse<null>>({
+        success: false,
+        error: 'startAt must not be in the past'
+      }, { status: 400 });
+    }
+    if (typeof spacingMinutes !== 'number' || spacingMinutes < 0 || spacingMinutes > MAX_SPACING_MINUTES) {
+      return NextResponse.json<APIResponse<null>>({
+        success: false,
+        error: `spacingMinutes must be between 0 and ${MAX_SPACING_MINUTES}`
+      }, { status: 400 });
+    }
+    if (itemIds !== undefined && !Array.isArray(itemIds)) {
+      return NextResponse.json<APIResponse<null>>({
+        success: false,
+        error: 'itemIds must be an array'
+      }, { status: 400 });
+    }
+
+    const saved = await saveYouTubeCredentials(userId, {
+      accessToken: session.accessToken,
+      refreshToken: session.refreshToken,
+      expiresAt: session.expiresAt
+    });
+    if (!saved) {
+      return NextResponse.json<APIResponse<null>>({
+        success: false,
+        error: 'Sign in again to allow replies to be posted while you are away'
+      }, { status: 400 });
+    }
+
+    const scheduled = await scheduleReplies(userId, itemIds, new Date(Math.max(start.getTime(), Date.now())), spacingMinutes);
+    console.log(`🕒 Scheduled ${scheduled.length} replies from ${start.toISOString()}`);
+
+    return NextResponse.json<APIResponse<ReplyQueueItem[]>>({
+      success: true,
+      data: scheduled
+    });
+
+  } catch (error) {
+    console.error('Error in /api/youtube/reply-queue/schedule:', error);
+    return NextResponse.json<APIResponse<null>>({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
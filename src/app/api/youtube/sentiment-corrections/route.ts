@@ -0,0 +1,125 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import { correctStoredSentiment } from '@/lib/comment-store';
+import { YouTubeService } from '@/lib/youtube-service';
+import { buildAgreementReport, getCorrections, recordCorrection } from '@/lib/sentiment-corrections';
+import { APIResponse, CommentData, CorrectionAgreementReport, SentimentCorrection } from '@/types';
+
+const SENTIMENTS = ['positive', 'neutral', 'negative'];
+const RECENT_CORRECTIONS = 20;
+
+const unauthorized = () => NextResponse.json<APIResponse<null>>({
+  success: false,
+  error: 'Unauthorized'
+}, { status: 401 });
+
+/**
+ * GET /api/youtube/sentiment-corrections
+ *
+ * Model-vs-human agreement over the signed-in creator's corrections, with the most recent ones
+ */
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+    const userId = session?.user?.id || session?.user?.email;
+    if (!userId) {
+      return unauthorized();
+    }
+
+    const corrections = await getCorrections(userId);
+
+    return NextResponse.json<APIResponse<{ report: CorrectionAgreementReport; recent: SentimentCorrection[] }>>({
+      success: true,
+      data: {
+        report: buildAgreementReport(corrections),
+        recent: corrections.slice(0, RECENT_CORRECTIONS)
+      }
+    });
+
+  } catch (error) {
+    console.error('Error in /api/youtube/sentiment-corrections:', error);
+    return NextResponse.json<APIResponse<null>>({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/youtube/sentiment-corrections
+ *
+ * Label a scored comment on one of the signed-in creator's videos. Choosing the model's own
+ * label confirms it. Stored scores are shared, so other channels' videos are off limits.
+ * Body: { videoId, commentId, sentiment: 'positive' | 'neutral' | 'negative' }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    const userId = session?.user?.id || session?.user?.email;
+    if (!userId) {
+      return unauthorized();
+    }
+
+    const { videoId, commentId, sentiment } = await request.json();
+
+    if (!videoId || !/^[a-zA-Z0-9_-]{11}$/.test(videoId)) {
+      return NextResponse.json<APIResponse<null>>({
+        success: false,
+        error: 'A valid videoId is required'
+      }, { status: 400 });
+    }
+
+    if (!commentId || typeof commentId !== 'string') {
+      return NextResponse.json<APIResponse<null>>({
+        success: false,
+        error: 'commentId is required'
+      }, { status: 400 });
+    }
+
+    if (!SENTIMENTS.includes(sentiment)) {
+      return NextResponse.json<APIResponse<null>>({
+        success: false,
+        error: `sentiment must be one of: ${SENTIMENTS.join(', ')}`
+      }, { status: 400 });
+    }
+
+    if (!session?.accessToken || !(await new YouTubeService(session.accessToken).ownsVideo(videoId))) {
+      return NextResponse.json<APIResponse<null>>({
+        success: false,
+        error: 'Only the video\'s channel owner can correct its comments'
+      }, { status: 403 });
+    }
+
+    const updated = await correctStoredSentiment(videoId, commentId, sentiment);
+    if (!updated?.comment.correction) {
+      return NextResponse.json<APIResponse<null>>({
+        success: false,
+        error: 'Comment not found or not analyzed yet'
+      }, { status: 404 });
+    }
+
+    const correction = await recordCorrection(userId, {
+      commentId,
+      videoId,
+      text: updated.comment.textDisplay,
+      modelSentiment: updated.comment.correction.modelSentiment,
+      modelConfidence: updated.comment.correction.modelConfidence,
+      modelProvider: updated.provider,
+      correctedSentiment: sentiment,
+      correctedAt: updated.comment.correction.correctedAt
+    });
+
+    return NextResponse.json<APIResponse<{ comment: CommentData; correction: SentimentCorrection }>>({
+      success: true,
+      data: { comment: updated.comment, correction }
+    });
+
+  } catch (error) {
+    console.error('Error in /api/youtube/sentiment-corrections:', error);
+    return NextResponse.json<APIResponse<null>>({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
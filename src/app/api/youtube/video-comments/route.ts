@@ -1,9 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/app/api/auth/[...nextauth]/route';
-import { fetchAllVideoComments } from '@/lib/youtube';
-import { analyzeSentimentWithGroq } from '@/lib/ai-services-pro';
-import { APIResponse, CommentData } from '@/types';
+import { syncVideoComments, scoreStoredComments } from '@/lib/comment-store';
+import { isSpamComment } from '@/lib/spam-detection';
+import { calculateEmotionDistribution } from '@/lib/metrics';
+import { getCorrectionExamplesForVideo } from '@/lib/sentiment-corrections';
+import { YouTubeService } from '@/lib/youtube-service';
+import { APIResponse, CommentData, EmotionDistribution } from '@/types';
 
 export async function GET(request: NextRequest) {
   try {
@@ -20,6 +23,7 @@ export async function GET(request: NextRequest) {
     const videoId = searchParams.get('videoId');
     const limit = parseInt(searchParams.get('limit') || '100'); // No limit for authenticated users
     const includeReplies = searchParams.get('includeReplies') === 'true';
+    const includeSpam = searchParams.get('includeSpam') === 'true';
 
     if (!videoId) {
       return NextResponse.json<APIResponse<null>>({
@@ -38,8 +42,8 @@ export async function GET(request: NextRequest) {
 
     console.log(`Fetching ALL comments for video ${videoId} (authenticated request)`);
 
-    // Fetch ALL comments for authenticated users
-    const allComments = await fetchAllVideoComments(videoId);
+    // Sync ALL comments for authenticated users (incremental after the first request)
+    const { comments: allComments } = await syncVideoComments(videoId);
 
     if (!allComments || allComments.length === 0) {
       return NextResponse.json<APIResponse<null>>({
@@ -48,14 +52,26 @@ export async function GET(request: NextRequest) {
       }, { status: 404 });
     }
 
-    console.log(`Retrieved ${allComments.length} comments, analyzing sentiment with Groq llama-3.3-70b-versatile...`);
+    console.log(`Retrieved ${allComments.length} comments, scoring unscored ones with Groq llama-3.3-70b-versatile...`);
 
-    // Use optimized concurrent sentiment analysis with self-healing
-    // Analyze sentiment with Groq llama-3.3-70b-versatile
-    const commentsWithSentiment = await analyzeSentimentWithGroq(allComments);
+    // Only new or edited comments are re-analyzed; stored scores are reused.
+    // On their own videos, the signed-in creator's corrections calibrate the model.
+    const userId = session.user?.id || session.user?.email;
+    const youtubeService = new YouTubeService(session.accessToken);
+    const commentsWithSentiment = await scoreStoredComments(
+      videoId,
+      allComments.map(comment => comment.id),
+      await getCorrectionExamplesForVideo(userId, () => youtubeService.ownsVideo(videoId))
+    );
+
+    // Suspected spam goes to a separate moderation list and is kept out of the totals by default
+    const spamComments = commentsWithSentiment.filter(isSpamComment);
+    const countedComments = includeSpam
+      ? commentsWithSentiment
+      : commentsWithSentiment.filter(comment => !isSpamComment(comment));
 
     // Calculate sentiment distribution
-    const sentimentCounts = commentsWithSentiment.reduce(
+    const sentimentCounts = countedComments.reduce(
       (acc, comment) => {
         const sentiment = comment.sentiment || 'neutral';
         acc[sentiment] = (acc[sentiment] || 0) + 1;
@@ -64,7 +80,7 @@ export async function GET(request: NextRequest) {
       { positive: 0, neutral: 0, negative: 0 }
     );
 
-    const totalComments = commentsWithSentiment.length;
+    const totalComments = countedComments.length || 1;
     const sentimentDistribution = {
       positive: {
         count: sentimentCounts.positive,
@@ -80,8 +96,10 @@ export async function GET(request: NextRequest) {
       }
     };
 
+    const emotionDistribution = calculateEmotionDistribution(countedComments, { includeSpam });
+
     // Sort comments by engagement (likes)
-    const sortedComments = commentsWithSentiment.sort((a, b) => {
+    const sortedComments = countedComments.sort((a, b) => {
       const aEngagement = a.likeCount || 0;
       const bEngagement = b.likeCount || 0;
       return bEngagement - aEngagement;
@@ -92,14 +110,18 @@ export async function GET(request: NextRequest) {
 
     const response = NextResponse.json<APIResponse<{
       comments: CommentData[];
+      spamComments: CommentData[];
       sentimentDistribution: typeof sentimentDistribution;
+      emotionDistribution: EmotionDistribution;
       totalComments: number;
       analyzedComments: number;
     }>>({
       success: true,
       data: {
         comments: limitedComments,
+        spamComments,
         sentimentDistribution,
+        emotionDistribution,
         totalComments: allComments.length,
         analyzedComments: commentsWithSentiment.length
       }
@@ -1,10 +1,30 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/app/api/auth/[...nextauth]/route';
-import { APIResponse } from '@/types';
+import { APIResponse, TranscriptSegment, VideoTranscript } from '@/types';
+import { fetchVideoTranscriptSegments } from '@/lib/youtube';
+import { parseTranscript, segmentsToText, TranscriptFormat } from '@/lib/transcript';
+
+// captions.download tfmt value for each supported format
+const DOWNLOAD_FORMATS: Record<TranscriptFormat, string> = {
+  vtt: 'vtt',
+  srt: 'srt',
+  timedtext: 'ttml'
+};
+
+interface CaptionDownload {
+  segments: TranscriptSegment[];
+  language: string;
+  autoGenerated: boolean;
+}
 
 // YouTube Transcript API using authenticated access with proper retry logic
-async function fetchTranscriptFromYoutube(videoId: string, accessToken: string, retryCount: number = 0): Promise<string> {
+async function fetchTranscriptFromYoutube(
+  videoId: string,
+  accessToken: string,
+  format: TranscriptFormat,
+  retryCount: number = 0
+): Promise<CaptionDownload> {
   try {
     console.log(`🎬 Attempting to fetch captions for video ${videoId} (attempt ${retryCount + 1}/2)`);
     
@@ -54,11 +74,11 @@ async function fetchTranscriptFromYoutube(videoId: string, accessToken: string,
 
     // Download the caption track with optimal format
     const transcriptResponse = await fetch(
-      `https://www.googleapis.com/youtube/v3/captions/${selectedTrack.id}?tfmt=vtt`,
+      `https://www.googleapis.com/youtube/v3/captions/${selectedTrack.id}?tfmt=${DOWNLOAD_FORMATS[format]}`,
       {
         headers: {
           'Authorization': `Bearer ${accessToken}`,
-          'Accept': 'text/vtt, text/plain',
+          'Accept': 'text/vtt, application/x-subrip, application/ttml+xml, text/plain',
         },
       }
     );
@@ -75,30 +95,20 @@ async function fetchTranscriptFromYoutube(videoId: string, accessToken: string,
       throw new Error('Empty transcript content received');
     }
 
-    // Parse VTT format and extract clean text content
-    const cleanTranscript = transcriptText
-      .split('\n')
-      .filter(line => {
-        const trimmed = line.trim();
-        return trimmed !== '' && 
-               !trimmed.startsWith('WEBVTT') &&
-               !trimmed.startsWith('NOTE') &&
-               !trimmed.match(/^\d+$/) && 
-               !trimmed.match(/^\d{2}:\d{2}:\d{2}\.\d{3} --> \d{2}:\d{2}:\d{2}\.\d{3}$/) &&
-               !trimmed.match(/^<\d{2}:\d{2}:\d{2}\.\d{3}><c>/) &&
-               !trimmed.includes('-->')
-      })
-      .map(line => line.replace(/<[^>]*>/g, '')) // Remove VTT tags
-      .join(' ')
-      .replace(/\s+/g, ' ')
-      .trim();
+    // Parse cues with their timing so comments can be linked back to moments in the video
+    const segments = parseTranscript(transcriptText, format);
+    const cleanTranscript = segmentsToText(segments);
 
     if (!cleanTranscript || cleanTranscript.length < 50) {
       throw new Error('Transcript content too short or empty');
     }
 
-    console.log(`✅ Successfully extracted ${cleanTranscript.length} characters from captions`);
-    return cleanTranscript;
+    console.log(`✅ Successfully extracted ${segments.length} segments (${cleanTranscript.length} characters) from ${format} captions`);
+    return {
+      segments,
+      language: selectedTrack.snippet.language,
+      autoGenerated: selectedTrack.snippet.trackKind === 'asr'
+    };
 
   } catch (error) {
     console.error(`❌ Error fetching transcript (attempt ${retryCount + 1}):`, error);
@@ -107,42 +117,13 @@ async function fetchTranscriptFromYoutube(videoId: string, accessToken: string,
     if (retryCount === 0 && error instanceof Error && !error.message.includes('No captions available')) {
       console.log(`🔄 Retrying caption fetch for video ${videoId}...`);
       await new Promise(resolve => setTimeout(resolve, 1000)); // Wait 1 second
-      return fetchTranscriptFromYoutube(videoId, accessToken, retryCount + 1);
+      return fetchTranscriptFromYoutube(videoId, accessToken, format, retryCount + 1);
     }
     
     throw error;
   }
 }
 
-// Fallback: Fetch video details and use description as pseudo-transcript
-async function fetchVideoDescription(videoId: string): Promise<string> {
-  try {
-    const response = await fetch(
-      `https://www.googleapis.com/youtube/v3/videos?id=${videoId}&part=snippet&key=${process.env.YOUTUBE_API_KEY}`
-    );
-
-    if (!response.ok) {
-      throw new Error(`YouTube API error: ${response.status}`);
-    }
-
-    const data = await response.json();
-    
-    if (!data.items || data.items.length === 0) {
-      throw new Error('Video not found');
-    }
-
-    const description = data.items[0].snippet.description || '';
-    const title = data.items[0].snippet.title || '';
-    
-    // Combine title and description as fallback content
-    return `${title}\n\n${description}`;
-
-  } catch (error) {
-    console.error('Error fetching video description:', error);
-    return '';
-  }
-}
-
 export async function GET(request: NextRequest) {
   try {
     // Check authentication
@@ -172,57 +153,70 @@ export async function GET(request: NextRequest) {
       }, { status: 400 });
     }
 
+    const formatParam = searchParams.get('format') || 'vtt';
+    if (!(formatParam in DOWNLOAD_FORMATS)) {
+      return NextResponse.json<APIResponse<null>>({
+        success: false,
+        error: `format must be one of: ${Object.keys(DOWNLOAD_FORMATS).join(', ')}`
+      }, { status: 400 });
+    }
+    const format = formatParam as TranscriptFormat;
+
     console.log(`Fetching transcript for video ${videoId} with authenticated access`);
 
-    let transcript = '';
-    let source: 'captions' | 'description' = 'captions';
+    let transcript: VideoTranscript | null = null;
 
     try {
-      // Try to fetch official YouTube captions first
-      transcript = await fetchTranscriptFromYoutube(videoId, session.accessToken);
-      console.log(`Successfully fetched ${transcript.length} characters from YouTube captions`);
-    } catch (captionError) {
-      console.log('Captions not available, falling back to video description');
-      
-      try {
-        // Fallback to video title + description
-        transcript = await fetchVideoDescription(videoId);
-        source = 'description';
-        console.log(`Using video description as fallback: ${transcript.length} characters`);
-      } catch (descriptionError) {
-        console.error('Failed to fetch video description:', descriptionError);
-        return NextResponse.json<APIResponse<null>>({
-          success: false,
-          error: 'Transcript and description not available'
-        }, { status: 404 });
-      }
+      // Try to fetch official YouTube captions first (only works for the owner's videos)
+      const download = await fetchTranscriptFromYoutube(videoId, session.accessToken, format);
+      transcript = {
+        videoId,
+        source: download.autoGenerated ? 'auto-captions' : 'captions',
+        language: download.language,
+        segments: download.segments,
+        text: segmentsToText(download.segments)
+      };
+      console.log(`Successfully fetched ${transcript.segments.length} segments from YouTube captions`);
+    } catch {
+      // Public caption tracks, then title + description as a last resort
+      console.log('Owner captions not available, falling back to public captions');
+      transcript = await fetchVideoTranscriptSegments(videoId);
     }
 
-    if (!transcript || transcript.trim().length === 0) {
+    if (!transcript || transcript.text.trim().length === 0) {
       return NextResponse.json<APIResponse<null>>({
         success: false,
-        error: 'No transcript content available'
+        error: 'Transcript and description not available'
       }, { status: 404 });
     }
 
     // Calculate basic transcript metrics
-    const wordCount = transcript.split(/\s+/).length;
-    const estimatedDuration = Math.ceil(wordCount / 150); // Assuming 150 words per minute
+    const wordCount = transcript.text.split(/\s+/).length;
+    const lastSegment = transcript.segments[transcript.segments.length - 1];
+    const estimatedDuration = transcript.source === 'description' || !lastSegment
+      ? Math.ceil(wordCount / 150) // Assuming 150 words per minute
+      : Math.ceil((lastSegment.start + lastSegment.duration) / 60);
 
     const response = NextResponse.json<APIResponse<{
       transcript: string;
-      source: 'captions' | 'description';
+      segments: TranscriptSegment[];
+      source: VideoTranscript['source'];
+      language?: string;
+      format?: TranscriptFormat;
       wordCount: number;
       estimatedDuration: number;
       characterCount: number;
     }>>({
       success: true,
       data: {
-        transcript,
-        source,
+        transcript: transcript.text,
+        segments: transcript.segments,
+        source: transcript.source,
+        language: transcript.language,
+        format: transcript.source === 'description' ? undefined : format,
         wordCount,
         estimatedDuration,
-        characterCount: transcript.length
+        characterCount: transcript.text.length
       }
     });
 
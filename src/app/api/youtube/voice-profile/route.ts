@@ -0,0 +1,101 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import { deleteVoiceProfile, getVoiceProfile, MIN_VOICE_SAMPLES, refreshVoiceProfile } from '@/lib/voice-profile';
+import { APIResponse, VoiceProfile } from '@/types';
+
+const unauthorized = () => NextResponse.json<APIResponse<null>>({
+  success: false,
+  error: 'Unauthorized'
+}, { status: 401 });
+
+/**
+ * GET /api/youtube/voice-profile
+ *
+ * The signed-in creator's learned voice profile (null until built)
+ */
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+    const userId = session?.user?.id || session?.user?.email;
+    if (!userId) {
+      return unauthorized();
+    }
+
+    return NextResponse.json<APIResponse<VoiceProfile | null>>({
+      success: true,
+      data: await getVoiceProfile(userId)
+    });
+
+  } catch (error) {
+    console.error('Error in /api/youtube/voice-profile:', error);
+    return NextResponse.json<APIResponse<null>>({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/youtube/voice-profile
+ *
+ * (Re)build the profile from the channel owner's replies on recent comment threads
+ */
+export async function POST() {
+  try {
+    const session = await getServerSession(authOptions);
+    const userId = session?.user?.id || session?.user?.email;
+    if (!userId || !session?.accessToken) {
+      return unauthorized();
+    }
+
+    const profile = await refreshVoiceProfile(userId, session.accessToken);
+    if (!profile) {
+      return NextResponse.json<APIResponse<null>>({
+        success: false,
+        error: `At least ${MIN_VOICE_SAMPLES} of your own replies are needed to learn your voice`
+      }, { status: 422 });
+    }
+
+    console.log(`🗣️ Voice profile built from ${profile.sampleSize} replies`);
+
+    return NextResponse.json<APIResponse<VoiceProfile>>({
+      success: true,
+      data: profile
+    });
+
+  } catch (error) {
+    console.error('Error in /api/youtube/voice-profile:', error);
+    return NextResponse.json<APIResponse<null>>({
+      success: false,
+      error: 'Failed to build voice profile'
+    }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/youtube/voice-profile
+ *
+ * Forget the profile so replies use the plain tone presets again
+ */
+export async function DELETE() {
+  try {
+    const session = await getServerSession(authOptions);
+    const userId = session?.user?.id || session?.user?.email;
+    if (!userId) {
+      return unauthorized();
+    }
+
+    return NextResponse.json<APIResponse<{ removed: boolean }>>({
+      success: true,
+      data: { removed: await deleteVoiceProfile(userId) }
+    });
+
+  } catch (error) {
+    console.error('Error in /api/youtube/voice-profile:', error);
+    return NextResponse.json<APIResponse<null>>({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useEffect ,useMemo} from "react";
+import { useState, useEffect, useMemo, useRef } from "react";
 import { useAuth } from "@/lib/auth";
 import { useRouter } from "next/navigation";
 import { Button } from "@/components/ui/button";
@@ -11,9 +11,17 @@ import ChannelAnalyticsCharts from "@/components/ChannelAnalyticsCharts";
 import VideosList from "@/components/VideosList";
 import AdvancedMetrics from "@/components/AdvancedMetrics";
 import FeedbackInsights from "@/components/FeedbackInsights";
+import AspectSentimentPanel from "@/components/AspectSentimentPanel";
 import CommentAnalysis from "@/components/CommentAnalysis";
 import DataVisualization from "@/components/DataVisualization";
 import SentimentOverTimeChart from "@/components/SentimentOverTimeChart";
+import TimelineHeatmap from "@/components/TimelineHeatmap";
+import Watchlist from "@/components/Watchlist";
+import AlertInbox from "@/components/AlertInbox";
+import ScheduledReplies from "@/components/ScheduledReplies";
+import VoiceProfileCard from "@/components/VoiceProfileCard";
+import CorrectionAgreementCard from "@/components/CorrectionAgreementCard";
+import ReplyAuditLog from "@/components/ReplyAuditLog";
 import { VideoAnalysisSkeleton } from "@/components/SkeletonLoaders";
 import { 
   BarChart3, 
@@ -32,62 +40,10 @@ import {
   ExternalLink,
   Users
 } from 'lucide-react';
-import { CommentData, VideoData } from '@/types';
-
-// Cache management utilities
-interface CachedVideoData {
-  videoDetails: any;
-  videoComments: CommentData[];
-  videoTranscript: string;
-  videoAnalysis: any;
-  feedbackInsights: any;
-  sentimentDistribution: any;
-  timestamp: number;
-}
-
-const CACHE_DURATION = 30 * 60 * 1000; // 30 minutes
-const CACHE_PREFIX = 'sentimenttrack_video_';
-
-const getCachedVideoData = (videoId: string): CachedVideoData | null => {
-  try {
-    const cached = localStorage.getItem(`${CACHE_PREFIX}${videoId}`);
-    if (cached) {
-      const data = JSON.parse(cached) as CachedVideoData;
-      if (Date.now() - data.timestamp < CACHE_DURATION) {
-        console.log(`📦 Using cached data for video ${videoId}`);
-        return data;
-      } else {
-        console.log(`⏰ Cache expired for video ${videoId}`);
-        localStorage.removeItem(`${CACHE_PREFIX}${videoId}`);
-      }
-    }
-  } catch (error) {
-    console.error('❌ Error reading cache:', error);
-  }
-  return null;
-};
-
-const setCachedVideoData = (videoId: string, data: Omit<CachedVideoData, 'timestamp'>) => {
-  try {
-    const cacheData: CachedVideoData = {
-      ...data,
-      timestamp: Date.now()
-    };
-    localStorage.setItem(`${CACHE_PREFIX}${videoId}`, JSON.stringify(cacheData));
-    console.log(`💾 Cached data for video ${videoId}`);
-  } catch (error) {
-    console.error('❌ Error saving cache:', error);
-  }
-};
-
-const clearVideoCache = (videoId: string) => {
-  try {
-    localStorage.removeItem(`${CACHE_PREFIX}${videoId}`);
-    console.log(`🗑️ Cleared cache for video ${videoId}`);
-  } catch (error) {
-    console.error('❌ Error clearing cache:', error);
-  }
-};
+import { CommentData, VideoData, TranscriptSegment, SentimentTimeBucket, SentimentTimePoint } from '@/types';
+import { buildTimelineHeatmap } from '@/lib/comment-timeline';
+import { parseDurationSeconds } from '@/lib/youtube';
+import { isSpamComment } from '@/lib/spam-detection';
 
 export default function DashboardPage() {
   const { session, status, isAuthenticated, logout } = useAuth();
@@ -99,7 +55,11 @@ export default function DashboardPage() {
   // Video analysis state
   const [videoDetails, setVideoDetails] = useState<any>(null);
   const [videoComments, setVideoComments] = useState<CommentData[]>([]);
+  const [spamComments, setSpamComments] = useState<CommentData[]>([]);
   const [videoTranscript, setVideoTranscript] = useState<string>('');
+  const [transcriptSegments, setTranscriptSegments] = useState<TranscriptSegment[]>([]);
+  const [sentimentOverTimeData, setSentimentOverTimeData] = useState<SentimentTimePoint[]>([]);
+  const [sentimentBucket, setSentimentBucket] = useState<SentimentTimeBucket | 'auto'>('auto');
   const [videoAnalysis, setVideoAnalysis] = useState<any>(null);
   const [feedbackInsights, setFeedbackInsights] = useState<any>(null);
   const [sentimentDistribution, setSentimentDistribution] = useState<any>(null);
@@ -113,9 +73,10 @@ export default function DashboardPage() {
     insights: false
   });
   
-  // Cache and refresh state
+  // Refresh state; AI results are cached server-side and shared across viewers
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [usingCache, setUsingCache] = useState(false);
+  const forceRefreshInsights = useRef(false);
 
   const updateLoadingState = (key: keyof typeof loadingStates, value: boolean) => {
     setLoadingStates(prev => ({ ...prev, [key]: value }));
@@ -140,10 +101,10 @@ export default function DashboardPage() {
     return () => document.removeEventListener('mousedown', handleClickOutside);
   }, [userDropdownOpen]);
 
-  // Video analysis effect with caching
+  // Video analysis effect (server reuses cached AI results unless refreshed)
   useEffect(() => {
     if (selectedVideo) {
-      loadVideoAnalysis(selectedVideo, false); // false = try cache first
+      loadVideoAnalysis(selectedVideo, false);
     }
   }, [selectedVideo]);
 
@@ -171,12 +132,16 @@ export default function DashboardPage() {
 
     updateLoadingState('insights', true);
     console.log(`🧠 Generating feedback insights with ${videoComments.length} comments`);
+    const refresh = forceRefreshInsights.current;
+    forceRefreshInsights.current = false;
     
     try {
       const insightsResponse = await fetch('/api/ai/feedback-insights', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
+          videoId: selectedVideo,
+          refresh,
           videoTitle: videoDetails.title,
           videoDescription: videoDetails.description || '',
           transcript: videoTranscript || '',
@@ -202,11 +167,6 @@ export default function DashboardPage() {
         const insights = insightsData.data.insights || insightsData.data;
         setFeedbackInsights(insights);
         console.log('✅ Feedback insights generated successfully');
-        
-        // Update cache with new insights
-        if (selectedVideo) {
-          updateVideoCache(selectedVideo, { feedbackInsights: insights });
-        }
       } else {
         console.error('❌ Insights API error:', insightsData.error);
       }
@@ -217,31 +177,24 @@ export default function DashboardPage() {
     }
   };
 
-  const updateVideoCache = (videoId: string, updates: Partial<Omit<CachedVideoData, 'timestamp'>>) => {
-    const currentCache = getCachedVideoData(videoId);
-    if (currentCache) {
-      setCachedVideoData(videoId, { ...currentCache, ...updates });
-    }
-  };
-
   const handleRefreshAnalysis = async () => {
     if (!selectedVideo) return;
     
     setIsRefreshing(true);
     setUsingCache(false);
-    
-    // Clear cache for this video
-    clearVideoCache(selectedVideo);
+    forceRefreshInsights.current = true;
     
     // Reset all states to force fresh data
     setVideoDetails(null);
     setVideoComments([]);
+    setSpamComments([]);
     setVideoTranscript('');
+    setTranscriptSegments([]);
     setVideoAnalysis(null);
     setFeedbackInsights(null);
     setSentimentDistribution(null);
     
-    // Force reload all data with no cache
+    // Force reload all data, bypassing the server-side analysis cache
     await loadVideoAnalysis(selectedVideo, true); // true = force refresh
     
     setIsRefreshing(false);
@@ -254,33 +207,15 @@ export default function DashboardPage() {
   const loadVideoAnalysis = async (videoId: string, forceRefresh: boolean = false) => {
     console.log(`🚀 Loading analysis for video: ${videoId} (force: ${forceRefresh})`);
     
-    // Check cache first (unless force refresh)
-    if (!forceRefresh) {
-      const cachedData = getCachedVideoData(videoId);
-      if (cachedData) {
-        console.log('📦 Loading from cache...');
-        setUsingCache(true);
-        
-        // Load all cached data
-        setVideoDetails(cachedData.videoDetails);
-        setVideoComments(cachedData.videoComments);
-        setVideoTranscript(cachedData.videoTranscript);
-        setVideoAnalysis(cachedData.videoAnalysis);
-        setFeedbackInsights(cachedData.feedbackInsights);
-        setSentimentDistribution(cachedData.sentimentDistribution);
-        
-        console.log('✅ All data loaded from cache');
-        return;
-      }
-    }
-    
     setUsingCache(false);
     console.log('🔄 Loading fresh data...');
     
     // Reset all states
     setVideoDetails(null);
     setVideoComments([]);
+    setSpamComments([]);
     setVideoTranscript('');
+    setTranscriptSegments([]);
     setVideoAnalysis(null);
     setFeedbackInsights(null);
     setSentimentDistribution(null);
@@ -346,6 +281,7 @@ export default function DashboardPage() {
     // Load comments with sentiment analysis and fallback
     updateLoadingState('comments', true);
     let loadedComments: CommentData[] = [];
+    let loadedSpamComments: CommentData[] = [];
     let loadedSentimentDistribution = null;
     try {
       const result = await fetchWithFallback(
@@ -356,11 +292,14 @@ export default function DashboardPage() {
       if (result.source === 'authenticated') {
         // Authenticated endpoint format
         loadedComments = result.data.data.comments;
+        loadedSpamComments = result.data.data.spamComments || [];
         loadedSentimentDistribution = result.data.data.sentimentDistribution;
       } else {
-        // Demo endpoint format
-        const comments = result.data.data.comments || result.data.data;
+        // Demo endpoint format, with suspected spam split out as the authenticated endpoint does
+        const allComments = result.data.data.comments || result.data.data;
+        const comments = Array.isArray(allComments) ? allComments.filter((comment: CommentData) => !isSpamComment(comment)) : allComments;
         loadedComments = comments;
+        loadedSpamComments = Array.isArray(allComments) ? allComments.filter(isSpamComment) : [];
         
         // Calculate sentiment distribution from demo comments
         if (Array.isArray(comments)) {
@@ -392,6 +331,7 @@ export default function DashboardPage() {
       }
       
       setVideoComments(loadedComments);
+      setSpamComments(loadedSpamComments);
       setSentimentDistribution(loadedSentimentDistribution);
       console.log(`✅ Comments loaded from ${result.source}: ${loadedComments.length || 0} comments with sentiment analysis`);
     } catch (error) {
@@ -404,6 +344,7 @@ export default function DashboardPage() {
         negative: { count: 0, percentage: '0' }
       };
       setVideoComments(loadedComments);
+      setSpamComments([]);
       setSentimentDistribution(loadedSentimentDistribution);
     } finally {
       updateLoadingState('comments', false);
@@ -412,6 +353,7 @@ export default function DashboardPage() {
     // Load transcript with fallback
     updateLoadingState('transcript', true);
     let finalTranscript = '';
+    let finalSegments: TranscriptSegment[] = [];
     
     try {
       const result = await fetchWithFallback(
@@ -421,7 +363,10 @@ export default function DashboardPage() {
       
       if (result.source === 'authenticated') {
         finalTranscript = result.data.data.transcript;
+        // Description fallback has no timing, so it cannot be linked to moments in the video
+        finalSegments = result.data.data.source === 'description' ? [] : result.data.data.segments || [];
         setVideoTranscript(finalTranscript);
+        setTranscriptSegments(finalSegments);
         console.log(`✅ Transcript loaded from ${result.source}: ${result.data.data.characterCount} characters`);
       } else {
         // Demo endpoint returns summary instead of transcript
@@ -439,52 +384,45 @@ export default function DashboardPage() {
     }
 
     // Load AI analysis
-    let finalAnalysis = null;
     if (loadedVideoDetails) {
-      finalAnalysis = await loadAIAnalysisForCache(videoId, finalTranscript, loadedVideoDetails);
+      await loadAIAnalysisForCache(videoId, finalTranscript, loadedVideoDetails, forceRefresh);
     }
-    
-    // Cache all the loaded data (after everything is loaded)
-    const cacheData = {
-      videoDetails: loadedVideoDetails,
-      videoComments: loadedComments,
-      videoTranscript: finalTranscript,
-      videoAnalysis: finalAnalysis,
-      feedbackInsights: null, // Will be updated when insights are generated
-      sentimentDistribution: loadedSentimentDistribution
-    };
-    
-    setCachedVideoData(videoId, cacheData);
-    console.log('💾 Video data cached successfully');
   };
 
-const sentimentOverTimeData = useMemo(() => {
-    if (!videoComments || videoComments.length === 0) return [] as { date: string; sentiment_score: number }[];
-
-    const dateToScores: Record<string, number[]> = {};
-    for (const comment of videoComments) {
-      const published = comment.publishedAt ? new Date(comment.publishedAt) : null;
-      if (!published) continue;
-      const dateKey = `${published.getFullYear()}-${String(published.getMonth() + 1).padStart(2, '0')}-${String(published.getDate()).padStart(2, '0')}`;
-      const sentiment = comment.sentiment || 'neutral';
-      const score = sentiment === 'positive' ? 1 : sentiment === 'negative' ? -1 : 0;
-      if (!dateToScores[dateKey]) dateToScores[dateKey] = [];
-      dateToScores[dateKey].push(score);
+  // Confidence-weighted sentiment series over the analyzed comments stored server-side
+  useEffect(() => {
+    if (!selectedVideo || videoComments.length === 0) {
+      setSentimentOverTimeData([]);
+      return;
     }
 
-    const entries = Object.entries(dateToScores)
-      .map(([date, scores]) => ({
-        date,
-        sentiment_score: scores.reduce((a, b) => a + b, 0) / Math.max(scores.length, 1)
-      }))
-      .sort((a, b) => a.date.localeCompare(b.date));
+    const loadSentimentOverTime = async () => {
+      try {
+        const response = await fetch(`/api/demo/sentiment-over-time?videoId=${selectedVideo}&bucket=${sentimentBucket}`);
+        const result = await response.json();
+        if (result.success) {
+          setSentimentOverTimeData(result.data.series);
+        } else {
+          console.error('❌ Sentiment over time error:', result.error);
+        }
+      } catch (error) {
+        console.error('❌ Failed to load sentiment over time:', error);
+      }
+    };
+
+    loadSentimentOverTime();
+  }, [selectedVideo, videoComments, sentimentBucket]);
 
-    return entries;
-  }, [videoComments]);
 
 
+  const timelineHeatmap = useMemo(
+    () => buildTimelineHeatmap(videoComments, transcriptSegments, parseDurationSeconds(videoDetails?.duration || ''), {
+      videoId: selectedVideo || undefined
+    }),
+    [videoComments, transcriptSegments, videoDetails?.duration, selectedVideo]
+  );
 
-  const loadAIAnalysisForCache = async (videoId: string, transcript: string, videoDetails: any) => {
+  const loadAIAnalysisForCache = async (videoId: string, transcript: string, videoDetails: VideoData | null, refresh: boolean = false) => {
     if (!videoDetails) return null;
 
     updateLoadingState('analysis', true);
@@ -495,6 +433,8 @@ const sentimentOverTimeData = useMemo(() => {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
+          videoId,
+          refresh,
           videoTitle: videoDetails.title,
           transcript,
           description: videoDetails.description,
@@ -506,6 +446,7 @@ const sentimentOverTimeData = useMemo(() => {
       if (response.success) {
         analysisData = response.data;
         setVideoAnalysis(analysisData);
+        setUsingCache(analysisResponse.headers.get('X-Analysis-Cache') === 'hit');
         console.log('✅ AI video analysis completed');
       } else {
         console.error('❌ Video analysis failed:', response.error);
@@ -563,7 +504,9 @@ const sentimentOverTimeData = useMemo(() => {
     // Reset all analysis data
     setVideoDetails(null);
     setVideoComments([]);
+    setSpamComments([]);
     setVideoTranscript('');
+    setTranscriptSegments([]);
     setVideoAnalysis(null);
     setFeedbackInsights(null);
     setSentimentDistribution(null);
@@ -682,7 +625,7 @@ const sentimentOverTimeData = useMemo(() => {
                       <div className="flex items-center gap-3">
                         {usingCache && (
                           <Badge className="bg-blue-100 text-blue-800 border-2 border-blue-300 font-bold">
-                            📦 CACHED DATA
+                            📦 CACHED ANALYSIS
                           </Badge>
                         )}
                         
@@ -807,8 +750,23 @@ const sentimentOverTimeData = useMemo(() => {
                 loading={loadingStates.comments}
               />
 
+              {/* Moment Heatmap - sentiment of comments that reference a timestamp */}
+              {videoComments && videoComments.length > 0 && (
+                <TimelineHeatmap
+                  videoId={selectedVideo}
+                  buckets={timelineHeatmap}
+                  comments={videoComments}
+                  hasTranscript={transcriptSegments.length > 0}
+                  loading={loadingStates.transcript}
+                />
+              )}
+
               {videoComments && videoComments.length > 0 && (
-                <SentimentOverTimeChart data={sentimentOverTimeData} />
+                <SentimentOverTimeChart
+                  data={sentimentOverTimeData}
+                  bucket={sentimentBucket}
+                  onBucketChange={setSentimentBucket}
+                />
               )}
 
               {/* Comment Analysis */}
@@ -817,6 +775,7 @@ const sentimentOverTimeData = useMemo(() => {
                 videoTitle={videoDetails?.title}
                 videoContext={videoTranscript}
                 comments={videoComments}
+                spamComments={spamComments}
                 sentimentDistribution={sentimentDistribution}
                 loading={loadingStates.comments}
               />
@@ -826,6 +785,12 @@ const sentimentOverTimeData = useMemo(() => {
                 insights={feedbackInsights}
                 loading={loadingStates.insights || loadingStates.analysis}
               />
+
+              {/* Aspect-based sentiment */}
+              <AspectSentimentPanel
+                videoId={selectedVideo}
+                comments={videoComments}
+              />
             </div>
           ) : (
             /* Dashboard Overview */
@@ -838,6 +803,24 @@ const sentimentOverTimeData = useMemo(() => {
                 <ChannelAnalyticsCharts />
               )}
 
+              {/* Negative-sentiment alerts delivered to the in-app inbox */}
+              <AlertInbox />
+
+              {/* Tracked competitor and own videos */}
+              <Watchlist />
+
+              {/* Approved replies waiting for their posting time */}
+              <ScheduledReplies />
+
+              {/* Reply style learned from the creator's own replies */}
+              <VoiceProfileCard />
+
+              {/* How often the AI's sentiment matched the creator's own labels */}
+              <CorrectionAgreementCard />
+
+              {/* Posted replies, with retraction */}
+              <ReplyAuditLog />
+
               {/* Quick Actions - Enhanced Neo-Brutalist */}
               <Card className="border-4 border-black shadow-[8px_8px_0px_0px_rgba(0,0,0,1)] bg-white overflow-hidden">
                 <CardHeader className="bg-gradient-to-r from-[#F3E8FF] to-[#E8F4FD] border-b-4 border-black">
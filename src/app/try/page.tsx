@@ -1,19 +1,23 @@
 "use client";
 
-import { useState,useMemo } from "react";
+import { useState, useEffect } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { ArrowLeft, Play, Users, MessageSquare, TrendingUp, Clock, Target, Zap, Heart, Award, Lock as LockIcon } from "lucide-react";
 import Link from "next/link";
 import { ConnectAccountButton } from "@/components/ConnectAccountButton";
-import { VideoData, CommentData, AnalyticsData, ParsedUrl } from "@/types";
+import { VideoData, CommentData, AnalyticsData, ParsedUrl, VideoTranscript, SentimentTimeBucket, SentimentTimePoint, StatsSnapshot, GrowthRates, EmotionDistribution } from "@/types";
 import { formatNumber, parseDuration, getTimeElapsed } from "@/lib/youtube";
-import { formatAnalyticsNumber } from "@/lib/metrics";
+import { calculateCommentVelocity, calculateEmotionDistribution, formatAnalyticsNumber } from "@/lib/metrics";
+import { formatTimestamp } from "@/lib/transcript";
+import { isSpamComment } from "@/lib/spam-detection";
 import SentimentPieChart from "@/components/SentimentPieChart";
+import EmotionRadarChart from "@/components/EmotionRadarChart";
 import NicheTrendFinder from "@/components/NicheTrendFinder";
 import AIRecommendations from "@/components/AIRecommendations";
 import SentimentOverTimeChart from "@/components/SentimentOverTimeChart";
+import GrowthHistoryCard from "@/components/GrowthHistoryCard";
 
 interface AnalysisState {
   loading: boolean;
@@ -25,16 +29,21 @@ interface AnalysisState {
   displayedComments?: CommentData[];
   analytics?: AnalyticsData;
   summary?: string[];
+  transcript?: VideoTranscript;
   totalCommentsAnalyzed?: number;
   totalCommentsAvailable?: number;
   nextPageToken?: string;
   expandedReplies?: Record<string, string>; // commentId -> reply text
   pieChartSentiment?: { positive: number; negative: number; neutral: number; total: number };
+  emotionDistribution?: EmotionDistribution;
   nicheTrends?: any; // Niche trends analysis results
 }
 
 export default function TryItPage() {
   const [url, setUrl] = useState("");
+  const [sentimentOverTimeData, setSentimentOverTimeData] = useState<SentimentTimePoint[]>([]);
+  const [sentimentBucket, setSentimentBucket] = useState<SentimentTimeBucket | 'auto'>('auto');
+  const [growthHistory, setGrowthHistory] = useState<{ snapshots: StatsSnapshot[]; growth: GrowthRates | null } | null>(null);
   const [analysis, setAnalysis] = useState<AnalysisState>({
     loading: false,
     completed: false,
@@ -117,8 +126,8 @@ export default function TryItPage() {
         throw new Error(pieChartCommentsData.error || displayCommentsData.error || 'Comments not available');
       }
       
-      // Get comments for different purposes
-      const allCommentsForPieChart = pieChartCommentsData.data || [];
+      // Get comments for different purposes; suspected spam stays out of the pie chart
+      const allCommentsForPieChart = (pieChartCommentsData.data || []).filter((c: CommentData) => !isSpamComment(c));
       const displayComments = displayCommentsData.data?.comments || [];
       
       // Step 4: Calculate pie chart sentiment from already analyzed comments + get analytics  
@@ -183,11 +192,13 @@ export default function TryItPage() {
         displayedComments: commentsWithSentiment.slice(0, 10), // Show first 10
         analytics: analyticsResult.success ? analyticsResult.data.analytics : undefined,
         summary: summaryResult.success ? summaryResult.data.summary : undefined,
+        transcript: summaryResult.success && summaryResult.data.transcript ? summaryResult.data.transcript : undefined,
         totalCommentsAnalyzed: allCommentsForPieChart.length,
         totalCommentsAvailable: videoData.data.commentCount,
         nextPageToken: displayCommentsData.data?.nextPageToken,
         expandedReplies: {},
         pieChartSentiment: pieChartSentiment,
+        emotionDistribution: calculateEmotionDistribution(allCommentsForPieChart),
         nicheTrends: (trendsResponse.ok && trendsResult && !trendsResult.error) ? trendsResult : undefined
       });
       
@@ -231,9 +242,9 @@ export default function TryItPage() {
           comment: comment.textDisplay,
           videoTitle: analysis.videoData.title,
           videoDescription: analysis.videoData.description,
+          transcript: analysis.transcript?.source !== 'description' ? analysis.transcript?.text.substring(0, 4000) : undefined,
           videoSummary: analysis.summary?.join('. ') || analysis.videoData.description?.substring(0, 300) || 'Educational content',
           channelTitle: analysis.channelData?.title || 'Creator',
-          commentLanguage: comment.detectedLanguage || 'en',
           commentSentiment: comment.sentiment || 'neutral'
         })
       });
@@ -297,29 +308,50 @@ export default function TryItPage() {
     }));
   };
 
-  const sentimentOverTimeData = useMemo(() => {
-    if (!analysis.comments || analysis.comments.length === 0) return [] as { date: string; sentiment_score: number }[];
+  // Confidence-weighted sentiment series over the analyzed comments stored server-side
+  const analyzedVideoId = analysis.videoData?.id;
+  useEffect(() => {
+    if (!analyzedVideoId || !analysis.comments || analysis.comments.length === 0) {
+      setSentimentOverTimeData([]);
+      return;
+    }
+
+    const loadSentimentOverTime = async () => {
+      try {
+        const response = await fetch(`/api/demo/sentiment-over-time?videoId=${analyzedVideoId}&bucket=${sentimentBucket}`);
+        const result = await response.json();
+        if (result.success) {
+          setSentimentOverTimeData(result.data.series);
+        }
+      } catch (error) {
+        console.error('Failed to load sentiment over time:', error);
+      }
+    };
 
-    const dateToScores: Record<string, number[]> = {};
-    for (const comment of analysis.comments) {
-      const published = comment.publishedAt ? new Date(comment.publishedAt) : null;
-      if (!published) continue;
-      const dateKey = `${published.getFullYear()}-${String(published.getMonth() + 1).padStart(2, '0')}-${String(published.getDate()).padStart(2, '0')}`;
-      const sentiment = comment.sentiment || 'neutral';
-      const score = sentiment === 'positive' ? 1 : sentiment === 'negative' ? -1 : 0;
-      if (!dateToScores[dateKey]) dateToScores[dateKey] = [];
-      dateToScores[dateKey].push(score);
+    loadSentimentOverTime();
+  }, [analyzedVideoId, analysis.comments, sentimentBucket]);
+
+  // Real growth from periodic stats snapshots (lifetime average until history exists)
+  useEffect(() => {
+    if (!analyzedVideoId) {
+      setGrowthHistory(null);
+      return;
     }
 
-    const entries = Object.entries(dateToScores)
-      .map(([date, scores]) => ({
-        date,
-        sentiment_score: scores.reduce((a, b) => a + b, 0) / Math.max(scores.length, 1)
-      }))
-      .sort((a, b) => a.date.localeCompare(b.date));
+    const loadGrowthHistory = async () => {
+      try {
+        const response = await fetch(`/api/demo/snapshots?videoId=${analyzedVideoId}`);
+        const result = await response.json();
+        if (result.success) {
+          setGrowthHistory({ snapshots: result.data.snapshots, growth: result.data.growth });
+        }
+      } catch (error) {
+        console.error('Failed to load growth history:', error);
+      }
+    };
 
-    return entries;
-  }, [analysis.comments]);
+    loadGrowthHistory();
+  }, [analyzedVideoId]);
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-orange-100 via-pink-50 to-purple-100">
@@ -704,6 +736,7 @@ export default function TryItPage() {
                       <span className="flex items-center gap-1">
                         <MessageSquare className="w-4 h-4" />
                         {formatNumber(analysis.videoData.commentCount)} comments
+                        {' '}({calculateCommentVelocity(analysis.videoData, growthHistory?.snapshots)}/hr)
                       </span>
                       <span className="flex items-center gap-1">
                         <Clock className="w-4 h-4" />
@@ -853,6 +886,10 @@ export default function TryItPage() {
               })()}
             </div>
 
+            {growthHistory && (
+              <GrowthHistoryCard snapshots={growthHistory.snapshots} growth={growthHistory.growth} />
+            )}
+
             {/* Charts Section */}
             <div className="grid md:grid-cols-2 gap-8">
               <Card className="border-4 border-black shadow-[8px_8px_0px_0px_rgba(0,0,0,1)] bg-white">
@@ -876,11 +913,22 @@ export default function TryItPage() {
                 </CardContent>
               </Card>
 
-              <NicheTrendFinder 
-                nicheTrends={analysis.nicheTrends}
-                loading={analysis.loading && !analysis.videoData}
-                error={analysis.error}
-              />
+              <Card className="border-4 border-black shadow-[8px_8px_0px_0px_rgba(0,0,0,1)] bg-white">
+                <CardHeader className="bg-[#F3E8FF] border-b-4 border-black">
+                  <CardTitle className="font-bold text-xl text-black">🎭 Emotions</CardTitle>
+                </CardHeader>
+                <CardContent className="p-0">
+                  <EmotionRadarChart distribution={analysis.emotionDistribution} analyzedCount={analysis.totalCommentsAnalyzed} />
+                </CardContent>
+              </Card>
+
+              <div className="md:col-span-2">
+                <NicheTrendFinder 
+                  nicheTrends={analysis.nicheTrends}
+                  loading={analysis.loading && !analysis.videoData}
+                  error={analysis.error}
+                />
+              </div>
             </div>
 
              {/* Sentiment Over Time Chart - Match existing card style */}
@@ -890,7 +938,12 @@ export default function TryItPage() {
                   <CardTitle className="font-bold text-xl text-black">📈 Sentiment Over Time</CardTitle>
                 </CardHeader>
                 <CardContent className="p-6">
-                  <SentimentOverTimeChart containerless data={sentimentOverTimeData} />
+                  <SentimentOverTimeChart
+                    containerless
+                    data={sentimentOverTimeData}
+                    bucket={sentimentBucket}
+                    onBucketChange={setSentimentBucket}
+                  />
                 </CardContent>
               </Card>
             )}
@@ -1184,33 +1237,32 @@ export default function TryItPage() {
             <div className="grid md:grid-cols-2 gap-8">
               <Card className="border-4 border-black shadow-[8px_8px_0px_0px_rgba(0,0,0,1)] bg-white">
                 <CardHeader className="bg-[#E8F4FD] border-b-4 border-black">
-                  <CardTitle className="font-bold text-xl text-black">📝 Video Transcript</CardTitle>
+                  <CardTitle className="font-bold text-xl text-black">
+                    📝 Video Transcript
+                    {analysis.transcript?.source === 'auto-captions' && (
+                      <Badge className="ml-2 bg-white text-black border-2 border-black text-xs">Auto-generated</Badge>
+                    )}
+                    {analysis.transcript?.language && (
+                      <Badge className="ml-2 bg-white text-black border-2 border-black text-xs uppercase">{analysis.transcript.language}</Badge>
+                    )}
+                  </CardTitle>
                 </CardHeader>
                 <CardContent className="p-0">
                   <div className="h-48 overflow-y-auto font-mono text-sm border-r-4 border-black">
-                    <div className="p-4 space-y-2">
-                      <div className="flex gap-3">
-                        <span className="text-[#7A3BFF] font-bold min-w-[60px]">00:00</span>
-                        <span>Welcome back to another tutorial! Today we're diving into...</span>
-                      </div>
-                      <div className="flex gap-3">
-                        <span className="text-[#7A3BFF] font-bold min-w-[60px]">00:15</span>
-                        <span>First, let's understand the core concepts behind this approach...</span>
-                      </div>
-                      <div className="flex gap-3">
-                        <span className="text-[#7A3BFF] font-bold min-w-[60px]">00:32</span>
-                        <span>The key advantage here is the performance improvement you get...</span>
-                      </div>
-                      <div className="flex gap-3">
-                        <span className="text-[#7A3BFF] font-bold min-w-[60px]">01:05</span>
-                        <span>Now, let me show you the practical implementation...</span>
+                    {analysis.transcript && analysis.transcript.source !== 'description' ? (
+                      <div className="p-4 space-y-2">
+                        {analysis.transcript.segments.map((segment, index) => (
+                          <div key={index} className="flex gap-3">
+                            <span className="text-[#7A3BFF] font-bold min-w-[60px]">{formatTimestamp(segment.start)}</span>
+                            <span>{segment.text}</span>
+                          </div>
+                        ))}
                       </div>
-                      <div className="flex gap-3">
-                        <span className="text-[#7A3BFF] font-bold min-w-[60px]">01:28</span>
-                        <span>As you can see in the code editor, we start by setting up...</span>
+                    ) : (
+                      <div className="p-4 text-gray-600 font-medium">
+                        No captions available for this video. The AI summary is based on the title, description and comments.
                       </div>
-                      
-                    </div>
+                    )}
                   </div>
                 </CardContent>
               </Card>
@@ -0,0 +1,164 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { BellRing, CheckCheck, ExternalLink, Trash2 } from 'lucide-react';
+import { AlertEvent, AlertRule } from '@/types';
+import { getTimeElapsed } from '@/lib/youtube';
+
+interface AlertInboxProps {
+  className?: string;
+}
+
+const describeRule = (rule: AlertRule): string => {
+  const conditions = [
+    rule.thresholdPercent !== undefined ? `≥ ${rule.thresholdPercent}% negative` : null,
+    rule.changePercent !== undefined ? `+${rule.changePercent}% vs baseline` : null
+  ].filter(Boolean).join(' or ');
+  return `${conditions} over ${rule.windowHours}h, min ${rule.minSampleSize} comments`;
+};
+
+const AlertInbox: React.FC<AlertInboxProps> = ({ className = '' }) => {
+  const [events, setEvents] = useState<AlertEvent[]>([]);
+  const [rules, setRules] = useState<AlertRule[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const loadAlerts = async () => {
+      try {
+        const [inboxResponse, rulesResponse] = await Promise.all([
+          fetch('/api/alerts/inbox'),
+          fetch('/api/alerts')
+        ]);
+        const inbox = await inboxResponse.json();
+        const ruleList = await rulesResponse.json();
+        if (inbox.success) setEvents(inbox.data.events);
+        if (ruleList.success) setRules(ruleList.data);
+      } catch (error) {
+        console.error('Failed to load alerts:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadAlerts();
+  }, []);
+
+  const unread = events.filter(event => !event.read).length;
+
+  const handleMarkAllRead = async () => {
+    const response = await fetch('/api/alerts/inbox', {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({})
+    });
+    if (response.ok) {
+      setEvents(previous => previous.map(event => ({ ...event, read: true })));
+    }
+  };
+
+  const handleDeleteRule = async (ruleId: string) => {
+    const response = await fetch(`/api/alerts?id=${encodeURIComponent(ruleId)}`, { method: 'DELETE' });
+    if (response.ok) {
+      setRules(previous => previous.filter(rule => rule.id !== ruleId));
+    }
+  };
+
+  if (!loading && events.length === 0 && rules.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className={`border-4 border-black shadow-[8px_8px_0px_0px_rgba(0,0,0,1)] bg-white overflow-hidden ${className}`}>
+      <CardHeader className="bg-gradient-to-r from-[#FFE4DE] to-[#FFF4D6] border-b-4 border-black">
+        <div className="flex items-center justify-between gap-3">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 bg-[#FF6A4D] border-4 border-black flex items-center justify-center shadow-[3px_3px_0px_0px_rgba(0,0,0,1)]">
+              <BellRing className="w-5 h-5 text-white" />
+            </div>
+            <div>
+              <CardTitle className="font-black text-xl text-black tracking-tight">SENTIMENT ALERTS</CardTitle>
+              <p className="text-gray-600 font-bold text-sm">{rules.length} active rule{rules.length === 1 ? '' : 's'}</p>
+            </div>
+            {unread > 0 && (
+              <Badge className="bg-[#FF6A4D] text-white border-2 border-black font-black">{unread} NEW</Badge>
+            )}
+          </div>
+          <Button
+            onClick={handleMarkAllRead}
+            disabled={unread === 0}
+            variant="outline"
+            className="border-2 border-black font-bold hover:bg-gray-50"
+          >
+            <CheckCheck className="w-4 h-4 mr-2" />
+            Mark All Read
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="p-6 space-y-6">
+        {loading ? (
+          <div className="h-20 bg-gray-100 border-4 border-gray-300 animate-pulse"></div>
+        ) : (
+          <>
+            {events.length === 0 ? (
+              <p className="text-center font-bold text-gray-500 py-4">No alerts yet. Your rules are being checked as comments sync.</p>
+            ) : (
+              <ul className="space-y-3 max-h-96 overflow-y-auto">
+                {events.slice(0, 20).map(event => (
+                  <li
+                    key={event.id}
+                    className={`p-4 border-4 border-black ${event.read ? 'bg-white' : 'bg-[#FFE4DE] shadow-[4px_4px_0px_0px_rgba(0,0,0,1)]'}`}
+                  >
+                    <div className="flex items-center justify-between gap-3 mb-1">
+                      <Badge className="bg-white text-black border-2 border-black font-bold text-xs">
+                        {event.reason === 'threshold' ? 'THRESHOLD' : 'SPIKE'} • {event.negativePercent}% NEGATIVE
+                      </Badge>
+                      <span className="text-xs font-bold text-gray-500">{getTimeElapsed(event.createdAt)}</span>
+                    </div>
+                    <p className="text-sm font-medium text-gray-800">{event.message}</p>
+                    <a
+                      href={`https://www.youtube.com/watch?v=${event.videoId}`}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="inline-flex items-center gap-1 mt-2 text-sm font-bold text-[#7A3BFF] hover:underline"
+                    >
+                      Open video <ExternalLink className="h-4 w-4" />
+                    </a>
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            {rules.length > 0 && (
+              <div>
+                <h5 className="font-black text-sm uppercase tracking-wide text-black mb-2">Rules</h5>
+                <ul className="space-y-2">
+                  {rules.map(rule => (
+                    <li key={rule.id} className="flex items-center justify-between gap-3 p-2 border-2 border-black text-sm">
+                      <span className="font-medium text-gray-800">
+                        <span className="font-black">{rule.videoId}</span>: {describeRule(rule)} → {rule.channels.map(channel => channel.type).join(', ')}
+                      </span>
+                      <Button
+                        onClick={() => handleDeleteRule(rule.id)}
+                        variant="outline"
+                        size="sm"
+                        className="border-2 border-black hover:bg-red-50"
+                        title="Delete rule"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default AlertInbox;
@@ -0,0 +1,245 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Layers, Loader2, Plus, RefreshCw, X } from 'lucide-react';
+import { AspectDefinition, AspectSentiment, AspectSentimentReport, CommentData } from '@/types';
+
+interface AspectSentimentPanelProps {
+  videoId?: string;
+  comments: CommentData[];
+  className?: string;
+}
+
+const SENTIMENT_ICONS = { positive: '😊', neutral: '😐', negative: '😔' } as const;
+
+function AspectRow({ aspect }: { aspect: AspectSentiment }) {
+  const [expanded, setExpanded] = useState(false);
+  const share = (count: number) => `${(count / aspect.mentions) * 100}%`;
+
+  return (
+    <li className="p-4 border-4 border-black">
+      <button onClick={() => setExpanded(previous => !previous)} className="w-full text-left">
+        <div className="flex items-center justify-between gap-3 mb-2">
+          <div className="flex items-center gap-2">
+            <span className="font-black text-black">{aspect.label}</span>
+            {aspect.custom && (
+              <Badge className="bg-[#F3E8FF] text-[#7A3BFF] border-2 border-black font-bold text-xs">CUSTOM</Badge>
+            )}
+          </div>
+          <span className="text-xs font-bold text-gray-600">
+            {aspect.mentions} mentions • net {aspect.netSentiment > 0 ? '+' : ''}{aspect.netSentiment.toFixed(2)}
+          </span>
+        </div>
+        <div className="flex h-4 border-2 border-black overflow-hidden">
+          <div className="bg-[#C8FF3D]" style={{ width: share(aspect.positive) }} title={`${aspect.positive} positive`} />
+          <div className="bg-gray-200" style={{ width: share(aspect.neutral) }} title={`${aspect.neutral} neutral`} />
+          <div className="bg-[#FF6A4D]" style={{ width: share(aspect.negative) }} title={`${aspect.negative} negative`} />
+        </div>
+      </button>
+
+      {expanded && (
+        <ul className="mt-3 space-y-2">
+          {aspect.quotes.map(quote => (
+            <li key={`${quote.commentId}-${quote.sentiment}`} className="text-sm text-gray-700">
+              {SENTIMENT_ICONS[quote.sentiment]} &ldquo;{quote.text}&rdquo;
+              {quote.author && <span className="text-xs font-bold text-gray-500"> — {quote.author}</span>}
+            </li>
+          ))}
+        </ul>
+      )}
+    </li>
+  );
+}
+
+const AspectSentimentPanel: React.FC<AspectSentimentPanelProps> = ({ videoId, comments, className = '' }) => {
+  const [report, setReport] = useState<AspectSentimentReport | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [customAspects, setCustomAspects] = useState<AspectDefinition[] | null>(null);
+  const [newLabel, setNewLabel] = useState('');
+  const [newKeywords, setNewKeywords] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [refreshKey, setRefreshKey] = useState(0);
+  // Only the Refresh button bypasses the server cache; saved aspects are part of its key already
+  const refreshRequested = useRef(false);
+
+  // Custom aspects belong to the signed-in creator; the editor stays hidden in the demo
+  useEffect(() => {
+    fetch('/api/youtube/custom-aspects')
+      .then(response => response.json())
+      .then(data => { if (data.success) setCustomAspects(data.data); })
+      .catch(loadError => console.error('Failed to load custom aspects:', loadError));
+  }, []);
+
+  useEffect(() => {
+    if (comments.length === 0) return;
+
+    const loadAspects = async () => {
+      const refresh = refreshRequested.current;
+      refreshRequested.current = false;
+      setLoading(true);
+      setError(null);
+      try {
+        const response = await fetch('/api/ai/aspect-sentiment', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ videoId, comments, refresh })
+        });
+        const data = await response.json();
+        if (data.success) {
+          setReport(data.data);
+        } else {
+          setError(data.error);
+        }
+      } catch (loadError) {
+        console.error('Failed to load aspect sentiment:', loadError);
+        setError('Failed to load aspect sentiment');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadAspects();
+  }, [videoId, comments, refreshKey]);
+
+  const saveCustomAspects = async (aspects: Array<Pick<AspectDefinition, 'label' | 'keywords'>>) => {
+    setSaving(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/youtube/custom-aspects', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ aspects })
+      });
+      const data = await response.json();
+      if (data.success) {
+        setCustomAspects(data.data);
+        setNewLabel('');
+        setNewKeywords('');
+        setRefreshKey(previous => previous + 1);
+      } else {
+        setError(data.error);
+      }
+    } catch (saveError) {
+      console.error('Failed to save custom aspects:', saveError);
+      setError('Failed to save custom aspects');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const addCustomAspect = () => {
+    if (!customAspects || !newLabel.trim()) return;
+    saveCustomAspects([
+      ...customAspects,
+      { label: newLabel.trim(), keywords: newKeywords.split(',').map(keyword => keyword.trim()).filter(Boolean) }
+    ]);
+  };
+
+  const removeCustomAspect = (id: string) => {
+    if (!customAspects) return;
+    saveCustomAspects(customAspects.filter(aspect => aspect.id !== id));
+  };
+
+  if (comments.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className={`border-4 border-black shadow-[8px_8px_0px_0px_rgba(0,0,0,1)] bg-white overflow-hidden ${className}`}>
+      <CardHeader className="bg-gradient-to-r from-[#E8F4FD] to-[#F3E8FF] border-b-4 border-black">
+        <div className="flex items-center justify-between gap-3">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 bg-[#4DA6FF] border-4 border-black flex items-center justify-center shadow-[3px_3px_0px_0px_rgba(0,0,0,1)]">
+              <Layers className="w-5 h-5 text-white" />
+            </div>
+            <div>
+              <CardTitle className="font-black text-xl text-black tracking-tight">WHAT VIEWERS TALK ABOUT</CardTitle>
+              <p className="text-gray-600 font-bold text-sm">Sentiment per aspect of the video</p>
+            </div>
+          </div>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => {
+              refreshRequested.current = true;
+              setRefreshKey(previous => previous + 1);
+            }}
+            disabled={loading}
+            className="border-2 border-black font-bold"
+          >
+            <RefreshCw className={`w-4 h-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+            Refresh
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="p-6 space-y-4">
+        {error && (
+          <p className="p-3 bg-red-50 border-2 border-red-500 text-red-700 font-medium text-sm">{error}</p>
+        )}
+
+        {loading && !report ? (
+          <div className="h-32 bg-gray-100 border-4 border-gray-300 animate-pulse"></div>
+        ) : report && report.aspects.length > 0 ? (
+          <>
+            <ul className="space-y-3">
+              {report.aspects.map(aspect => <AspectRow key={aspect.aspect} aspect={aspect} />)}
+            </ul>
+            <p className="text-xs font-bold text-gray-500">
+              {report.commentsAnalyzed} comments • {report.source === 'model' ? report.model : 'offline keyword analysis'} • click an aspect for quotes
+            </p>
+          </>
+        ) : report ? (
+          <p className="text-sm font-medium text-gray-600">No specific aspects mentioned in these comments yet.</p>
+        ) : null}
+
+        {customAspects && (
+          <div className="pt-4 border-t-2 border-gray-200 space-y-3">
+            <p className="text-sm font-black text-black">Your channel&apos;s aspects</p>
+            {customAspects.length > 0 && (
+              <div className="flex gap-2 flex-wrap">
+                {customAspects.map(aspect => (
+                  <Badge key={aspect.id} className="bg-white text-black border-2 border-black font-bold text-xs" title={aspect.keywords.join(', ')}>
+                    {aspect.label}
+                    <button onClick={() => removeCustomAspect(aspect.id)} disabled={saving} className="ml-1" aria-label={`Remove ${aspect.label}`}>
+                      <X className="w-3 h-3" />
+                    </button>
+                  </Badge>
+                ))}
+              </div>
+            )}
+            <div className="flex gap-2 flex-wrap">
+              <input
+                value={newLabel}
+                onChange={(e) => setNewLabel(e.target.value)}
+                placeholder="Aspect (e.g. Recipe)"
+                maxLength={40}
+                className="px-2 py-1 text-sm border-2 border-black flex-1 min-w-[8rem]"
+              />
+              <input
+                value={newKeywords}
+                onChange={(e) => setNewKeywords(e.target.value)}
+                placeholder="Keywords, comma separated"
+                className="px-2 py-1 text-sm border-2 border-black flex-[2] min-w-[12rem]"
+              />
+              <Button
+                size="sm"
+                onClick={addCustomAspect}
+                disabled={saving || !newLabel.trim()}
+                className="bg-[#7A3BFF] text-white border-2 border-black font-bold hover:bg-[#6A2BEF]"
+              >
+                {saving ? <Loader2 className="w-4 h-4 mr-1 animate-spin" /> : <Plus className="w-4 h-4 mr-1" />}
+                Add
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default AspectSentimentPanel;
@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
@@ -14,16 +14,26 @@ import {
   AlertCircle,
   CheckCircle,
   Loader2,
-  RefreshCw
+  RefreshCw,
+  ListPlus,
+  HelpCircle,
+  Ban,
+  PauseCircle,
+  XCircle,
+  UserX,
+  ShieldCheck
 } from 'lucide-react';
-import { CommentData } from '@/types';
+import { CommentCategory, CommentData, GuardrailResult, ModerationAction, ReplyTone, SpamSignal, ThreadSentiment } from '@/types';
 import { CommentSkeleton } from './SkeletonLoaders';
+import ReplyQueue from './ReplyQueue';
+import GuardrailNotice from './GuardrailNotice';
 
 interface CommentAnalysisProps {
   videoId?: string;
   videoTitle?: string;
   videoContext?: string;
   comments?: CommentData[];
+  spamComments?: CommentData[]; // suspected spam, kept out of the main list and totals
   sentimentDistribution?: {
     positive: { count: number; percentage: string };
     neutral: { count: number; percentage: string };
@@ -39,9 +49,155 @@ interface CommentItemProps {
   videoTitle: string;
   videoContext: string;
   onReplyPosted?: () => void;
+  selected?: boolean;
+  onToggleSelected?: (commentId: string) => void;
+  onRepliesLoaded?: (commentId: string, replyCount: number) => void;
+  onModerate?: (commentIds: string[], action: ModerationAction) => Promise<boolean>;
+  onCorrectSentiment?: (commentId: string, sentiment: CommentSentiment) => Promise<boolean>;
 }
 
-function CommentItem({ comment, videoId, videoTitle, videoContext, onReplyPosted }: CommentItemProps) {
+type CommentSentiment = NonNullable<CommentData['sentiment']>;
+
+const SENTIMENT_CHOICES: CommentSentiment[] = ['positive', 'neutral', 'negative'];
+
+// Treat a comment as a question when any sentence ends in a question mark
+const isQuestion = (comment: CommentData): boolean =>
+  /\?(\s|$)/.test(comment.textDisplay.replace(/<[^>]*>/g, ' '));
+
+const CATEGORY_LABELS: Record<CommentCategory, { label: string; color: string }> = {
+  question: { label: '❓ QUESTION', color: 'bg-[#E8F4FD] text-black' },
+  'feature-request': { label: '💡 FEATURE REQUEST', color: 'bg-[#F3E8FF] text-[#7A3BFF]' },
+  'bug-report': { label: '🐞 BUG REPORT', color: 'bg-[#FFF4D6] text-black' },
+  spam: { label: '🚫 SPAM', color: 'bg-gray-800 text-white' },
+  'self-promo': { label: '📣 SELF-PROMO', color: 'bg-gray-200 text-black' },
+  toxicity: { label: '☣️ TOXIC', color: 'bg-[#FF6A4D] text-white' },
+  praise: { label: '🙌 PRAISE', color: 'bg-[#C8FF3D] text-black' },
+  other: { label: 'OTHER', color: 'bg-white text-gray-600' }
+};
+
+const MODERATION_OPTIONS: Array<{ action: ModerationAction; label: string; icon: typeof Ban }> = [
+  { action: 'hold', label: 'Hold', icon: PauseCircle },
+  { action: 'reject', label: 'Reject', icon: XCircle },
+  { action: 'ban', label: 'Ban Author', icon: UserX },
+  { action: 'spam', label: 'Spam', icon: Ban }
+];
+
+// Threads at or above this controversy are highlighted
+const CONTROVERSIAL_THRESHOLD = 0.3;
+
+const describeThread = (thread: ThreadSentiment): string =>
+  thread.netSentiment > 0.2 ? 'THREAD POSITIVE' : thread.netSentiment < -0.2 ? 'THREAD NEGATIVE' : 'THREAD MIXED';
+
+// Banning is the only action that reaches beyond the comment itself
+const confirmModeration = (action: ModerationAction, count: number): boolean =>
+  action !== 'ban' && count === 1
+    ? true
+    : window.confirm(
+        action === 'ban'
+          ? `Reject ${count === 1 ? 'this comment' : `${count} comments`} and ban ${count === 1 ? 'its author' : 'their authors'} from your channel?`
+          : `Apply "${MODERATION_OPTIONS.find(option => option.action === action)?.label}" to ${count} comments?`
+      );
+
+const SPAM_SIGNAL_LABELS: Record<SpamSignal, string> = {
+  duplicate: 'COPY-PASTE',
+  link: 'LINK',
+  contact: 'CONTACT DETAILS',
+  author: 'SUSPICIOUS AUTHOR',
+  lookalike: 'LOOKALIKE TEXT'
+};
+
+function SpamModerationList({
+  comments,
+  onModerate
+}: {
+  comments: CommentData[];
+  onModerate?: (commentIds: string[], action: ModerationAction) => Promise<boolean>;
+}) {
+  const [expanded, setExpanded] = useState(false);
+  const [moderating, setModerating] = useState(false);
+
+  const moderateAll = async (action: ModerationAction) => {
+    if (!onModerate || !confirmModeration(action, comments.length)) return;
+    setModerating(true);
+    await onModerate(comments.map(comment => comment.id), action);
+    setModerating(false);
+  };
+
+  return (
+    <div className="border-t-4 border-black bg-gray-50">
+      <button
+        onClick={() => setExpanded(previous => !previous)}
+        className="w-full flex items-center justify-between px-6 py-3 text-sm font-black text-black hover:bg-gray-100"
+      >
+        <span className="flex items-center gap-2">
+          <Ban className="w-4 h-4" />
+          SUSPECTED SPAM ({comments.length})
+        </span>
+        <span className="text-xs font-bold text-gray-600">
+          {expanded ? 'Hide' : 'Review'} • excluded from sentiment totals
+        </span>
+      </button>
+
+      {expanded && onModerate && (
+        <div className="flex items-center gap-2 px-6 pb-3">
+          <Button
+            size="sm"
+            onClick={() => moderateAll('spam')}
+            disabled={moderating}
+            className="bg-black text-white border-2 border-black font-bold text-xs hover:bg-gray-800"
+          >
+            {moderating ? <Loader2 className="w-3 h-3 mr-1 animate-spin" /> : <Ban className="w-3 h-3 mr-1" />}
+            Report All as Spam
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => moderateAll('hold')}
+            disabled={moderating}
+            className="border-2 border-black font-bold text-xs"
+          >
+            <PauseCircle className="w-3 h-3 mr-1" />
+            Hold All for Review
+          </Button>
+        </div>
+      )}
+
+      {expanded && (
+        <ul className="max-h-80 overflow-y-auto divide-y-2 divide-gray-200 border-t-2 border-gray-200">
+          {comments.map(comment => (
+            <li key={comment.id} className="px-6 py-3">
+              <div className="flex items-center gap-2 flex-wrap mb-1">
+                <span className="text-sm font-bold text-black">{comment.authorDisplayName}</span>
+                {comment.spam?.signals.map(signal => (
+                  <Badge key={signal} className="bg-gray-800 text-white border-2 border-black font-bold text-xs">
+                    {SPAM_SIGNAL_LABELS[signal]}{signal === 'duplicate' && comment.spam?.duplicates ? ` ×${comment.spam.duplicates}` : ''}
+                  </Badge>
+                ))}
+                <span className="text-xs font-bold text-gray-500">
+                  {Math.round((comment.spam?.score || 0) * 100)}%
+                </span>
+              </div>
+              <p className="text-sm text-gray-700 break-words">{comment.textDisplay.replace(/<[^>]*>/g, '')}</p>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+function CommentItem({
+  comment,
+  videoId,
+  videoTitle,
+  videoContext,
+  onReplyPosted,
+  selected = false,
+  onToggleSelected,
+  onRepliesLoaded,
+  onModerate,
+  onCorrectSentiment
+}: CommentItemProps) {
   const [showReplyBox, setShowReplyBox] = useState(false);
   const [generatedReply, setGeneratedReply] = useState('');
   const [customReply, setCustomReply] = useState('');
@@ -50,10 +206,15 @@ function CommentItem({ comment, videoId, videoTitle, videoContext, onReplyPosted
   const [isPosting, setIsPosting] = useState(false);
   const [replyStatus, setReplyStatus] = useState<'idle' | 'success' | 'error'>('idle');
   const [showPreview, setShowPreview] = useState(false);
+  const [usedVoiceProfile, setUsedVoiceProfile] = useState(false);
+  const [guardrail, setGuardrail] = useState<GuardrailResult | null>(null);
   const [hasAuthorReply, setHasAuthorReply] = useState(false);
   const [replies, setReplies] = useState<any[]>([]);
   const [showReplies, setShowReplies] = useState(false);
+  const [thread, setThread] = useState<ThreadSentiment | undefined>(comment.thread);
   const [loadingReplies, setLoadingReplies] = useState(false);
+  const [moderating, setModerating] = useState<ModerationAction | null>(null);
+  const [correcting, setCorrecting] = useState(false);
 
   // Check for existing replies when component mounts
   useEffect(() => {
@@ -65,11 +226,14 @@ function CommentItem({ comment, videoId, videoTitle, videoContext, onReplyPosted
   const fetchReplies = async () => {
     setLoadingReplies(true);
     try {
-      const response = await fetch(`/api/youtube/comment-replies?commentId=${comment.id}`);
+      // With the video id the whole thread is scored, including replies beyond the five synced inline
+      const response = await fetch(`/api/youtube/comment-replies?commentId=${comment.id}${videoId ? `&videoId=${videoId}` : ''}`);
       if (response.ok) {
         const data = await response.json();
         if (data.success && data.data.replies) {
           setReplies(data.data.replies);
+          setThread(data.data.thread || comment.thread);
+          onRepliesLoaded?.(comment.id, data.data.replies.length);
           
           // Check if there's an author reply
           const hasReply = data.data.replies.length > 0;
@@ -127,6 +291,8 @@ function CommentItem({ comment, videoId, videoTitle, videoContext, onReplyPosted
         setGeneratedReply(reply);
         setCustomReply(reply);
         setShowPreview(true);
+        setUsedVoiceProfile(Boolean(data.data.metadata?.voiceProfile));
+        setGuardrail(data.data.guardrail || null);
       } else {
         console.error('Failed to generate reply:', data.error);
       }
@@ -137,7 +303,7 @@ function CommentItem({ comment, videoId, videoTitle, videoContext, onReplyPosted
     }
   };
 
-  const postReply = async () => {
+  const postReply = async (confirmFlagged = false) => {
     if (!customReply || !customReply.trim()) return;
 
     setIsPosting(true);
@@ -156,6 +322,8 @@ function CommentItem({ comment, videoId, videoTitle, videoContext, onReplyPosted
           transcript: videoContext,
           channelTitle: videoTitle,
           customReply: customReply.trim(),
+          generatedReply: generatedReply || undefined,
+          confirmFlagged,
           replyTone
         })
       });
@@ -168,10 +336,14 @@ function CommentItem({ comment, videoId, videoTitle, videoContext, onReplyPosted
         setCustomReply('');
         setGeneratedReply('');
         setShowPreview(false);
+        setGuardrail(null);
         
         // Refresh replies to show the new reply
         await fetchReplies();
         onReplyPosted?.();
+      } else if (data.data?.verdict) {
+        // Held by the reply guardrails; the notice explains why
+        setGuardrail(data.data);
       } else {
         setReplyStatus('error');
         console.error('Failed to post reply:', data.error);
@@ -184,6 +356,20 @@ function CommentItem({ comment, videoId, videoTitle, videoContext, onReplyPosted
     }
   };
 
+  const moderate = async (action: ModerationAction) => {
+    if (!onModerate || !confirmModeration(action, 1)) return;
+    setModerating(action);
+    await onModerate([comment.id], action);
+    setModerating(null);
+  };
+
+  const correctSentiment = async (sentiment: CommentSentiment) => {
+    if (!onCorrectSentiment) return;
+    setCorrecting(true);
+    await onCorrectSentiment(comment.id, sentiment);
+    setCorrecting(false);
+  };
+
   const copyReply = () => {
     navigator.clipboard.writeText(customReply);
   };
@@ -203,6 +389,16 @@ function CommentItem({ comment, videoId, videoTitle, videoContext, onReplyPosted
   return (
     <div className="border-2 border-black p-6 hover:bg-gradient-to-r hover:from-gray-50 hover:to-white transition-all group">
       <div className="flex items-start gap-4">
+        {onToggleSelected && (
+          <input
+            type="checkbox"
+            checked={selected}
+            onChange={() => onToggleSelected(comment.id)}
+            aria-label={`Select comment by ${comment.authorDisplayName}`}
+            className="mt-4 w-5 h-5 accent-[#7A3BFF] cursor-pointer"
+          />
+        )}
+
         {/* Profile Avatar */}
         <div className="w-12 h-12 border-4 border-black overflow-hidden bg-gradient-to-br from-[#7A3BFF] to-[#9D5BFF] flex items-center justify-center">
           {comment.authorProfileImageUrl ? (
@@ -225,6 +421,11 @@ function CommentItem({ comment, videoId, videoTitle, videoContext, onReplyPosted
             <Badge className={`border-2 border-black font-bold text-xs ${getSentimentColor(comment.sentiment)}`}>
               {getSentimentIcon(comment.sentiment)} {comment.sentiment?.toUpperCase() || 'NEUTRAL'}
             </Badge>
+            {comment.categories?.filter(category => category !== 'other').map(category => (
+              <Badge key={category} className={`border-2 border-black font-bold text-xs ${CATEGORY_LABELS[category].color}`}>
+                {CATEGORY_LABELS[category].label}
+              </Badge>
+            ))}
             <span className="text-sm text-gray-500 font-medium">{getTimeElapsed(comment.publishedAt)}</span>
             
             {/* Reply Status Badge */}
@@ -234,6 +435,16 @@ function CommentItem({ comment, videoId, videoTitle, videoContext, onReplyPosted
                 {replies.length} REPLIES
               </Badge>
             )}
+
+            {/* Thread Sentiment */}
+            {thread && thread.replyCount > 0 && (
+              <Badge
+                className={`border-2 border-black font-bold text-xs ${thread.controversy >= CONTROVERSIAL_THRESHOLD ? 'bg-[#FF6A4D] text-white' : 'bg-white text-black'}`}
+                title={`Thread sentiment ${thread.netSentiment > 0 ? '+' : ''}${thread.netSentiment.toFixed(2)} across ${thread.replyCount} scored replies`}
+              >
+                🧵 {describeThread(thread)}{thread.controversy >= CONTROVERSIAL_THRESHOLD ? ` • 🔥 ${Math.round(thread.controversy * 100)}%` : ''}
+              </Badge>
+            )}
           </div>
 
           {/* Comment Text */}
@@ -248,8 +459,31 @@ function CommentItem({ comment, videoId, videoTitle, videoContext, onReplyPosted
               {comment.likeCount || 0} likes
             </div>
             <span className="text-sm text-gray-500">
-              Confidence: {((comment.confidence || 0.5) * 100).toFixed(0)}%
+              {comment.correction
+                ? `Labelled by you • AI said ${comment.correction.modelSentiment} (${((comment.correction.modelConfidence || 0.5) * 100).toFixed(0)}%)`
+                : `Confidence: ${((comment.confidence || 0.5) * 100).toFixed(0)}%`}
             </span>
+
+            {/* Human labels: corrections teach the model this channel's sarcasm and in-jokes */}
+            {onCorrectSentiment && comment.sentiment && (
+              <div className="flex items-center gap-1" title="Pick the right sentiment; your labels become examples for the AI">
+                {SENTIMENT_CHOICES.map(sentiment => (
+                  <button
+                    key={sentiment}
+                    onClick={() => correctSentiment(sentiment)}
+                    disabled={correcting}
+                    aria-label={`Label as ${sentiment}`}
+                    className={`w-7 h-7 border-2 border-black text-sm transition-all ${
+                      comment.sentiment === sentiment
+                        ? getSentimentColor(sentiment)
+                        : 'bg-white opacity-40 hover:opacity-100'
+                    }`}
+                  >
+                    {getSentimentIcon(sentiment)}
+                  </button>
+                ))}
+              </div>
+            )}
           </div>
 
           {/* Action Buttons */}
@@ -264,6 +498,21 @@ function CommentItem({ comment, videoId, videoTitle, videoContext, onReplyPosted
               {showReplyBox ? 'Cancel' : 'Reply'}
             </Button>
 
+            {onModerate && MODERATION_OPTIONS.map(({ action, label, icon: Icon }) => (
+              <Button
+                key={action}
+                size="sm"
+                variant="outline"
+                onClick={() => moderate(action)}
+                disabled={moderating !== null}
+                className="border-2 border-black font-bold text-xs text-gray-700 hover:bg-gray-50"
+                title={`${label} this comment on YouTube`}
+              >
+                {moderating === action ? <Loader2 className="w-3 h-3 mr-1 animate-spin" /> : <Icon className="w-3 h-3 mr-1" />}
+                {label}
+              </Button>
+            ))}
+
             {replyStatus === 'error' && (
               <span className="text-red-600 text-sm flex items-center gap-1">
                 <AlertCircle className="w-4 h-4" />
@@ -318,21 +567,31 @@ function CommentItem({ comment, videoId, videoTitle, videoContext, onReplyPosted
                 <div className="relative">
                   <textarea
                     value={customReply || ''}
-                    onChange={(e) => setCustomReply(e.target.value)}
+                    onChange={(e) => {
+                      setCustomReply(e.target.value);
+                      setGuardrail(null); // re-checked when posting
+                    }}
                     placeholder="Write your reply or generate one with AI..."
                     className={`w-full p-3 border-4 border-black font-medium resize-none h-24 focus:outline-none focus:bg-yellow-50 ${
                       showPreview ? 'bg-[#C8FF3D]/10 border-[#C8FF3D]' : ''
                     }`}
                   />
+                  {showPreview && usedVoiceProfile && (
+                    <Badge className="absolute bottom-3 right-3 bg-white text-black border-2 border-black font-bold text-xs">
+                      🗣️ YOUR VOICE
+                    </Badge>
+                  )}
                   
                 </div>
 
+                <GuardrailNotice guardrail={guardrail} />
+
                 {/* Action Buttons */}
                 <div className="flex items-center gap-3 flex-wrap">
                   <Button
                     size="sm"
-                    onClick={postReply}
-                    disabled={!customReply || !customReply.trim() || isPosting}
+                    onClick={() => postReply(guardrail?.verdict === 'flag')}
+                    disabled={!customReply || !customReply.trim() || isPosting || guardrail?.verdict === 'block'}
                     className="bg-[#C8FF3D] text-black border-2 border-black font-bold hover:bg-[#B8EF2D]"
                   >
                     {isPosting ? (
@@ -343,7 +602,7 @@ function CommentItem({ comment, videoId, videoTitle, videoContext, onReplyPosted
                     ) : (
                       <>
                         <Send className="w-4 h-4 mr-2" />
-                        Post Reply
+                        {guardrail?.verdict === 'flag' ? 'Post Anyway' : 'Post Reply'}
                       </>
                     )}
                   </Button>
@@ -367,6 +626,7 @@ function CommentItem({ comment, videoId, videoTitle, videoContext, onReplyPosted
                         setCustomReply('');
                         setShowPreview(false);
                         setGeneratedReply('');
+                        setGuardrail(null);
                       }}
                       className="border-2 border-red-500 text-red-600 hover:bg-red-50 font-bold"
                     >
@@ -400,6 +660,11 @@ function CommentItem({ comment, videoId, videoTitle, videoContext, onReplyPosted
               <div className="flex items-center justify-between mb-4">
                 <h6 className="font-bold text-sm text-gray-700">
                   💬 Replies ({replies.length})
+                  {thread && thread.replyCount > 0 && (
+                    <span className="ml-3 text-xs font-medium text-gray-500">
+                      😊 {thread.positive} • 😐 {thread.neutral} • 😔 {thread.negative} • Controversy {Math.round(thread.controversy * 100)}%
+                    </span>
+                  )}
                 </h6>
                 <Button
                   size="sm"
@@ -432,6 +697,9 @@ function CommentItem({ comment, videoId, videoTitle, videoContext, onReplyPosted
                         <div className="flex-1">
                           <div className="flex items-center gap-2 mb-2">
                             <h6 className="font-bold text-sm text-black">{reply.authorDisplayName}</h6>
+                            {reply.sentiment && (
+                              <span className="text-xs" title={reply.sentiment}>{getSentimentIcon(reply.sentiment)}</span>
+                            )}
                             {reply.authorChannelId && (
                               <Badge className="bg-blue-100 text-blue-800 border-2 border-blue-300 font-bold text-xs">
                                 👑 AUTHOR
@@ -467,16 +735,45 @@ export default function CommentAnalysis({
   videoTitle = '', 
   videoContext = '', 
   comments = [], 
+  spamComments = [],
   sentimentDistribution,
   loading,
   onLoadComments 
 }: CommentAnalysisProps) {
   const [selectedSentiment, setSelectedSentiment] = useState<'all' | 'positive' | 'neutral' | 'negative'>('all');
+  const [selectedCategory, setSelectedCategory] = useState<'all' | CommentCategory>('all');
   const [refreshKey, setRefreshKey] = useState(0);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [replyCounts, setReplyCounts] = useState<Record<string, number>>({});
+  const [queueTone, setQueueTone] = useState<ReplyTone>('friendly');
+  const [queueing, setQueueing] = useState(false);
+  const [queueMessage, setQueueMessage] = useState<string | null>(null);
+  const [queueRefresh, setQueueRefresh] = useState(0);
+  const [moderatedIds, setModeratedIds] = useState<Set<string>>(new Set());
+  const [bulkAction, setBulkAction] = useState<ModerationAction>('hold');
+  const [moderating, setModerating] = useState(false);
+  const [controversialFirst, setControversialFirst] = useState(false);
+  const [correctedComments, setCorrectedComments] = useState<Record<string, CommentData>>({});
+
+  // Moderated comments leave the list right away; the next load no longer returns them
+  const filteredComments = comments.map(comment => correctedComments[comment.id] || comment).filter(comment =>
+    !moderatedIds.has(comment.id) &&
+    (selectedSentiment === 'all' || comment.sentiment === selectedSentiment) &&
+    (selectedCategory === 'all' || comment.categories?.includes(selectedCategory))
+  );
+  if (controversialFirst) {
+    filteredComments.sort((a, b) => (b.thread?.controversy || 0) - (a.thread?.controversy || 0));
+  }
 
-  const filteredComments = selectedSentiment === 'all' 
-    ? comments 
-    : comments.filter(comment => comment.sentiment === selectedSentiment);
+  const visibleSpamComments = spamComments.filter(comment => !moderatedIds.has(comment.id));
+
+  // Only offer categories that actually occur in this video's comments
+  const categoryCounts = comments.reduce<Partial<Record<CommentCategory, number>>>((counts, comment) => {
+    comment.categories?.forEach(category => {
+      counts[category] = (counts[category] || 0) + 1;
+    });
+    return counts;
+  }, {});
 
   useEffect(() => {
     if (videoId && onLoadComments) {
@@ -491,6 +788,144 @@ export default function CommentAnalysis({
     }
   };
 
+  // Stable so the reply queue does not reload on every selection change
+  const handleQueuedReplyPosted = useCallback(() => setRefreshKey(prev => prev + 1), []);
+
+  const handleRepliesLoaded = useCallback((commentId: string, replyCount: number) => {
+    setReplyCounts(previous => previous[commentId] === replyCount ? previous : { ...previous, [commentId]: replyCount });
+  }, []);
+
+  const toggleSelected = (commentId: string) => {
+    setSelectedIds(previous => {
+      const next = new Set(previous);
+      if (next.has(commentId)) {
+        next.delete(commentId);
+      } else {
+        next.add(commentId);
+      }
+      return next;
+    });
+  };
+
+  const moderateComments = useCallback(async (commentIds: string[], action: ModerationAction): Promise<boolean> => {
+    if (!videoId) return false;
+
+    setQueueMessage(null);
+    try {
+      const response = await fetch('/api/youtube/comment-moderation', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ videoId, commentIds, action })
+      });
+
+      const data = await response.json();
+      const succeeded: string[] = data.data?.succeeded || [];
+      if (succeeded.length > 0) {
+        setModeratedIds(previous => new Set([...previous, ...succeeded]));
+        setSelectedIds(previous => new Set([...previous].filter(id => !succeeded.includes(id))));
+      }
+      if (!data.success || data.data.failed.length > 0) {
+        setQueueMessage(`${data.error || data.data.failed[0].error} (${data.data?.failed.length ?? commentIds.length} not moderated)`);
+      } else if (commentIds.length > 1) {
+        setQueueMessage(`Moderated ${succeeded.length} comments`);
+      }
+      return succeeded.length > 0;
+    } catch (error) {
+      console.error('Error moderating comments:', error);
+      setQueueMessage('Failed to moderate comments');
+      return false;
+    }
+  }, [videoId]);
+
+  const correctSentiment = useCallback(async (commentId: string, sentiment: CommentSentiment): Promise<boolean> => {
+    if (!videoId) return false;
+
+    setQueueMessage(null);
+    try {
+      const response = await fetch('/api/youtube/sentiment-corrections', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ videoId, commentId, sentiment })
+      });
+
+      const data = await response.json();
+      if (!data.success) {
+        setQueueMessage(data.error || 'Failed to save label');
+        return false;
+      }
+
+      const { comment: updated } = data.data;
+      setCorrectedComments(previous => {
+        const original = comments.find(comment => comment.id === commentId);
+        return original
+          ? { ...previous, [commentId]: { ...original, sentiment: updated.sentiment, confidence: updated.confidence, correction: updated.correction } }
+          : previous;
+      });
+      return true;
+    } catch (error) {
+      console.error('Error saving sentiment label:', error);
+      setQueueMessage('Failed to save label');
+      return false;
+    }
+  }, [videoId, comments]);
+
+  const moderateSelected = async () => {
+    if (selectedIds.size === 0 || !confirmModeration(bulkAction, selectedIds.size)) return;
+    setModerating(true);
+    await moderateComments([...selectedIds], bulkAction);
+    setModerating(false);
+  };
+
+  const selectFilteredComments = () => {
+    setSelectedIds(new Set(filteredComments.map(comment => comment.id)));
+  };
+
+  const selectUnansweredQuestions = () => {
+    setSelectedIds(new Set(
+      comments
+        .filter(comment => isQuestion(comment) && !replyCounts[comment.id])
+        .map(comment => comment.id)
+    ));
+  };
+
+  const queueSelectedReplies = async () => {
+    if (!videoId || selectedIds.size === 0) return;
+
+    setQueueing(true);
+    setQueueMessage(null);
+    try {
+      const response = await fetch('/api/youtube/reply-queue', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          videoId,
+          videoTitle,
+          videoContext,
+          replyTone: queueTone,
+          comments: comments
+            .filter(comment => selectedIds.has(comment.id))
+            .map(({ id, textDisplay, authorDisplayName }) => ({ id, textDisplay, authorDisplayName }))
+        })
+      });
+
+      const data = await response.json();
+      if (data.success) {
+        setSelectedIds(new Set());
+        setQueueRefresh(prev => prev + 1);
+        setQueueMessage(data.data.skipped > 0
+          ? `Drafting ${data.data.queued.length} replies (${data.data.skipped} already queued)`
+          : `Drafting ${data.data.queued.length} replies`);
+      } else {
+        setQueueMessage(data.error || 'Failed to queue replies');
+      }
+    } catch (error) {
+      console.error('Error queueing replies:', error);
+      setQueueMessage('Failed to queue replies');
+    } finally {
+      setQueueing(false);
+    }
+  };
+
   if (loading) {
     return (
       <Card className="border-4 border-black shadow-[8px_8px_0px_0px_rgba(0,0,0,1)] bg-white">
@@ -582,9 +1017,119 @@ export default function CommentAnalysis({
               >
                 😔 NEGATIVE ({sentimentDistribution.negative.count})
               </button>
+              <button
+                onClick={() => setControversialFirst(previous => !previous)}
+                className={`px-3 py-1 text-xs font-bold border-2 border-black transition-all ${
+                  controversialFirst ? 'bg-[#FF6A4D] text-white' : 'bg-white text-black hover:bg-gray-50'
+                }`}
+                title="Sort threads by how split their replies are"
+              >
+                🔥 CONTROVERSIAL FIRST
+              </button>
+            </div>
+          </div>
+        )}
+
+        {/* Triage Categories */}
+        {Object.keys(categoryCounts).length > 0 && (
+          <div className="flex items-center gap-4 mt-3">
+            <span className="text-sm font-bold text-black">Filter by category:</span>
+            <div className="flex gap-2 flex-wrap">
+              <button
+                onClick={() => setSelectedCategory('all')}
+                className={`px-3 py-1 text-xs font-bold border-2 border-black transition-all ${
+                  selectedCategory === 'all' ? 'bg-black text-white' : 'bg-white text-black hover:bg-gray-50'
+                }`}
+              >
+                ALL
+              </button>
+              {(Object.keys(CATEGORY_LABELS) as CommentCategory[])
+                .filter(category => categoryCounts[category])
+                .map(category => (
+                  <button
+                    key={category}
+                    onClick={() => setSelectedCategory(category)}
+                    className={`px-3 py-1 text-xs font-bold border-2 border-black transition-all ${
+                      selectedCategory === category ? CATEGORY_LABELS[category].color : 'bg-white text-black hover:bg-gray-50'
+                    }`}
+                  >
+                    {CATEGORY_LABELS[category].label} ({categoryCounts[category]})
+                  </button>
+                ))}
             </div>
           </div>
         )}
+
+        {/* Bulk Reply Queue */}
+        {videoId && (
+          <div className="flex items-center gap-3 mt-4 flex-wrap">
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={selectUnansweredQuestions}
+              className="border-2 border-black font-bold hover:bg-gray-50"
+            >
+              <HelpCircle className="w-4 h-4 mr-2" />
+              Select Unanswered Questions
+            </Button>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={selectFilteredComments}
+              className="border-2 border-black font-bold hover:bg-gray-50"
+            >
+              <CheckCircle className="w-4 h-4 mr-2" />
+              Select Shown ({filteredComments.length})
+            </Button>
+            {selectedIds.size > 0 && (
+              <>
+                <select
+                  value={queueTone}
+                  onChange={(e) => setQueueTone(e.target.value as ReplyTone)}
+                  className="px-2 py-1 text-xs font-bold border-2 border-black bg-white"
+                >
+                  {(['friendly', 'professional', 'casual'] as const).map(tone => (
+                    <option key={tone} value={tone}>{tone.toUpperCase()}</option>
+                  ))}
+                </select>
+                <Button
+                  size="sm"
+                  onClick={queueSelectedReplies}
+                  disabled={queueing}
+                  className="bg-[#7A3BFF] text-white border-2 border-black font-bold hover:bg-[#6A2BEF]"
+                >
+                  {queueing ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <ListPlus className="w-4 h-4 mr-2" />}
+                  Draft Replies ({selectedIds.size})
+                </Button>
+                <select
+                  value={bulkAction}
+                  onChange={(e) => setBulkAction(e.target.value as ModerationAction)}
+                  className="px-2 py-1 text-xs font-bold border-2 border-black bg-white"
+                >
+                  {MODERATION_OPTIONS.map(({ action, label }) => (
+                    <option key={action} value={action}>{label.toUpperCase()}</option>
+                  ))}
+                </select>
+                <Button
+                  size="sm"
+                  onClick={moderateSelected}
+                  disabled={moderating}
+                  className="bg-black text-white border-2 border-black font-bold hover:bg-gray-800"
+                >
+                  {moderating ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <ShieldCheck className="w-4 h-4 mr-2" />}
+                  Moderate ({selectedIds.size})
+                </Button>
+                <button
+                  onClick={() => setSelectedIds(new Set())}
+                  className="text-xs font-bold text-gray-600 hover:underline"
+                >
+                  Clear selection
+                </button>
+              </>
+            )}
+            {queueMessage && <span className="text-sm font-medium text-gray-700">{queueMessage}</span>}
+          </div>
+        )}
       </CardHeader>
 
       <CardContent className="p-0">
@@ -597,10 +1142,30 @@ export default function CommentAnalysis({
                 videoTitle={videoTitle}
                 videoContext={videoContext}
                 onReplyPosted={handleCommentRefresh}
+                selected={selectedIds.has(comment.id)}
+                onToggleSelected={videoId ? toggleSelected : undefined}
+                onRepliesLoaded={handleRepliesLoaded}
+                onModerate={videoId ? moderateComments : undefined}
+                onCorrectSentiment={videoId ? correctSentiment : undefined}
               />
             </div>
           ))}
         </div>
+
+        {visibleSpamComments.length > 0 && (
+          <SpamModerationList
+            comments={visibleSpamComments}
+            onModerate={videoId ? moderateComments : undefined}
+          />
+        )}
+
+        {videoId && (
+          <ReplyQueue
+            videoId={videoId}
+            refreshSignal={queueRefresh}
+            onReplyPosted={handleQueuedReplyPosted}
+          />
+        )}
       </CardContent>
     </Card>
   );
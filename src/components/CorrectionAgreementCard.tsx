@@ -0,0 +1,147 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { RefreshCw, Scale } from 'lucide-react';
+import { CorrectionAgreementReport, SentimentCorrection, SentimentExample } from '@/types';
+
+interface CorrectionAgreementCardProps {
+  className?: string;
+}
+
+const SENTIMENT_ICONS: Record<SentimentExample['sentiment'], string> = {
+  positive: '😊',
+  neutral: '😐',
+  negative: '😔'
+};
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+const CorrectionAgreementCard: React.FC<CorrectionAgreementCardProps> = ({ className = '' }) => {
+  const [report, setReport] = useState<CorrectionAgreementReport | null>(null);
+  const [recent, setRecent] = useState<SentimentCorrection[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const loadReport = async () => {
+    setLoading(true);
+    try {
+      const response = await fetch('/api/youtube/sentiment-corrections');
+      const data = await response.json();
+      if (data.success) {
+        setReport(data.data.report);
+        setRecent(data.data.recent);
+      }
+    } catch (loadError) {
+      console.error('Failed to load sentiment corrections:', loadError);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadReport();
+  }, []);
+
+  const sentiments = Object.keys(SENTIMENT_ICONS) as SentimentExample['sentiment'][];
+  const mistakes = recent.filter(correction => correction.modelSentiment !== correction.correctedSentiment);
+
+  return (
+    <Card className={`border-4 border-black shadow-[8px_8px_0px_0px_rgba(0,0,0,1)] bg-white overflow-hidden ${className}`}>
+      <CardHeader className="bg-gradient-to-r from-[#FFF4D6] to-[#E8F4FD] border-b-4 border-black">
+        <div className="flex items-center justify-between gap-3">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 bg-black border-4 border-black flex items-center justify-center shadow-[3px_3px_0px_0px_rgba(0,0,0,1)]">
+              <Scale className="w-5 h-5 text-[#C8FF3D]" />
+            </div>
+            <div>
+              <CardTitle className="font-black text-xl text-black tracking-tight">MODEL VS YOU</CardTitle>
+              <p className="text-gray-600 font-bold text-sm">
+                {report && report.reviewed > 0
+                  ? `AI agreed on ${percent(report.agreementRate)} of ${report.reviewed} comments you labelled`
+                  : 'Label comments in the comment analysis to calibrate the AI'}
+              </p>
+            </div>
+          </div>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={loadReport}
+            disabled={loading}
+            className="border-2 border-black font-bold"
+          >
+            <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+          </Button>
+        </div>
+      </CardHeader>
+      {report && report.reviewed > 0 && (
+        <CardContent className="p-6 space-y-5">
+          <div>
+            <p className="text-sm font-black text-black mb-2">Agreement by model confidence</p>
+            <ul className="space-y-2">
+              {report.byConfidence.map(band => (
+                <li key={band.label} className="flex items-center gap-3 text-sm">
+                  <span className="w-20 font-bold text-gray-700">{band.label}</span>
+                  <div className="flex-1 h-4 border-2 border-black bg-gray-100">
+                    {band.reviewed > 0 && (
+                      <div className="h-full bg-[#C8FF3D]" style={{ width: percent(band.agreementRate) }} />
+                    )}
+                  </div>
+                  <span className="w-28 text-right font-bold text-gray-600">
+                    {band.reviewed > 0 ? `${percent(band.agreementRate)} of ${band.reviewed}` : 'no labels'}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+
+          <div>
+            <p className="text-sm font-black text-black mb-2">AI said (rows) vs you said (columns)</p>
+            <table className="text-sm border-2 border-black">
+              <thead>
+                <tr>
+                  <th className="p-2 border-2 border-black bg-gray-50"></th>
+                  {sentiments.map(human => (
+                    <th key={human} className="p-2 border-2 border-black bg-gray-50">{SENTIMENT_ICONS[human]}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {sentiments.map(model => (
+                  <tr key={model}>
+                    <th className="p-2 border-2 border-black bg-gray-50">{SENTIMENT_ICONS[model]}</th>
+                    {sentiments.map(human => (
+                      <td
+                        key={human}
+                        className={`p-2 border-2 border-black text-center font-bold ${model === human ? 'bg-[#C8FF3D]/40' : report.confusion[model][human] > 0 ? 'bg-[#FF6A4D]/20' : ''}`}
+                      >
+                        {report.confusion[model][human]}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {mistakes.length > 0 && (
+            <div>
+              <p className="text-sm font-black text-black mb-2">
+                Recent corrections • {report.examplesInPrompt} used as examples when analyzing your comments
+              </p>
+              <ul className="space-y-2">
+                {mistakes.slice(0, 5).map(correction => (
+                  <li key={correction.commentId} className="text-sm text-gray-800 border-l-4 border-black pl-2">
+                    {SENTIMENT_ICONS[correction.modelSentiment]} → {SENTIMENT_ICONS[correction.correctedSentiment]} &ldquo;{correction.text.replace(/<[^>]*>/g, '').substring(0, 140)}&rdquo;
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </CardContent>
+      )}
+    </Card>
+  );
+};
+
+export default CorrectionAgreementCard;
@@ -3,7 +3,7 @@
 import React, { useState, useEffect } from 'react';
 import { Card } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { PieChart, Pie, Cell, LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { PieChart, Pie, Cell, ComposedChart, Area, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
 import { TrendingUp, BarChart3, Eye, Calendar, Activity } from 'lucide-react';
 
 interface DataVisualizationProps {
@@ -23,17 +23,27 @@ interface ViewsData {
   date: string;
   views: number;
   dailyViews: number;
+  dailyViewsLow?: number;
+  dailyViewsHigh?: number;
+  observed?: boolean;
 }
 
 interface AnalyticsData {
   viewsPerDay: ViewsData[];
   totalViews: number;
   averageDailyViews: number;
-  dataSource: 'analytics' | 'fallback';
+  dataSource: 'analytics' | 'estimate';
   errorReason?: string;
+  estimate?: {
+    method: 'decay-curve' | 'decay-curve+snapshots';
+    decayExponent: number;
+    exponentRange: [number, number];
+    snapshotsUsed: number;
+    note: string;
+  };
   summary: {
-    totalWatchTime: number;
-    averageViewDuration: number;
+    totalWatchTime: number | null;
+    averageViewDuration: number | null;
     likes: number;
     comments: number;
   };
@@ -143,6 +153,8 @@ const DataVisualization: React.FC<DataVisualizationProps> = ({
     return null;
   };
 
+  const isEstimate = analyticsData?.dataSource === 'estimate';
+
   // Custom tooltip for views chart
   const ViewsTooltip = ({ active, payload, label }: any) => {
     if (active && payload && payload.length) {
@@ -156,7 +168,18 @@ const DataVisualization: React.FC<DataVisualizationProps> = ({
             day: 'numeric',
             year: 'numeric'
           })}</p>
-          <p className="text-purple-700 font-medium">Daily Views: {data.dailyViews.toLocaleString()}</p>
+          {isEstimate && !data.observed ? (
+            <>
+              <p className="text-orange-700 font-bold">Estimated: ~{data.dailyViews.toLocaleString()} views</p>
+              <p className="text-gray-700 font-medium">
+                Likely range: {data.dailyViewsLow.toLocaleString()} – {data.dailyViewsHigh.toLocaleString()}
+              </p>
+            </>
+          ) : (
+            <p className="text-purple-700 font-medium">
+              Daily Views: {data.dailyViews.toLocaleString()}{isEstimate && ' (from snapshots)'}
+            </p>
+          )}
           <p className="text-gray-700 font-medium">Total Views: {data.views.toLocaleString()}</p>
           <p className="text-xs text-gray-500 mt-1">
             {Math.ceil((Date.now() - date.getTime()) / (1000 * 60 * 60 * 24))} days since publish
@@ -215,7 +238,7 @@ const DataVisualization: React.FC<DataVisualizationProps> = ({
                 ? 'bg-lime-400 text-black' 
                 : 'bg-orange-400 text-black'
             }`}>
-              {analyticsData.dataSource === 'analytics' ? '📊 REAL ANALYTICS DATA' : '🔄 INTELLIGENT FALLBACK'}
+              {analyticsData.dataSource === 'analytics' ? '📊 REAL ANALYTICS DATA' : '📐 ESTIMATE, NOT MEASURED'}
             </Badge>
           )}
           {analyticsLoading && (
@@ -310,10 +333,15 @@ const DataVisualization: React.FC<DataVisualizationProps> = ({
                     {analyticsData.totalViews.toLocaleString()} total views
                   </p>
                   <Badge className="bg-blue-600 text-white font-bold text-xs border-2 border-blue-800">
-                    {analyticsData.averageDailyViews.toLocaleString()}/day avg
+                    {isEstimate && '~'}{analyticsData.averageDailyViews.toLocaleString()}/day avg
                   </Badge>
                 </div>
               )}
+              {isEstimate && analyticsData?.estimate && (
+                <p className="mt-2 text-xs font-bold text-orange-700">
+                  ⚠️ {analyticsData.estimate.note}. Shaded area shows the likely range.
+                </p>
+              )}
             </div>
 
             {analyticsLoading ? (
@@ -326,7 +354,7 @@ const DataVisualization: React.FC<DataVisualizationProps> = ({
             ) : analyticsData && analyticsData.viewsPerDay.length > 0 ? (
               <div className="h-64">
                 <ResponsiveContainer width="100%" height="100%">
-                  <LineChart data={analyticsData.viewsPerDay} margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
+                  <ComposedChart data={analyticsData.viewsPerDay} margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
                     <CartesianGrid strokeDasharray="3 3" stroke="#CBD5E1" strokeWidth={1} />
                     <XAxis 
                       dataKey="date" 
@@ -346,15 +374,26 @@ const DataVisualization: React.FC<DataVisualizationProps> = ({
                       strokeWidth={2}
                     />
                     <Tooltip content={<ViewsTooltip />} />
+                    {isEstimate && (
+                      <Area
+                        type="monotone"
+                        dataKey={(day: ViewsData) => [day.dailyViewsLow ?? day.dailyViews, day.dailyViewsHigh ?? day.dailyViews]}
+                        stroke="none"
+                        fill="#FDBA74"
+                        fillOpacity={0.5}
+                        isAnimationActive={false}
+                      />
+                    )}
                     <Line 
                       type="monotone" 
                       dataKey="dailyViews" 
-                      stroke="#2563EB" 
+                      stroke={isEstimate ? '#EA580C' : '#2563EB'}
                       strokeWidth={4}
-                      dot={{ fill: '#2563EB', strokeWidth: 3, stroke: '#000000', r: 5 }}
+                      strokeDasharray={isEstimate ? '8 6' : undefined}
+                      dot={{ fill: isEstimate ? '#EA580C' : '#2563EB', strokeWidth: 3, stroke: '#000000', r: 5 }}
                       activeDot={{ r: 8, stroke: '#000000', strokeWidth: 3, fill: '#C8FF3D' }}
                     />
-                  </LineChart>
+                  </ComposedChart>
                 </ResponsiveContainer>
               </div>
             ) : (
@@ -378,7 +417,9 @@ const DataVisualization: React.FC<DataVisualizationProps> = ({
                 <div className="text-purple-100 font-bold uppercase tracking-wide">Total Views</div>
               </div>
               <div className="text-center">
-                <div className="text-3xl font-black mb-2">{Math.round(analyticsData.summary.totalWatchTime / 60).toLocaleString()}</div>
+                <div className="text-3xl font-black mb-2">
+                  {analyticsData.summary.totalWatchTime !== null ? Math.round(analyticsData.summary.totalWatchTime / 60).toLocaleString() : '—'}
+                </div>
                 <div className="text-purple-100 font-bold uppercase tracking-wide">Watch Hours</div>
               </div>
               <div className="text-center">
@@ -386,7 +427,9 @@ const DataVisualization: React.FC<DataVisualizationProps> = ({
                 <div className="text-purple-100 font-bold uppercase tracking-wide">Total Likes</div>
               </div>
               <div className="text-center">
-                <div className="text-3xl font-black mb-2">{Math.round(analyticsData.summary.averageViewDuration / 60)}m</div>
+                <div className="text-3xl font-black mb-2">
+                  {analyticsData.summary.averageViewDuration !== null ? `${Math.round(analyticsData.summary.averageViewDuration / 60)}m` : '—'}
+                </div>
                 <div className="text-purple-100 font-bold uppercase tracking-wide">Avg Duration</div>
               </div>
             </div>
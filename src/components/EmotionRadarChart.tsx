@@ -0,0 +1,97 @@
+import React from 'react';
+import { RadarChart, Radar, PolarGrid, PolarAngleAxis, PolarRadiusAxis, ResponsiveContainer, Tooltip } from 'recharts';
+import { calculateEmotionDistribution } from '@/lib/metrics';
+import { CommentData, CommentEmotion, EmotionDistribution } from '@/types';
+
+interface EmotionRadarChartProps {
+  distribution?: EmotionDistribution;
+  comments?: CommentData[];
+  analyzedCount?: number; // comments behind the distribution prop, for tooltip percentages
+  className?: string;
+}
+
+const EMOTION_LABELS: Record<CommentEmotion, { label: string; emoji: string }> = {
+  joy: { label: 'Joy', emoji: '😄' },
+  gratitude: { label: 'Gratitude', emoji: '🙏' },
+  excitement: { label: 'Excitement', emoji: '🤩' },
+  confusion: { label: 'Confusion', emoji: '🤔' },
+  disappointment: { label: 'Disappointment', emoji: '😞' },
+  anger: { label: 'Anger', emoji: '😡' },
+  sarcasm: { label: 'Sarcasm', emoji: '🙄' }
+};
+
+const EmotionRadarChart: React.FC<EmotionRadarChartProps> = ({
+  distribution: propDistribution,
+  comments,
+  analyzedCount,
+  className
+}) => {
+  // Use the server-side distribution if available, otherwise count the analyzed comments.
+  // Percentages need the count behind the distribution, which may cover more comments than are shown.
+  const distribution = propDistribution || calculateEmotionDistribution(comments || []);
+  const analyzed = analyzedCount ?? (propDistribution
+    ? 0
+    : (comments || []).filter(comment => comment.emotions && !comment.spam?.isSpam).length);
+
+  const data = (Object.keys(EMOTION_LABELS) as CommentEmotion[]).map(emotion => ({
+    emotion: `${EMOTION_LABELS[emotion].emoji} ${EMOTION_LABELS[emotion].label}`,
+    value: distribution[emotion] || 0
+  }));
+  const total = data.reduce((sum, item) => sum + item.value, 0);
+  const dominant = [...data].sort((a, b) => b.value - a.value)[0];
+
+  // Custom tooltip
+  const CustomTooltip = ({ active, payload }: { active?: boolean; payload?: Array<{ payload: { emotion: string; value: number } }> }) => {
+    if (active && payload && payload.length > 0) {
+      const item = payload[0].payload;
+
+      return (
+        <div className="bg-white border-4 border-black shadow-[4px_4px_0px_0px_rgba(0,0,0,1)] p-3 font-bold">
+          <p className="text-black">{item.emotion}: {item.value} comments</p>
+          {analyzed > 0 && (
+            <p className="text-gray-600">{((item.value / analyzed) * 100).toFixed(1)}% of analyzed comments</p>
+          )}
+        </div>
+      );
+    }
+    return null;
+  };
+
+  if (total === 0) {
+    return (
+      <div className={`flex items-center justify-center h-64 ${className}`}>
+        <div className="text-center">
+          <div className="text-4xl mb-2">🎭</div>
+          <p className="text-gray-600 font-medium">No emotion data available</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className={className}>
+      <ResponsiveContainer width="100%" height={320}>
+        <RadarChart data={data} outerRadius="70%">
+          <PolarGrid stroke="#000000" strokeOpacity={0.25} />
+          <PolarAngleAxis dataKey="emotion" tick={{ fill: '#000000', fontSize: 12, fontWeight: 700 }} />
+          <PolarRadiusAxis angle={90} tick={false} axisLine={false} />
+          <Radar
+            dataKey="value"
+            stroke="#000000"
+            strokeWidth={3}
+            fill="#7A3BFF"
+            fillOpacity={0.45}
+          />
+          <Tooltip content={<CustomTooltip />} />
+        </RadarChart>
+      </ResponsiveContainer>
+
+      <p className="text-center text-sm font-bold text-black pb-4">
+        Strongest emotion: {dominant.emotion} ({dominant.value} comments)
+      </p>
+    </div>
+  );
+};
+
+export { EmotionRadarChart };
+export default EmotionRadarChart;
@@ -0,0 +1,77 @@
+'use client';
+
+import React from 'react';
+import { LineChart, Line, XAxis, YAxis, ResponsiveContainer, Tooltip } from 'recharts';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Eye, Heart, MessageSquare } from 'lucide-react';
+import { GrowthRates, StatsSnapshot } from '@/types';
+import { formatNumber } from '@/lib/metrics';
+
+interface GrowthHistoryCardProps {
+  snapshots: StatsSnapshot[];
+  growth: GrowthRates | null;
+  className?: string;
+}
+
+const formatRate = (value: number): string =>
+  value >= 1000 ? formatNumber(Math.round(value)) : value.toFixed(value < 10 ? 1 : 0);
+
+const GrowthHistoryCard: React.FC<GrowthHistoryCardProps> = ({ snapshots, growth, className = '' }) => {
+  if (!growth) {
+    return null;
+  }
+
+  const measured = growth.source === 'snapshots';
+  const chartData = snapshots.map(snapshot => ({
+    time: new Date(snapshot.capturedAt).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric' }),
+    views: snapshot.viewCount
+  }));
+
+  const rates = [
+    { label: 'Views / hour', value: growth.viewsPerHour, icon: Eye, color: 'bg-[#C8FF3D]' },
+    { label: 'Likes / hour', value: growth.likesPerHour, icon: Heart, color: 'bg-[#FF6A4D]' },
+    { label: 'Comments / hour', value: growth.commentsPerHour, icon: MessageSquare, color: 'bg-[#4DA6FF]' }
+  ];
+
+  return (
+    <Card className={`border-4 border-black shadow-[8px_8px_0px_0px_rgba(0,0,0,1)] bg-white ${className}`}>
+      <CardHeader className="bg-[#FFF4D6] border-b-4 border-black">
+        <div className="flex items-center justify-between flex-wrap gap-2">
+          <CardTitle className="font-bold text-xl text-black">⏱️ Growth Rate</CardTitle>
+          <Badge className="bg-white text-black border-2 border-black font-bold text-xs">
+            {measured
+              ? `Measured over last ${growth.windowHours}h (${snapshots.length} snapshots)`
+              : 'Lifetime average until snapshot history builds up'}
+          </Badge>
+        </div>
+      </CardHeader>
+      <CardContent className="p-6 space-y-6">
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+          {rates.map(rate => (
+            <div key={rate.label} className={`p-4 border-4 border-black ${rate.color} text-center shadow-[4px_4px_0px_0px_rgba(0,0,0,1)]`}>
+              <rate.icon className="w-6 h-6 mx-auto text-black mb-2" />
+              <div className="text-2xl font-black text-black">{formatRate(rate.value)}</div>
+              <div className="text-xs font-black uppercase tracking-wider text-black">{rate.label}</div>
+            </div>
+          ))}
+        </div>
+
+        {chartData.length >= 2 && (
+          <div className="h-48 border-4 border-black bg-white p-2">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={chartData}>
+                <XAxis dataKey="time" tick={{ fontSize: 10, fontWeight: 700 }} minTickGap={30} />
+                <YAxis tickFormatter={(value: number) => formatNumber(value)} tick={{ fontSize: 10, fontWeight: 700 }} width={50} domain={['auto', 'auto']} />
+                <Tooltip formatter={(value: number) => [formatNumber(value), 'Views']} />
+                <Line type="monotone" dataKey="views" stroke="#7A3BFF" strokeWidth={3} dot={false} />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default GrowthHistoryCard;
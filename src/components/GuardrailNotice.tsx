@@ -0,0 +1,38 @@
+'use client';
+
+import React from 'react';
+import { ShieldAlert, ShieldX } from 'lucide-react';
+import { GuardrailResult } from '@/types';
+
+interface GuardrailNoticeProps {
+  guardrail?: GuardrailResult | null;
+  compact?: boolean;
+}
+
+const GuardrailNotice: React.FC<GuardrailNoticeProps> = ({ guardrail, compact = false }) => {
+  if (!guardrail || guardrail.verdict === 'pass') {
+    return null;
+  }
+
+  const blocked = guardrail.verdict === 'block';
+  const Icon = blocked ? ShieldX : ShieldAlert;
+
+  return (
+    <div className={`border-2 ${blocked ? 'border-red-500 bg-red-50 text-red-700' : 'border-[#FFB020] bg-[#FFF4D6] text-black'} ${compact ? 'p-2 text-xs' : 'p-3 text-sm'}`}>
+      <p className="font-black flex items-center gap-2">
+        <Icon className="w-4 h-4 shrink-0" />
+        {blocked ? 'BLOCKED: this reply cannot be posted' : 'FLAGGED: check before posting'}
+      </p>
+      <ul className="mt-1 space-y-0.5 font-medium">
+        {guardrail.issues.map((issue, index) => (
+          <li key={`${issue.check}-${index}`}>
+            {issue.severity === 'block' ? '⛔' : '⚠️'} {issue.message}
+            {issue.excerpt && <span className="text-gray-600"> — &ldquo;{issue.excerpt}&rdquo;</span>}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default GuardrailNotice;
@@ -0,0 +1,152 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { ExternalLink, History, Loader2, Undo2 } from 'lucide-react';
+import { ReplyAuditEntry } from '@/types';
+import { getTimeElapsed } from '@/lib/youtube';
+
+interface ReplyAuditLogProps {
+  className?: string;
+}
+
+const SOURCE_LABELS: Record<ReplyAuditEntry['source'], string> = {
+  direct: 'DIRECT',
+  queue: 'QUEUE',
+  scheduled: 'SCHEDULED'
+};
+
+const ReplyAuditLog: React.FC<ReplyAuditLogProps> = ({ className = '' }) => {
+  const [entries, setEntries] = useState<ReplyAuditEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [retracting, setRetracting] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadAudit = async () => {
+      try {
+        const response = await fetch('/api/youtube/reply-audit?limit=50');
+        const data = await response.json();
+        if (data.success) setEntries(data.data);
+      } catch (loadError) {
+        console.error('Failed to load reply audit log:', loadError);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadAudit();
+  }, []);
+
+  const handleRetract = async (entry: ReplyAuditEntry) => {
+    if (!window.confirm('Delete this reply from YouTube? This cannot be undone.')) {
+      return;
+    }
+
+    setRetracting(entry.id);
+    setError(null);
+    try {
+      const response = await fetch(`/api/youtube/reply-audit?id=${encodeURIComponent(entry.id)}`, { method: 'DELETE' });
+      const data = await response.json();
+      if (data.success) {
+        setEntries(previous => previous.map(item => item.id === entry.id ? data.data : item));
+      } else {
+        setError(data.error);
+      }
+    } catch (retractError) {
+      console.error('Failed to retract reply:', retractError);
+      setError('Failed to retract reply');
+    } finally {
+      setRetracting(null);
+    }
+  };
+
+  if (!loading && entries.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className={`border-4 border-black shadow-[8px_8px_0px_0px_rgba(0,0,0,1)] bg-white overflow-hidden ${className}`}>
+      <CardHeader className="bg-gradient-to-r from-[#FFF4D6] to-[#F3E8FF] border-b-4 border-black">
+        <div className="flex items-center gap-3">
+          <div className="w-10 h-10 bg-black border-4 border-black flex items-center justify-center shadow-[3px_3px_0px_0px_rgba(0,0,0,1)]">
+            <History className="w-5 h-5 text-white" />
+          </div>
+          <div>
+            <CardTitle className="font-black text-xl text-black tracking-tight">REPLY AUDIT LOG</CardTitle>
+            <p className="text-gray-600 font-bold text-sm">Every reply posted from SentimentTrack</p>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="p-6 space-y-4">
+        {error && (
+          <p className="p-3 bg-red-50 border-2 border-red-500 text-red-700 font-medium text-sm">{error}</p>
+        )}
+
+        {loading ? (
+          <div className="h-20 bg-gray-100 border-4 border-gray-300 animate-pulse"></div>
+        ) : (
+          <ul className="space-y-3 max-h-96 overflow-y-auto">
+            {entries.map(entry => (
+              <li key={entry.id} className={`p-4 border-4 border-black ${entry.deletedAt ? 'bg-gray-50 opacity-70' : ''}`}>
+                <div className="flex items-center justify-between gap-3 mb-1">
+                  <div className="flex items-center gap-2 flex-wrap">
+                    <Badge className="bg-white text-black border-2 border-black font-bold text-xs">
+                      {SOURCE_LABELS[entry.source]}
+                    </Badge>
+                    <Badge className={`border-2 border-black font-bold text-xs ${entry.isCustom ? 'bg-[#E8F4FD] text-black' : 'bg-[#F3E8FF] text-[#7A3BFF]'}`}>
+                      {entry.isCustom ? (entry.aiDraft ? 'AI • EDITED' : 'CUSTOM') : 'AI'}
+                    </Badge>
+                    <span className="text-xs font-bold text-gray-500 uppercase">{entry.tone} • {entry.model}</span>
+                  </div>
+                  {entry.deletedAt ? (
+                    <Badge className="bg-gray-400 text-white border-2 border-black font-bold text-xs">RETRACTED</Badge>
+                  ) : (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleRetract(entry)}
+                      disabled={retracting === entry.id}
+                      className="border-2 border-black font-bold text-xs"
+                      title="Delete this reply from YouTube"
+                    >
+                      {retracting === entry.id ? <Loader2 className="w-3 h-3 mr-1 animate-spin" /> : <Undo2 className="w-3 h-3 mr-1" />}
+                      Retract
+                    </Button>
+                  )}
+                </div>
+                <p className="text-sm text-gray-600 truncate">{entry.commentText.replace(/<[^>]*>/g, '')}</p>
+                <p className={`text-sm font-medium text-gray-900 mt-1 ${entry.deletedAt ? 'line-through' : ''}`}>↳ {entry.replyText}</p>
+                {entry.aiDraft && (
+                  <p className="text-xs text-gray-500 mt-1">AI draft: {entry.aiDraft}</p>
+                )}
+                {entry.prompt && (
+                  <details className="mt-1">
+                    <summary className="text-xs font-bold text-gray-500 cursor-pointer">Prompt</summary>
+                    <pre className="mt-1 p-2 bg-gray-50 border-2 border-gray-200 text-xs whitespace-pre-wrap max-h-48 overflow-y-auto">{entry.prompt}</pre>
+                  </details>
+                )}
+                <div className="flex items-center gap-3 mt-2 text-xs font-bold text-gray-500 flex-wrap">
+                  <span>{entry.userName || entry.userId} • {getTimeElapsed(entry.postedAt)}</span>
+                  {entry.deletedAt && <span>Retracted by {entry.deletedBy} • {getTimeElapsed(entry.deletedAt)}</span>}
+                  <a
+                    href={`https://www.youtube.com/watch?v=${entry.videoId}&lc=${entry.commentId}`}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="inline-flex items-center gap-1 text-[#7A3BFF] hover:underline"
+                  >
+                    {entry.videoTitle || entry.videoId} <ExternalLink className="h-3 w-3" />
+                  </a>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ReplyAuditLog;
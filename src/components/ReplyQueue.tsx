@@ -0,0 +1,339 @@
+'use client';
+
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { CalendarClock, Check, ListChecks, Loader2, RotateCcw, Send, Trash2, X } from 'lucide-react';
+import { ReplyQueueItem, ReplyQueueStatus } from '@/types';
+import GuardrailNotice from './GuardrailNotice';
+
+interface ReplyQueueProps {
+  videoId: string;
+  refreshSignal?: number; // bump to reload after new comments are queued
+  onReplyPosted?: () => void;
+}
+
+const POLL_INTERVAL_MS = 3000;
+const MAX_REPLY_LENGTH = 280;
+
+const STATUS_STYLES: Record<ReplyQueueStatus, string> = {
+  drafting: 'bg-gray-200 text-gray-800',
+  review: 'bg-[#FFF4D6] text-black',
+  approved: 'bg-[#4DA6FF] text-white',
+  scheduled: 'bg-[#F3E8FF] text-[#7A3BFF]',
+  rejected: 'bg-gray-400 text-white',
+  posting: 'bg-[#7A3BFF] text-white',
+  posted: 'bg-[#C8FF3D] text-black',
+  failed: 'bg-[#FF6A4D] text-white'
+};
+
+// Value for a datetime-local input, which works in local time without a zone
+const toLocalInputValue = (date: Date): string =>
+  new Date(date.getTime() - date.getTimezoneOffset() * 60 * 1000).toISOString().slice(0, 16);
+
+const ReplyQueue: React.FC<ReplyQueueProps> = ({ videoId, refreshSignal = 0, onReplyPosted }) => {
+  const [items, setItems] = useState<ReplyQueueItem[]>([]);
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const [error, setError] = useState<string | null>(null);
+  const [startingPost, setStartingPost] = useState(false);
+  const [showSchedule, setShowSchedule] = useState(false);
+  const [scheduleStart, setScheduleStart] = useState(() => toLocalInputValue(new Date(Date.now() + 10 * 60 * 1000)));
+  const [spacingMinutes, setSpacingMinutes] = useState(15);
+  const postedIds = useRef<Set<string> | null>(null);
+
+  const loadQueue = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/youtube/reply-queue?videoId=${encodeURIComponent(videoId)}`);
+      const data = await response.json();
+      if (data.success) {
+        const queue: ReplyQueueItem[] = data.data;
+        const posted = new Set(queue.filter(item => item.status === 'posted').map(item => item.id));
+        if (postedIds.current && [...posted].some(id => !postedIds.current!.has(id))) {
+          onReplyPosted?.();
+        }
+        postedIds.current = posted;
+        setItems(queue);
+      }
+    } catch (loadError) {
+      console.error('Failed to load reply queue:', loadError);
+    }
+  }, [videoId, onReplyPosted]);
+
+  useEffect(() => {
+    loadQueue();
+  }, [loadQueue, refreshSignal]);
+
+  // Drafting and posting happen server-side; poll until they finish
+  const busy = items.some(item => item.status === 'drafting' || item.status === 'posting');
+  useEffect(() => {
+    if (!busy) return;
+    const timer = setInterval(loadQueue, POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [busy, loadQueue]);
+
+  const updateItem = async (id: string, changes: { draft?: string; status?: ReplyQueueStatus }) => {
+    setError(null);
+    const response = await fetch('/api/youtube/reply-queue', {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ id, ...changes })
+    });
+    const data = await response.json();
+    if (data.success) {
+      setItems(previous => previous.map(item => item.id === id ? data.data : item));
+      setDrafts(previous => {
+        const unsaved = { ...previous };
+        delete unsaved[id];
+        return unsaved;
+      });
+    } else {
+      setError(data.error);
+    }
+  };
+
+  const removeItems = async (query: string) => {
+    const response = await fetch(`/api/youtube/reply-queue?${query}`, { method: 'DELETE' });
+    if (response.ok) {
+      await loadQueue();
+    }
+  };
+
+  // Flagged drafts need a look of their own, blocked ones cannot be approved
+  const approveAll = async () => {
+    for (const item of items.filter(entry => entry.status === 'review' && entry.draft && (entry.guardrail?.verdict || 'pass') === 'pass')) {
+      await updateItem(item.id, { status: 'approved', draft: drafts[item.id] });
+    }
+  };
+
+  const postApproved = async () => {
+    setStartingPost(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/youtube/reply-queue/post', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ itemIds: items.filter(item => item.status === 'approved').map(item => item.id) })
+      });
+      const data = await response.json();
+      if (!data.success) {
+        setError(data.error);
+      }
+      await loadQueue();
+    } finally {
+      setStartingPost(false);
+    }
+  };
+
+  const scheduleApproved = async () => {
+    setError(null);
+    const response = await fetch('/api/youtube/reply-queue/schedule', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        itemIds: items.filter(item => item.status === 'approved').map(item => item.id),
+        startAt: new Date(scheduleStart).toISOString(),
+        spacingMinutes
+      })
+    });
+    const data = await response.json();
+    if (data.success) {
+      setShowSchedule(false);
+      await loadQueue();
+    } else {
+      setError(data.error);
+    }
+  };
+
+  if (items.length === 0) {
+    return null;
+  }
+
+  const count = (status: ReplyQueueStatus) => items.filter(item => item.status === status).length;
+
+  return (
+    <div className="p-6 border-t-4 border-black bg-gradient-to-r from-[#F8F4FF] to-[#F0F8FE]">
+      <div className="flex items-center justify-between gap-3 flex-wrap mb-4">
+        <div className="flex items-center gap-3">
+          <ListChecks className="w-6 h-6 text-[#7A3BFF]" />
+          <h4 className="text-lg font-black text-black uppercase tracking-wide">Reply Queue</h4>
+          <Badge className="bg-white text-black border-2 border-black font-bold text-xs">
+            {count('review')} TO REVIEW • {count('approved')} APPROVED • {count('posted')} POSTED
+          </Badge>
+          {busy && <Loader2 className="w-4 h-4 animate-spin text-[#7A3BFF]" />}
+        </div>
+        <div className="flex items-center gap-2">
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={approveAll}
+            disabled={count('review') === 0}
+            className="border-2 border-black font-bold"
+          >
+            <Check className="w-4 h-4 mr-2" />
+            Approve All
+          </Button>
+          <Button
+            size="sm"
+            onClick={postApproved}
+            disabled={count('approved') === 0 || count('posting') > 0 || startingPost}
+            className="bg-[#C8FF3D] text-black border-2 border-black font-bold hover:bg-[#B8EF2D]"
+          >
+            <Send className="w-4 h-4 mr-2" />
+            Post Approved ({count('approved')})
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => setShowSchedule(!showSchedule)}
+            disabled={count('approved') === 0}
+            className="border-2 border-black font-bold"
+          >
+            <CalendarClock className="w-4 h-4 mr-2" />
+            Schedule
+          </Button>
+          {count('posted') > 0 && (
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => removeItems('status=posted')}
+              className="border-2 border-black font-bold"
+            >
+              Clear Posted
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {showSchedule && (
+        <div className="flex items-center gap-3 flex-wrap mb-4 p-3 bg-white border-2 border-black">
+          <span className="text-sm font-bold text-black">First reply at</span>
+          <input
+            type="datetime-local"
+            value={scheduleStart}
+            onChange={(e) => setScheduleStart(e.target.value)}
+            className="px-2 py-1 text-sm font-medium border-2 border-black"
+          />
+          <span className="text-sm font-bold text-black">then every</span>
+          <input
+            type="number"
+            min={0}
+            max={1440}
+            value={spacingMinutes}
+            onChange={(e) => setSpacingMinutes(Math.max(0, Number(e.target.value)))}
+            className="w-20 px-2 py-1 text-sm font-medium border-2 border-black"
+          />
+          <span className="text-sm font-bold text-black">min</span>
+          <Button
+            size="sm"
+            onClick={scheduleApproved}
+            disabled={!scheduleStart}
+            className="bg-[#7A3BFF] text-white border-2 border-black font-bold hover:bg-[#6A2BEF]"
+          >
+            Schedule {count('approved')} Replies
+          </Button>
+        </div>
+      )}
+
+      {error && (
+        <p className="mb-4 p-3 bg-red-50 border-2 border-red-500 text-red-700 font-medium text-sm">{error}</p>
+      )}
+
+      <ul className="space-y-3 max-h-[500px] overflow-y-auto">
+        {items.map(item => {
+          const editable = !['drafting', 'posting', 'posted'].includes(item.status);
+          const draft = drafts[item.id] ?? item.draft;
+          return (
+            <li key={item.id} className="p-4 bg-white border-4 border-black">
+              <div className="flex items-center justify-between gap-3 mb-2">
+                <p className="text-sm text-gray-700">
+                  <span className="font-bold text-black">{item.authorDisplayName}:</span>{' '}
+                  {item.commentText.replace(/<[^>]*>/g, '').substring(0, 200)}
+                </p>
+                <Badge className={`border-2 border-black font-bold text-xs shrink-0 ${STATUS_STYLES[item.status]}`}>
+                  {item.status === 'drafting' || item.status === 'posting' ? (
+                    <Loader2 className="w-3 h-3 mr-1 animate-spin" />
+                  ) : null}
+                  {item.status.toUpperCase()}
+                </Badge>
+              </div>
+
+              {item.status === 'drafting' ? (
+                <div className="h-16 bg-gray-100 border-2 border-gray-300 animate-pulse"></div>
+              ) : (
+                <textarea
+                  value={draft}
+                  disabled={!editable}
+                  maxLength={MAX_REPLY_LENGTH}
+                  onChange={(e) => setDrafts(previous => ({ ...previous, [item.id]: e.target.value }))}
+                  onBlur={() => drafts[item.id] !== undefined && drafts[item.id] !== item.draft && updateItem(item.id, { draft })}
+                  className="w-full p-2 border-2 border-black font-medium text-sm resize-none h-16 focus:outline-none focus:bg-yellow-50 disabled:bg-gray-50"
+                />
+              )}
+
+              {editable && drafts[item.id] === undefined && (
+                <div className="mt-2">
+                  <GuardrailNotice guardrail={item.guardrail} compact />
+                </div>
+              )}
+
+              {item.status === 'scheduled' && item.postAt && (
+                <p className="mt-1 text-xs font-bold text-[#7A3BFF]">Posts {new Date(item.postAt).toLocaleString()}</p>
+              )}
+
+              {item.error && (
+                <p className="mt-1 text-xs font-bold text-red-600">{item.error}</p>
+              )}
+
+              {editable && (
+                <div className="flex items-center gap-2 mt-2">
+                  {item.status !== 'approved' && (
+                    <Button
+                      size="sm"
+                      onClick={() => updateItem(item.id, { status: 'approved', draft })}
+                      disabled={!draft.trim() || (drafts[item.id] === undefined && item.guardrail?.verdict === 'block')}
+                      className="bg-[#4DA6FF] text-white border-2 border-black font-bold text-xs"
+                    >
+                      <Check className="w-3 h-3 mr-1" />
+                      {item.status === 'scheduled' ? 'Unschedule' : item.status === 'failed' && item.draft ? 'Retry' : 'Approve'}
+                    </Button>
+                  )}
+                  {item.status !== 'rejected' && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => updateItem(item.id, { status: 'rejected' })}
+                      className="border-2 border-black font-bold text-xs"
+                    >
+                      <X className="w-3 h-3 mr-1" />
+                      Reject
+                    </Button>
+                  )}
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => updateItem(item.id, { status: 'drafting' })}
+                    className="border-2 border-black font-bold text-xs"
+                  >
+                    <RotateCcw className="w-3 h-3 mr-1" />
+                    Redraft
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => removeItems(`id=${encodeURIComponent(item.id)}`)}
+                    className="border-2 border-black font-bold text-xs ml-auto"
+                    title="Remove from queue"
+                  >
+                    <Trash2 className="w-3 h-3" />
+                  </Button>
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+export default ReplyQueue;
@@ -0,0 +1,136 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { AlertCircle, CalendarClock, ExternalLink, X } from 'lucide-react';
+import { ReplyQueueItem } from '@/types';
+
+interface ScheduledRepliesProps {
+  className?: string;
+}
+
+interface ScheduleResponse {
+  items: ReplyQueueItem[];
+  credentials: { connected: boolean; error?: string };
+}
+
+const ScheduledReplies: React.FC<ScheduledRepliesProps> = ({ className = '' }) => {
+  const [schedule, setSchedule] = useState<ScheduleResponse | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const loadSchedule = async () => {
+    try {
+      const response = await fetch('/api/youtube/reply-queue/schedule');
+      const data = await response.json();
+      if (data.success) setSchedule(data.data);
+    } catch (error) {
+      console.error('Failed to load scheduled replies:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadSchedule();
+    // Keep statuses current while replies go out
+    const timer = setInterval(loadSchedule, 60 * 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const handleUnschedule = async (id: string) => {
+    const response = await fetch('/api/youtube/reply-queue', {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ id, status: 'approved' })
+    });
+    if (response.ok) {
+      await loadSchedule();
+    }
+  };
+
+  const items = schedule?.items || [];
+  const upcoming = items.filter(item => item.status === 'scheduled').length;
+
+  if (!loading && items.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className={`border-4 border-black shadow-[8px_8px_0px_0px_rgba(0,0,0,1)] bg-white overflow-hidden ${className}`}>
+      <CardHeader className="bg-gradient-to-r from-[#F3E8FF] to-[#E8F4FD] border-b-4 border-black">
+        <div className="flex items-center gap-3">
+          <div className="w-10 h-10 bg-[#7A3BFF] border-4 border-black flex items-center justify-center shadow-[3px_3px_0px_0px_rgba(0,0,0,1)]">
+            <CalendarClock className="w-5 h-5 text-white" />
+          </div>
+          <div>
+            <CardTitle className="font-black text-xl text-black tracking-tight">SCHEDULED REPLIES</CardTitle>
+            <p className="text-gray-600 font-bold text-sm">{upcoming} waiting to post</p>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="p-6 space-y-4">
+        {schedule && !schedule.credentials.connected && upcoming > 0 && (
+          <div className="flex items-center gap-2 p-3 bg-red-50 border-2 border-red-500 text-red-700">
+            <AlertCircle className="w-4 h-4" />
+            <span className="font-medium text-sm">
+              YouTube access for scheduled posting has expired. Sign in again so these replies can go out.
+            </span>
+          </div>
+        )}
+
+        {loading ? (
+          <div className="h-20 bg-gray-100 border-4 border-gray-300 animate-pulse"></div>
+        ) : (
+          <ul className="space-y-3 max-h-96 overflow-y-auto">
+            {items.slice(0, 50).map(item => (
+              <li key={item.id} className="p-4 border-4 border-black">
+                <div className="flex items-center justify-between gap-3 mb-1">
+                  <span className="text-sm font-black text-black">
+                    {new Date(item.postAt!).toLocaleString()}
+                  </span>
+                  <div className="flex items-center gap-2">
+                    <Badge className={`border-2 border-black font-bold text-xs ${
+                      item.status === 'posted' ? 'bg-[#C8FF3D] text-black'
+                        : item.status === 'failed' ? 'bg-[#FF6A4D] text-white'
+                        : 'bg-white text-black'
+                    }`}>
+                      {item.status.toUpperCase()}
+                    </Badge>
+                    {item.status === 'scheduled' && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => handleUnschedule(item.id)}
+                        className="border-2 border-black font-bold text-xs"
+                        title="Move back to approved"
+                      >
+                        <X className="w-3 h-3" />
+                      </Button>
+                    )}
+                  </div>
+                </div>
+                <p className="text-sm text-gray-600 truncate">
+                  <span className="font-bold">{item.authorDisplayName}:</span> {item.commentText.replace(/<[^>]*>/g, '')}
+                </p>
+                <p className="text-sm font-medium text-gray-900 mt-1">↳ {item.draft}</p>
+                {item.error && <p className="text-xs font-bold text-red-600 mt-1">{item.error}</p>}
+                <a
+                  href={`https://www.youtube.com/watch?v=${item.videoId}&lc=${item.commentId}`}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="inline-flex items-center gap-1 mt-2 text-xs font-bold text-[#7A3BFF] hover:underline"
+                >
+                  {item.videoTitle} <ExternalLink className="h-3 w-3" />
+                </a>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ScheduledReplies;
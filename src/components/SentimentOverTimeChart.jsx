@@ -16,13 +16,37 @@ const CustomTooltip = ({ active, payload, label }) => {
         <div className="text-2xl text-center">{emoji}</div>
         <div className="text-sm font-bold text-black">{label}</div>
         <div className="text-xs text-gray-600">Score: {point.sentiment_score.toFixed(2)}</div>
+        {point.total !== undefined && (
+          <div className="text-xs text-gray-600">
+            {point.total} comments ({point.positive}+ / {point.neutral}= / {point.negative}−)
+          </div>
+        )}
       </div>
     );
   }
   return null;
 };
 
-const SentimentOverTimeChart = ({ data, containerless = false, heightClass = 'h-64' }) => {
+const BUCKET_OPTIONS = ['auto', 'hour', 'day', 'week'];
+
+const BucketToggle = ({ bucket, onBucketChange }) => (
+  <div className="flex gap-2">
+    {BUCKET_OPTIONS.map(option => (
+      <button
+        key={option}
+        type="button"
+        onClick={() => onBucketChange(option)}
+        className={`px-3 py-1 text-xs font-bold uppercase border-2 border-black transition-all duration-150 ${
+          bucket === option ? 'bg-[#7A3BFF] text-white shadow-[2px_2px_0px_0px_rgba(0,0,0,1)]' : 'bg-white text-black hover:bg-gray-100'
+        }`}
+      >
+        {option}
+      </button>
+    ))}
+  </div>
+);
+
+const SentimentOverTimeChart = ({ data, containerless = false, heightClass = 'h-64', bucket, onBucketChange }) => {
   const ChartCore = (
     <div className={heightClass}>
       <ResponsiveContainer width="100%" height="100%">
@@ -43,12 +67,22 @@ const SentimentOverTimeChart = ({ data, containerless = false, heightClass = 'h-
     </div>
   );
 
-  if (containerless) return ChartCore;
+  const toggle = onBucketChange ? <BucketToggle bucket={bucket} onBucketChange={onBucketChange} /> : null;
+
+  if (containerless) {
+    return (
+      <div className="space-y-4">
+        {toggle}
+        {ChartCore}
+      </div>
+    );
+  }
 
   return (
     <div className="bg-white border-4 border-black shadow-[8px_8px_0px_0px_rgba(0,0,0,1)] rounded-xl col-span-1 lg:col-span-2">
-      <div className="bg-gradient-to-r from-[#F3E8FF] to-[#E8F4FD] border-b-4 border-black p-4 rounded-t-xl">
+      <div className="bg-gradient-to-r from-[#F3E8FF] to-[#E8F4FD] border-b-4 border-black p-4 rounded-t-xl flex items-center justify-between">
         <h3 className="text-lg font-bold text-black">Sentiment Over Time</h3>
+        {toggle}
       </div>
       <div className="p-6 rounded-b-xl">
         {ChartCore}
@@ -0,0 +1,141 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Flame, ExternalLink } from 'lucide-react';
+import { CommentData, TimelineSentimentBucket } from '@/types';
+import { formatTimestamp } from '@/lib/transcript';
+
+interface TimelineHeatmapProps {
+  videoId?: string;
+  buckets: TimelineSentimentBucket[];
+  comments: CommentData[];
+  hasTranscript: boolean;
+  loading?: boolean;
+  className?: string;
+}
+
+// Same palette as the sentiment pie chart
+const bucketColor = (bucket: TimelineSentimentBucket): string => {
+  if (bucket.mentions === 0) return '#F3F4F6';
+  if (bucket.netSentiment > 0.2) return '#C8FF3D';
+  if (bucket.netSentiment < -0.2) return '#FF6A4D';
+  return '#9CA3AF';
+};
+
+const TimelineHeatmap: React.FC<TimelineHeatmapProps> = ({
+  videoId,
+  buckets,
+  comments,
+  hasTranscript,
+  loading = false,
+  className = ''
+}) => {
+  const [selectedIndex, setSelectedIndex] = useState<number | null>(null);
+
+  const maxMentions = Math.max(1, ...buckets.map(bucket => bucket.mentions));
+  const totalMentions = buckets.reduce((sum, bucket) => sum + bucket.mentions, 0);
+  const selected = selectedIndex !== null ? buckets[selectedIndex] : null;
+  const selectedComments = selected
+    ? comments.filter(comment => selected.commentIds.includes(comment.id)).slice(0, 5)
+    : [];
+
+  if (loading) {
+    return (
+      <Card className={`p-6 border-4 border-orange-400 bg-orange-50 shadow-[6px_6px_0px_0px_#EA580C] ${className}`}>
+        <div className="h-32 bg-gradient-to-r from-orange-100 to-yellow-100 border-4 border-orange-300 animate-pulse rounded-lg"></div>
+      </Card>
+    );
+  }
+
+  return (
+    <Card className={`p-6 border-4 border-orange-400 bg-orange-50 shadow-[6px_6px_0px_0px_#EA580C] ${className}`}>
+      <div className="mb-6">
+        <div className="flex items-center space-x-3 mb-2">
+          <Flame className="h-6 w-6 text-orange-700" />
+          <h4 className="text-xl font-black text-orange-800 uppercase tracking-wide">Moment Heatmap</h4>
+        </div>
+        <div className="flex items-center space-x-4">
+          <p className="text-orange-700 font-medium">
+            {totalMentions} timestamp mentions across the video
+          </p>
+          {!hasTranscript && (
+            <Badge className="bg-white text-black border-2 border-black font-bold text-xs">
+              No transcript: timeline only
+            </Badge>
+          )}
+        </div>
+      </div>
+
+      {totalMentions === 0 ? (
+        <div className="h-24 flex items-center justify-center text-orange-700">
+          <p className="font-medium">No comments reference a moment in this video yet</p>
+        </div>
+      ) : (
+        <>
+          {/* Timeline strip: colour = net sentiment, height = number of mentions */}
+          <div className="flex items-end h-24 gap-[2px] border-4 border-black bg-white p-1">
+            {buckets.map((bucket, index) => (
+              <button
+                key={bucket.start}
+                type="button"
+                title={`${formatTimestamp(bucket.start)}–${formatTimestamp(bucket.end)}: ${bucket.mentions} mentions`}
+                onClick={() => setSelectedIndex(index === selectedIndex ? null : index)}
+                className={`flex-1 border-black transition-all duration-150 ${
+                  index === selectedIndex ? 'border-2' : bucket.mentions > 0 ? 'border' : ''
+                }`}
+                style={{
+                  backgroundColor: bucketColor(bucket),
+                  height: `${bucket.mentions > 0 ? 20 + (bucket.mentions / maxMentions) * 80 : 8}%`
+                }}
+              />
+            ))}
+          </div>
+          <div className="flex justify-between mt-2 text-xs font-bold text-gray-600">
+            <span>0:00</span>
+            <span>{formatTimestamp(buckets[buckets.length - 1]?.end || 0)}</span>
+          </div>
+
+          {selected && (
+            <div className="mt-4 p-4 bg-white border-4 border-black shadow-[4px_4px_0px_0px_rgba(0,0,0,1)]">
+              <div className="flex items-center justify-between mb-3">
+                <p className="font-black text-black">
+                  {formatTimestamp(selected.start)}–{formatTimestamp(selected.end)}
+                </p>
+                {videoId && (
+                  <a
+                    href={`https://www.youtube.com/watch?v=${videoId}&t=${Math.floor(selected.start)}s`}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="flex items-center gap-1 text-sm font-bold text-[#7A3BFF] hover:underline"
+                  >
+                    Watch moment <ExternalLink className="h-4 w-4" />
+                  </a>
+                )}
+              </div>
+              <div className="flex gap-2 mb-3">
+                <Badge className="bg-[#C8FF3D] text-black border-2 border-black font-bold text-xs">{selected.positive} positive</Badge>
+                <Badge className="bg-gray-300 text-black border-2 border-black font-bold text-xs">{selected.neutral} neutral</Badge>
+                <Badge className="bg-[#FF6A4D] text-white border-2 border-black font-bold text-xs">{selected.negative} negative</Badge>
+              </div>
+              {selected.transcriptExcerpt && (
+                <p className="text-sm text-gray-700 italic mb-3">&ldquo;{selected.transcriptExcerpt}&rdquo;</p>
+              )}
+              <ul className="space-y-2">
+                {selectedComments.map(comment => (
+                  <li key={comment.id} className="text-sm text-gray-800 border-l-4 border-black pl-2">
+                    <span className="font-bold">{comment.authorDisplayName}:</span>{' '}
+                    {comment.textDisplay.replace(/<[^>]*>/g, '').substring(0, 160)}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </>
+      )}
+    </Card>
+  );
+};
+
+export default TimelineHeatmap;
@@ -0,0 +1,156 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Loader2, Mic, RefreshCw, Trash2 } from 'lucide-react';
+import { VoiceProfile } from '@/types';
+import { getTimeElapsed } from '@/lib/youtube';
+
+interface VoiceProfileCardProps {
+  className?: string;
+}
+
+const VoiceProfileCard: React.FC<VoiceProfileCardProps> = ({ className = '' }) => {
+  const [profile, setProfile] = useState<VoiceProfile | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [building, setBuilding] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadProfile = async () => {
+      try {
+        const response = await fetch('/api/youtube/voice-profile');
+        const data = await response.json();
+        if (data.success) setProfile(data.data);
+      } catch (loadError) {
+        console.error('Failed to load voice profile:', loadError);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadProfile();
+  }, []);
+
+  const handleBuild = async () => {
+    setBuilding(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/youtube/voice-profile', { method: 'POST' });
+      const data = await response.json();
+      if (data.success) {
+        setProfile(data.data);
+      } else {
+        setError(data.error);
+      }
+    } catch (buildError) {
+      console.error('Failed to build voice profile:', buildError);
+      setError('Failed to build voice profile');
+    } finally {
+      setBuilding(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    const response = await fetch('/api/youtube/voice-profile', { method: 'DELETE' });
+    if (response.ok) {
+      setProfile(null);
+    }
+  };
+
+  const stat = (label: string, value: string) => (
+    <div className="p-3 border-2 border-black bg-white">
+      <p className="text-xs font-bold text-gray-500 uppercase">{label}</p>
+      <p className="text-lg font-black text-black">{value}</p>
+    </div>
+  );
+
+  return (
+    <Card className={`border-4 border-black shadow-[8px_8px_0px_0px_rgba(0,0,0,1)] bg-white overflow-hidden ${className}`}>
+      <CardHeader className="bg-gradient-to-r from-[#E8F4FD] to-[#F3E8FF] border-b-4 border-black">
+        <div className="flex items-center justify-between gap-3">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 bg-[#4DA6FF] border-4 border-black flex items-center justify-center shadow-[3px_3px_0px_0px_rgba(0,0,0,1)]">
+              <Mic className="w-5 h-5 text-white" />
+            </div>
+            <div>
+              <CardTitle className="font-black text-xl text-black tracking-tight">YOUR REPLY VOICE</CardTitle>
+              <p className="text-gray-600 font-bold text-sm">
+                {profile
+                  ? `Learned from ${profile.sampleSize} replies • ${getTimeElapsed(profile.builtAt)}`
+                  : 'AI drafts use generic tone presets'}
+              </p>
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button
+              onClick={handleBuild}
+              disabled={building || loading}
+              className="bg-[#C8FF3D] text-black border-2 border-black font-bold hover:bg-[#B8EF2D]"
+            >
+              {building ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <RefreshCw className="w-4 h-4 mr-2" />}
+              {profile ? 'Relearn' : 'Learn From My Replies'}
+            </Button>
+            {profile && (
+              <Button
+                variant="outline"
+                onClick={handleDelete}
+                className="border-2 border-black font-bold hover:bg-gray-50"
+                title="Forget voice profile"
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            )}
+          </div>
+        </div>
+      </CardHeader>
+      {(profile || error) && (
+        <CardContent className="p-6 space-y-4">
+          {error && (
+            <p className="p-3 bg-red-50 border-2 border-red-500 text-red-700 font-medium text-sm">{error}</p>
+          )}
+          {profile && (
+            <>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                {stat('Typical length', `${profile.averageWords} words`)}
+                {stat('Uses emojis', `${Math.round(profile.emojiRate * 100)}%`)}
+                {stat('Exclamations', `${Math.round(profile.exclamationRate * 100)}%`)}
+                {stat('Favourite emojis', profile.topEmojis.join(' ') || '—')}
+              </div>
+              <div className="flex flex-wrap gap-2">
+                {profile.openers.map(opener => (
+                  <Badge key={`open-${opener}`} className="bg-[#F3E8FF] text-black border-2 border-black font-bold text-xs">
+                    OPENS: {opener}
+                  </Badge>
+                ))}
+                {profile.signOffs.map(signOff => (
+                  <Badge key={`sign-${signOff}`} className="bg-[#E8F4FD] text-black border-2 border-black font-bold text-xs">
+                    SIGNS OFF: {signOff}
+                  </Badge>
+                ))}
+                {profile.phrases.map(phrase => (
+                  <Badge key={`phrase-${phrase}`} className="bg-white text-black border-2 border-black font-bold text-xs">
+                    &ldquo;{phrase}&rdquo;
+                  </Badge>
+                ))}
+              </div>
+              {profile.examples.length > 0 && (
+                <ul className="space-y-2">
+                  {profile.examples.slice(0, 3).map(example => (
+                    <li key={example} className="text-sm text-gray-800 border-l-4 border-black pl-2 whitespace-pre-line">
+                      {example}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </>
+          )}
+        </CardContent>
+      )}
+    </Card>
+  );
+};
+
+export default VoiceProfileCard;
@@ -0,0 +1,294 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { BellPlus, Eye, Plus, RefreshCw, Trash2 } from 'lucide-react';
+import { AlertRule, WatchlistEntry } from '@/types';
+import { formatNumber } from '@/lib/metrics';
+import { getTimeElapsed } from '@/lib/youtube';
+
+interface WatchlistProps {
+  className?: string;
+}
+
+const percentageOf = (count: number, total: number): number =>
+  total > 0 ? Math.round((count / total) * 100) : 0;
+
+// Percentage-point change; for negative sentiment a rise is bad news
+const DeltaLabel: React.FC<{ value: number; invert?: boolean }> = ({ value, invert = false }) => {
+  if (value === 0) {
+    return <span className="text-xs font-bold text-gray-500">±0</span>;
+  }
+  const good = invert ? value < 0 : value > 0;
+  return (
+    <span className={`text-xs font-black ${good ? 'text-green-700' : 'text-red-600'}`}>
+      {value > 0 ? '▲' : '▼'} {Math.abs(value)}pt
+    </span>
+  );
+};
+
+const Watchlist: React.FC<WatchlistProps> = ({ className = '' }) => {
+  const [entries, setEntries] = useState<WatchlistEntry[]>([]);
+  const [url, setUrl] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [runningIds, setRunningIds] = useState<string[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [alertedVideoIds, setAlertedVideoIds] = useState<string[]>([]);
+
+  const loadWatchlist = useCallback(async () => {
+    try {
+      const response = await fetch('/api/watchlist');
+      const result = await response.json();
+      if (result.success) {
+        setEntries(result.data);
+      } else {
+        setError(result.error);
+      }
+    } catch (loadError) {
+      console.error('Failed to load watchlist:', loadError);
+      setError('Failed to load watchlist');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadWatchlist();
+  }, [loadWatchlist]);
+
+  // Videos that already have an alert rule keep their bell disabled across reloads
+  useEffect(() => {
+    fetch('/api/alerts')
+      .then(response => response.json())
+      .then(result => {
+        if (result.success) {
+          setAlertedVideoIds((result.data as AlertRule[]).map(rule => rule.videoId));
+        }
+      })
+      .catch(alertError => console.error('Failed to load alert rules:', alertError));
+  }, []);
+
+  const runItems = async (itemIds?: string[]) => {
+    setRunningIds(itemIds || entries.map(entry => entry.id));
+    try {
+      const response = await fetch('/api/watchlist/run', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ itemIds })
+      });
+      const result = await response.json();
+      if (result.success) {
+        setEntries(result.data);
+      }
+    } catch (runError) {
+      console.error('Failed to run watchlist:', runError);
+    } finally {
+      setRunningIds([]);
+    }
+  };
+
+  const handleAdd = async () => {
+    if (!url.trim()) return;
+    setError(null);
+
+    try {
+      const response = await fetch('/api/watchlist', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ url: url.trim() })
+      });
+      const result = await response.json();
+      if (!result.success) {
+        setError(result.error);
+        return;
+      }
+
+      setUrl('');
+      await loadWatchlist();
+      // First run right away so the new item shows a breakdown
+      if (!result.data.lastRun) {
+        await runItems([result.data.id]);
+      }
+    } catch (addError) {
+      console.error('Failed to add watchlist item:', addError);
+      setError('Failed to add to watchlist');
+    }
+  };
+
+  // Default backlash rule: a third of recent comments negative, or negative share up 50% on the baseline
+  const handleCreateAlert = async (entry: WatchlistEntry) => {
+    if (alertedVideoIds.includes(entry.target.id)) return;
+    const response = await fetch('/api/alerts', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ videoId: entry.target.id, thresholdPercent: 33, changePercent: 50 })
+    });
+    if (response.ok) {
+      setAlertedVideoIds(previous => [...previous, entry.target.id]);
+    }
+  };
+
+  const handleRemove = async (itemId: string) => {
+    const response = await fetch(`/api/watchlist?id=${encodeURIComponent(itemId)}`, { method: 'DELETE' });
+    if (response.ok) {
+      setEntries(previous => previous.filter(entry => entry.id !== itemId));
+    }
+  };
+
+  return (
+    <Card className={`border-4 border-black shadow-[8px_8px_0px_0px_rgba(0,0,0,1)] bg-white overflow-hidden ${className}`}>
+      <CardHeader className="bg-gradient-to-r from-[#FFF4D6] to-[#E8F5E8] border-b-4 border-black">
+        <div className="flex items-center justify-between gap-3">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 bg-[#C8FF3D] border-4 border-black flex items-center justify-center shadow-[3px_3px_0px_0px_rgba(0,0,0,1)]">
+              <Eye className="w-5 h-5 text-black" />
+            </div>
+            <div>
+              <CardTitle className="font-black text-xl text-black tracking-tight">WATCHLIST</CardTitle>
+              <p className="text-gray-600 font-bold text-sm">Tracked videos and channels, refreshed daily</p>
+            </div>
+          </div>
+          <Button
+            onClick={() => runItems()}
+            disabled={entries.length === 0 || runningIds.length > 0}
+            variant="outline"
+            className="border-2 border-black font-bold hover:bg-gray-50"
+          >
+            <RefreshCw className={`w-4 h-4 mr-2 ${runningIds.length > 0 ? 'animate-spin' : ''}`} />
+            Run All
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="p-6 space-y-4">
+        <div className="flex gap-3">
+          <input
+            type="url"
+            value={url}
+            onChange={(event) => setUrl(event.target.value)}
+            onKeyDown={(event) => event.key === 'Enter' && handleAdd()}
+            placeholder="Paste a YouTube video or channel URL"
+            className="flex-1 px-4 py-2 border-4 border-black font-medium focus:outline-none focus:shadow-[4px_4px_0px_0px_rgba(0,0,0,1)]"
+          />
+          <Button
+            onClick={handleAdd}
+            className="bg-[#7A3BFF] text-white border-4 border-black font-black shadow-[4px_4px_0px_0px_rgba(0,0,0,1)] hover:translate-x-[-2px] hover:translate-y-[-2px] transition-all"
+          >
+            <Plus className="w-4 h-4 mr-1" />
+            Track
+          </Button>
+        </div>
+        {error && <p className="text-sm font-bold text-red-600">{error}</p>}
+
+        {loading ? (
+          <div className="h-24 bg-gray-100 border-4 border-gray-300 animate-pulse"></div>
+        ) : entries.length === 0 ? (
+          <p className="text-center font-bold text-gray-500 py-6">Nothing tracked yet. Add a competitor or one of your own videos.</p>
+        ) : (
+          <ul className="space-y-3">
+            {entries.map(entry => {
+              const run = entry.lastRun;
+              const running = runningIds.includes(entry.id);
+              const sentiment = run?.sentiment;
+
+              return (
+                <li key={entry.id} className="p-4 border-4 border-black bg-white shadow-[4px_4px_0px_0px_rgba(0,0,0,1)]">
+                  <div className="flex items-start justify-between gap-3 mb-3">
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2 mb-1">
+                        <Badge className={`border-2 border-black font-bold text-xs ${entry.target.type === 'video' ? 'bg-[#FF6A4D] text-white' : 'bg-[#4DA6FF] text-black'}`}>
+                          {entry.target.type === 'video' ? 'VIDEO' : 'CHANNEL'}
+                        </Badge>
+                        {run && (
+                          <span className="text-xs font-bold text-gray-500">Run {getTimeElapsed(run.runAt)}</span>
+                        )}
+                      </div>
+                      <p className="font-black text-black truncate">{run?.title || entry.target.id}</p>
+                    </div>
+                    <div className="flex gap-2 shrink-0">
+                      <Button
+                        onClick={() => runItems([entry.id])}
+                        disabled={running}
+                        variant="outline"
+                        size="sm"
+                        className="border-2 border-black"
+                        title="Run now"
+                      >
+                        <RefreshCw className={`w-4 h-4 ${running ? 'animate-spin' : ''}`} />
+                      </Button>
+                      {entry.target.type === 'video' && (
+                        <Button
+                          onClick={() => handleCreateAlert(entry)}
+                          disabled={alertedVideoIds.includes(entry.target.id)}
+                          variant="outline"
+                          size="sm"
+                          className="border-2 border-black"
+                          title="Alert me when negative comments spike"
+                        >
+                          <BellPlus className="w-4 h-4" />
+                        </Button>
+                      )}
+                      <Button
+                        onClick={() => handleRemove(entry.id)}
+                        variant="outline"
+                        size="sm"
+                        className="border-2 border-black hover:bg-red-50"
+                        title="Stop tracking"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </div>
+
+                  {entry.lastError && (
+                    <p className="text-xs font-bold text-red-600 mb-2">Last run failed: {entry.lastError}</p>
+                  )}
+
+                  {sentiment && sentiment.total > 0 ? (
+                    <>
+                      <div className="flex h-4 border-2 border-black mb-2">
+                        <div className="bg-[#C8FF3D]" style={{ width: `${percentageOf(sentiment.positive, sentiment.total)}%` }} />
+                        <div className="bg-gray-300" style={{ width: `${percentageOf(sentiment.neutral, sentiment.total)}%` }} />
+                        <div className="bg-[#FF6A4D]" style={{ width: `${percentageOf(sentiment.negative, sentiment.total)}%` }} />
+                      </div>
+                      <div className="grid grid-cols-2 md:grid-cols-5 gap-2 text-sm">
+                        <div>
+                          <span className="font-black">{percentageOf(sentiment.positive, sentiment.total)}%</span> positive{' '}
+                          {entry.delta && <DeltaLabel value={entry.delta.positivePercentage} />}
+                        </div>
+                        <div>
+                          <span className="font-black">{percentageOf(sentiment.neutral, sentiment.total)}%</span> neutral{' '}
+                          {entry.delta && <DeltaLabel value={entry.delta.neutralPercentage} />}
+                        </div>
+                        <div>
+                          <span className="font-black">{percentageOf(sentiment.negative, sentiment.total)}%</span> negative{' '}
+                          {entry.delta && <DeltaLabel value={entry.delta.negativePercentage} invert />}
+                        </div>
+                        <div>
+                          <span className="font-black">{formatNumber(run.viewCount)}</span> views
+                          {entry.delta && <span className="text-xs font-bold text-gray-600"> (+{formatNumber(Math.max(0, entry.delta.viewCount))})</span>}
+                        </div>
+                        <div>
+                          <span className="font-black">{formatNumber(run.commentCount)}</span> comments
+                          {entry.delta && <span className="text-xs font-bold text-gray-600"> (+{formatNumber(Math.max(0, entry.delta.commentCount))})</span>}
+                        </div>
+                      </div>
+                      {!entry.delta && (
+                        <p className="text-xs font-bold text-gray-500 mt-2">Deltas appear after the next run</p>
+                      )}
+                    </>
+                  ) : (
+                    <p className="text-sm font-bold text-gray-500">{running ? 'Analyzing comments...' : 'No run yet'}</p>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default Watchlist;
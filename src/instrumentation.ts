@@ -0,0 +1,9 @@
+/**
+ * Next.js server startup hook: start background jobs on the Node.js runtime only
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME === 'nodejs' && process.env.DISABLE_BACKGROUND_JOBS !== 'true') {
+    const { startBackgroundJobs } = await import('@/lib/jobs');
+    startBackgroundJobs();
+  }
+}
@@ -0,0 +1,44 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { detectLanguage, identifyLanguage } from '@/lib/language-id';
+
+describe('identifyLanguage', () => {
+  it('separates languages that share the Latin script', () => {
+    assert.equal(identifyLanguage('this is a really nice video').language, 'en');
+    assert.equal(identifyLanguage('este video es muy bueno').language, 'es');
+    assert.equal(identifyLanguage('ce film est vraiment génial').language, 'fr');
+  });
+
+  it('identifies romanized Hindi and Marathi', () => {
+    assert.deepEqual(identifyLanguage('accha nahi hai yaar'), { language: 'hi', confidence: 1, script: 'latin' });
+    assert.equal(identifyLanguage('khup chan video aahe').language, 'mr');
+  });
+
+  it('separates Hindi from Marathi in Devanagari', () => {
+    assert.equal(identifyLanguage('बहुत अच्छा वीडियो है').language, 'hi');
+    assert.equal(identifyLanguage('खूप छान व्हिडिओ आहे').language, 'mr');
+  });
+
+  it('maps single-language scripts directly', () => {
+    assert.deepEqual(identifyLanguage('こんにちは世界'), { language: 'ja', confidence: 0.95, script: 'kana' });
+    assert.equal(identifyLanguage('Привет всем').language, 'ru');
+    assert.equal(identifyLanguage('مرحبا').language, 'ar');
+  });
+
+  it('ignores links and mentions and reports no confidence without letters', () => {
+    assert.deepEqual(identifyLanguage('👍👍 https://example.com/página'), { language: 'en', confidence: 0, script: 'unknown' });
+  });
+});
+
+describe('detectLanguage', () => {
+  it('falls back to the script default below the confidence floor', () => {
+    assert.equal(identifyLanguage('hai').language, 'hi');
+    assert.equal(detectLanguage('hai'), 'en');
+    assert.equal(detectLanguage('है'), 'hi');
+  });
+
+  it('keeps confident detections', () => {
+    assert.equal(detectLanguage('accha nahi hai yaar'), 'hi');
+    assert.equal(detectLanguage('khup chan video aahe'), 'mr');
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { calculateGrowthRates, calculateSentimentOverTime, chooseSentimentBucket } from '@/lib/metrics';
+import type { CommentData, SpamAssessment, StatsSnapshot } from '@/types';
+
+const video = { publishedAt: '2026-03-01T00:00:00Z', viewCount: 1000, likeCount: 100, commentCount: 10 };
+
+const snapshot = (capturedAt: string, viewCount: number, commentCount: number): StatsSnapshot =>
+  ({ capturedAt, viewCount, likeCount: 0, commentCount });
+
+const comment = (
+  publishedAt: string,
+  sentiment: CommentData['sentiment'],
+  confidence?: number,
+  overrides: Partial<CommentData> = {}
+): CommentData => ({
+  id: publishedAt,
+  authorDisplayName: 'viewer',
+  authorProfileImageUrl: '',
+  textDisplay: 'text',
+  publishedAt,
+  likeCount: 0,
+  sentiment,
+  confidence,
+  ...overrides
+});
+
+describe('calculateGrowthRates', () => {
+  it('measures growth over the latest snapshot window', () => {
+    const rates = calculateGrowthRates(video, [
+      snapshot('2026-03-02T10:00:00Z', 900, 8),
+      snapshot('2026-03-01T00:00:00Z', 100, 0),
+      snapshot('2026-03-02T00:00:00Z', 500, 4)
+    ]);
+
+    assert.deepEqual(rates, {
+      source: 'snapshots',
+      windowHours: 10,
+      viewsPerHour: 40,
+      likesPerHour: 0,
+      commentsPerHour: 0.4
+    });
+  });
+
+  it('falls back to the lifetime average without an hour of history', () => {
+    const rates = calculateGrowthRates(video, [
+      snapshot('2026-03-02T10:00:00Z', 900, 8),
+      snapshot('2026-03-02T10:30:00Z', 950, 9)
+    ]);
+
+    assert.equal(rates.source, 'lifetime');
+    assert.ok(rates.viewsPerHour > 0 && rates.viewsPerHour < video.viewCount);
+  });
+});
+
+describe('chooseSentimentBucket', () => {
+  it('picks the bucket from the comment time span', () => {
+    assert.equal(chooseSentimentBucket([]), 'day');
+    assert.equal(chooseSentimentBucket([comment('2026-03-01T00:00:00Z', 'positive'), comment('2026-03-02T00:00:00Z', 'positive')]), 'hour');
+    assert.equal(chooseSentimentBucket([comment('2026-01-01T00:00:00Z', 'positive'), comment('2026-03-01T00:00:00Z', 'positive')]), 'day');
+    assert.equal(chooseSentimentBucket([comment('2025-01-01T00:00:00Z', 'positive'), comment('2026-03-01T00:00:00Z', 'positive')]), 'week');
+  });
+});
+
+describe('calculateSentimentOverTime', () => {
+  it('weights polarity by confidence and averages over the bucket count', () => {
+    const points = calculateSentimentOverTime([
+      comment('2026-03-02T09:00:00Z', 'positive', 1),
+      comment('2026-03-02T10:00:00Z', 'negative', 0.5),
+      comment('2026-03-02T11:00:00Z', 'neutral'),
+      comment('2026-03-01T12:00:00Z', 'positive', 0.8)
+    ]);
+
+    assert.deepEqual(points.map(point => point.date), ['2026-03-01', '2026-03-02']);
+    assert.equal(points[0].sentiment_score, 0.8);
+    assert.equal(points[1].sentiment_score, 0.167);
+    assert.equal(points[1].total, 3);
+    assert.equal(points[1].averageConfidence, 0.67);
+  });
+
+  it('labels hour buckets, starts weeks on Monday and skips spam', () => {
+    const spam: SpamAssessment = { isSpam: true, score: 0.9, signals: [] };
+    const hourly = calculateSentimentOverTime([
+      comment('2026-03-02T09:45:00Z', 'positive', 1),
+      comment('2026-03-02T09:50:00Z', 'negative', 1, { spam })
+    ], 'hour');
+    const weekly = calculateSentimentOverTime([comment('2026-03-05T09:45:00Z', 'negative', 1)], 'week');
+
+    assert.equal(hourly.length, 1);
+    assert.equal(hourly[0].date, '2026-03-02 09:00');
+    assert.equal(hourly[0].total, 1);
+    assert.equal(weekly[0].date, '2026-03-02');
+    assert.equal(weekly[0].sentiment_score, -1);
+  });
+});
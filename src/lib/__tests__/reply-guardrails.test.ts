@@ -0,0 +1,60 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { checkReplySafety, describeGuardrailIssues, type ReplyGuardrailContext } from '@/lib/reply-guardrails';
+
+const context: ReplyGuardrailContext = {
+  commentText: 'How did you wire the LED strip?',
+  videoTitle: 'Building an LED desk lamp',
+  videoDescription: 'Parts list: https://shop.example.com/lamp\nThis video is sponsored by Acme. Kit price $49'
+};
+
+const checksOf = (reply: string, ctx = context) =>
+  checkReplySafety(reply, ctx).issues.map(issue => `${issue.check}:${issue.severity}`);
+
+describe('checkReplySafety', () => {
+  it('passes a plain friendly reply', () => {
+    const result = checkReplySafety('Thanks so much for watching, glad the lamp build helped!', context);
+    assert.equal(result.verdict, 'pass');
+    assert.deepEqual(result.issues, []);
+  });
+
+  it('blocks unknown links but only flags ones from the description', () => {
+    assert.equal(checkReplySafety('Grab it at https://cheap-leds.xyz/deal', context).verdict, 'block');
+    assert.deepEqual(checksOf('Parts are at shop.example.com/lamp'), ['link:flag']);
+  });
+
+  it('blocks contact details without mistaking emails for links', () => {
+    assert.deepEqual(checksOf('Email me at maker@example.org'), ['personal-data:block']);
+    assert.equal(checkReplySafety('Call +1 (555) 123-4567 for help', context).verdict, 'block');
+    assert.deepEqual(checksOf('That video got 1,200 views in 2024'), []);
+  });
+
+  it('blocks money offers and flags future commitments', () => {
+    assert.equal(checkReplySafety("DM me and I'll send you a free gift card", context).verdict, 'block');
+    assert.deepEqual(checksOf("Good idea, I'll make a follow-up about diffusers"), ['promise:flag']);
+  });
+
+  it('blocks insults at the commenter but only flags supportive uses', () => {
+    assert.equal(checkReplySafety("You're such an idiot", context).verdict, 'block');
+    assert.deepEqual(checksOf("Don't feel stupid, wiring is tricky"), ['toxicity:flag']);
+  });
+
+  it('flags claims about the video that the video does not back up', () => {
+    const reply = 'I explained quantum tunneling and blockchain consensus in the video';
+    assert.deepEqual(checksOf(reply), ['off-topic:flag']);
+    assert.deepEqual(checksOf(reply, { ...context, transcript: 'quantum tunneling and blockchain consensus' }), []);
+  });
+
+  it('flags statements the description contradicts', () => {
+    assert.deepEqual(checksOf('Nope, this one is not sponsored'), ['contradiction:flag']);
+    assert.deepEqual(checksOf('The kit is $39 right now'), ['contradiction:flag']);
+    assert.deepEqual(checksOf('The kit is $49 right now'), []);
+  });
+});
+
+describe('describeGuardrailIssues', () => {
+  it('lists only blocking issues for a blocked reply', () => {
+    const result = checkReplySafety("You're such an idiot, I'll fix it tomorrow", context);
+    assert.equal(describeGuardrailIssues(result), 'Insults the commenter ("You\'re such an idiot")');
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { computeClassificationMetrics } from '@/lib/sentiment-eval';
+
+describe('computeClassificationMetrics', () => {
+  it('computes accuracy, per-class scores and the confusion matrix', () => {
+    const metrics = computeClassificationMetrics([
+      { label: 'positive', predicted: 'positive' },
+      { label: 'positive', predicted: 'positive' },
+      { label: 'positive', predicted: 'negative' },
+      { label: 'negative', predicted: 'negative' },
+      { label: 'neutral', predicted: 'positive' }
+    ]);
+
+    assert.equal(metrics.count, 5);
+    assert.equal(metrics.accuracy, 0.6);
+    assert.deepEqual(metrics.confusion, {
+      positive: { positive: 2, neutral: 0, negative: 1 },
+      neutral: { positive: 1, neutral: 0, negative: 0 },
+      negative: { positive: 0, neutral: 0, negative: 1 }
+    });
+    assert.deepEqual(metrics.perClass, {
+      positive: { precision: 0.667, recall: 0.667, f1: 0.667, support: 3 },
+      neutral: { precision: 0, recall: 0, f1: 0, support: 1 },
+      negative: { precision: 0.5, recall: 1, f1: 0.667, support: 1 }
+    });
+    assert.equal(metrics.macroF1, 0.445);
+  });
+
+  it('averages macro F1 only over classes that occur', () => {
+    const metrics = computeClassificationMetrics([
+      { label: 'positive', predicted: 'positive' },
+      { label: 'negative', predicted: 'neutral' }
+    ]);
+
+    assert.equal(metrics.perClass.neutral.support, 0);
+    assert.equal(metrics.perClass.positive.f1, 1);
+    assert.equal(metrics.macroF1, 0.5);
+  });
+
+  it('returns zeros for an empty set', () => {
+    const metrics = computeClassificationMetrics([]);
+
+    assert.equal(metrics.count, 0);
+    assert.equal(metrics.accuracy, 0);
+    assert.equal(metrics.macroF1, 0);
+  });
+});
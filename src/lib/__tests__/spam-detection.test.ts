@@ -0,0 +1,78 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { detectSpam, foldLookalikes, SPAM_THRESHOLD } from '@/lib/spam-detection';
+import type { CommentData } from '@/types';
+
+const PROMO = 'Check out my channel for the best daily crypto trading tips';
+
+const comment = (id: string, textDisplay: string, author = `viewer-${id}`): CommentData => ({
+  id,
+  authorDisplayName: author,
+  authorProfileImageUrl: '',
+  authorChannelId: `UC-${author}`,
+  textDisplay,
+  publishedAt: '2026-03-01T00:00:00Z',
+  likeCount: 0
+});
+
+describe('foldLookalikes', () => {
+  it('folds fullwidth, Cyrillic and Greek letters to plain Latin', () => {
+    assert.equal(foldLookalikes('ｗhаtѕаpp'), 'whatsapp');
+    assert.equal(foldLookalikes('Ⓑοnus'), 'bonus');
+  });
+});
+
+describe('detectSpam', () => {
+  it('marks a cluster of copies from different authors as spam', () => {
+    const results = detectSpam([
+      comment('a', PROMO),
+      comment('b', `${PROMO}!!`),
+      comment('c', PROMO.replace(/o/g, 'о')),
+      comment('d', 'Loved the part about the lighting setup, thanks')
+    ]);
+
+    assert.deepEqual([...results.keys()].sort(), ['a', 'b', 'c']);
+    assert.deepEqual(results.get('a'), { isSpam: true, score: SPAM_THRESHOLD, signals: ['duplicate'], duplicates: 3 });
+    assert.deepEqual(results.get('c')?.signals, ['duplicate', 'lookalike']);
+  });
+
+  it('ignores short repeated praise and pairs from different authors', () => {
+    const results = detectSpam([
+      comment('a', 'great video'),
+      comment('b', 'great video'),
+      comment('c', 'great video'),
+      comment('d', PROMO),
+      comment('e', PROMO)
+    ]);
+
+    assert.equal(results.size, 0);
+  });
+
+  it('needs a second signal before one author repeating themselves counts as spam', () => {
+    const repeated = detectSpam([comment('a', PROMO, 'sam'), comment('b', PROMO, 'sam')]);
+    assert.equal(repeated.get('a')?.isSpam, false);
+    assert.equal(repeated.get('a')?.score, 0.3);
+
+    const withLink = detectSpam([comment('a', `${PROMO} bit.ly/tips`, 'sam'), comment('b', `${PROMO} bit.ly/tips`, 'sam')]);
+    assert.deepEqual(withLink.get('a')?.signals, ['duplicate', 'link']);
+    assert.equal(withLink.get('a')?.isSpam, true);
+  });
+
+  it('flags contact details and scam-style author names', () => {
+    const results = detectSpam([
+      comment('a', 'Message me on whatsapp +44 7700 900123 to claim'),
+      comment('b', 'nice edit', 'Crypto Profit Mentor')
+    ]);
+
+    assert.deepEqual(results.get('a')?.signals, ['contact']);
+    assert.equal(results.get('a')?.isSpam, true);
+    assert.deepEqual(results.get('b'), { isSpam: false, score: 0.3, signals: ['author'], duplicates: undefined });
+  });
+
+  it('never assesses the channel owner', () => {
+    const owner = comment('a', 'New merch at shop.example.com, link in bio', 'creator');
+    const results = detectSpam([owner, comment('b', 'see www.example.com')], { ownerChannelId: owner.authorChannelId });
+
+    assert.deepEqual([...results.keys()], ['b']);
+  });
+});
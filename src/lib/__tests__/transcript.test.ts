@@ -0,0 +1,134 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  detectTranscriptFormat,
+  extractCaptionTracks,
+  formatTimestamp,
+  parseClockTime,
+  parseTranscript,
+  selectCaptionTrack,
+  type CaptionTrack
+} from '@/lib/transcript';
+
+describe('parseClockTime', () => {
+  it('reads clock, comma-decimal and unit values', () => {
+    assert.equal(parseClockTime('01:02:03.450'), 3723.45);
+    assert.equal(parseClockTime('02:03,450'), 123.45);
+    assert.equal(parseClockTime('12.5s'), 12.5);
+    assert.equal(parseClockTime('1500ms'), 1.5);
+  });
+});
+
+describe('parseTranscript', () => {
+  it('parses WebVTT cues and skips header and NOTE blocks', () => {
+    const vtt = [
+      'WEBVTT',
+      '',
+      'NOTE produced by hand',
+      '',
+      '00:00:01.000 --> 00:00:03.500',
+      'Hello <b>world</b>',
+      '',
+      '00:00:04.000 --> 00:00:05.000 align:start',
+      'Second &amp; last'
+    ].join('\n');
+
+    assert.equal(detectTranscriptFormat(vtt), 'vtt');
+    assert.deepEqual(parseTranscript(vtt), [
+      { start: 1, duration: 2.5, text: 'Hello world' },
+      { start: 4, duration: 1, text: 'Second & last' }
+    ]);
+  });
+
+  it('drops the repeated line of rolling auto-caption cues', () => {
+    const vtt = [
+      'WEBVTT',
+      '',
+      '00:00:00.000 --> 00:00:02.000',
+      'so today we',
+      '',
+      '00:00:02.000 --> 00:00:04.000',
+      'so today we',
+      'are<00:00:02.500><c> building</c>'
+    ].join('\n');
+
+    assert.deepEqual(parseTranscript(vtt).map(segment => segment.text), ['so today we', 'are building']);
+  });
+
+  it('parses SRT with CRLF line endings', () => {
+    const srt = '1\r\n00:00:01,000 --> 00:00:02,000\r\nFirst line\r\n\r\n2\r\n00:01:00,500 --> 00:01:02,000\r\nSecond\r\nline';
+
+    assert.equal(detectTranscriptFormat(srt), 'srt');
+    assert.deepEqual(parseTranscript(srt), [
+      { start: 1, duration: 1, text: 'First line' },
+      { start: 60.5, duration: 1.5, text: 'Second line' }
+    ]);
+  });
+
+  it('parses json3 timed text and skips events without text', () => {
+    const json3 = JSON.stringify({
+      events: [
+        { tStartMs: 0, dDurationMs: 1000 },
+        { tStartMs: 1000, dDurationMs: 2500, segs: [{ utf8: 'hi ' }, { utf8: 'there' }] },
+        { tStartMs: 3500, dDurationMs: 500, segs: [{ utf8: '\n' }] }
+      ]
+    });
+
+    assert.deepEqual(parseTranscript(json3), [{ start: 1, duration: 2.5, text: 'hi there' }]);
+  });
+
+  it('decodes double-encoded entities in srv1 XML', () => {
+    const xml = '<transcript><text start="1.5" dur="2">it&amp;#39;s &lt;i&gt;fine&lt;/i&gt;</text></transcript>';
+
+    assert.deepEqual(parseTranscript(xml), [{ start: 1.5, duration: 2, text: "it's fine" }]);
+  });
+
+  it('parses srv3 milliseconds and TTML clock times', () => {
+    const srv3 = '<timedtext><body><p t="1200" d="800">one</p></body></timedtext>';
+    const ttml = '<tt><body><p begin="00:00:02.000" end="00:00:03.250">two<br/>lines</p></body></tt>';
+
+    assert.deepEqual(parseTranscript(srv3), [{ start: 1.2, duration: 0.8, text: 'one' }]);
+    assert.deepEqual(parseTranscript(ttml), [{ start: 2, duration: 1.25, text: 'two lines' }]);
+  });
+});
+
+describe('formatTimestamp', () => {
+  it('formats minutes and hours', () => {
+    assert.equal(formatTimestamp(65.9), '1:05');
+    assert.equal(formatTimestamp(3725), '1:02:05');
+    assert.equal(formatTimestamp(-3), '0:00');
+  });
+});
+
+describe('caption tracks', () => {
+  it('extracts tracks from a watch page, ignoring brackets inside strings', () => {
+    const html = `var ytInitialPlayerResponse = {"captions":{"captionTracks":[` +
+      `{"baseUrl":"https://x/api?a=[1]","languageCode":"en","kind":"asr","name":{"simpleText":"English (auto)"}},` +
+      `{"baseUrl":"https://x/api?b","languageCode":"de","name":{"runs":[{"text":"Deutsch"}]},"isTranslatable":true}` +
+      `]}};`;
+
+    assert.deepEqual(extractCaptionTracks(html), [
+      { baseUrl: 'https://x/api?a=[1]', languageCode: 'en', name: 'English (auto)', kind: 'asr', isTranslatable: undefined },
+      { baseUrl: 'https://x/api?b', languageCode: 'de', name: 'Deutsch', kind: undefined, isTranslatable: true }
+    ]);
+    assert.deepEqual(extractCaptionTracks('<html>no captions</html>'), []);
+  });
+
+  const tracks: CaptionTrack[] = [
+    { baseUrl: 'asr-en', languageCode: 'en', name: 'English (auto)', kind: 'asr' },
+    { baseUrl: 'manual-en', languageCode: 'en-GB', name: 'English' },
+    { baseUrl: 'manual-de', languageCode: 'de', name: 'Deutsch', isTranslatable: true }
+  ];
+
+  it('prefers a manual track in the first preferred language', () => {
+    assert.equal(selectCaptionTrack(tracks, ['en'])?.track.baseUrl, 'manual-en');
+    assert.equal(selectCaptionTrack(tracks, ['fr', 'de'])?.track.baseUrl, 'manual-de');
+  });
+
+  it('falls back to the original track, translated only when allowed', () => {
+    const germanOnly = tracks.slice(2);
+    assert.deepEqual(selectCaptionTrack(germanOnly, ['es-MX']), { track: germanOnly[0] });
+    assert.deepEqual(selectCaptionTrack(germanOnly, ['es-MX'], true), { track: germanOnly[0], translateTo: 'es' });
+    assert.equal(selectCaptionTrack([], ['en']), null);
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { estimateDailyViews } from '@/lib/view-estimate';
+
+const now = new Date('2026-03-10T12:00:00Z');
+
+describe('estimateDailyViews', () => {
+  it('spreads the total over the decay curve when there are no snapshots', () => {
+    const estimate = estimateDailyViews({ publishedAt: '2026-03-01T12:00:00Z', totalViews: 10000, now });
+
+    assert.equal(estimate.method, 'decay-curve');
+    assert.equal(estimate.decayExponent, 1);
+    assert.equal(estimate.viewsPerDay.length, 10);
+    assert.equal(estimate.viewsPerDay[0].date, '2026-03-01');
+    assert.equal(estimate.viewsPerDay[estimate.viewsPerDay.length - 1].views, 10000);
+
+    const total = estimate.viewsPerDay.reduce((sum, day) => sum + day.dailyViews, 0);
+    assert.ok(Math.abs(total - 10000) <= estimate.viewsPerDay.length, `daily views sum to ${total}`);
+
+    for (const day of estimate.viewsPerDay) {
+      assert.equal(day.observed, false);
+      assert.ok(day.dailyViewsLow <= day.dailyViews && day.dailyViews <= day.dailyViewsHigh);
+    }
+    // Decaying curve: the first full day outsells the last full one
+    assert.ok(estimate.viewsPerDay[1].dailyViews > estimate.viewsPerDay[8].dailyViews);
+  });
+
+  it('only returns the last windowDays days of an old video', () => {
+    const estimate = estimateDailyViews({ publishedAt: '2025-01-01T00:00:00Z', totalViews: 50000, now, windowDays: 7 });
+
+    assert.equal(estimate.viewsPerDay.length, 7);
+    assert.equal(estimate.viewsPerDay[6].date, '2026-03-10');
+  });
+
+  it('uses snapshot deltas on the days they cover', () => {
+    const estimate = estimateDailyViews({
+      publishedAt: '2026-03-01T12:00:00Z',
+      totalViews: 9000,
+      now,
+      snapshots: [
+        { capturedAt: '2026-03-08T00:00:00Z', viewCount: 8000 },
+        { capturedAt: '2026-03-09T00:00:00Z', viewCount: 8600 }
+      ]
+    });
+
+    assert.equal(estimate.method, 'decay-curve+snapshots');
+    assert.equal(estimate.snapshotsUsed, 2);
+    assert.ok(estimate.exponentRange[0] < estimate.decayExponent && estimate.decayExponent < estimate.exponentRange[1]);
+
+    const march8 = estimate.viewsPerDay.find(day => day.date === '2026-03-08')!;
+    assert.equal(march8.observed, true);
+    assert.equal(march8.dailyViews, 600);
+    assert.equal(march8.dailyViewsLow, march8.dailyViewsHigh);
+    assert.equal(estimate.viewsPerDay.find(day => day.date === '2026-03-02')!.observed, false);
+  });
+
+  it('ignores snapshots too close together to describe the curve', () => {
+    const estimate = estimateDailyViews({
+      publishedAt: '2026-03-01T12:00:00Z',
+      totalViews: 9000,
+      now,
+      snapshots: [
+        { capturedAt: '2026-03-10T10:00:00Z', viewCount: 8950 },
+        { capturedAt: '2026-03-10T11:00:00Z', viewCount: 8980 }
+      ]
+    });
+
+    assert.equal(estimate.method, 'decay-curve');
+    assert.equal(estimate.snapshotsUsed, 0);
+  });
+});
@@ -1,8 +1,13 @@
 
 
-import { CommentData } from '@/types';
+import { AspectDefinition, AspectMention, CommentCategory, CommentData, CommentEmotion, SentimentExample, VoiceProfile } from '@/types';
 import { Groq } from 'groq-sdk';
 import { Mistral } from '@mistralai/mistralai';
+import { categorizeTextLocally, detectEmotionsLocally, scoreTextLocally } from '@/lib/local-sentiment';
+import { markUncacheable } from '@/lib/analysis-cache';
+import { describeVoiceProfile } from '@/lib/voice-profile';
+import { detectLanguage } from '@/lib/language-id';
+import { languageName } from '@/lib/reply-language';
 
 // ===== TYPE DEFINITIONS =====
 
@@ -10,10 +15,56 @@ interface SentimentAnalysisResult {
   sentiment: 'positive' | 'negative' | 'neutral';
   confidence: number;
   language: string;
+  categories: CommentCategory[];
+  emotions: CommentEmotion[];
   reasoning: string;
   keywords: string[];
 }
 
+const COMMENT_CATEGORIES: CommentCategory[] = [
+  'question', 'feature-request', 'bug-report', 'spam', 'self-promo', 'toxicity', 'praise', 'other'
+];
+
+// Bump whenever the sentiment prompt or the per-comment result shape changes, so stored scores are redone
+const SENTIMENT_SCORING_VERSION = 3; // 2: categories, 3: emotions
+
+const COMMENT_EMOTIONS: CommentEmotion[] = [
+  'joy', 'gratitude', 'anger', 'confusion', 'disappointment', 'excitement', 'sarcasm'
+];
+
+type SentimentProviderName = 'groq' | 'mistral' | 'local';
+
+interface SentimentProvider {
+  name: SentimentProviderName;
+  model: string;
+  analyze: (comments: CommentData[], parentTexts?: ParentTexts, examples?: SentimentExample[]) => Promise<CommentData[]>;
+}
+
+// Reply id -> text of the comment it answers, so replies are scored in context
+type ParentTexts = Record<string, string>;
+
+interface SentimentPipeline {
+  name: SentimentProviderName;
+  model: string;
+  temperature: number;
+  batchSize: number;
+  delayMs: number;
+  buildPrompt: (comments: CommentData[], parentTexts?: ParentTexts) => string;
+  complete: (prompt: string) => Promise<string | undefined>;
+  parse: (responseText: string, batchNumber: number) => SentimentAnalysisResult[];
+}
+
+interface SentimentProviderComparison {
+  commentCount: number;
+  results: Record<string, {
+    model: string;
+    processingTimeMs: number;
+    distribution: { positive: number; neutral: number; negative: number };
+    sentiments: Array<'positive' | 'negative' | 'neutral'>;
+  }>;
+  agreement: Array<{ providers: [string, string]; rate: number }>;
+}
+
 interface ReplyGenerationContext {
   commentText: string;
   videoTitle: string;
@@ -21,8 +72,16 @@ interface ReplyGenerationContext {
   transcript?: string;
   channelName?: string;
   commentLanguage?: string;
+  replyLanguage?: string; // resolved by the reply language policy; defaults to the comment language
   commentSentiment?: 'positive' | 'negative' | 'neutral';
   replyTone: 'friendly' | 'professional' | 'casual' | 'humorous';
+  voiceProfile?: VoiceProfile | null; // learned from the creator's own replies, overrides generic tone habits
+}
+
+interface GeneratedReply {
+  text: string;
+  model: string; // FALLBACK_REPLY_MODEL when every Mistral attempt failed
+  prompt?: string; // what the model was asked; fallback templates have none
 }
 
 interface CreatorInsights {
@@ -61,11 +120,15 @@ interface CreatorInsights {
 
 // ===== CLIENT INITIALIZATION =====
 
-const groqClient = new Groq({
+// Created on first use, so the local provider and evaluation replays run without API keys
+let groqClient: Groq | undefined;
+let mistralClient: Mistral | undefined;
+
+const groq = (): Groq => groqClient ??= new Groq({
   apiKey: process.env.GROQ_API_KEY,
 });
 
-const mistralClient = new Mistral({ 
+const mistral = (): Mistral => mistralClient ??= new Mistral({ 
   apiKey: process.env.MISTRAL_API_KEY 
 });
 
@@ -82,9 +145,15 @@ const CONFIG = {
   mistral: {
     replyModel: 'mistral-small-latest', // Changed to free tier model
     analyticsModel: 'mistral-small-latest', // Changed to free tier model
+    sentimentModel: 'mistral-small-latest',
+    sentimentBatchSize: 20,
     maxRetries: 3,
     delayMs: 1500, // Increased delay to avoid rate limits
     temperature: 0.7,
+  },
+  sentiment: {
+    // groq | mistral | local (offline, for air-gapped CI)
+    provider: process.env.SENTIMENT_PROVIDER || 'groq',
   }
 } as const;
 
@@ -114,38 +183,117 @@ const cleanText = (text: string): string => {
     .trim();
 };
 
+// ===== SENTIMENT PROVIDERS =====
+
 /**
- * Detect comment language with high accuracy
+ * Resolve a provider by name, defaulting to SENTIMENT_PROVIDER (or Groq)
  */
-const detectLanguage = (text: string): string => {
-  const patterns = {
-    hi: /[\u0900-\u097F]|धन्यवाद|अच्छा|बहुत|क्या|है|मजा|वीडियो/,
-    mr: /[\u0900-\u097F]|धन्यवाद|छान|मस्त|व्हिडिओ|आहे/,
-    es: /¿|¡|muy|que|para|este|video|gracias|hola/i,
-    fr: /très|que|pour|cette|vidéo|merci|bonjour|c'est/i,
-    de: /sehr|dass|für|diese|video|danke|hallo|ist/i,
-    pt: /muito|que|para|este|vídeo|obrigado|olá/i,
-    ar: /[\u0600-\u06FF]|شكرا|جميل|فيديو|رائع/,
-    zh: /[\u4e00-\u9fff]|谢谢|很好|视频|棒/,
-    ja: /[\u3040-\u309f\u30a0-\u30ff\u4e00-\u9faf]|ありがとう|いい|動画|素晴らしい/,
-    ko: /[\uac00-\ud7af]|감사|좋은|비디오|멋진/,
-  };
+export function getSentimentProvider(name: string = CONFIG.sentiment.provider): SentimentProvider {
+  const provider = SENTIMENT_PROVIDERS[name as SentimentProviderName];
+  if (!provider) {
+    throw new Error(`Unknown sentiment provider "${name}". Expected one of: ${Object.keys(SENTIMENT_PROVIDERS).join(', ')}`);
+  }
+  return provider;
+}
+
+/**
+ * Analyze sentiment with the configured provider. Replies can carry their parent's text as context,
+ * and the creator's own corrections are passed to LLM providers as few-shot examples.
+ */
+export async function analyzeSentiment(
+  comments: CommentData[],
+  providerName?: string,
+  parentTexts: ParentTexts = {},
+  examples: SentimentExample[] = []
+): Promise<CommentData[]> {
+  const provider = getSentimentProvider(providerName);
+  console.log(`🧭 Using sentiment provider: ${provider.name} (${provider.model})${examples.length > 0 ? ` with ${examples.length} creator examples` : ''}`);
+  return provider.analyze(comments, parentTexts, examples);
+}
 
-  for (const [lang, pattern] of Object.entries(patterns)) {
-    if (pattern.test(text)) return lang;
+/**
+ * Run several providers over the same comment set and report how often they agree
+ */
+export async function compareSentimentProviders(
+  comments: CommentData[],
+  providerNames: string[]
+): Promise<SentimentProviderComparison> {
+  const results: SentimentProviderComparison['results'] = {};
+
+  for (const name of providerNames) {
+    const provider = getSentimentProvider(name);
+    const startTime = Date.now();
+    const analyzed = await provider.analyze(comments);
+    const distribution = { positive: 0, neutral: 0, negative: 0 };
+    analyzed.forEach(comment => distribution[comment.sentiment || 'neutral']++);
+
+    results[provider.name] = {
+      model: provider.model,
+      processingTimeMs: Date.now() - startTime,
+      distribution,
+      sentiments: analyzed.map(comment => comment.sentiment || 'neutral')
+    };
   }
-  
-  return 'en'; // Default to English
-};
 
-// ===== GROQ SENTIMENT ANALYSIS =====
+  const names = Object.keys(results);
+  const agreement: SentimentProviderComparison['agreement'] = [];
+  for (let i = 0; i < names.length; i++) {
+    for (let j = i + 1; j < names.length; j++) {
+      const a = results[names[i]].sentiments;
+      const b = results[names[j]].sentiments;
+      const matches = a.filter((sentiment, index) => sentiment === b[index]).length;
+      agreement.push({
+        providers: [names[i], names[j]],
+        rate: a.length > 0 ? Math.round((matches / a.length) * 1000) / 1000 : 0
+      });
+    }
+  }
+
+  return { commentCount: comments.length, results, agreement };
+}
+
+// ===== LLM SENTIMENT ANALYSIS =====
 
 /**
  * Analyze sentiment using Groq llama-3.3-70b-versatile with batching
  */
-export async function analyzeSentimentWithGroq(comments: CommentData[]): Promise<CommentData[]> {
+export async function analyzeSentimentWithGroq(
+  comments: CommentData[],
+  parentTexts: ParentTexts = {},
+  examples: SentimentExample[] = []
+): Promise<CommentData[]> {
+  return runSentimentBatches(comments, 'Groq', { ...CONFIG.groq, source: 'groq' }, completeSentimentWithGroq, parentTexts, examples);
+}
+
+/**
+ * Analyze sentiment using Mistral with the same prompt and batching as Groq
+ */
+export async function analyzeSentimentWithMistral(
+  comments: CommentData[],
+  parentTexts: ParentTexts = {},
+  examples: SentimentExample[] = []
+): Promise<CommentData[]> {
+  return runSentimentBatches(comments, 'Mistral', {
+    batchSize: CONFIG.mistral.sentimentBatchSize,
+    delayMs: CONFIG.mistral.delayMs,
+    maxRetries: CONFIG.mistral.maxRetries,
+    source: 'mistral'
+  }, completeSentimentWithMistral, parentTexts, examples);
+}
+
+/**
+ * Split comments into batches and process them sequentially with rate limiting
+ */
+async function runSentimentBatches(
+  comments: CommentData[],
+  label: string,
+  options: { batchSize: number; delayMs: number; maxRetries: number; source: SentimentProviderName },
+  complete: (prompt: string) => Promise<string | undefined>,
+  parentTexts: ParentTexts,
+  examples: SentimentExample[]
+): Promise<CommentData[]> {
   try {
-    console.log(`🚀 Starting Groq sentiment analysis for ${comments.length} comments`);
+    console.log(`🚀 Starting ${label} sentiment analysis for ${comments.length} comments`);
     
     if (!comments.length) {
       console.warn('⚠️ No comments provided for sentiment analysis');
@@ -154,76 +302,76 @@ export async function analyzeSentimentWithGroq(comments: CommentData[]): Promise
 
     // Create optimized batches
     const batches: CommentData[][] = [];
-    for (let i = 0; i < comments.length; i += CONFIG.groq.batchSize) {
-      batches.push(comments.slice(i, i + CONFIG.groq.batchSize));
+    for (let i = 0; i < comments.length; i += options.batchSize) {
+      batches.push(comments.slice(i, i + options.batchSize));
     }
     
-    console.log(`📦 Processing ${batches.length} batches with Groq`);
+    console.log(`📦 Processing ${batches.length} batches with ${label}`);
     
     // Process batches with proper rate limiting
     const results: CommentData[] = [];
     
     for (let i = 0; i < batches.length; i++) {
-      const batchResult = await processGroqBatch(batches[i], i + 1);
+      const batchResult = await processSentimentBatch(batches[i], i + 1, label, options, complete, parentTexts, examples);
       results.push(...batchResult);
       
       // Rate limiting between batches
       if (i < batches.length - 1) {
-        await delay(CONFIG.groq.delayMs);
+        await delay(options.delayMs);
       }
     }
     
-    console.log(`✅ Groq sentiment analysis completed: ${results.length} comments processed`);
+    console.log(`✅ ${label} sentiment analysis completed: ${results.length} comments processed`);
     return results;
     
   } catch (error) {
-    console.error('❌ Groq sentiment analysis failed:', error);
+    console.error(`❌ ${label} sentiment analysis failed:`, error);
     throw new Error(`Sentiment analysis failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
 }
 
 /**
- * Process a single batch with Groq
+ * Sentiment prompt for one batch; comments are referenced by their index in the batch
  */
-async function processGroqBatch(comments: CommentData[], batchNumber: number): Promise<CommentData[]> {
-  for (let attempt = 1; attempt <= CONFIG.groq.maxRetries; attempt++) {
+function buildSentimentBatchPrompt(
+  comments: CommentData[],
+  parentTexts: ParentTexts = {},
+  examples: SentimentExample[] = []
+): string {
+  // Prepare clean comment data
+  const cleanComments = comments.map((comment, index) => ({
+    id: index,
+    text: cleanText(comment.textDisplay.substring(0, 800)), // Increased limit
+    author: comment.authorDisplayName,
+    likes: comment.likeCount || 0,
+    language: detectLanguage(comment.textDisplay),
+    ...(parentTexts[comment.id] && { inReplyTo: cleanText(parentTexts[comment.id].substring(0, 300)) })
+  }));
+
+  return createGroqSentimentPrompt(cleanComments, examples);
+}
+
+/**
+ * Process a single batch with an LLM, falling back to the offline classifier
+ */
+async function processSentimentBatch(
+  comments: CommentData[],
+  batchNumber: number,
+  label: string,
+  options: { delayMs: number; maxRetries: number; source: SentimentProviderName },
+  complete: (prompt: string) => Promise<string | undefined>,
+  parentTexts: ParentTexts,
+  examples: SentimentExample[]
+): Promise<CommentData[]> {
+  for (let attempt = 1; attempt <= options.maxRetries; attempt++) {
     try {
-      console.log(`⚡ Processing Groq batch ${batchNumber}, attempt ${attempt}`);
+      console.log(`⚡ Processing ${label} batch ${batchNumber}, attempt ${attempt}`);
       
-      // Prepare clean comment data
-      const cleanComments = comments.map((comment, index) => ({
-        id: index,
-        text: cleanText(comment.textDisplay.substring(0, 800)), // Increased limit
-        author: comment.authorDisplayName,
-        likes: comment.likeCount || 0,
-        language: detectLanguage(comment.textDisplay)
-      }));
-
-      const sentimentPrompt = createGroqSentimentPrompt(cleanComments);
-      
-      // Call Groq API
-      const response = await groqClient.chat.completions.create({
-        messages: [
-          {
-            role: "system",
-            content: "You are an expert multilingual sentiment analyzer for YouTube comments. You understand context, sarcasm, and cultural nuances across languages."
-          },
-          {
-            role: "user", 
-            content: sentimentPrompt
-          }
-        ],
-        model: CONFIG.groq.model,
-        temperature: CONFIG.groq.temperature,
-        max_completion_tokens: 4000,
-        top_p: 0.9,
-        stream: false
-      });
-
-      const responseText = response.choices[0]?.message?.content?.trim();
+      const sentimentPrompt = buildSentimentBatchPrompt(comments, parentTexts, examples);
+      const responseText = (await complete(sentimentPrompt))?.trim();
       
       if (!responseText) {
-        throw new Error('Empty response from Groq');
+        throw new Error(`Empty response from ${label}`);
       }
 
       // Parse response with proper error handling
@@ -235,6 +383,8 @@ async function processGroqBatch(comments: CommentData[], batchNumber: number): P
           sentiment: 'neutral',
           confidence: 0.5,
           language: 'en',
+          categories: ['other'] as CommentCategory[],
+          emotions: [] as CommentEmotion[],
           reasoning: 'Fallback analysis',
           keywords: []
         };
@@ -243,38 +393,104 @@ async function processGroqBatch(comments: CommentData[], batchNumber: number): P
           ...comment,
           sentiment: analysis.sentiment,
           confidence: Math.max(0.1, Math.min(1.0, analysis.confidence)),
+          sentimentSource: options.source,
           detectedLanguage: analysis.language,
+          categories: analysis.categories,
+          emotions: analysis.emotions,
           analysisReasoning: analysis.reasoning,
           keywords: analysis.keywords
         };
       });
       
-      console.log(`✅ Groq batch ${batchNumber} completed successfully`);
+      console.log(`✅ ${label} batch ${batchNumber} completed successfully`);
       return processedComments;
       
     } catch (error) {
-      console.error(`❌ Groq batch ${batchNumber} attempt ${attempt} failed:`, error);
+      console.error(`❌ ${label} batch ${batchNumber} attempt ${attempt} failed:`, error);
       
-      if (attempt === CONFIG.groq.maxRetries) {
-        console.log(`🔄 Using enhanced fallback for batch ${batchNumber}`);
-        return applyEnhancedFallback(comments);
+      if (attempt === options.maxRetries) {
+        console.log(`🔄 Using offline lexicon fallback for batch ${batchNumber}`);
+        return analyzeSentimentLocally(comments);
       }
       
       // Exponential backoff
-      const backoffDelay = calculateBackoff(attempt, CONFIG.groq.delayMs);
-      console.log(`⏳ Retrying Groq batch ${batchNumber} in ${backoffDelay}ms`);
+      const backoffDelay = calculateBackoff(attempt, options.delayMs);
+      console.log(`⏳ Retrying ${label} batch ${batchNumber} in ${backoffDelay}ms`);
       await delay(backoffDelay);
     }
   }
   
   // This should never be reached due to the fallback in the loop
-  return applyEnhancedFallback(comments);
+  return analyzeSentimentLocally(comments);
 }
 
+/**
+ * Groq chat completion for a sentiment prompt
+ */
+async function completeSentimentWithGroq(prompt: string): Promise<string | undefined> {
+  const response = await groq().chat.completions.create({
+    messages: [
+      {
+        role: "system",
+        content: SENTIMENT_SYSTEM_PROMPT
+      },
+      {
+        role: "user", 
+        content: prompt
+      }
+    ],
+    model: CONFIG.groq.model,
+    temperature: CONFIG.groq.temperature,
+    max_completion_tokens: 4000,
+    top_p: 0.9,
+    stream: false
+  });
+
+  return response.choices[0]?.message?.content || undefined;
+}
+
+/**
+ * Mistral chat completion for a sentiment prompt
+ */
+async function completeSentimentWithMistral(prompt: string): Promise<string | undefined> {
+  const response = await mistral().chat.complete({
+    model: CONFIG.mistral.sentimentModel,
+    messages: [
+      {
+        role: 'system',
+        content: SENTIMENT_SYSTEM_PROMPT
+      },
+      {
+        role: 'user',
+        content: prompt
+      }
+    ],
+    temperature: CONFIG.groq.temperature,
+    maxTokens: 4000,
+    topP: 0.9
+  });
+
+  const content = response.choices[0]?.message?.content;
+  return typeof content === 'string' ? content : undefined;
+}
+
+const SENTIMENT_SYSTEM_PROMPT = "You are an expert multilingual sentiment analyzer for YouTube comments. You understand context, sarcasm, and cultural nuances across languages.";
+
 /**
  * Create optimized prompt for Groq sentiment analysis
  */
-function createGroqSentimentPrompt(comments: Array<{id: number, text: string, author: string, likes: number, language: string}>): string {
+function createGroqSentimentPrompt(
+  comments: Array<{id: number, text: string, author: string, likes: number, language: string, inReplyTo?: string}>,
+  examples: SentimentExample[] = []
+): string {
+  // The creator's corrections calibrate sarcasm, irony and in-jokes for this channel
+  const creatorExamples = examples.length > 0
+    ? `CREATOR CORRECTIONS (comments from this channel the creator labelled by hand; follow them for similar comments, especially sarcasm and irony):
+${examples.map(example => `- ${JSON.stringify(example.text)} => ${example.sentiment}`).join('\n')}
+
+`
+    : '';
+
   return `Analyze the sentiment of these YouTube comments with high accuracy. Consider context, cultural nuances, and multiple languages.
 
 COMMENTS DATA:
@@ -285,6 +501,27 @@ ANALYSIS GUIDELINES:
 🔴 NEGATIVE: Criticism, complaints, anger, disappointment, frustration, hate, mean comments, destructive feedback
 🔵 NEUTRAL: Questions, factual statements, neutral observations, requests, timestamps, mild opinions
 
+${creatorExamples}REPLIES: A comment with "inReplyTo" answers that parent comment. Score the reply's own sentiment, reading it in the parent's context (e.g. "exactly this" under a complaint is negative, "lol no" under praise is negative).
+
+TRIAGE CATEGORIES (1-3 per comment, most relevant first; independent of sentiment):
+- "question": asks the creator or viewers something
+- "feature-request": asks for a video, topic, series, or product/feature change
+- "bug-report": reports something broken (audio, video, links, the product shown)
+- "spam": scams, bots, crypto, giveaways, unrelated links
+- "self-promo": promotes the commenter's own channel, content, or business
+- "toxicity": insults, harassment, hate, slurs
+- "praise": compliments or thanks
+- "other": none of the above
+
+EMOTIONS (0-3 per comment, strongest first; leave empty for flat, factual comments):
+- "joy": delight, fun, love for the video
+- "gratitude": thanks, appreciation for help
+- "anger": outrage, hostility, frustration aimed at someone
+- "confusion": did not understand, mixed up, lost
+- "disappointment": let down, expected more, sad about a change
+- "excitement": hype, anticipation, can't wait
+- "sarcasm": says the opposite of what it means; score the sentiment by the meaning, not the words
+
 MULTILINGUAL CONSIDERATIONS:
 - Hindi/Marathi: "धन्यवाद", "छान", "मस्त" = positive
 - Detect sarcasm and cultural context
@@ -296,6 +533,8 @@ RETURN EXACTLY THIS JSON FORMAT:
     "sentiment": "positive",
     "confidence": 0.92,
     "language": "en",
+    "categories": ["praise"],
+    "emotions": ["gratitude", "joy"],
     "reasoning": "Contains clear gratitude and appreciation",
     "keywords": ["thanks", "helpful", "great"]
   },
@@ -304,6 +543,8 @@ RETURN EXACTLY THIS JSON FORMAT:
     "sentiment": "negative", 
     "confidence": 0.88,
     "language": "hi",
+    "categories": ["bug-report", "question"],
+    "emotions": ["disappointment"],
     "reasoning": "Expresses frustration in Hindi",
     "keywords": ["बुरा", "disappointing"]
   }
@@ -312,6 +553,27 @@ RETURN EXACTLY THIS JSON FORMAT:
 Return ONLY the JSON array with no additional text.`;
 }
 
+/**
+ * Keep only known triage categories, deduplicated, falling back to 'other'
+ */
+function parseCategories(value: unknown): CommentCategory[] {
+  const categories = (Array.isArray(value) ? value : [value])
+    .map(category => String(category ?? '').toLowerCase().trim().replace(/[\s_]+/g, '-'))
+    .filter((category): category is CommentCategory => COMMENT_CATEGORIES.includes(category as CommentCategory));
+  const unique = [...new Set(categories)].slice(0, 3);
+  return unique.length > 0 ? unique : ['other'];
+}
+
+/**
+ * Keep only known emotions, deduplicated; an empty list means no notable emotion
+ */
+function parseEmotions(value: unknown): CommentEmotion[] {
+  const emotions = (Array.isArray(value) ? value : value ? [value] : [])
+    .map(emotion => String(emotion ?? '').toLowerCase().trim())
+    .filter((emotion): emotion is CommentEmotion => COMMENT_EMOTIONS.includes(emotion as CommentEmotion));
+  return [...new Set(emotions)].slice(0, 3);
+}
+
 /**
  * Parse Groq response with enhanced error handling
  */
@@ -335,6 +597,8 @@ function parseGroqResponse(responseText: string, batchNumber: number): Sentiment
       sentiment: ['positive', 'negative', 'neutral'].includes(item.sentiment) ? item.sentiment : 'neutral',
       confidence: Math.max(0.1, Math.min(1.0, item.confidence || 0.5)),
       language: item.language || 'en',
+      categories: parseCategories(item.categories),
+      emotions: parseEmotions(item.emotions),
       reasoning: item.reasoning || 'No reasoning provided',
       keywords: Array.isArray(item.keywords) ? item.keywords : []
     }));
@@ -345,87 +609,79 @@ function parseGroqResponse(responseText: string, batchNumber: number): Sentiment
   }
 }
 
+// ===== OFFLINE SENTIMENT ANALYSIS =====
+
 /**
- * Enhanced fallback sentiment analysis
+ * Fully offline analysis with AFINN and multilingual lexicons (no network access).
+ * Lexicon scoring reads each text on its own, so reply context is not used.
  */
-function applyEnhancedFallback(comments: CommentData[]): CommentData[] {
-  console.log('🔄 Applying enhanced keyword-based fallback analysis');
+export async function analyzeSentimentLocally(comments: CommentData[]): Promise<CommentData[]> {
+  console.log(`📴 Applying offline lexicon sentiment analysis to ${comments.length} comments`);
   
   return comments.map(comment => {
-    const text = comment.textDisplay.toLowerCase();
     const language = detectLanguage(comment.textDisplay);
-    
-    // Comprehensive multilingual keywords
-    const positiveKeywords = [
-      // English
-      'good', 'great', 'awesome', 'amazing', 'perfect', 'love', 'like', 'thanks', 'thank you',
-      'excellent', 'fantastic', 'wonderful', 'brilliant', 'helpful', 'useful', 'best',
-      // Hindi/Marathi
-      'धन्यवाद', 'छान', 'मस्त', 'अच्छा', 'बहुत अच्छा', 'शानदार', 'कमाल',
-      // Spanish
-      'bueno', 'muy bueno', 'excelente', 'gracias', 'perfecto', 'increíble',
-      // French  
-      'très bien', 'excellent', 'merci', 'parfait', 'incroyable',
-      // Emojis
-      '👍', '❤️', '😍', '🔥', '💯', '⭐', '🙌', '👏', '💪', '✨'
-    ];
-
-    const negativeKeywords = [
-      // English
-      'bad', 'terrible', 'awful', 'hate', 'dislike', 'worst', 'horrible', 'useless',
-      'boring', 'stupid', 'sucks', 'waste', 'disappointed', 'disappointing',
-      // Hindi/Marathi
-      'बुरा', 'खराब', 'गंदा', 'बकवास',
-      // Spanish
-      'malo', 'terrible', 'horrible', 'odio',
-      // French
-      'mauvais', 'terrible', 'horrible', 'déteste',
-      // Emojis
-      '👎', '😡', '😤', '💩', '🤮', '😞', '😭'
-    ];
-
-    const hasPositive = positiveKeywords.some(keyword => text.includes(keyword));
-    const hasNegative = negativeKeywords.some(keyword => text.includes(keyword));
-    const isQuestion = text.includes('?') || text.includes('कैसे') || text.includes('क्या');
-
-    let sentiment: 'positive' | 'negative' | 'neutral' = 'neutral';
-    let confidence = 0.6;
-
-    if (hasPositive && !hasNegative) {
-      sentiment = 'positive';
-      confidence = 0.75;
-    } else if (hasNegative && !hasPositive) {
-      sentiment = 'negative';
-      confidence = 0.75;
-    } else if (isQuestion) {
-      sentiment = 'neutral';
-      confidence = 0.8;
-    }
+    const text = cleanText(comment.textDisplay);
+    const literal = scoreTextLocally(text, language);
+    const emotions = detectEmotionsLocally(text, literal);
+    // Sarcasm means the opposite of its words, so praise that reads as sarcastic counts as negative
+    const result = emotions.includes('sarcasm') && literal.sentiment === 'positive'
+      ? { ...literal, sentiment: 'negative' as const }
+      : literal;
 
     return {
       ...comment,
-      sentiment,
-      confidence,
+      sentiment: result.sentiment,
+      confidence: result.confidence,
+      sentimentSource: 'local' as const,
       detectedLanguage: language,
-      analysisReasoning: 'Keyword-based fallback analysis',
-      keywords: []
+      categories: categorizeTextLocally(text, result),
+      emotions,
+      analysisReasoning: `Lexicon score ${result.score} (${result.positiveWords.length} positive, ${result.negativeWords.length} negative terms)`,
+      keywords: [...result.positiveWords, ...result.negativeWords]
     };
   });
 }
 
+/**
+ * The prompt, completion and parser behind an LLM provider, without retries or the offline
+ * fallback, so the evaluation harness can record and replay exactly what the model returned
+ */
+export function getSentimentPipeline(name: Exclude<SentimentProviderName, 'local'>): SentimentPipeline {
+  const settings = name === 'groq'
+    ? { model: CONFIG.groq.model, temperature: CONFIG.groq.temperature, batchSize: CONFIG.groq.batchSize, delayMs: CONFIG.groq.delayMs }
+    : { model: CONFIG.mistral.sentimentModel, temperature: CONFIG.groq.temperature, batchSize: CONFIG.mistral.sentimentBatchSize, delayMs: CONFIG.mistral.delayMs };
+
+  return {
+    name,
+    ...settings,
+    buildPrompt: buildSentimentBatchPrompt,
+    complete: name === 'groq' ? completeSentimentWithGroq : completeSentimentWithMistral,
+    parse: parseGroqResponse
+  };
+}
+
+const SENTIMENT_PROVIDERS: Record<SentimentProviderName, SentimentProvider> = {
+  groq: { name: 'groq', model: CONFIG.groq.model, analyze: analyzeSentimentWithGroq },
+  mistral: { name: 'mistral', model: CONFIG.mistral.sentimentModel, analyze: analyzeSentimentWithMistral },
+  local: { name: 'local', model: 'afinn-165+multilingual-lexicons', analyze: analyzeSentimentLocally }
+};
+
 // ===== MISTRAL REPLY GENERATION =====
 
+const FALLBACK_REPLY_MODEL = 'fallback-template';
+
 /**
- * Generate personalized, multilingual replies using Mistral medium-2508
+ * Generate personalized, multilingual replies using Mistral medium-2508.
+ * Falls back to a template reply after the last failed attempt, reported through the model name.
  */
-export async function generateReplyWithMistral(context: ReplyGenerationContext): Promise<string> {
+export async function generateReplyWithMistral(context: ReplyGenerationContext): Promise<GeneratedReply> {
   for (let attempt = 1; attempt <= CONFIG.mistral.maxRetries; attempt++) {
     try {
       console.log(`🤖 Generating reply with Mistral medium-2508, attempt ${attempt}`);
       
       const replyPrompt = createMistralReplyPrompt(context);
       
-      const response = await mistralClient.chat.complete({
+      const response = await mistral().chat.complete({
         model: CONFIG.mistral.replyModel,
         messages: [
           {
@@ -465,14 +721,14 @@ export async function generateReplyWithMistral(context: ReplyGenerationContext):
       }
       
       console.log(`✅ Generated personalized reply: "${cleanReply.substring(0, 50)}..."`);
-      return cleanReply;
+      return { text: cleanReply, model: CONFIG.mistral.replyModel, prompt: replyPrompt };
       
     } catch (error) {
       console.error(`❌ Mistral reply attempt ${attempt} failed:`, error);
       
       if (attempt === CONFIG.mistral.maxRetries) {
         console.log('🔄 Using intelligent fallback reply generation');
-        return generateIntelligentFallbackReply(context);
+        return { text: generateIntelligentFallbackReply(context), model: FALLBACK_REPLY_MODEL };
       }
       
       // Exponential backoff
@@ -490,7 +746,7 @@ export async function generateReplyWithMistral(context: ReplyGenerationContext):
   }
   
   // Fallback (should never reach here)
-  return generateIntelligentFallbackReply(context);
+  return { text: generateIntelligentFallbackReply(context), model: FALLBACK_REPLY_MODEL };
 }
 
 /**
@@ -505,19 +761,20 @@ function createMistralReplyPrompt(context: ReplyGenerationContext): string {
     channelName,
     commentLanguage,
     commentSentiment,
-    replyTone 
+    replyTone,
+    voiceProfile
   } = context;
 
-  const detectedLang = commentLanguage || detectLanguage(commentText);
+  const replyLanguage = context.replyLanguage || commentLanguage || detectLanguage(commentText);
+  const replyLanguageName = languageName(replyLanguage);
   
-  return `Generate an authentic YouTube creator reply to this comment. CRITICAL: You MUST respond in ENGLISH ONLY, regardless of the comment language.
-
-IMPORTANT: REPLY IN ENGLISH ONLY - DO NOT USE SPANISH, HINDI, OR ANY OTHER LANGUAGE
+  return `Generate an authentic YouTube creator reply to this comment. Write the reply in ${replyLanguageName}.
 
 CONTEXT:
 - Video: "${videoTitle}"
 - Channel: ${channelName || 'Your Channel'}
-- Reply Language: ENGLISH ONLY
+- Comment Language: ${languageName(commentLanguage || detectLanguage(commentText))}
+- Reply Language: ${replyLanguageName} (${replyLanguage})
 - Comment Sentiment: ${commentSentiment || 'neutral'}
 - Desired Tone: ${replyTone}
 
@@ -527,18 +784,17 @@ COMMENT TO REPLY TO:
 ADDITIONAL CONTEXT:
 ${videoDescription ? `Description: ${videoDescription.substring(0, 200)}...` : ''}
 ${transcript ? `Video Content: ${transcript.substring(0, 300)}...` : ''}
-
+${voiceProfile ? `\n${describeVoiceProfile(voiceProfile)}\n` : ''}
 REPLY GUIDELINES:
-1. LANGUAGE: ENGLISH ONLY - Never use Spanish, Hindi, or other languages
-2. LENGTH: 5-30 words maximum (YouTube-appropriate)
-3. TONE: Match the ${replyTone} tone while being authentic
+1. LANGUAGE: ${replyLanguageName} only, in its usual script - do not mix in other languages
+2. LENGTH: ${voiceProfile ? `About ${voiceProfile.averageWords} words, never more than ${Math.max(voiceProfile.maxWords, 5)}` : '5-30 words maximum (YouTube-appropriate)'}
+3. TONE: ${voiceProfile ? `Write in the creator voice above, leaning ${replyTone}` : `Match the ${replyTone} tone while being authentic`}
 4. PERSONALITY: Sound like a real creator, not an AI
 5. ENGAGEMENT: Encourage further interaction when appropriate
-6. CONSISTENCY: Always reply in English regardless of comment language
 
-ENGLISH EXAMPLES ONLY:
+STYLE EXAMPLES (English shown; write yours in ${replyLanguageName}):
 - Positive: "Thanks! That part was actually super tricky to film 😅"
-- Neutral: "Great question! I cover that around the 3 minute mark �"
+- Neutral: "Great question! I cover that around the 3 minute mark 👀"
 - Negative: "Thanks for the feedback! Always trying to improve 💪"
 
 TONE EXAMPLES:
@@ -547,16 +803,16 @@ TONE EXAMPLES:
 - Casual: Relaxed, conversational, like talking to a friend
 - Humorous: Light jokes, wordplay, fun responses (when appropriate)
 
-Generate ONLY the reply text in ENGLISH with no quotes or prefixes (NO SPANISH/HINDI/OTHER LANGUAGES):`;
+Generate ONLY the reply text in ${replyLanguageName} with no quotes or prefixes:`;
 }
 
 /**
  * Intelligent fallback reply generation based on comment analysis
  */
 function generateIntelligentFallbackReply(context: ReplyGenerationContext): string {
-  const { commentText, commentSentiment, replyTone, commentLanguage } = context;
+  const { commentText, commentSentiment, replyTone, commentLanguage, replyLanguage } = context;
   const text = commentText.toLowerCase();
-  const language = commentLanguage || detectLanguage(commentText);
+  const language = replyLanguage || commentLanguage || detectLanguage(commentText);
   
   // Language-specific reply templates
   const replyTemplates = {
@@ -748,7 +1004,7 @@ ANALYSIS GUIDELINES:
 
 Return ONLY the JSON object with comprehensive, actionable insights.`;
 
-    const response = await mistralClient.chat.complete({
+    const response = await mistral().chat.complete({
       model: CONFIG.mistral.analyticsModel,
       messages: [
         {
@@ -782,12 +1038,13 @@ Return ONLY the JSON object with comprehensive, actionable insights.`;
 }
 
 /**
- * Generate video summary using Mistral large-latest
+ * Generate video summary using Mistral large-latest, grounded on the transcript when available
  */
 export async function generateVideoSummaryWithMistral(
   videoTitle: string,
   description: string,
-  comments: CommentData[]
+  comments: CommentData[],
+  transcript?: string
 ): Promise<string[]> {
   try {
     console.log(`📝 Generating video summary with Mistral large-latest for: "${videoTitle}"`);
@@ -795,26 +1052,31 @@ export async function generateVideoSummaryWithMistral(
     const cleanTitle = cleanText(videoTitle);
     const cleanDescription = cleanText(description || '');
     const sampleComments = comments.slice(0, 10).map(c => cleanText(c.textDisplay));
+    // Keep the prompt within the small model's context budget
+    const cleanTranscript = cleanText(transcript || '').substring(0, 6000);
     
     const summaryPrompt = `You are an expert content summarizer. Create a concise summary of this YouTube video based on available information.
 
 VIDEO TITLE: "${cleanTitle}"
 
 VIDEO DESCRIPTION: "${cleanDescription}"
-
+${cleanTranscript ? `
+VIDEO TRANSCRIPT (what is actually said in the video, may be truncated):
+"${cleanTranscript}"
+` : ''}
 SAMPLE AUDIENCE COMMENTS:
 ${sampleComments.map(comment => `- "${comment}"`).join('\n')}
 
 Create a comprehensive summary as an array of 3-5 bullet points that capture:
 1. The main topic/theme of the video
-2. Key points covered (inferred from title, description, and comments)
+2. Key points covered (from the transcript when provided, otherwise inferred from title, description, and comments)
 3. Audience reception/engagement insights
 4. Notable aspects or unique elements
 
 Return only a JSON array of strings:
 ["Main topic summary point", "Key content insight", "Audience engagement insight"]`;
 
-    const response = await mistralClient.chat.complete({
+    const response = await mistral().chat.complete({
       model: CONFIG.mistral.analyticsModel,
       messages: [
         {
@@ -865,16 +1127,92 @@ Return only a JSON array of strings:
       comments.length > 0 ? 'Comments suggest audience interest and engagement' : 'Limited audience feedback available'
     ];
 
-    return fallbackSummary;
+    // Not cached, so the next request retries the model
+    return markUncacheable(fallbackSummary);
   }
 }
 
+/**
+ * Extract aspect-level sentiment (audio, editing, ...) from comments with Mistral.
+ * Throws on model or parse failure so the caller can fall back to the lexicon extractor.
+ */
+export async function extractAspectsWithMistral(
+  comments: CommentData[],
+  aspects: AspectDefinition[]
+): Promise<AspectMention[]> {
+  console.log(`🔬 Extracting ${aspects.length} aspects from ${comments.length} comments with Mistral`);
+
+  const aspectIds = new Set(aspects.map(aspect => aspect.id));
+  const aspectPrompt = `Find which aspects of a YouTube video each comment talks about, and how the commenter feels about each one.
+
+ASPECTS (id: description and typical words):
+${aspects.map(aspect => `- ${aspect.id}: ${aspect.label} (${aspect.keywords.slice(0, 8).join(', ')})`).join('\n')}
+
+COMMENTS:
+${JSON.stringify(comments.map((comment, index) => ({ id: index, text: cleanText(comment.textDisplay.substring(0, 400)) })), null, 2)}
+
+RULES:
+- Only report aspects a comment actually talks about; most comments mention none or one
+- A comment can praise one aspect and criticise another ("great editing but the audio is bad")
+- "quote" is the short part of the comment about that aspect, copied verbatim
+- Use only the aspect ids listed above
+
+Return ONLY this JSON object:
+{"mentions": [{"id": 0, "aspect": "editing", "sentiment": "positive", "quote": "great editing"}, {"id": 0, "aspect": "audio", "sentiment": "negative", "quote": "the audio is bad"}]}`;
+
+  const response = await mistral().chat.complete({
+    model: CONFIG.mistral.analyticsModel,
+    messages: [
+      {
+        role: 'system',
+        content: 'You extract aspect-based sentiment from YouTube comments for creators. You understand sarcasm and many languages.'
+      },
+      {
+        role: 'user',
+        content: aspectPrompt
+      }
+    ],
+    temperature: 0.1,
+    maxTokens: 3000,
+    responseFormat: { type: 'json_object' }
+  });
+
+  const responseText = response.choices[0]?.message?.content;
+  if (!responseText || typeof responseText !== 'string') {
+    throw new Error('Empty or invalid response from Mistral aspect extraction');
+  }
+
+  const parsed: { mentions?: Array<{ id: number; aspect: string; sentiment?: string; quote?: unknown }> } = JSON.parse(responseText);
+  if (!Array.isArray(parsed.mentions)) {
+    throw new Error('Aspect response has no mentions array');
+  }
+
+  return parsed.mentions
+    .filter(mention => comments[mention?.id] && aspectIds.has(mention.aspect))
+    .map(mention => ({
+      commentId: comments[mention.id].id,
+      aspect: mention.aspect,
+      sentiment: mention.sentiment === 'positive' || mention.sentiment === 'negative' ? mention.sentiment : 'neutral',
+      quote: typeof mention.quote === 'string' && mention.quote.trim()
+        ? mention.quote.trim().substring(0, 200)
+        : cleanText(comments[mention.id].textDisplay).substring(0, 200)
+    }));
+}
+
 // ===== EXPORTS =====
 
 export {
   type SentimentAnalysisResult,
+  type SentimentProvider,
+  type SentimentProviderName,
+  type SentimentProviderComparison,
+  type SentimentPipeline,
   type ReplyGenerationContext,
+  type GeneratedReply,
   type CreatorInsights,
+  COMMENT_CATEGORIES,
+  FALLBACK_REPLY_MODEL,
+  SENTIMENT_SCORING_VERSION,
   CONFIG,
   delay,
   cleanText,
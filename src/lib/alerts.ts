@@ -0,0 +1,329 @@
+// Negative-sentiment alert rules evaluated whenever a video's comments are (re)scored
+import { randomUUID } from 'crypto';
+import { lookup } from 'dns/promises';
+import { BlockList, isIP } from 'net';
+import { AlertChannel, AlertEvent, AlertRule, CommentData } from '@/types';
+import { calculateSentimentAnalysis } from '@/lib/metrics';
+import { readStore, updateStore } from '@/lib/storage';
+
+interface AlertRuleStore {
+  rules: AlertRule[];
+}
+
+interface AlertInboxStore {
+  events: Record<string, AlertEvent[]>; // userId -> newest first
+}
+
+interface OutboxMessage {
+  to: string;
+  subject: string;
+  body: string;
+  queuedAt: string;
+}
+
+interface AlertOutboxStore {
+  messages: OutboxMessage[];
+}
+
+type AlertRuleInput = Pick<AlertRule, 'videoId' | 'thresholdPercent' | 'changePercent' | 'channels'> &
+  Partial<Pick<AlertRule, 'minSampleSize' | 'windowHours' | 'cooldownMinutes'>>;
+
+const RULES_STORE = 'alert-rules';
+const INBOX_STORE = 'alert-inbox';
+const OUTBOX_STORE = 'alert-outbox';
+
+const HOUR_MS = 60 * 60 * 1000;
+const MAX_INBOX_EVENTS = 200;
+const MAX_OUTBOX_MESSAGES = 500;
+const WEBHOOK_TIMEOUT_MS = 10000;
+
+export const ALERT_RULE_DEFAULTS = {
+  minSampleSize: 20,
+  windowHours: 24,
+  cooldownMinutes: 6 * 60
+};
+
+const percentageOf = (count: number, total: number): number =>
+  Math.round((count / total) * 1000) / 10;
+
+// Loopback, private, link-local (cloud metadata), CGNAT, multicast and reserved ranges
+const NON_PUBLIC_ADDRESSES = new BlockList();
+[
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3]
+].forEach(([network, prefix]) => NON_PUBLIC_ADDRESSES.addSubnet(network as string, prefix as number, 'ipv4'));
+[
+  ['::', 128], ['::1', 128], ['64:ff9b::', 96], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]
+].forEach(([network, prefix]) => NON_PUBLIC_ADDRESSES.addSubnet(network as string, prefix as number, 'ipv6'));
+
+const isPublicAddress = (address: string): boolean => {
+  const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i)?.[1];
+  if (mapped || isIP(address) === 4) {
+    return !NON_PUBLIC_ADDRESSES.check(mapped || address, 'ipv4');
+  }
+  return !NON_PUBLIC_ADDRESSES.check(address, 'ipv6');
+};
+
+/**
+ * Whether a webhook URL is http(s) and every address its host resolves to is public,
+ * so alert delivery cannot be pointed at the server's own network
+ */
+export async function isPublicWebhookUrl(url: string): Promise<boolean> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return false;
+  }
+  if (!['http:', 'https:'].includes(parsed.protocol) || parsed.username || parsed.password) {
+    return false;
+  }
+
+  const host = parsed.hostname.replace(/^\[|\]$/g, '');
+  try {
+    const addresses = isIP(host) ? [{ address: host }] : await lookup(host, { all: true, verbatim: true });
+    return addresses.length > 0 && addresses.every(({ address }) => isPublicAddress(address));
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * A user's alert rules
+ */
+export async function listAlertRules(userId: string): Promise<AlertRule[]> {
+  const store = await readStore<AlertRuleStore>(RULES_STORE, { rules: [] });
+  return store.rules.filter(rule => rule.userId === userId);
+}
+
+/**
+ * Create an alert rule for a video, filling in the default window, sample size and cooldown.
+ * A rule for the same video and delivery channels is updated in place rather than duplicated.
+ */
+export async function createAlertRule(userId: string, input: AlertRuleInput): Promise<AlertRule> {
+  const channelsKey = JSON.stringify(input.channels);
+  const rule: AlertRule = {
+    id: randomUUID(),
+    userId,
+    videoId: input.videoId,
+    thresholdPercent: input.thresholdPercent,
+    changePercent: input.changePercent,
+    minSampleSize: input.minSampleSize ?? ALERT_RULE_DEFAULTS.minSampleSize,
+    windowHours: input.windowHours ?? ALERT_RULE_DEFAULTS.windowHours,
+    cooldownMinutes: input.cooldownMinutes ?? ALERT_RULE_DEFAULTS.cooldownMinutes,
+    channels: input.channels,
+    enabled: true,
+    createdAt: new Date().toISOString()
+  };
+
+  return updateStore<AlertRuleStore, AlertRule>(RULES_STORE, { rules: [] }, store => {
+    const existing = store.rules.find(entry =>
+      entry.userId === userId && entry.videoId === rule.videoId && JSON.stringify(entry.channels) === channelsKey
+    );
+    if (!existing) {
+      store.rules.push(rule);
+      return rule;
+    }
+
+    // Keep the id, creation time and cooldown state of the existing rule
+    Object.assign(existing, {
+      thresholdPercent: rule.thresholdPercent,
+      changePercent: rule.changePercent,
+      minSampleSize: rule.minSampleSize,
+      windowHours: rule.windowHours,
+      cooldownMinutes: rule.cooldownMinutes,
+      enabled: true
+    });
+    return existing;
+  });
+}
+
+/**
+ * Delete one of a user's rules, returning whether it existed
+ */
+export async function deleteAlertRule(userId: string, ruleId: string): Promise<boolean> {
+  return updateStore<AlertRuleStore, boolean>(RULES_STORE, { rules: [] }, store => {
+    const before = store.rules.length;
+    store.rules = store.rules.filter(rule => !(rule.id === ruleId && rule.userId === userId));
+    return store.rules.length !== before;
+  });
+}
+
+/**
+ * Videos with at least one enabled rule (kept synced by the alert job)
+ */
+export async function getAlertedVideoIds(): Promise<string[]> {
+  const store = await readStore<AlertRuleStore>(RULES_STORE, { rules: [] });
+  return [...new Set(store.rules.filter(rule => rule.enabled).map(rule => rule.videoId))];
+}
+
+// Delivery channels, keyed by AlertChannel type
+const ALERT_CHANNEL_HANDLERS: {
+  [K in AlertChannel['type']]: (channel: Extract<AlertChannel, { type: K }>, event: AlertEvent) => Promise<void>
+} = {
+  // Re-checked on every delivery since DNS can change after the rule was saved; redirects are not followed
+  webhook: async (channel, event) => {
+    if (!(await isPublicWebhookUrl(channel.url))) {
+      throw new Error('Webhook URL does not resolve to a public address');
+    }
+    const response = await fetch(channel.url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ type: 'sentiment.alert', event }),
+      redirect: 'manual',
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS)
+    });
+    if (!response.ok) {
+      throw new Error(`Webhook responded ${response.status}`);
+    }
+  },
+
+  // SMTP stand-in: messages are queued in the outbox store for a mail relay to pick up
+  email: async (channel, event) => {
+    await updateStore<AlertOutboxStore>(OUTBOX_STORE, { messages: [] }, store => {
+      store.messages.push({
+        to: channel.to,
+        subject: `[SentimentTrack] Negative sentiment alert for video ${event.videoId}`,
+        body: `${event.message}\n\nhttps://www.youtube.com/watch?v=${event.videoId}`,
+        queuedAt: new Date().toISOString()
+      });
+      store.messages = store.messages.slice(-MAX_OUTBOX_MESSAGES);
+    });
+    console.log(`📧 Alert email queued for ${channel.to}`);
+  },
+
+  inbox: async (_channel, event) => {
+    await updateStore<AlertInboxStore>(INBOX_STORE, { events: {} }, store => {
+      store.events[event.userId] = [event, ...(store.events[event.userId] || [])].slice(0, MAX_INBOX_EVENTS);
+    });
+  }
+};
+
+/**
+ * Send an event through every channel of its rule; one failing channel does not block the others
+ */
+async function deliverAlert(rule: AlertRule, event: AlertEvent): Promise<void> {
+  for (const channel of rule.channels) {
+    try {
+      const handler = ALERT_CHANNEL_HANDLERS[channel.type] as (channel: AlertChannel, event: AlertEvent) => Promise<void>;
+      await handler(channel, event);
+    } catch (error) {
+      console.error(`❌ Alert delivery via ${channel.type} failed for rule ${rule.id}:`, error);
+    }
+  }
+}
+
+/**
+ * Check one rule against a video's scored comments. The window's negative share is compared
+ * with the absolute threshold and with the share among older comments (the baseline).
+ */
+function evaluateRule(rule: AlertRule, comments: CommentData[], now: number): AlertEvent | null {
+  if (!rule.enabled) {
+    return null;
+  }
+  if (rule.lastTriggeredAt && now - new Date(rule.lastTriggeredAt).getTime() < rule.cooldownMinutes * 60 * 1000) {
+    return null;
+  }
+
+  const windowStart = now - rule.windowHours * HOUR_MS;
+  const recent = calculateSentimentAnalysis(comments.filter(comment => new Date(comment.publishedAt).getTime() >= windowStart));
+  if (recent.total < rule.minSampleSize) {
+    return null;
+  }
+
+  const earlier = calculateSentimentAnalysis(comments.filter(comment => new Date(comment.publishedAt).getTime() < windowStart));
+  const negativePercent = percentageOf(recent.negative, recent.total);
+  const baselinePercent = earlier.total >= rule.minSampleSize ? percentageOf(earlier.negative, earlier.total) : null;
+
+  let reason: AlertEvent['reason'] | null = null;
+  if (rule.thresholdPercent !== undefined && negativePercent >= rule.thresholdPercent) {
+    reason = 'threshold';
+  } else if (
+    rule.changePercent !== undefined &&
+    baselinePercent !== null &&
+    baselinePercent > 0 &&
+    ((negativePercent - baselinePercent) / baselinePercent) * 100 >= rule.changePercent
+  ) {
+    reason = 'change';
+  }
+
+  if (!reason) {
+    return null;
+  }
+
+  const baselineText = baselinePercent !== null ? ` (baseline ${baselinePercent}%)` : '';
+  return {
+    id: randomUUID(),
+    ruleId: rule.id,
+    userId: rule.userId,
+    videoId: rule.videoId,
+    reason,
+    negativePercent,
+    baselinePercent,
+    sampleSize: recent.total,
+    message: `Negative comments on video ${rule.videoId} reached ${negativePercent}% over the last ${rule.windowHours}h across ${recent.total} comments${baselineText}`,
+    createdAt: new Date(now).toISOString(),
+    read: false
+  };
+}
+
+/**
+ * Evaluate every rule for a video against its scored comments and deliver any alerts
+ */
+export async function evaluateVideoAlerts(videoId: string, comments: CommentData[]): Promise<AlertEvent[]> {
+  const store = await readStore<AlertRuleStore>(RULES_STORE, { rules: [] });
+  const rules = store.rules.filter(rule => rule.videoId === videoId);
+  if (rules.length === 0) {
+    return [];
+  }
+
+  const now = Date.now();
+  const fired = rules
+    .map(rule => ({ rule, event: evaluateRule(rule, comments, now) }))
+    .filter((result): result is { rule: AlertRule; event: AlertEvent } => result.event !== null);
+
+  if (fired.length === 0) {
+    return [];
+  }
+
+  // Mark rules as triggered before delivering so a concurrent evaluation cannot double-fire
+  await updateStore<AlertRuleStore>(RULES_STORE, { rules: [] }, latest => {
+    for (const { rule } of fired) {
+      const stored = latest.rules.find(entry => entry.id === rule.id);
+      if (stored) {
+        stored.lastTriggeredAt = new Date(now).toISOString();
+      }
+    }
+  });
+
+  for (const { rule, event } of fired) {
+    console.log(`🚨 Alert rule ${rule.id} fired for video ${videoId}: ${event.negativePercent}% negative`);
+    await deliverAlert(rule, event);
+  }
+
+  return fired.map(({ event }) => event);
+}
+
+/**
+ * A user's in-app alerts, newest first
+ */
+export async function listInbox(userId: string): Promise<AlertEvent[]> {
+  const store = await readStore<AlertInboxStore>(INBOX_STORE, { events: {} });
+  return store.events[userId] || [];
+}
+
+/**
+ * Mark inbox alerts as read (all of them when no ids are given)
+ */
+export async function markInboxRead(userId: string, eventIds?: string[]): Promise<number> {
+  return updateStore<AlertInboxStore, number>(INBOX_STORE, { events: {} }, store => {
+    let marked = 0;
+    for (const event of store.events[userId] || []) {
+      if (!event.read && (!eventIds || eventIds.includes(event.id))) {
+        event.read = true;
+        marked++;
+      }
+    }
+    return marked;
+  });
+}
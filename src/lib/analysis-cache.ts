@@ -0,0 +1,139 @@
+// Content-addressed cache for AI analysis results, shared by every route and every viewer
+import { createHash } from 'crypto';
+import { CommentData } from '@/types';
+import { readStore, updateStore } from '@/lib/storage';
+
+interface CachedAnalysis {
+  kind: string;
+  model: string;
+  commentSetHash?: string;
+  createdAt: string;
+  value: unknown;
+}
+
+interface AnalysisCacheStore {
+  entries: Record<string, CachedAnalysis>;
+}
+
+export interface AnalysisCacheRequest {
+  kind: string; // e.g. 'video-analysis', 'feedback-insights'
+  model: string;
+  videoId?: string;
+  comments?: CommentData[];
+  inputs?: unknown; // any other prompt inputs (title, transcript, ...)
+  refresh?: boolean; // skip the read, still store the fresh result
+}
+
+// Bump when prompts or result shapes change so old entries stop matching
+const ANALYSIS_CACHE_VERSION = 1;
+const MAX_ENTRIES_PER_VIDEO = 50;
+const TTL_MS = Number(process.env.ANALYSIS_CACHE_TTL_HOURS || 24 * 7) * 60 * 60 * 1000;
+const SHARED_SCOPE = '_shared';
+
+// Fallback results (model unavailable, parse failure) must never be served from cache
+const uncacheable = new WeakSet<object>();
+
+// Identical requests that arrive while the first is still computing share its promise
+const inFlight = new Map<string, Promise<unknown>>();
+
+const storeName = (videoId?: string) =>
+  `analysis-cache/${videoId && /^[a-zA-Z0-9_-]{11}$/.test(videoId) ? videoId : SHARED_SCOPE}`;
+
+const sha256 = (value: string): string => createHash('sha256').update(value).digest('hex');
+
+/**
+ * Flag a result as a fallback so the cache does not store it
+ */
+export function markUncacheable<T extends object>(value: T): T {
+  uncacheable.add(value);
+  return value;
+}
+
+/**
+ * Stable hash of a comment set: ids, text and current sentiment, independent of order
+ */
+export function hashCommentSet(comments: CommentData[]): string {
+  const parts = comments
+    .map(comment => `${comment.id}:${sha256(comment.textDisplay || '')}:${comment.sentiment || ''}`)
+    .sort();
+  return sha256(parts.join('\n'));
+}
+
+/**
+ * Return the cached result for these exact inputs, or compute, store and return it
+ */
+export async function cachedAnalysis<T>(
+  request: AnalysisCacheRequest,
+  compute: () => Promise<T>
+): Promise<{ value: T; cached: boolean }> {
+  const commentSetHash = request.comments ? hashCommentSet(request.comments) : undefined;
+  const key = sha256(JSON.stringify({
+    version: ANALYSIS_CACHE_VERSION,
+    kind: request.kind,
+    model: request.model,
+    videoId: request.videoId || null,
+    commentSetHash: commentSetHash || null,
+    inputs: request.inputs ?? null
+  }));
+  const name = storeName(request.videoId);
+
+  if (!request.refresh) {
+    const store = await readStore<AnalysisCacheStore>(name, { entries: {} });
+    const entry = store.entries[key];
+    if (entry && Date.now() - new Date(entry.createdAt).getTime() < TTL_MS) {
+      console.log(`📦 Analysis cache hit: ${request.kind} (${request.videoId || 'shared'})`);
+      return { value: entry.value as T, cached: true };
+    }
+
+    const pending = inFlight.get(key);
+    if (pending) {
+      return { value: await pending as T, cached: true };
+    }
+  }
+
+  const computation = compute();
+  inFlight.set(key, computation);
+  try {
+    const value = await computation;
+
+    if (!(typeof value === 'object' && value !== null && uncacheable.has(value))) {
+      await updateStore<AnalysisCacheStore>(name, { entries: {} }, store => {
+        store.entries[key] = {
+          kind: request.kind,
+          model: request.model,
+          commentSetHash,
+          createdAt: new Date().toISOString(),
+          value
+        };
+
+        // Keep the newest entries only
+        const keys = Object.keys(store.entries);
+        if (keys.length > MAX_ENTRIES_PER_VIDEO) {
+          keys
+            .sort((a, b) => store.entries[a].createdAt.localeCompare(store.entries[b].createdAt))
+            .slice(0, keys.length - MAX_ENTRIES_PER_VIDEO)
+            .forEach(oldKey => delete store.entries[oldKey]);
+        }
+      });
+    }
+
+    return { value, cached: false };
+  } finally {
+    if (inFlight.get(key) === computation) {
+      inFlight.delete(key);
+    }
+  }
+}
+
+/**
+ * Drop every cached analysis for a video (called when its comment set changes)
+ */
+export async function invalidateVideoAnalyses(videoId: string): Promise<void> {
+  await updateStore<AnalysisCacheStore>(storeName(videoId), { entries: {} }, store => {
+    const count = Object.keys(store.entries).length;
+    if (count > 0) {
+      console.log(`🗑️ Invalidated ${count} cached analyses for video ${videoId}`);
+    }
+    store.entries = {};
+  });
+}
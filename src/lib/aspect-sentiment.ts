@@ -0,0 +1,207 @@
+// Aspect-based sentiment: what viewers say about the audio, editing, pacing, ... of a video
+import { AspectDefinition, AspectMention, AspectSentiment, AspectSentimentReport, CommentData } from '@/types';
+import { CONFIG, cleanText, extractAspectsWithMistral, getSentimentProvider } from '@/lib/ai-services-pro';
+import { scoreTextLocally } from '@/lib/local-sentiment';
+import { detectLanguage } from '@/lib/language-id';
+import { markUncacheable } from '@/lib/analysis-cache';
+import { readStore, updateStore } from '@/lib/storage';
+
+interface CustomAspectStore {
+  users: Record<string, AspectDefinition[]>;
+}
+
+const STORE = 'custom-aspects';
+export const MAX_CUSTOM_ASPECTS = 10;
+const MAX_KEYWORDS = 12;
+const MAX_QUOTES = 3;
+// Keeps the model prompt within budget; callers already pass the most-liked comments first
+const MAX_MODEL_COMMENTS = 100;
+
+export const BUILT_IN_ASPECTS: AspectDefinition[] = [
+  { id: 'audio', label: 'Audio', keywords: ['audio', 'sound', 'mic', 'microphone', 'volume', 'loud', 'quiet', 'echo', 'voice quality'] },
+  { id: 'editing', label: 'Editing', keywords: ['editing', 'edit', 'edits', 'cuts', 'transitions', 'effects', 'editor'] },
+  { id: 'pacing', label: 'Pacing', keywords: ['pacing', 'pace', 'too fast', 'too slow', 'dragged', 'rushed', 'fast forward'] },
+  { id: 'length', label: 'Length', keywords: ['too long', 'too short', 'length', 'minutes long', 'shorter', 'longer video'] },
+  { id: 'visuals', label: 'Video quality', keywords: ['video quality', 'camera', 'lighting', 'resolution', '4k', '1080p', 'blurry', 'out of focus'] },
+  { id: 'music', label: 'Music', keywords: ['music', 'song', 'soundtrack', 'background music', 'bgm'] },
+  { id: 'thumbnail', label: 'Thumbnail & title', keywords: ['thumbnail', 'clickbait', 'title'] },
+  { id: 'topic', label: 'Topic', keywords: ['topic', 'subject', 'content', 'information', 'explanation', 'explained', 'tutorial', 'info'] },
+  { id: 'presenter', label: 'Presenter', keywords: ['you are', "you're", 'your voice', 'your energy', 'presenter', 'host', 'personality', 'accent', 'smile'] },
+  { id: 'sponsor', label: 'Sponsor', keywords: ['sponsor', 'sponsored', 'ad', 'ads', 'advert', 'promo'] }
+];
+
+const emptyStore = (): CustomAspectStore => ({ users: {} });
+
+const slugify = (label: string): string =>
+  label.toLowerCase().trim().replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-|-$/g, '');
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Validate and normalize creator-defined aspects. Returns an error message when invalid.
+ */
+export function normalizeCustomAspects(value: unknown): AspectDefinition[] | string {
+  if (!Array.isArray(value) || value.length > MAX_CUSTOM_ASPECTS) {
+    return `aspects must be a list of at most ${MAX_CUSTOM_ASPECTS} items`;
+  }
+
+  const aspects: AspectDefinition[] = [];
+  for (const item of value) {
+    const label = typeof item?.label === 'string' ? item.label.trim() : '';
+    const id = `custom-${slugify(label)}`;
+    if (!label || label.length > 40 || id === 'custom-') {
+      return 'Each aspect needs a label of 1-40 characters';
+    }
+    if (aspects.some(aspect => aspect.id === id)) {
+      return `Duplicate aspect "${label}"`;
+    }
+
+    const keywords: string[] = (Array.isArray(item.keywords) ? item.keywords : [])
+      .filter((keyword: unknown): keyword is string => typeof keyword === 'string')
+      .map((keyword: string) => keyword.toLowerCase().trim())
+      .filter(Boolean)
+      .slice(0, MAX_KEYWORDS);
+
+    aspects.push({ id, label, keywords: keywords.length > 0 ? keywords : [label.toLowerCase()], custom: true });
+  }
+  return aspects;
+}
+
+/**
+ * The signed-in creator's custom aspects for their channel
+ */
+export async function getCustomAspects(userId: string): Promise<AspectDefinition[]> {
+  const store = await readStore(STORE, emptyStore());
+  return store.users[userId] || [];
+}
+
+/**
+ * Replace the creator's custom aspects
+ */
+export async function saveCustomAspects(userId: string, aspects: AspectDefinition[]): Promise<AspectDefinition[]> {
+  await updateStore<CustomAspectStore>(STORE, emptyStore(), store => {
+    store.users[userId] = aspects;
+  });
+  console.log(`🔬 Saved ${aspects.length} custom aspects for ${userId}`);
+  return aspects;
+}
+
+/**
+ * Offline extractor: split comments into clauses ("great editing but the audio is bad"),
+ * match aspect keywords per clause and score each clause with the lexicon
+ */
+export function extractAspectsLocally(comments: CommentData[], aspects: AspectDefinition[]): AspectMention[] {
+  const matchers = aspects.map(aspect => ({
+    id: aspect.id,
+    pattern: new RegExp(`(^|[^\\p{L}\\p{N}])(${aspect.keywords.map(escapeRegExp).join('|')})(?=$|[^\\p{L}\\p{N}])`, 'iu')
+  }));
+
+  const mentions: AspectMention[] = [];
+  for (const comment of comments) {
+    const text = cleanText(comment.textDisplay.replace(/<[^>]*>/g, ' '));
+    const language = detectLanguage(text);
+    const clauses = text
+      .split(/[.!?;\n]+|\s(?=(?:but|however|though|although|except|while)\s)/i)
+      .map(clause => clause.trim())
+      .filter(Boolean);
+
+    const seen = new Set<string>();
+    for (const clause of clauses) {
+      for (const matcher of matchers) {
+        if (seen.has(matcher.id) || !matcher.pattern.test(clause)) continue;
+        seen.add(matcher.id);
+        mentions.push({
+          commentId: comment.id,
+          aspect: matcher.id,
+          sentiment: scoreTextLocally(clause, language).sentiment,
+          quote: clause.substring(0, 200)
+        });
+      }
+    }
+  }
+  return mentions;
+}
+
+/**
+ * Per-aspect counts and example quotes, most discussed first. Quotes favour liked comments
+ * and show both sides when an aspect is split.
+ */
+export function summarizeAspects(
+  aspects: AspectDefinition[],
+  mentions: AspectMention[],
+  comments: CommentData[]
+): AspectSentiment[] {
+  const commentsById = new Map(comments.map(comment => [comment.id, comment]));
+
+  return aspects
+    .map(aspect => {
+      const aspectMentions = mentions
+        .filter(mention => mention.aspect === aspect.id)
+        .sort((a, b) => (commentsById.get(b.commentId)?.likeCount || 0) - (commentsById.get(a.commentId)?.likeCount || 0));
+      const count = (sentiment: AspectMention['sentiment']) =>
+        aspectMentions.filter(mention => mention.sentiment === sentiment).length;
+      const positive = count('positive');
+      const negative = count('negative');
+
+      const quoted = [
+        aspectMentions.find(mention => mention.sentiment === 'positive'),
+        aspectMentions.find(mention => mention.sentiment === 'negative'),
+        ...aspectMentions
+      ].filter((mention, index, list): mention is AspectMention => Boolean(mention) && list.indexOf(mention) === index);
+
+      return {
+        aspect: aspect.id,
+        label: aspect.label,
+        custom: Boolean(aspect.custom),
+        mentions: aspectMentions.length,
+        positive,
+        neutral: count('neutral'),
+        negative,
+        netSentiment: aspectMentions.length > 0 ? Math.round(((positive - negative) / aspectMentions.length) * 100) / 100 : 0,
+        quotes: quoted.slice(0, MAX_QUOTES).map(mention => ({
+          commentId: mention.commentId,
+          author: commentsById.get(mention.commentId)?.authorDisplayName || '',
+          text: mention.quote,
+          sentiment: mention.sentiment
+        }))
+      };
+    })
+    .filter(aspect => aspect.mentions > 0)
+    .sort((a, b) => b.mentions - a.mentions);
+}
+
+/**
+ * Aspect sentiment over analyzed comments: Mistral when a model provider is configured,
+ * the lexicon extractor offline or when the model fails (fallbacks are not cached)
+ */
+export async function analyzeAspects(
+  comments: CommentData[],
+  customAspects: AspectDefinition[] = []
+): Promise<AspectSentimentReport> {
+  const aspects = [...BUILT_IN_ASPECTS, ...customAspects];
+  const sample = comments.slice(0, MAX_MODEL_COMMENTS);
+
+  const lexiconReport = (): AspectSentimentReport => ({
+    aspects: summarizeAspects(aspects, extractAspectsLocally(comments, aspects), comments),
+    commentsAnalyzed: comments.length,
+    source: 'lexicon',
+    model: 'keyword-clauses+afinn'
+  });
+
+  if (getSentimentProvider().name === 'local') {
+    return lexiconReport();
+  }
+
+  try {
+    const mentions = await extractAspectsWithMistral(sample, aspects);
+    return {
+      aspects: summarizeAspects(aspects, mentions, sample),
+      commentsAnalyzed: sample.length,
+      source: 'model',
+      model: CONFIG.mistral.analyticsModel
+    };
+  } catch (error) {
+    console.error('❌ Mistral aspect extraction failed, using lexicon extractor:', error);
+    return markUncacheable(lexiconReport());
+  }
+}
@@ -0,0 +1,70 @@
+// Comment moderation (hold, reject, ban, report spam) on the signed-in channel's videos
+import { ModerationAction, ModerationResult } from '@/types';
+import { YouTubeService, type GoogleApiError } from '@/lib/youtube-service';
+import { removeStoredComments } from '@/lib/comment-store';
+
+export const MODERATION_ACTIONS: ModerationAction[] = ['hold', 'reject', 'ban', 'spam'];
+
+// comments.setModerationStatus and comments.markAsSpam take at most 50 ids per call
+const BATCH_SIZE = 50;
+
+// markAsSpam only reports a comment; it stays public, so it stays in the store too
+const REMOVING_ACTIONS: ModerationAction[] = ['hold', 'reject', 'ban'];
+
+/**
+ * User-facing message for a failed moderation call
+ */
+export function describeModerationError(error: unknown): string {
+  switch ((error as GoogleApiError | undefined)?.response?.status) {
+    case 403: return 'Only the channel owner can moderate these comments';
+    case 404: return 'Comment not found';
+    case 400: return 'Invalid comment id';
+    default: return 'Failed to moderate comment on YouTube';
+  }
+}
+
+async function applyBatch(service: YouTubeService, commentIds: string[], action: ModerationAction): Promise<void> {
+  switch (action) {
+    case 'hold':
+      return service.setModerationStatus(commentIds, 'heldForReview');
+    case 'reject':
+      return service.setModerationStatus(commentIds, 'rejected');
+    case 'ban':
+      return service.setModerationStatus(commentIds, 'rejected', true);
+    case 'spam':
+      return service.markAsSpam(commentIds);
+  }
+}
+
+/**
+ * Apply one moderation action to a set of comments on a video. Batches that fail are
+ * reported per comment; comments taken off the public thread leave the local store so they stop counting.
+ */
+export async function moderateComments(
+  accessToken: string,
+  videoId: string,
+  commentIds: string[],
+  action: ModerationAction
+): Promise<ModerationResult> {
+  const service = new YouTubeService(accessToken);
+  const result: ModerationResult = { action, succeeded: [], failed: [] };
+
+  for (let i = 0; i < commentIds.length; i += BATCH_SIZE) {
+    const batch = commentIds.slice(i, i + BATCH_SIZE);
+    try {
+      await applyBatch(service, batch, action);
+      result.succeeded.push(...batch);
+    } catch (error) {
+      console.error(`❌ Moderation (${action}) failed for ${batch.length} comments:`, error);
+      const message = describeModerationError(error);
+      result.failed.push(...batch.map(commentId => ({ commentId, error: message })));
+    }
+  }
+
+  if (result.succeeded.length > 0 && REMOVING_ACTIONS.includes(action)) {
+    await removeStoredComments(videoId, result.succeeded);
+  }
+
+  console.log(`🛡️ Moderation (${action}) on video ${videoId}: ${result.succeeded.length} applied, ${result.failed.length} failed`);
+  return result;
+}
@@ -0,0 +1,398 @@
+// Persistent per-video comment store with incremental sync and scoring.
+// Replies are stored next to top-level comments, linked by parentId.
+import { createHash } from 'crypto';
+import { CommentData, SentimentExample } from '@/types';
+import { fetchCommentThreadsSince } from '@/lib/youtube';
+import { analyzeSentiment, getSentimentProvider, SENTIMENT_SCORING_VERSION } from '@/lib/ai-services-pro';
+import { calculateThreadSentiment } from '@/lib/metrics';
+import { readStore, updateStore } from '@/lib/storage';
+import { parseTimestampMentions } from '@/lib/comment-timeline';
+import { evaluateVideoAlerts } from '@/lib/alerts';
+import { invalidateVideoAnalyses } from '@/lib/analysis-cache';
+import { detectSpam } from '@/lib/spam-detection';
+
+interface StoredComment {
+  comment: CommentData;
+  textHash: string;
+  scoredHash?: string;
+  scoredAt?: string;
+  scoredBy?: string; // provider that produced the score; 'local' for LLM batches that fell back to the lexicon
+  scoredVersion?: number; // SENTIMENT_SCORING_VERSION the score was produced with
+}
+
+interface VideoCommentStore {
+  videoId: string;
+  channelId?: string; // the video owner's channel
+  cursor?: string; // publishedAt of the newest synced thread
+  lastSyncedAt?: string;
+  lastFullSyncAt?: string;
+  fullSyncPageToken?: string; // where a full pass cut short by the request cap resumes
+  comments: Record<string, StoredComment>;
+}
+
+interface SyncResult {
+  comments: CommentData[];
+  added: number;
+  updated: number;
+  fullSync: boolean;
+}
+
+const FULL_RESYNC_INTERVAL_MS = Number(process.env.COMMENT_FULL_RESYNC_HOURS || 24) * 60 * 60 * 1000;
+
+// Concurrent requests for the same video share one sync instead of each paging the API
+const inFlightSyncs = new Map<string, Promise<SyncResult>>();
+
+const storeName = (videoId: string) => `comments/${videoId}`;
+
+const emptyStore = (videoId: string): VideoCommentStore => ({ videoId, comments: {} });
+
+const hashText = (text: string): string =>
+  createHash('sha1').update(text).digest('hex');
+
+// Switching SENTIMENT_PROVIDER rescores comments so one store never mixes providers,
+// lexicon fallbacks from a failed LLM batch are retried on the next request, and scores from
+// an older prompt or result shape (e.g. without categories) are redone
+const needsScoring = (stored: StoredComment, provider: string): boolean =>
+  stored.scoredHash !== stored.textHash ||
+  stored.scoredBy !== provider ||
+  stored.scoredVersion !== SENTIMENT_SCORING_VERSION;
+
+const topLevel = (store: VideoCommentStore): StoredComment[] =>
+  Object.values(store.comments).filter(stored => !stored.comment.parentId);
+
+/**
+ * Add or refresh one fetched comment or reply. Edits drop the stale score.
+ */
+function mergeComment(store: VideoCommentStore, fetchedComment: CommentData): 'added' | 'updated' | 'unchanged' {
+  // Inline replies are stored as their own entries, never nested
+  const comment = { ...fetchedComment, replies: undefined, timestamps: parseTimestampMentions(fetchedComment.textDisplay, { videoId: store.videoId }) };
+  const textHash = hashText(comment.textDisplay);
+  const existing = store.comments[comment.id];
+
+  if (!existing) {
+    store.comments[comment.id] = { comment, textHash };
+    return 'added';
+  }
+  if (existing.textHash !== textHash) {
+    // Edited comment: keep the id, drop the stale score
+    store.comments[comment.id] = { comment, textHash };
+    return 'updated';
+  }
+
+  existing.comment = {
+    ...existing.comment,
+    likeCount: comment.likeCount,
+    updatedAt: comment.updatedAt,
+    totalReplyCount: comment.totalReplyCount,
+    timestamps: comment.timestamps
+  };
+  return 'unchanged';
+}
+
+/**
+ * Duplicate clusters span the whole thread set, so every change reassesses all stored comments and replies
+ */
+function reassessSpam(store: VideoCommentStore): void {
+  const spam = detectSpam(Object.values(store.comments).map(stored => stored.comment), { ownerChannelId: store.channelId });
+  for (const stored of Object.values(store.comments)) {
+    stored.comment = { ...stored.comment, spam: spam.get(stored.comment.id) };
+  }
+}
+
+/**
+ * Pull threads newer than the stored cursor and merge them into the store.
+ * A periodic full resync picks up edits to older comments, which order=time never revisits;
+ * on videos with more pages than the request cap it continues across requests.
+ */
+export async function syncVideoComments(
+  videoId: string,
+  options: { forceFull?: boolean; maxRequests?: number } = {}
+): Promise<SyncResult> {
+  const inFlight = inFlightSyncs.get(videoId);
+  if (inFlight) {
+    return inFlight;
+  }
+
+  const sync = runSync(videoId, options);
+  inFlightSyncs.set(videoId, sync);
+  try {
+    return await sync;
+  } finally {
+    inFlightSyncs.delete(videoId);
+  }
+}
+
+async function runSync(
+  videoId: string,
+  options: { forceFull?: boolean; maxRequests?: number }
+): Promise<SyncResult> {
+  const current = await readStore(storeName(videoId), emptyStore(videoId));
+  const lastFull = current.lastFullSyncAt ? new Date(current.lastFullSyncAt).getTime() : 0;
+  const resumePageToken = options.forceFull ? undefined : current.fullSyncPageToken;
+  const fullSync = Boolean(resumePageToken) || options.forceFull || !current.cursor || Date.now() - lastFull > FULL_RESYNC_INTERVAL_MS;
+
+  console.log(`🔄 Syncing comments for video ${videoId} (${resumePageToken ? 'resuming full' : fullSync ? 'full' : `since ${current.cursor}`})`);
+
+  const { comments: fetched, complete, nextPageToken, channelId } = await fetchCommentThreadsSince(
+    videoId,
+    fullSync ? undefined : current.cursor,
+    options.maxRequests,
+    resumePageToken
+  ).catch(async error => {
+    // A page token the API no longer accepts would fail every sync; the next pass starts over
+    if (resumePageToken) {
+      await updateStore(storeName(videoId), emptyStore(videoId), store => {
+        store.fullSyncPageToken = undefined;
+      });
+    }
+    throw error;
+  });
+
+  const result = await updateStore(storeName(videoId), emptyStore(videoId), store => {
+    let added = 0;
+    let updated = 0;
+    store.channelId ??= channelId;
+
+    // Threads carry up to five inline replies; longer threads are filled in through the comment-replies route
+    for (const thread of fetched) {
+      for (const fetchedComment of [thread, ...(thread.replies || [])]) {
+        const outcome = mergeComment(store, fetchedComment);
+        if (outcome === 'added') added++;
+        if (outcome === 'updated') updated++;
+      }
+
+      // An incremental sync cut short never reached the cursor; moving it would skip the threads in between
+      if ((fullSync || complete) && (!store.cursor || thread.publishedAt > store.cursor)) {
+        store.cursor = thread.publishedAt;
+      }
+    }
+
+    reassessSpam(store);
+
+    const now = new Date().toISOString();
+    store.lastSyncedAt = now;
+    if (fullSync) {
+      // Threads newer than the resumed page are picked up by the next incremental sync
+      store.fullSyncPageToken = complete ? undefined : nextPageToken;
+      if (complete) {
+        store.lastFullSyncAt = now;
+      }
+    }
+
+    console.log(`✅ Comment sync for ${videoId}: ${added} added, ${updated} edited, ${Object.keys(store.comments).length} stored`);
+
+    return {
+      comments: topLevel(store).map(stored => stored.comment),
+      added,
+      updated,
+      fullSync
+    };
+  });
+
+  // New or edited comments make every cached AI analysis of this video stale
+  if (result.added > 0 || result.updated > 0) {
+    await invalidateVideoAnalyses(videoId);
+  }
+
+  return result;
+}
+
+/**
+ * Merge a thread's full reply list (threads longer than the five replies inlined by commentThreads)
+ */
+export async function storeCommentReplies(videoId: string, parentId: string, replies: CommentData[]): Promise<void> {
+  const changed = await updateStore(storeName(videoId), emptyStore(videoId), store => {
+    if (!store.comments[parentId]) {
+      return false;
+    }
+
+    const outcomes = replies.map(reply => mergeComment(store, { ...reply, parentId }));
+    const changedReplies = outcomes.filter(outcome => outcome !== 'unchanged').length;
+    if (changedReplies > 0) {
+      reassessSpam(store);
+      console.log(`🧵 Stored ${changedReplies} new or edited replies in thread ${parentId}`);
+    }
+    return changedReplies > 0;
+  });
+
+  if (changed) {
+    await invalidateVideoAnalyses(videoId);
+  }
+}
+
+/**
+ * Score only the given comments (and the stored replies under them) that are new or edited
+ * since their last analysis. Replies are scored with their parent's text as context, and
+ * top-level comments come back with a thread-level sentiment when they have scored replies.
+ * Examples are the creator's own corrections, used as few-shot guidance by LLM providers.
+ */
+export async function scoreStoredComments(
+  videoId: string,
+  commentIds: string[],
+  examples: SentimentExample[] = []
+): Promise<CommentData[]> {
+  const provider = getSentimentProvider();
+  const store = await readStore(storeName(videoId), emptyStore(videoId));
+  const requested = new Set(commentIds);
+  const replies = Object.values(store.comments).filter(stored =>
+    stored.comment.parentId && requested.has(stored.comment.parentId) && !requested.has(stored.comment.id)
+  );
+  const pending = [
+    ...commentIds.map(id => store.comments[id]).filter((stored): stored is StoredComment => Boolean(stored)),
+    ...replies
+  ].filter(stored => needsScoring(stored, provider.name));
+
+  if (pending.length > 0) {
+    const pendingReplies = pending.filter(stored => stored.comment.parentId).length;
+    console.log(`🧮 Scoring ${pending.length} unscored comments (${pendingReplies} replies) for video ${videoId}`);
+
+    const parentTexts: Record<string, string> = {};
+    for (const stored of pending) {
+      const parent = stored.comment.parentId && store.comments[stored.comment.parentId];
+      if (parent) {
+        parentTexts[stored.comment.id] = parent.comment.textDisplay;
+      }
+    }
+
+    const scored = await analyzeSentiment(pending.map(stored => stored.comment), provider.name, parentTexts, examples);
+    const scoredAt = new Date().toISOString();
+    const fallbacks = scored.filter(comment => (comment.sentimentSource || provider.name) !== provider.name).length;
+    if (fallbacks > 0) {
+      console.warn(`⚠️ ${fallbacks} comments for video ${videoId} fell back to the lexicon and will be rescored next time`);
+    }
+
+    await updateStore(storeName(videoId), emptyStore(videoId), latest => {
+      for (const comment of scored) {
+        const stored = latest.comments[comment.id];
+        // Skip comments edited again while the scoring request was in flight
+        if (stored && stored.textHash === hashText(comment.textDisplay)) {
+          // Spam flags come from the latest sync, not from when scoring started,
+          // and a creator's correction outlives rescoring until the comment is edited
+          const { correction, sentiment, confidence } = stored.comment;
+          stored.comment = { ...comment, spam: stored.comment.spam, ...(correction && { sentiment, confidence }) };
+          stored.scoredHash = stored.textHash;
+          stored.scoredAt = scoredAt;
+          stored.scoredBy = comment.sentimentSource || provider.name;
+          stored.scoredVersion = SENTIMENT_SCORING_VERSION;
+        }
+      }
+    });
+
+    // New scores can change the video's negative share, so re-check its alert rules
+    const scoredComments = await getScoredComments(videoId);
+    await evaluateVideoAlerts(videoId, scoredComments).catch(error =>
+      console.error(`❌ Alert evaluation failed for video ${videoId}:`, error)
+    );
+  }
+
+  const latest = await readStore(storeName(videoId), emptyStore(videoId));
+  const repliesByParent = new Map<string, CommentData[]>();
+  for (const stored of Object.values(latest.comments)) {
+    const parentId = stored.comment.parentId;
+    if (parentId && requested.has(parentId) && stored.scoredHash === stored.textHash) {
+      repliesByParent.set(parentId, [...(repliesByParent.get(parentId) || []), stored.comment]);
+    }
+  }
+
+  return commentIds
+    .map(id => latest.comments[id]?.comment)
+    .filter((comment): comment is CommentData => Boolean(comment))
+    .map(comment => repliesByParent.has(comment.id)
+      ? { ...comment, thread: calculateThreadSentiment(comment, repliesByParent.get(comment.id)!) }
+      : comment);
+}
+
+/**
+ * Overwrite a scored comment's sentiment with the creator's label. Returns the updated comment,
+ * or null when the comment is not stored or not scored yet.
+ */
+export async function correctStoredSentiment(
+  videoId: string,
+  commentId: string,
+  sentiment: NonNullable<CommentData['sentiment']>
+): Promise<{ comment: CommentData; provider?: string } | null> {
+  const result = await updateStore(storeName(videoId), emptyStore(videoId), store => {
+    const stored = store.comments[commentId];
+    if (!stored?.comment.sentiment || stored.scoredHash !== stored.textHash) {
+      return null;
+    }
+
+    // Re-correcting keeps the model's original verdict
+    const correction = stored.comment.correction || {
+      modelSentiment: stored.comment.sentiment,
+      modelConfidence: stored.comment.confidence,
+      correctedAt: ''
+    };
+    stored.comment = {
+      ...stored.comment,
+      sentiment,
+      confidence: 1,
+      correction: { ...correction, correctedAt: new Date().toISOString() }
+    };
+    return { comment: stored.comment, provider: stored.scoredBy };
+  });
+
+  if (result) {
+    await invalidateVideoAnalyses(videoId);
+  }
+  return result;
+}
+
+/**
+ * Drop comments that were moderated off the public thread, with any replies under them.
+ * A comment later published again in YouTube Studio comes back with the next full sync.
+ */
+export async function removeStoredComments(videoId: string, commentIds: string[]): Promise<number> {
+  const removed = await updateStore(storeName(videoId), emptyStore(videoId), store => {
+    const ids = new Set(commentIds);
+    let count = 0;
+    for (const [id, stored] of Object.entries(store.comments)) {
+      if (ids.has(id) || (stored.comment.parentId && ids.has(stored.comment.parentId))) {
+        delete store.comments[id];
+        count++;
+      }
+    }
+    return count;
+  });
+
+  if (removed > 0) {
+    await invalidateVideoAnalyses(videoId);
+  }
+  return removed;
+}
+
+/**
+ * All stored top-level comments that already carry a sentiment score
+ */
+export async function getScoredComments(videoId: string): Promise<CommentData[]> {
+  const store = await readStore(storeName(videoId), emptyStore(videoId));
+  return topLevel(store)
+    .filter(stored => stored.scoredHash === stored.textHash)
+    .map(stored => stored.comment);
+}
+
+/**
+ * Stored replies under one top-level comment, oldest first
+ */
+export async function getStoredReplies(videoId: string, parentId: string): Promise<CommentData[]> {
+  const store = await readStore(storeName(videoId), emptyStore(videoId));
+  return Object.values(store.comments)
+    .filter(stored => stored.comment.parentId === parentId)
+    .map(stored => stored.comment)
+    .sort((a, b) => a.publishedAt.localeCompare(b.publishedAt));
+}
+
+/**
+ * Order synced comments by recency or engagement and take the top slice
+ */
+export function selectStoredComments(
+  comments: CommentData[],
+  options: { order?: 'time' | 'likes'; limit?: number } = {}
+): CommentData[] {
+  const ordered = [...comments].sort((a, b) =>
+    options.order === 'time'
+      ? b.publishedAt.localeCompare(a.publishedAt)
+      : (b.likeCount || 0) - (a.likeCount || 0)
+  );
+  return options.limit ? ordered.slice(0, options.limit) : ordered;
+}
@@ -0,0 +1,165 @@
+// Timestamp mentions in comments ("at 3:45 ...") linked to transcript segments
+import { CommentData, TimelineSentimentBucket, TranscriptSegment } from '@/types';
+
+// h:mm:ss or m:ss, not part of a longer number or ratio, and not a time of day ("10:30 pm")
+const CLOCK_MENTION = /(?<![\d:.])((?:\d{1,2}:)?\d{1,2}:[0-5]\d)(?![\d:])(?!\s*(?:am|pm|a\.m|p\.m)\b)/gi;
+
+// YouTube renders clickable timestamps in textDisplay as watch or youtu.be links carrying t=225 or t=3m45s
+const VIDEO_LINK = /https?:\/\/(?:(?:www\.|m\.)?youtube\.com\/watch\?|youtu\.be\/)[^\s"'<>]+/gi;
+const LINK_TIME = /^(?:(\d+)h)?(?:(\d+)m)?(\d+)s?$/;
+
+const MIN_BUCKET_SECONDS = 10;
+
+/**
+ * Convert "1:02:03" or "3:45" into seconds
+ */
+function clockToSeconds(value: string): number {
+  return value.split(':').reduce((total, part) => total * 60 + parseInt(part, 10), 0);
+}
+
+/**
+ * The moment a timestamp link points at, or null when it links to another video or has no t=
+ */
+function linkedSeconds(href: string, videoId: string): number | null {
+  let url: URL;
+  try {
+    url = new URL(href.replace(/&amp;/g, '&'));
+  } catch {
+    return null;
+  }
+
+  const linkedVideoId = url.hostname === 'youtu.be' ? url.pathname.slice(1) : url.searchParams.get('v');
+  const time = url.searchParams.get('t')?.match(LINK_TIME);
+  if (linkedVideoId !== videoId || !time) {
+    return null;
+  }
+
+  const [, hours, minutes, seconds] = time;
+  return parseInt(hours || '0', 10) * 3600 + parseInt(minutes || '0', 10) * 60 + parseInt(seconds, 10);
+}
+
+/**
+ * Extract the moments a comment refers to, in seconds (deduplicated, ascending).
+ * Links only count when they point at videoId; mentions past maxSeconds are dropped.
+ */
+export function parseTimestampMentions(
+  text: string,
+  options: { videoId?: string; maxSeconds?: number } = {}
+): number[] {
+  const { videoId, maxSeconds } = options;
+  const mentions = new Set<number>();
+
+  if (videoId) {
+    for (const [href] of text.matchAll(VIDEO_LINK)) {
+      const seconds = linkedSeconds(href, videoId);
+      if (seconds !== null) {
+        mentions.add(seconds);
+      }
+    }
+  }
+
+  // Strip markup first so the visible anchor text is not counted a second time
+  const plainText = text.replace(/<a\b[^>]*>[\s\S]*?<\/a>/gi, ' ').replace(/<[^>]*>/g, ' ');
+  for (const match of plainText.matchAll(CLOCK_MENTION)) {
+    mentions.add(clockToSeconds(match[1]));
+  }
+
+  return [...mentions]
+    .filter(seconds => maxSeconds === undefined || maxSeconds <= 0 || seconds <= maxSeconds)
+    .sort((a, b) => a - b);
+}
+
+/**
+ * Find the transcript segment playing at a given second (segments must be sorted by start)
+ */
+export function findSegmentIndex(segments: TranscriptSegment[], seconds: number): number {
+  let low = 0;
+  let high = segments.length - 1;
+  let found = -1;
+
+  while (low <= high) {
+    const mid = Math.floor((low + high) / 2);
+    if (segments[mid].start <= seconds) {
+      found = mid;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+
+  return found;
+}
+
+/**
+ * Aggregate sentiment of timestamped comments into fixed windows along the video timeline.
+ * Each window carries the transcript text of the segments viewers pointed at.
+ */
+export function buildTimelineHeatmap(
+  comments: CommentData[],
+  segments: TranscriptSegment[],
+  durationSeconds: number,
+  options: { videoId?: string; bucketCount?: number } = {}
+): TimelineSentimentBucket[] {
+  const { videoId, bucketCount = 40 } = options;
+  const sortedSegments = [...segments].sort((a, b) => a.start - b.start);
+  const lastSegment = sortedSegments[sortedSegments.length - 1];
+  const duration = durationSeconds > 0
+    ? durationSeconds
+    : lastSegment ? lastSegment.start + lastSegment.duration : 0;
+
+  if (duration <= 0) {
+    return [];
+  }
+
+  const bucketSize = Math.max(MIN_BUCKET_SECONDS, Math.ceil(duration / bucketCount));
+  const buckets: TimelineSentimentBucket[] = Array.from({ length: Math.ceil(duration / bucketSize) }, (_, index) => ({
+    start: index * bucketSize,
+    end: Math.min(duration, (index + 1) * bucketSize),
+    positive: 0,
+    neutral: 0,
+    negative: 0,
+    mentions: 0,
+    netSentiment: 0,
+    commentIds: []
+  }));
+  const referencedSegments = buckets.map(() => new Set<number>());
+
+  for (const comment of comments) {
+    const timestamps = comment.timestamps ?? parseTimestampMentions(comment.textDisplay, { videoId, maxSeconds: duration });
+
+    for (const seconds of timestamps) {
+      // Stored mentions are parsed without the duration; a moment past the end is a typo, not the last second
+      if (seconds > duration) {
+        continue;
+      }
+      const bucketIndex = Math.min(buckets.length - 1, Math.floor(seconds / bucketSize));
+      const bucket = buckets[bucketIndex];
+      if (!bucket || bucket.commentIds.includes(comment.id)) {
+        continue;
+      }
+
+      bucket[comment.sentiment || 'neutral']++;
+      bucket.mentions++;
+      bucket.commentIds.push(comment.id);
+
+      const segmentIndex = findSegmentIndex(sortedSegments, seconds);
+      if (segmentIndex !== -1) {
+        referencedSegments[bucketIndex].add(segmentIndex);
+      }
+    }
+  }
+
+  return buckets.map((bucket, index) => ({
+    ...bucket,
+    netSentiment: bucket.mentions > 0
+      ? Math.round(((bucket.positive - bucket.negative) / bucket.mentions) * 100) / 100
+      : 0,
+    transcriptExcerpt: referencedSegments[index].size > 0
+      ? [...referencedSegments[index]]
+          .sort((a, b) => a - b)
+          .map(segmentIndex => sortedSegments[segmentIndex].text)
+          .join(' ')
+          .substring(0, 280)
+      : undefined
+  }));
+}
@@ -0,0 +1,51 @@
+// Google OAuth token refresh, shared by the NextAuth session and background jobs
+
+export interface OAuthTokenSet {
+  accessToken?: string;
+  refreshToken?: string;
+  expiresAt?: number; // seconds since epoch
+  error?: string;
+}
+
+/**
+ * Exchange the refresh token for a new access token. On failure the token comes back
+ * unchanged with error "RefreshAccessTokenError".
+ */
+export async function refreshAccessToken<T extends OAuthTokenSet>(token: T): Promise<T> {
+  try {
+    const url = "https://oauth2.googleapis.com/token";
+    
+    const response = await fetch(url, {
+      headers: {
+        "Content-Type": "application/x-www-form-urlencoded",
+      },
+      method: "POST",
+      body: new URLSearchParams({
+        client_id: process.env.GOOGLE_CLIENT_ID!,
+        client_secret: process.env.GOOGLE_CLIENT_SECRET!,
+        grant_type: "refresh_token",
+        refresh_token: token.refreshToken!,
+      }),
+    });
+
+    const refreshedTokens = await response.json();
+
+    if (!response.ok) {
+      throw refreshedTokens;
+    }
+
+    return {
+      ...token,
+      accessToken: refreshedTokens.access_token,
+      expiresAt: Date.now() / 1000 + refreshedTokens.expires_in,
+      refreshToken: refreshedTokens.refresh_token ?? token.refreshToken,
+      error: undefined,
+    };
+  } catch (error) {
+    console.error("Error refreshing access token:", error);
+    return {
+      ...token,
+      error: "RefreshAccessTokenError",
+    };
+  }
+}
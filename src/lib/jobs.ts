@@ -0,0 +1,62 @@
+// Background job registrations, started once per server process from instrumentation
+import { registerJob, startScheduler } from '@/lib/scheduler';
+import { captureTrackedSnapshots, SNAPSHOT_INTERVAL_MS } from '@/lib/snapshots';
+import { runAllWatchlists } from '@/lib/watchlist';
+import { getAlertedVideoIds } from '@/lib/alerts';
+import { scoreStoredComments, selectStoredComments, syncVideoComments } from '@/lib/comment-store';
+import { postDueReplies } from '@/lib/reply-queue';
+
+const WATCHLIST_INTERVAL_MS = Number(process.env.WATCHLIST_RUN_HOURS || 24) * 60 * 60 * 1000;
+const ALERT_SYNC_INTERVAL_MS = Number(process.env.ALERT_SYNC_MINUTES || 60) * 60 * 1000;
+const SCHEDULED_REPLY_INTERVAL_MS = Number(process.env.SCHEDULED_REPLY_CHECK_MINUTES || 1) * 60 * 1000;
+
+// Newest comments scored per alerted video each pass; rules only look at recent windows
+const ALERT_SYNC_COMMENTS = 100;
+
+/**
+ * Sync and score the newest comments of every video with an alert rule.
+ * Scoring re-evaluates the video's rules, so this is what makes alerts fire between page visits.
+ */
+async function syncAlertedVideos(): Promise<number> {
+  const videoIds = await getAlertedVideoIds();
+  for (const videoId of videoIds) {
+    try {
+      const { comments } = await syncVideoComments(videoId);
+      const newest = selectStoredComments(comments, { order: 'time', limit: ALERT_SYNC_COMMENTS });
+      await scoreStoredComments(videoId, newest.map(comment => comment.id));
+    } catch (error) {
+      console.error(`❌ Alert sync failed for video ${videoId}:`, error);
+    }
+  }
+  return videoIds.length;
+}
+
+/**
+ * Register every background job and start the scheduler
+ */
+export function startBackgroundJobs(): void {
+  registerJob('stats-snapshots', SNAPSHOT_INTERVAL_MS, async () => {
+    const result = await captureTrackedSnapshots();
+    console.log(`📸 Snapshots: ${result.captured} captured, ${result.skipped} skipped, ${result.expired} expired`);
+  });
+
+  registerJob('watchlist-runs', WATCHLIST_INTERVAL_MS, async () => {
+    // Items refreshed by hand since the last tick are not run again
+    const users = await runAllWatchlists(WATCHLIST_INTERVAL_MS * 0.8);
+    console.log(`👀 Watchlists refreshed for ${users} user(s)`);
+  });
+
+  registerJob('alert-sync', ALERT_SYNC_INTERVAL_MS, async () => {
+    const videos = await syncAlertedVideos();
+    console.log(`🚨 Alert rules checked for ${videos} video(s)`);
+  });
+
+  registerJob('scheduled-replies', SCHEDULED_REPLY_INTERVAL_MS, async () => {
+    const posted = await postDueReplies();
+    if (posted > 0) {
+      console.log(`🕒 Posted ${posted} scheduled repl${posted === 1 ? 'y' : 'ies'}`);
+    }
+  });
+
+  startScheduler();
+}
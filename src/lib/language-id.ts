@@ -0,0 +1,269 @@
+// Comment language identification: Unicode script first, then character trigram and word models
+// trained on short comment-style samples to separate languages that share a script
+
+export interface LanguageIdResult {
+  language: string; // ISO 639-1 code
+  confidence: number; // 0-1, low for very short or mixed text
+  script: 'latin' | 'devanagari' | 'arabic' | 'cjk' | 'kana' | 'hangul' | 'cyrillic' | 'unknown';
+}
+
+export const LANGUAGE_NAMES: Record<string, string> = {
+  en: 'English',
+  es: 'Spanish',
+  pt: 'Portuguese',
+  fr: 'French',
+  de: 'German',
+  it: 'Italian',
+  hi: 'Hindi',
+  mr: 'Marathi',
+  ar: 'Arabic',
+  ru: 'Russian',
+  zh: 'Chinese',
+  ja: 'Japanese',
+  ko: 'Korean'
+};
+
+// Typical YouTube comments per language. The same sentences are translated in each so the
+// models learn the language rather than the topic.
+const TRAINING_TEXT: Record<string, string> = {
+  en: `thank you so much for this video it was really helpful and i learned a lot. this is the best tutorial
+    i have seen on the topic, please make more videos like this. what camera do you use and how long did it take
+    to edit? i love the way you explain things, keep up the great work. honestly the ending was a bit confusing
+    but the rest was amazing. can you do a video about the new update next week? i have been watching your channel
+    for years and it just keeps getting better. i do not understand why this happens, does anyone know how to fix it?
+    bro this is awesome, what a great video, so good`,
+  es: `muchas gracias por este video, me ayudó muchísimo y aprendí un montón. es el mejor tutorial que he visto
+    sobre el tema, por favor haz más videos así. qué cámara usas y cuánto tiempo te tomó editarlo? me encanta cómo
+    explicas las cosas, sigue así. la verdad el final fue un poco confuso pero lo demás estuvo increíble. puedes
+    hacer un video sobre la nueva actualización la próxima semana? llevo años viendo tu canal y cada vez es mejor.
+    no entiendo por qué pasa esto, alguien sabe cómo solucionarlo? hermano esto está genial, qué buen video, muy bueno`,
+  pt: `muito obrigado por esse vídeo, me ajudou demais e aprendi muita coisa. é o melhor tutorial que já vi sobre
+    o assunto, por favor faça mais vídeos assim. qual câmera você usa e quanto tempo levou para editar? adoro o
+    jeito que você explica as coisas, continue assim. sinceramente o final ficou um pouco confuso mas o resto estava
+    incrível. você pode fazer um vídeo sobre a nova atualização na próxima semana? acompanho seu canal há anos e
+    só melhora. não entendi por que isso acontece, alguém sabe como resolver? mano isso é demais, que vídeo bom,
+    muito bom, valeu`,
+  fr: `merci beaucoup pour cette vidéo, elle m'a vraiment aidé et j'ai appris plein de choses. c'est le meilleur
+    tutoriel que j'ai vu sur le sujet, s'il te plaît fais plus de vidéos comme ça. quelle caméra utilises-tu et
+    combien de temps as-tu mis pour le montage? j'adore ta façon d'expliquer les choses, continue comme ça.
+    honnêtement la fin était un peu confuse mais le reste était génial. tu peux faire une vidéo sur la nouvelle
+    mise à jour la semaine prochaine? je regarde ta chaîne depuis des années et c'est de mieux en mieux. je ne
+    comprends pas pourquoi ça arrive, quelqu'un sait comment le résoudre? frère c'est trop bien, quelle bonne vidéo`,
+  de: `vielen dank für dieses video, es hat mir wirklich geholfen und ich habe viel gelernt. das ist das beste
+    tutorial, das ich zu dem thema gesehen habe, bitte mach mehr videos wie dieses. welche kamera benutzt du und
+    wie lange hat der schnitt gedauert? ich liebe, wie du die dinge erklärst, mach weiter so. ehrlich gesagt war
+    das ende etwas verwirrend, aber der rest war super. kannst du nächste woche ein video über das neue update
+    machen? ich schaue deinen kanal schon seit jahren und er wird immer besser. ich verstehe nicht, warum das
+    passiert, weiß jemand, wie man das löst? bruder das ist der hammer, was für ein gutes video, sehr gut`,
+  it: `grazie mille per questo video, mi ha aiutato davvero tanto e ho imparato molto. è il miglior tutorial che
+    ho visto sull'argomento, per favore fai altri video così. che fotocamera usi e quanto tempo ci hai messo a
+    montarlo? adoro il modo in cui spieghi le cose, continua così. sinceramente il finale era un po' confuso ma il
+    resto era fantastico. puoi fare un video sul nuovo aggiornamento la prossima settimana? seguo il tuo canale da
+    anni e migliora sempre. non capisco perché succede questo, qualcuno sa come risolverlo? fratello questo è
+    fantastico, che bel video, molto bello`,
+  hi: `इस वीडियो के लिए बहुत बहुत धन्यवाद, इससे मुझे सच में बहुत मदद मिली और मैंने बहुत कुछ सीखा। इस विषय पर यह
+    सबसे अच्छा ट्यूटोरियल है जो मैंने देखा है, कृपया ऐसे और वीडियो बनाइए। आप कौन सा कैमरा इस्तेमाल करते हैं और एडिट
+    करने में कितना समय लगा? मुझे आपका समझाने का तरीका बहुत पसंद है, ऐसे ही काम करते रहिए। सच कहूं तो आखिरी हिस्सा
+    थोड़ा उलझा हुआ था लेकिन बाकी सब शानदार था। क्या आप अगले हफ्ते नए अपडेट पर वीडियो बना सकते हैं? मैं सालों से
+    आपका चैनल देख रहा हूं और यह हमेशा बेहतर होता जा रहा है। मुझे समझ नहीं आ रहा कि ऐसा क्यों होता है, क्या किसी
+    को पता है इसे कैसे ठीक करें? भाई मजा आ गया, क्या बात है, बहुत अच्छा वीडियो है`,
+  mr: `या व्हिडिओसाठी खूप खूप धन्यवाद, यामुळे मला खरंच खूप मदत झाली आणि मी बरंच काही शिकलो. या विषयावरचा हा मी
+    पाहिलेला सर्वात चांगला ट्युटोरियल आहे, कृपया असे आणखी व्हिडिओ बनवा. तुम्ही कोणता कॅमेरा वापरता आणि एडिट
+    करायला किती वेळ लागला? तुमची समजावून सांगण्याची पद्धत मला खूप आवडते, असंच काम करत राहा. खरं सांगायचं तर
+    शेवटचा भाग थोडा गोंधळात टाकणारा होता पण बाकी सगळं छान होतं. पुढच्या आठवड्यात नवीन अपडेटवर व्हिडिओ बनवू शकाल
+    का? मी वर्षानुवर्षे तुमचं चॅनेल बघतोय आणि ते नेहमी अजून चांगलं होत आहे. हे असं का होतं ते मला कळत नाही,
+    कोणाला माहिती आहे का हे कसं दुरुस्त करायचं? भाऊ मस्त झाला व्हिडिओ, एकदम भारी, खूप छान आहे`
+};
+
+// Hindi and Marathi comments are very often typed in Latin script ("accha nahi hai"). These train
+// separate models that compete with the Latin-script languages and report as hi / mr.
+const ROMANIZED_TRAINING_TEXT: Record<string, string> = {
+  hi: `is video ke liye bahut bahut dhanyavad, isse mujhe sach mein bahut madad mili aur maine bahut kuch seekha.
+    is topic par yeh sabse accha tutorial hai jo maine dekha hai, please aise aur video banao. aap kaun sa camera use
+    karte ho aur edit karne mein kitna time laga? mujhe aapka samjhane ka tarika bahut pasand hai, aise hi kaam karte
+    raho. sach kahun to last wala part thoda confusing tha lekin baaki sab shandaar tha. kya aap agle hafte naye update
+    par video bana sakte ho? main saalon se aapka channel dekh raha hoon aur yeh hamesha better hota ja raha hai. mujhe
+    samajh nahi aa raha ki aisa kyun hota hai, kya kisi ko pata hai ise kaise theek karein? bhai maza aa gaya, kya baat
+    hai, bahut accha video hai yaar, ekdum bakwas nahi hai`,
+  mr: `ya video sathi khup khup dhanyavad, yamule mala khara khup madat jhali ani mi barach kahi shiklo. ya vishayavarcha
+    ha mi pahilela sarvat changla tutorial aahe, krupaya ase ankhi video banva. tumhi konta camera vaparta ani edit
+    karayla kiti vel lagla? tumchi samjavun sangnyachi paddhat mala khup aavadte, asach kaam karat raha. khara
+    sangaycha tar shevatcha bhag thoda gondhalat taknara hota pan baki sagla chan hota. pudhchya aathvadyat navin
+    update var video banvu shakal ka? mi varshanuvarshe tumcha channel baghtoy ani te nehmi ajun changla hot aahe.
+    he asa ka hota te mala kalat nahi, konala mahiti aahe ka he kasa durust karaycha? bhau mast jhala video, ekdam
+    bhari, khup chan aahe`
+};
+
+// Short, frequent words that almost never occur in the other languages of the same script.
+// They decide one- and two-word comments where trigram evidence is thin.
+const MARKER_WORDS: Record<string, string[]> = {
+  en: ['the', 'and', 'thanks', 'thank', 'you', 'this', 'awesome', 'great', 'what', 'love'],
+  es: ['gracias', 'pero', 'muy', 'también', 'hermano', 'bueno', 'qué', 'cómo', 'usted', 'mucho', 'hola'],
+  pt: ['obrigado', 'obrigada', 'não', 'muito', 'você', 'também', 'valeu', 'mano', 'legal', 'demais', 'olá'],
+  fr: ['merci', 'très', "c'est", 'beaucoup', 'avec', 'ça', 'vous', 'bonjour'],
+  de: ['danke', 'nicht', 'ich', 'sehr', 'und', 'auch', 'hallo', 'schön'],
+  it: ['grazie', 'molto', 'questo', 'perché', 'bello', 'anche', 'ciao', 'sono'],
+  hi: ['है', 'हैं', 'नहीं', 'बहुत', 'अच्छा', 'आप', 'क्या', 'में', 'था', 'मुझे', 'और'],
+  mr: ['आहे', 'आहेत', 'नाही', 'खूप', 'छान', 'मस्त', 'तुम्ही', 'आणि', 'झाला', 'मला', 'भारी', 'होतं'],
+  'hi-latn': ['hai', 'hain', 'bahut', 'accha', 'achha', 'acha', 'kya', 'mujhe', 'yaar', 'bhai', 'aur', 'nahin'],
+  'mr-latn': ['aahe', 'ahe', 'khup', 'chan', 'chhan', 'ani', 'mala', 'tumhi', 'jhala', 'zhala', 'bhau', 'nako']
+};
+
+// Tie-breaker towards the language most comments in that script are written in
+const LANGUAGE_PRIOR: Record<string, number> = { en: 1.5, hi: 1 };
+
+// Below this confidence the guess is noise ("nice video" scoring as German), so callers that pick a
+// lexicon or store the language get the script's default language instead
+const MIN_DETECTION_CONFIDENCE = 0.5;
+const SCRIPT_DEFAULT_LANGUAGE: Partial<Record<LanguageIdResult['script'], string>> = { latin: 'en', devanagari: 'hi' };
+
+const MARKER_BONUS = 4; // log-likelihood points per marker word
+const WORD_WEIGHT = 0.5;
+const SMOOTHING = 0.5;
+
+interface LanguageModel {
+  trigrams: Map<string, number>;
+  trigramTotal: number;
+  words: Map<string, number>;
+  wordTotal: number;
+  markers: Set<string>;
+}
+
+const SCRIPT_CANDIDATES: Record<string, string[]> = {
+  latin: ['en', 'es', 'pt', 'fr', 'de', 'it', 'hi-latn', 'mr-latn'],
+  devanagari: ['hi', 'mr']
+};
+
+const wordsOf = (text: string): string[] =>
+  text.toLowerCase().match(/[\p{L}\p{M}']+/gu) || [];
+
+function trigramsOf(words: string[]): string[] {
+  const grams: string[] = [];
+  for (const word of words) {
+    const padded = ` ${word} `;
+    const letters = Array.from(padded); // code points, so Devanagari combining marks stay intact
+    for (let i = 0; i + 3 <= letters.length; i++) {
+      grams.push(letters.slice(i, i + 3).join(''));
+    }
+  }
+  return grams;
+}
+
+function countAll(values: string[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const value of values) {
+    counts.set(value, (counts.get(value) || 0) + 1);
+  }
+  return counts;
+}
+
+// Model keys: language codes, plus "<code>-latn" for romanized text
+const languageOfModel = (key: string): string => key.split('-')[0];
+
+const MODELS: Record<string, LanguageModel> = Object.fromEntries(
+  [
+    ...Object.entries(TRAINING_TEXT),
+    ...Object.entries(ROMANIZED_TRAINING_TEXT).map(([language, text]) => [`${language}-latn`, text])
+  ].map(([language, text]) => {
+    const words = wordsOf(text);
+    const trigrams = trigramsOf(words);
+    return [language, {
+      trigrams: countAll(trigrams),
+      trigramTotal: trigrams.length,
+      words: countAll(words),
+      wordTotal: words.length,
+      markers: new Set(MARKER_WORDS[language] || [])
+    }];
+  })
+);
+
+/**
+ * Dominant writing system of the text, by letter count
+ */
+function detectScript(text: string): LanguageIdResult['script'] {
+  const counts: Record<Exclude<LanguageIdResult['script'], 'unknown'>, number> = {
+    latin: (text.match(/\p{Script=Latin}/gu) || []).length,
+    devanagari: (text.match(/\p{Script=Devanagari}/gu) || []).length,
+    arabic: (text.match(/\p{Script=Arabic}/gu) || []).length,
+    cjk: (text.match(/\p{Script=Han}/gu) || []).length,
+    kana: (text.match(/[\p{Script=Hiragana}\p{Script=Katakana}]/gu) || []).length,
+    hangul: (text.match(/\p{Script=Hangul}/gu) || []).length,
+    cyrillic: (text.match(/\p{Script=Cyrillic}/gu) || []).length
+  };
+
+  // Japanese mixes kanji with kana; any kana at all means Japanese rather than Chinese
+  if (counts.kana > 0 && counts.kana + counts.cjk >= counts.latin) {
+    return 'kana';
+  }
+
+  const [script, count] = Object.entries(counts).sort((a, b) => b[1] - a[1])[0];
+  return count > 0 ? script as LanguageIdResult['script'] : 'unknown';
+}
+
+/**
+ * Log-likelihood of the text under one language model
+ */
+function scoreLanguage(language: string, words: string[], trigrams: string[]): number {
+  const model = MODELS[language];
+  let score = LANGUAGE_PRIOR[language] || 0;
+  for (const gram of trigrams) {
+    score += Math.log(((model.trigrams.get(gram) || 0) + SMOOTHING) / (model.trigramTotal + SMOOTHING * 5000));
+  }
+  for (const word of words) {
+    score += WORD_WEIGHT * Math.log(((model.words.get(word) || 0) + SMOOTHING) / (model.wordTotal + SMOOTHING * 2000));
+    if (model.markers.has(word)) {
+      score += MARKER_BONUS;
+    }
+  }
+  return score;
+}
+
+/**
+ * Identify the language of a comment. Text with too few letters to judge comes back as
+ * English with zero confidence, matching the previous default.
+ */
+export function identifyLanguage(text: string): LanguageIdResult {
+  const plain = text.replace(/<[^>]*>/g, ' ').replace(/https?:\/\/\S+|@\S+/g, ' ');
+  const script = detectScript(plain);
+
+  const fixed: Partial<Record<LanguageIdResult['script'], string>> = {
+    arabic: 'ar', cjk: 'zh', kana: 'ja', hangul: 'ko', cyrillic: 'ru'
+  };
+  if (fixed[script]) {
+    return { language: fixed[script]!, confidence: 0.95, script };
+  }
+
+  const candidates = SCRIPT_CANDIDATES[script];
+  const words = wordsOf(plain);
+  const trigrams = trigramsOf(words);
+  if (!candidates || trigrams.length === 0) {
+    return { language: 'en', confidence: 0, script };
+  }
+
+  const scores = candidates.map(language => ({ language, score: scoreLanguage(language, words, trigrams) }));
+  scores.sort((a, b) => b.score - a.score);
+
+  // Softmax over log-likelihoods, damped for very short comments
+  const best = scores[0].score;
+  const total = scores.reduce((sum, entry) => sum + Math.exp(entry.score - best), 0);
+  const letters = words.join('').length;
+  const confidence = (1 / total) * Math.min(1, letters / 12);
+
+  return {
+    language: languageOfModel(scores[0].language),
+    confidence: Math.round(confidence * 100) / 100,
+    script
+  };
+}
+
+/**
+ * ISO 639-1 code of the comment's language. Low-confidence guesses fall back to the
+ * script's default language ('en' for Latin script or when undecidable).
+ */
+export function detectLanguage(text: string): string {
+  const { language, confidence, script } = identifyLanguage(text);
+  if (confidence > 0 && confidence < MIN_DETECTION_CONFIDENCE && SCRIPT_DEFAULT_LANGUAGE[script]) {
+    return SCRIPT_DEFAULT_LANGUAGE[script]!;
+  }
+  return language;
+}
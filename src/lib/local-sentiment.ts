@@ -0,0 +1,210 @@
+// Offline lexicon sentiment scoring (AFINN-165 via `sentiment` plus multilingual lexicons)
+import Sentiment from 'sentiment';
+import englishLabels from 'sentiment/languages/en/labels.json';
+import englishNegators from 'sentiment/languages/en/negators.json';
+import { CommentCategory, CommentEmotion } from '@/types';
+
+interface LocalSentimentScore {
+  sentiment: 'positive' | 'negative' | 'neutral';
+  confidence: number;
+  score: number;
+  comparative: number;
+  positiveWords: string[];
+  negativeWords: string[];
+}
+
+// AFINN-style weights (-5..5). Romanized forms cover code-mixed comments written in Latin script.
+// Hindi and Marathi are verb-final, so the negator follows the word it negates ("accha nahi hai").
+const LEXICONS: Record<string, { labels: Record<string, number>; negators: string[]; negatorFollows?: boolean }> = {
+  hi: {
+    labels: {
+      'अच्छा': 3, 'अच्छी': 3, 'बढ़िया': 3, 'शानदार': 4, 'कमाल': 4, 'धन्यवाद': 2, 'शुक्रिया': 2,
+      'प्यार': 3, 'सुंदर': 3, 'मजा': 3, 'मज़ा': 3, 'बेहतरीन': 4, 'जबरदस्त': 4, 'उपयोगी': 2,
+      'बुरा': -3, 'बुरी': -3, 'खराब': -3, 'गंदा': -3, 'बकवास': -4, 'बेकार': -3, 'घटिया': -4,
+      'बोरिंग': -2, 'नफरत': -4, 'निराश': -2, 'गलत': -2,
+      accha: 3, achha: 3, acha: 3, badhiya: 3, badiya: 3, shandaar: 4, shandar: 4, kamaal: 4, kamal: 4,
+      dhanyavad: 2, shukriya: 2, pyaar: 3, mast: 3, zabardast: 4, jabardast: 4, behtareen: 4,
+      bekar: -3, bekaar: -3, bakwas: -4, bakwaas: -4, ghatiya: -4, kharab: -3, bura: -3, faltu: -3
+    },
+    negators: ['नहीं', 'ना', 'मत', 'nahi', 'nahin', 'na', 'mat'],
+    negatorFollows: true
+  },
+  mr: {
+    labels: {
+      'छान': 3, 'मस्त': 3, 'सुंदर': 3, 'भारी': 3, 'उत्तम': 4, 'अप्रतिम': 4, 'धन्यवाद': 2, 'आवडला': 3,
+      'आवडले': 3, 'आवडली': 3, 'खूप': 1, 'वाईट': -3, 'बेकार': -3, 'फालतू': -3, 'कंटाळवाणा': -2,
+      'चुकीचे': -2, 'निराशा': -2,
+      chan: 3, chhan: 3, mast: 3, khup: 1, bhari: 3, uttam: 4, apratim: 4, avadla: 3, aavadla: 3, vait: -3, faltu: -3
+    },
+    negators: ['नाही', 'नको', 'nahi', 'nako'],
+    negatorFollows: true
+  },
+  es: {
+    labels: {
+      bueno: 3, buena: 3, excelente: 4, genial: 3, increíble: 4, increible: 4, perfecto: 3, gracias: 2,
+      encanta: 3, encantó: 3, maravilloso: 4, útil: 2, util: 2, mejor: 2, hermoso: 3, feliz: 3,
+      malo: -3, mala: -3, terrible: -3, horrible: -3, odio: -4, aburrido: -2, peor: -3, basura: -4,
+      decepción: -2, decepcionante: -3, inútil: -2, triste: -2
+    },
+    negators: ['no', 'nunca', 'jamás', 'tampoco', 'ni']
+  },
+  pt: {
+    labels: {
+      bom: 3, boa: 3, ótimo: 4, otimo: 4, excelente: 4, incrível: 4, incrivel: 4, perfeito: 3,
+      obrigado: 2, obrigada: 2, adorei: 3, amei: 4, lindo: 3, maravilhoso: 4, legal: 2, útil: 2,
+      ruim: -3, péssimo: -4, pessimo: -4, horrível: -3, horrivel: -3, odeio: -4, chato: -2,
+      pior: -3, lixo: -4, decepcionante: -3, triste: -2
+    },
+    negators: ['não', 'nao', 'nunca', 'jamais', 'nem']
+  },
+  fr: {
+    labels: {
+      bien: 2, bon: 3, bonne: 3, excellent: 4, génial: 4, genial: 4, super: 3, merci: 2, parfait: 3,
+      incroyable: 4, magnifique: 4, adore: 3, utile: 2, top: 3,
+      mauvais: -3, mauvaise: -3, nul: -3, nulle: -3, horrible: -3, déteste: -4, deteste: -4,
+      ennuyeux: -2, pire: -3, décevant: -3, decevant: -3, triste: -2
+    },
+    negators: ['ne', 'pas', 'jamais', 'rien', 'aucun']
+  },
+  de: {
+    labels: {
+      gut: 3, toll: 3, super: 3, genial: 4, danke: 2, perfekt: 3, wunderbar: 4, hilfreich: 2,
+      liebe: 3, schön: 3, schoen: 3, klasse: 3, spitze: 4,
+      schlecht: -3, schrecklich: -3, furchtbar: -3, hasse: -4, langweilig: -2, schlimmer: -3,
+      enttäuschend: -3, enttaeuschend: -3, nutzlos: -2, traurig: -2, müll: -4, muell: -4
+    },
+    negators: ['nicht', 'kein', 'keine', 'nie', 'niemals']
+  }
+};
+
+const sentimentEngine = new Sentiment();
+
+// Check two tokens around the word so copula constructions ("no es bueno", "not really good") still negate
+const negationStrategy = (negators: Set<string>, negatorFollows = false) => ({
+  apply: (tokens: string[], cursor: number, tokenScore: number) => {
+    const window = tokens.slice(Math.max(0, cursor - 2), cursor);
+    if (negatorFollows) {
+      window.push(...tokens.slice(cursor + 1, cursor + 3));
+    }
+    return window.some(token => negators.has(token)) ? -tokenScore : tokenScore;
+  }
+});
+
+// Every language also carries the English lexicon, since YouTube comments are heavily code-mixed
+for (const [code, lexicon] of Object.entries(LEXICONS)) {
+  const labels: Record<string, number> = { ...englishLabels, ...lexicon.labels };
+  // Negators only flip polarity; AFINN scores "no" itself as negative
+  lexicon.negators.forEach(negator => delete labels[negator]);
+
+  sentimentEngine.registerLanguage(code, {
+    labels,
+    scoringStrategy: negationStrategy(new Set([...Object.keys(englishNegators), ...lexicon.negators]), lexicon.negatorFollows)
+  });
+}
+
+/**
+ * Languages with a dedicated offline lexicon (English is built in)
+ */
+export const LOCAL_SENTIMENT_LANGUAGES = ['en', ...Object.keys(LEXICONS)];
+
+/**
+ * Score text offline. Unknown languages are scored with the English lexicon,
+ * which still catches emoji and English words in mixed comments.
+ */
+export function scoreTextLocally(text: string, language: string = 'en'): LocalSentimentScore {
+  const code = LOCAL_SENTIMENT_LANGUAGES.includes(language) ? language : 'en';
+  const result = sentimentEngine.analyze(text, { language: code });
+
+  // A lone mild word should not flip polarity; require a net score beyond ±1
+  let sentiment: LocalSentimentScore['sentiment'] = 'neutral';
+  if (result.score > 1 || (result.score > 0 && result.negative.length === 0)) {
+    sentiment = 'positive';
+  } else if (result.score < -1 || (result.score < 0 && result.positive.length === 0)) {
+    sentiment = 'negative';
+  }
+
+  // Confidence grows with lexical evidence; lexicon hits are capped well below LLM certainty
+  const evidence = result.positive.length + result.negative.length;
+  const confidence = sentiment === 'neutral'
+    ? (evidence === 0 ? 0.6 : 0.45)
+    : Math.min(0.85, 0.55 + Math.abs(result.comparative) * 0.2 + evidence * 0.03);
+
+  return {
+    sentiment,
+    confidence: Math.round(confidence * 100) / 100,
+    score: result.score,
+    comparative: result.comparative,
+    positiveWords: result.positive,
+    negativeWords: result.negative
+  };
+}
+
+// Triage cues for the offline path; LLM providers return categories directly
+const CATEGORY_PATTERNS: Array<[CommentCategory, RegExp]> = [
+  ['spam', /\b(?:crypto|bitcoin|forex|investment|earn \$?\d+|make money|giveaway winner|whatsapp|telegram|dm me|click (?:the )?link|free (?:robux|v-?bucks|gift ?cards?))\b/i],
+  ['self-promo', /\b(?:(?:check out|visit|watch) my (?:channel|video|page)|sub(?:scribe)? to (?:me|my channel)|on my channel|sub 4 sub|sub4sub|follow me)\b/i],
+  ['toxicity', /\b(?:idiot|stupid|moron|dumb|loser|trash|garbage|shut up|stfu|clown|kys|fuck\w*|shit\w*|bitch\w*|bakwas|ghatiya)\b/i],
+  ['bug-report', /\b(?:(?:doesn'?t|does not|isn'?t|not) work(?:ing)?|broken|bug|error|crash(?:es|ed)?|glitch|audio (?:is )?(?:low|bad|out of sync)|can'?t hear|no sound|out of sync|link (?:is )?(?:broken|dead|not working)|404)\b/i],
+  ['feature-request', /\b(?:please (?:make|do|add|cover|upload)|can you (?:make|do|cover)|could you (?:make|do|cover)|make a (?:video|tutorial|part)|next video|part 2|video (?:on|about)|you should (?:make|do|try|cover)|would love (?:a|to see))\b/i],
+  ['question', /\?(?:\s|$)|^(?:how|what|why|when|where|which|who|can|could|does|do|is|are|should|kya|kaise|kyu|como|qu[eé]|por qu[eé])\b/i]
+];
+
+/**
+ * Offline triage categories for a comment, most relevant first. Praise comes from the
+ * lexicon score; anything unmatched is 'other'.
+ */
+export function categorizeTextLocally(text: string, score: Pick<LocalSentimentScore, 'sentiment'>): CommentCategory[] {
+  const categories = CATEGORY_PATTERNS
+    .filter(([, pattern]) => pattern.test(text.trim()))
+    .map(([category]) => category);
+
+  if (score.sentiment === 'positive' && !categories.some(category => category === 'spam' || category === 'toxicity')) {
+    categories.push('praise');
+  }
+  return categories.length > 0 ? categories.slice(0, 3) : ['other'];
+}
+
+// Emotion cues for the offline path; ordered so the more specific emotions come first
+const EMOTION_PATTERNS: Array<[CommentEmotion, RegExp]> = [
+  ['sarcasm', /(?:\/s\b|\byeah,? right\b|\bthanks for nothing\b|\bwhat a (?:surprise|shock)\b|\bsaid no one ever\b|🙄)/i],
+  ['gratitude', /\b(?:thanks?|thank you|thx|ty|grateful|appreciate[ds]?|dhanyavaad|dhanyawad|shukriya|gracias|merci|danke)\b|धन्यवाद|🙏/i],
+  ['excitement', /\b(?:can'?t wait|so excited|excited|hyped?|let'?s go+|omg|finally|woo+|yay+)\b|!{2,}|🔥|🚀|🤩/i],
+  ['confusion', /\b(?:confus(?:ed|ing)|don'?t (?:get|understand)|didn'?t (?:get|understand)|lost me|what do you mean|makes? no sense|unclear|huh)\b|\?{2,}|🤔|😕/i],
+  ['disappointment', /\b(?:disappoint(?:ed|ing)?|let ?down|expected (?:more|better)|used to be (?:good|better)|not (?:as good|worth)|meh|sad(?:ly)?|unfortunately)\b|😞|😔|😢/i],
+  ['anger', /\b(?:angry|furious|pissed|hate|disgusting|ridiculous|unacceptable|outrageous|wtf|how dare)\b|😡|🤬|😠/i],
+  ['joy', /\b(?:love[ds]?|loving|happy|glad|enjoy(?:ed)?|fun|delight(?:ed|ful)?|made my day|smil(?:e|ing)|mast|maza)\b|😂|🤣|😊|😄|😍|❤️?/i]
+];
+
+// "Oh great" and friends are just as often sincere, so they only read as sarcasm next to a negative cue
+const SARCASTIC_INTERJECTION = /\b(?:oh (?:great|wow|sure|nice)|sure,? because)\b/i;
+const COMPLAINT_CUE = /\b(?:another|again|(?:exactly|just) what (?:i|we) (?:needed|wanted)|longer than)\b/i;
+// "Great, another 20 minute intro": praise set off by a comma and aimed at one more of something
+const SARCASTIC_ANOTHER = /^\W*(?:oh,? )?(?:great|love it|love that|perfect|wonderful|fantastic|awesome|nice),\s*(?:yet )?another\b/i;
+
+/**
+ * Offline emotions for a comment, strongest cue first (at most 3). Joy and anger also follow
+ * strongly polar lexicon scores; sarcasm wins over the literal reading.
+ */
+export function detectEmotionsLocally(text: string, score: Pick<LocalSentimentScore, 'score'>): CommentEmotion[] {
+  const emotions = EMOTION_PATTERNS
+    .filter(([, pattern]) => pattern.test(text))
+    .map(([emotion]) => emotion);
+
+  const negativeCue = score.score < 0 || COMPLAINT_CUE.test(text) ||
+    emotions.some(emotion => emotion === 'disappointment' || emotion === 'anger');
+  if (!emotions.includes('sarcasm') && (SARCASTIC_ANOTHER.test(text) || (SARCASTIC_INTERJECTION.test(text) && negativeCue))) {
+    emotions.unshift('sarcasm');
+  }
+
+  if (emotions.includes('sarcasm')) {
+    const literal: CommentEmotion[] = ['joy', 'gratitude', 'sarcasm'];
+    return ['sarcasm' as const, ...emotions.filter(emotion => !literal.includes(emotion))].slice(0, 3);
+  }
+  if (emotions.length === 0 && score.score >= 4) {
+    emotions.push('joy');
+  }
+  if (emotions.length === 0 && score.score <= -4) {
+    emotions.push('anger');
+  }
+  return emotions.slice(0, 3);
+}
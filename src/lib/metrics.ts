@@ -1,5 +1,5 @@
 // Analytics and metrics calculation utilities
-import { VideoData, CommentData, SentimentAnalysis, AnalyticsData } from '@/types';
+import { VideoData, CommentData, SentimentAnalysis, AnalyticsData, SentimentTimeBucket, SentimentTimePoint, StatsSnapshot, GrowthRates, ThreadSentiment, EmotionDistribution } from '@/types';
 
 /**
  * Calculate engagement ratio (likes + comments) / views * 100
@@ -9,21 +9,63 @@ export function calculateEngagementRatio(video: VideoData): number {
   return ((video.likeCount + video.commentCount) / video.viewCount) * 100;
 }
 
+const HOUR_MS = 60 * 60 * 1000;
+
 /**
- * Calculate comment velocity (comments per hour since publish)
+ * Growth per hour over the most recent snapshot window, or the lifetime average when
+ * there is not yet at least an hour of snapshot history
  */
-export function calculateCommentVelocity(video: VideoData): number {
-  const now = new Date();
-  const published = new Date(video.publishedAt);
-  const hoursElapsed = Math.max(1, (now.getTime() - published.getTime()) / (1000 * 60 * 60));
-  
-  return Math.round(video.commentCount / hoursElapsed);
+export function calculateGrowthRates(
+  video: Pick<VideoData, 'publishedAt' | 'viewCount' | 'likeCount' | 'commentCount'>,
+  snapshots: StatsSnapshot[] = [],
+  windowHours: number = 24
+): GrowthRates {
+  const sorted = [...snapshots].sort((a, b) => a.capturedAt.localeCompare(b.capturedAt));
+  const latest = sorted[sorted.length - 1];
+
+  if (latest) {
+    const latestTime = new Date(latest.capturedAt).getTime();
+    const earliest = sorted.find(snapshot => latestTime - new Date(snapshot.capturedAt).getTime() <= windowHours * HOUR_MS);
+    const spanHours = earliest ? (latestTime - new Date(earliest.capturedAt).getTime()) / HOUR_MS : 0;
+
+    if (earliest && spanHours >= 1) {
+      const perHour = (field: 'viewCount' | 'likeCount' | 'commentCount') =>
+        Math.round((Math.max(0, latest[field] - earliest[field]) / spanHours) * 10) / 10;
+      return {
+        source: 'snapshots',
+        windowHours: Math.round(spanHours * 10) / 10,
+        viewsPerHour: perHour('viewCount'),
+        likesPerHour: perHour('likeCount'),
+        commentsPerHour: perHour('commentCount')
+      };
+    }
+  }
+
+  const hoursElapsed = Math.max(1, (Date.now() - new Date(video.publishedAt).getTime()) / HOUR_MS);
+  const lifetime = (count: number) => Math.round((count / hoursElapsed) * 10) / 10;
+  return {
+    source: 'lifetime',
+    windowHours: Math.round(hoursElapsed * 10) / 10,
+    viewsPerHour: lifetime(video.viewCount),
+    likesPerHour: lifetime(video.likeCount),
+    commentsPerHour: lifetime(video.commentCount)
+  };
 }
 
 /**
- * Calculate sentiment distribution from comments
+ * Calculate comment velocity (comments per hour, recent when snapshots exist, else since publish)
  */
-export function calculateSentimentAnalysis(comments: CommentData[]): SentimentAnalysis {
+export function calculateCommentVelocity(video: VideoData, snapshots: StatsSnapshot[] = []): number {
+  return calculateGrowthRates(video, snapshots).commentsPerHour;
+}
+
+/**
+ * Calculate sentiment distribution from comments. Suspected spam is left out unless includeSpam is set.
+ */
+export function calculateSentimentAnalysis(
+  comments: CommentData[],
+  options: { includeSpam?: boolean } = {}
+): SentimentAnalysis {
   const counts = {
     positive: 0,
     neutral: 0,
@@ -31,6 +73,9 @@ export function calculateSentimentAnalysis(comments: CommentData[]): SentimentAn
   };
 
   comments.forEach(comment => {
+    if (comment.spam?.isSpam && !options.includeSpam) {
+      return;
+    }
     if (comment.sentiment) {
       counts[comment.sentiment]++;
     }
@@ -44,6 +89,157 @@ export function calculateSentimentAnalysis(comments: CommentData[]): SentimentAn
   };
 }
 
+/**
+ * Count comments per emotion for a video. Like the sentiment totals, suspected spam is left out unless includeSpam is set.
+ */
+export function calculateEmotionDistribution(
+  comments: CommentData[],
+  options: { includeSpam?: boolean } = {}
+): EmotionDistribution {
+  const counts: EmotionDistribution = {
+    joy: 0,
+    gratitude: 0,
+    anger: 0,
+    confusion: 0,
+    disappointment: 0,
+    excitement: 0,
+    sarcasm: 0
+  };
+
+  comments.forEach(comment => {
+    if (comment.spam?.isSpam && !options.includeSpam) {
+      return;
+    }
+    new Set(comment.emotions || []).forEach(emotion => {
+      if (emotion in counts) {
+        counts[emotion]++;
+      }
+    });
+  });
+
+  return counts;
+}
+
+/**
+ * Sentiment of a reply thread. Controversy is high when the thread's polar messages are evenly
+ * split between positive and negative, and grows with the number of replies, so a single
+ * disagreeing reply does not read as a flame war.
+ */
+export function calculateThreadSentiment(parent: CommentData, replies: CommentData[]): ThreadSentiment {
+  const scoredReplies = replies.filter(reply => reply.sentiment && !reply.spam?.isSpam);
+  const counts = calculateSentimentAnalysis(scoredReplies);
+
+  let weighted = 0;
+  let weights = 0;
+  let positive = 0;
+  let negative = 0;
+  for (const comment of [parent, ...scoredReplies]) {
+    if (!comment.sentiment) continue;
+    const weight = Math.max(0.1, Math.min(1, comment.confidence ?? 0.5));
+    const polarity = comment.sentiment === 'positive' ? 1 : comment.sentiment === 'negative' ? -1 : 0;
+    weighted += polarity * weight;
+    weights += weight;
+    if (polarity > 0) positive++;
+    if (polarity < 0) negative++;
+  }
+
+  const messages = scoredReplies.length + (parent.sentiment ? 1 : 0);
+  const polar = positive + negative;
+  const balance = polar > 0 ? 1 - Math.abs(positive - negative) / polar : 0;
+  const polarShare = messages > 0 ? polar / messages : 0;
+  const volume = scoredReplies.length / (scoredReplies.length + 2);
+
+  return {
+    replyCount: scoredReplies.length,
+    positive: counts.positive,
+    neutral: counts.neutral,
+    negative: counts.negative,
+    netSentiment: weights > 0 ? Math.round((weighted / weights) * 1000) / 1000 : 0,
+    controversy: Math.round(balance * polarShare * volume * 100) / 100
+  };
+}
+
+/**
+ * Pick a bucket size from the span of comment timestamps (hours for launch-day spikes, weeks for old videos)
+ */
+export function chooseSentimentBucket(comments: CommentData[]): SentimentTimeBucket {
+  const times = comments
+    .map(comment => new Date(comment.publishedAt).getTime())
+    .filter(time => !isNaN(time));
+  if (times.length === 0) return 'day';
+
+  const spanDays = (Math.max(...times) - Math.min(...times)) / (1000 * 60 * 60 * 24);
+  if (spanDays <= 3) return 'hour';
+  if (spanDays <= 120) return 'day';
+  return 'week';
+}
+
+/**
+ * Start of the UTC hour, day or ISO week (Monday) containing a date
+ */
+function bucketStartOf(date: Date, bucket: SentimentTimeBucket): Date {
+  const start = new Date(date);
+  if (bucket === 'hour') {
+    start.setUTCMinutes(0, 0, 0);
+    return start;
+  }
+
+  start.setUTCHours(0, 0, 0, 0);
+  if (bucket === 'week') {
+    start.setUTCDate(start.getUTCDate() - ((start.getUTCDay() + 6) % 7));
+  }
+  return start;
+}
+
+/**
+ * Bucket analyzed comments by publish time and compute a confidence-weighted net sentiment.
+ * Each comment contributes +1/0/-1 scaled by its model confidence and the sum is averaged over
+ * the bucket's comment count, so low-confidence calls pull the line toward neutral. Suspected spam is skipped.
+ */
+export function calculateSentimentOverTime(
+  comments: CommentData[],
+  bucket: SentimentTimeBucket = 'day'
+): SentimentTimePoint[] {
+  const buckets = new Map<number, { weighted: number; weights: number; counts: SentimentAnalysis }>();
+
+  for (const comment of comments) {
+    if (!comment.sentiment || comment.spam?.isSpam) continue;
+    const published = new Date(comment.publishedAt);
+    if (isNaN(published.getTime())) continue;
+
+    const key = bucketStartOf(published, bucket).getTime();
+    const entry = buckets.get(key) || {
+      weighted: 0,
+      weights: 0,
+      counts: { positive: 0, neutral: 0, negative: 0, total: 0 }
+    };
+
+    const weight = Math.max(0.1, Math.min(1, comment.confidence ?? 0.5));
+    const polarity = comment.sentiment === 'positive' ? 1 : comment.sentiment === 'negative' ? -1 : 0;
+    entry.weighted += polarity * weight;
+    entry.weights += weight;
+    entry.counts[comment.sentiment]++;
+    entry.counts.total++;
+    buckets.set(key, entry);
+  }
+
+  return [...buckets.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([key, entry]) => {
+      const iso = new Date(key).toISOString();
+      return {
+        date: bucket === 'hour' ? `${iso.slice(0, 10)} ${iso.slice(11, 16)}` : iso.slice(0, 10),
+        bucketStart: iso,
+        sentiment_score: Math.round((entry.weighted / entry.counts.total) * 1000) / 1000,
+        positive: entry.counts.positive,
+        neutral: entry.counts.neutral,
+        negative: entry.counts.negative,
+        total: entry.counts.total,
+        averageConfidence: Math.round((entry.weights / entry.counts.total) * 100) / 100
+      };
+    });
+}
+
 /**
  * Derive best posting hour heuristic from video publish time
  */
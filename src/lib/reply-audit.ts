@@ -0,0 +1,128 @@
+// Audit log of every reply SentimentTrack posted to YouTube, with retraction
+import { randomUUID } from 'crypto';
+import { ReplyAuditEntry } from '@/types';
+import { YouTubeService, type GoogleApiError } from '@/lib/youtube-service';
+import { readStore, updateStore } from '@/lib/storage';
+import { cleanText, type GeneratedReply } from '@/lib/ai-services-pro';
+
+interface ReplyAuditStore {
+  users: Record<string, ReplyAuditEntry[]>;
+}
+
+// Previewed drafts, so the audit records the prompt the server sent rather than one the client claims
+interface ReplyDraftRecord extends GeneratedReply {
+  createdAt: string;
+}
+
+interface ReplyDraftStore {
+  users: Record<string, ReplyDraftRecord[]>;
+}
+
+const STORE = 'reply-audit';
+const MAX_ENTRIES = 2000;
+const DRAFT_STORE = 'reply-drafts';
+const MAX_DRAFTS = 50;
+const DRAFT_TTL_MS = 24 * 60 * 60 * 1000;
+
+const emptyStore = (): ReplyAuditStore => ({ users: {} });
+const emptyDraftStore = (): ReplyDraftStore => ({ users: {} });
+
+const isFreshDraft = (draft: ReplyDraftRecord): boolean =>
+  Date.now() - new Date(draft.createdAt).getTime() < DRAFT_TTL_MS;
+
+/**
+ * Remember a draft generated for a user's preview, newest first
+ */
+export async function rememberReplyDraft(userId: string, draft: GeneratedReply): Promise<void> {
+  await updateStore<ReplyDraftStore>(DRAFT_STORE, emptyDraftStore(), store => {
+    const drafts = (store.users[userId] || []).filter(isFreshDraft);
+    drafts.unshift({ ...draft, text: cleanText(draft.text), createdAt: new Date().toISOString() });
+    store.users[userId] = drafts.slice(0, MAX_DRAFTS);
+  });
+}
+
+/**
+ * The model and prompt behind a previewed draft, or null when the server never generated that text
+ */
+export async function findReplyDraft(userId: string, text: string): Promise<GeneratedReply | null> {
+  const store = await readStore(DRAFT_STORE, emptyDraftStore());
+  const cleaned = cleanText(text);
+  const draft = (store.users[userId] || []).find(item => item.text === cleaned && isFreshDraft(item));
+  return draft ? { text: draft.text, model: draft.model, prompt: draft.prompt } : null;
+}
+
+/**
+ * Record a reply that was just posted, newest first
+ */
+export async function recordPostedReply(
+  userId: string,
+  entry: Omit<ReplyAuditEntry, 'id' | 'userId' | 'postedAt'>
+): Promise<ReplyAuditEntry> {
+  const recorded: ReplyAuditEntry = {
+    id: randomUUID(),
+    userId,
+    ...entry,
+    postedAt: new Date().toISOString()
+  };
+
+  await updateStore<ReplyAuditStore>(STORE, emptyStore(), store => {
+    const entries = store.users[userId] ??= [];
+    entries.unshift(recorded);
+    entries.splice(MAX_ENTRIES);
+  });
+
+  console.log(`🧾 Audit: reply ${entry.replyId} posted to comment ${entry.commentId} (${entry.source})`);
+  return recorded;
+}
+
+/**
+ * A user's posted replies, newest first
+ */
+export async function listReplyAudit(
+  userId: string,
+  options: { videoId?: string; limit?: number } = {}
+): Promise<ReplyAuditEntry[]> {
+  const store = await readStore(STORE, emptyStore());
+  return (store.users[userId] || [])
+    .filter(entry => !options.videoId || entry.videoId === options.videoId)
+    .slice(0, options.limit ?? 100);
+}
+
+/**
+ * Delete a posted reply from YouTube and mark the audit entry as retracted.
+ * A reply already gone from YouTube is treated as deleted.
+ */
+export async function retractReply(
+  userId: string,
+  id: string,
+  accessToken: string,
+  deletedBy: string
+): Promise<ReplyAuditEntry | 'not-found' | 'already-deleted'> {
+  const store = await readStore(STORE, emptyStore());
+  const entry = (store.users[userId] || []).find(item => item.id === id);
+  if (!entry) {
+    return 'not-found';
+  }
+  if (entry.deletedAt) {
+    return 'already-deleted';
+  }
+
+  try {
+    await new YouTubeService(accessToken).deleteComment(entry.replyId);
+  } catch (error) {
+    if ((error as GoogleApiError | undefined)?.response?.status !== 404) {
+      throw error;
+    }
+    console.log(`🧾 Reply ${entry.replyId} was already removed from YouTube`);
+  }
+
+  return updateStore<ReplyAuditStore, ReplyAuditEntry | 'not-found'>(STORE, emptyStore(), data => {
+    const current = (data.users[userId] || []).find(item => item.id === id);
+    if (!current) {
+      return 'not-found';
+    }
+    current.deletedAt = new Date().toISOString();
+    current.deletedBy = deletedBy;
+    return { ...current };
+  });
+}
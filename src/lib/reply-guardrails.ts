@@ -0,0 +1,274 @@
+// Safety checks run on every reply before it is published under the creator's name
+import { randomUUID } from 'crypto';
+import { GuardrailIssue, GuardrailLogEntry, GuardrailResult } from '@/types';
+import { scoreTextLocally } from '@/lib/local-sentiment';
+import { readStore, updateStore } from '@/lib/storage';
+
+export interface ReplyGuardrailContext {
+  commentText: string;
+  videoTitle: string;
+  videoDescription?: string;
+  transcript?: string;
+}
+
+interface GuardrailLogStore {
+  users: Record<string, GuardrailLogEntry[]>;
+}
+
+const STORE = 'reply-guardrails';
+const MAX_LOG_ENTRIES = 500;
+
+const URL_PATTERN = /\b(?:https?:\/\/|www\.)[^\s<>"]+|\b[a-z0-9-]+(?:\.[a-z0-9-]+)*\.(?:com|net|org|io|co|me|ly|gg|tv|app|link|xyz|info|in|shop|store)\b(?:\/[^\s<>"]*)?/gi;
+const EMAIL_PATTERN = /\b[\w.+-]+@[\w-]+\.[\w.-]+\b/g;
+const PHONE_PATTERN = /(?:\+?\d[\d\s().-]{7,}\d)/g;
+const ADDRESS_PATTERN = /\b\d{1,5}\s+(?:[a-z]+\s){1,3}(?:street|st|avenue|ave|road|rd|lane|ln|boulevard|blvd|drive|dr)\b/i;
+const CONTACT_PATTERN = /\b(?:whatsapp|telegram|signal|snapchat|text me|call me|dm me at|message me at)\b/i;
+
+const FUTURE_ACTION_PATTERN = /\b(?:i|we)\s*(?:will|'ll|’ll|am going to|'m going to|’m going to|are going to|shall)\s+(?:definitely\s+|totally\s+|soon\s+)?(?:send|give|gift|pay|refund|ship|make|do|post|upload|release|add|fix|cover|reply|dm|message|feature|shout|follow|sub|subscribe)\b/i;
+const PROMISE_PATTERN = /\b(?:i|we)\s+promise\b|\bguarantee[ds]?\b|\bfor sure\b.*\b(?:next|tomorrow)\b/i;
+const MONEY_PATTERN = /\b(?:giveaway|free (?:copy|copies|gift|merch|product|course|access)|refund|discount code|coupon|paypal|venmo|cash ?app|gift card)\b/i;
+
+// Insults aimed at the commenter are never acceptable. Insulting words alone only need a second
+// look, since supportive replies use them too ("you're not stupid at all", "don't feel dumb").
+const INSULT_WORDS = /\b(?:idiot|stupid|moron|dumb(?:ass)?|loser|pathetic|clown|shut up|stfu|you suck|kys|kill yourself|get lost|nobody asked|retard(?:ed)?)\b/i;
+const DIRECTED_INSULTS = [
+  /\byou(?:'re|’re|\s+are|\s+r)?\s+(?:(?:such|so|a|an|really|just|total|complete|absolute|fucking)\s+)*(?:idiot|stupid|moron|dumb(?:ass)?|loser|pathetic|clown|retard(?:ed)?)\b/gi,
+  /\b(?:you suck|shut up|stfu|kys|kill yourself|get lost)\b/gi
+];
+const NEGATION_BEFORE = /\b(?:not|never|don'?t|don’t|no need to|nobody should|no one should)\s+(?:\S+\s+){0,2}$/i;
+const PROFANITY = /\b(?:fuck\w*|shit\w*|bitch\w*|asshole|bastard|wtf|damn)\b/i;
+const STRONGLY_NEGATIVE_SCORE = -4;
+
+// Phrases where the reply asserts something about the video itself
+const VIDEO_CLAIM_PATTERN = /\b(?:in (?:the|this|my) video|i (?:cover|covered|mention|mentioned|show|showed|explain|explained|talk about|talked about|discuss|discussed|go over|went over)|in part \d+|in the (?:next|last|previous) (?:video|episode)|later in the video)\b/i;
+const TIMESTAMP_PATTERN = /\b\d{1,2}:\d{2}\b|\b\d+\s*(?:minute|min)\s*mark\b/i;
+const DESCRIPTION_REFERENCE_PATTERN = /\b(?:link|links|details|info)\s+(?:is |are )?(?:in|below|down)\b.*\b(?:description|below)\b|\b(?:in|check) the description\b/i;
+const NOT_SPONSORED_PATTERN = /\b(?:not sponsored|no sponsors?|isn'?t sponsored|wasn'?t sponsored|nobody (?:paid|sponsored))\b/i;
+const SPONSOR_PATTERN = /\b(?:sponsored by|sponsor(?:ed)?|paid promotion|partnered with|#ad)\b/i;
+const PRICE_PATTERN = /[$€£₹]\s?\d[\d,.]*/g;
+
+const STOPWORDS = new Set([
+  'about', 'after', 'again', 'also', 'because', 'been', 'before', 'being', 'could', 'does', 'doing', 'from',
+  'have', 'here', 'just', 'like', 'more', 'much', 'really', 'should', 'some', 'that', 'thanks', 'thank', 'their',
+  'them', 'then', 'there', 'these', 'they', 'thing', 'things', 'this', 'those', 'video', 'videos', 'what', 'when',
+  'where', 'which', 'while', 'will', 'with', 'would', 'your', 'yours', 'cover', 'covered', 'mention', 'mentioned',
+  'show', 'showed', 'explain', 'explained', 'talk', 'talked', 'discuss', 'discussed', 'part', 'next', 'last',
+  'later', 'glad', 'great', 'question', 'watching', 'appreciate', 'awesome', 'love', 'enjoyed', 'comment'
+]);
+
+const emptyLog = (): GuardrailLogStore => ({ users: {} });
+
+const plain = (text: string): string => text.replace(/<[^>]*>/g, ' ').replace(/&amp;/g, '&');
+
+const domainOf = (url: string): string =>
+  url.replace(/^https?:\/\//i, '').replace(/^www\./i, '').split(/[/?#]/)[0].toLowerCase();
+
+/**
+ * Links in the reply. Ones the creator already put in the description are only flagged.
+ */
+function checkLinks(reply: string, context: ReplyGuardrailContext): GuardrailIssue[] {
+  const description = plain(context.videoDescription || '').toLowerCase();
+  const withoutEmails = reply.replace(EMAIL_PATTERN, ' ');
+  return (withoutEmails.match(URL_PATTERN) || []).map((url): GuardrailIssue => {
+    const domain = domainOf(url);
+    return description.includes(domain)
+      ? { check: 'link', severity: 'flag', message: `Links to ${domain}, which is also in the video description`, excerpt: url }
+      : { check: 'link', severity: 'block', message: `Contains a link to ${domain} that is not in the video description`, excerpt: url };
+  });
+}
+
+/**
+ * Contact details and other personal data that should never appear in a public reply
+ */
+function checkPersonalData(reply: string): GuardrailIssue[] {
+  const issues: GuardrailIssue[] = [];
+  for (const email of reply.match(EMAIL_PATTERN) || []) {
+    issues.push({ check: 'personal-data', severity: 'block', message: 'Contains an email address', excerpt: email });
+  }
+  for (const phone of reply.match(PHONE_PATTERN) || []) {
+    // Years, view counts and timestamps are short; phone numbers have at least 9 digits
+    if (phone.replace(/\D/g, '').length >= 9) {
+      issues.push({ check: 'personal-data', severity: 'block', message: 'Contains a phone number', excerpt: phone.trim() });
+    }
+  }
+  const address = reply.match(ADDRESS_PATTERN);
+  if (address) {
+    issues.push({ check: 'personal-data', severity: 'block', message: 'Contains a street address', excerpt: address[0] });
+  }
+  const contact = reply.match(CONTACT_PATTERN);
+  if (contact) {
+    issues.push({ check: 'personal-data', severity: 'flag', message: 'Moves the conversation to a private channel', excerpt: contact[0] });
+  }
+  return issues;
+}
+
+/**
+ * Commitments made on the creator's behalf
+ */
+function checkPromises(reply: string): GuardrailIssue[] {
+  const issues: GuardrailIssue[] = [];
+  const money = reply.match(MONEY_PATTERN);
+  if (money) {
+    issues.push({ check: 'promise', severity: 'block', message: 'Offers money, gifts, discounts or refunds', excerpt: money[0] });
+  }
+  const future = reply.match(FUTURE_ACTION_PATTERN) || reply.match(PROMISE_PATTERN);
+  if (future) {
+    issues.push({ check: 'promise', severity: 'flag', message: 'Commits the creator to a future action', excerpt: future[0] });
+  }
+  return issues;
+}
+
+/**
+ * Insults, profanity and replies that read as hostile
+ */
+function checkToxicity(reply: string): GuardrailIssue[] {
+  const directed = DIRECTED_INSULTS
+    .flatMap(pattern => [...reply.matchAll(pattern)])
+    .find(match => !NEGATION_BEFORE.test(reply.slice(0, match.index)));
+  if (directed) {
+    return [{ check: 'toxicity', severity: 'block', message: 'Insults the commenter', excerpt: directed[0] }];
+  }
+
+  const issues: GuardrailIssue[] = [];
+  const insult = reply.match(INSULT_WORDS);
+  if (insult) {
+    issues.push({ check: 'toxicity', severity: 'flag', message: 'Uses insulting words; make sure they are not aimed at the commenter', excerpt: insult[0] });
+  }
+  const profanity = reply.match(PROFANITY);
+  if (profanity) {
+    issues.push({ check: 'toxicity', severity: 'flag', message: 'Contains profanity', excerpt: profanity[0] });
+  }
+  const score = scoreTextLocally(reply);
+  if (score.score <= STRONGLY_NEGATIVE_SCORE) {
+    issues.push({
+      check: 'toxicity',
+      severity: 'flag',
+      message: 'Reads as strongly negative',
+      excerpt: score.negativeWords.slice(0, 3).join(', ')
+    });
+  }
+  return issues;
+}
+
+/**
+ * Claims about the video that nothing in its title, description or transcript backs up
+ */
+function checkOffTopicClaims(reply: string, context: ReplyGuardrailContext): GuardrailIssue[] {
+  const issues: GuardrailIssue[] = [];
+
+  const timestamp = reply.match(TIMESTAMP_PATTERN);
+  if (timestamp) {
+    issues.push({ check: 'off-topic', severity: 'flag', message: 'Points to a moment in the video that could not be verified', excerpt: timestamp[0] });
+  }
+
+  const claim = reply.match(VIDEO_CLAIM_PATTERN);
+  if (claim) {
+    const known = plain([context.videoTitle, context.videoDescription, context.transcript, context.commentText].join(' ')).toLowerCase();
+    const terms = [...new Set(
+      (reply.toLowerCase().match(/\p{L}[\p{L}\p{N}'-]{3,}/gu) || []).filter(word => !STOPWORDS.has(word))
+    )];
+    const unknown = terms.filter(word => !known.includes(word));
+    if (unknown.length >= 2 && unknown.length * 2 >= terms.length) {
+      issues.push({
+        check: 'off-topic',
+        severity: 'flag',
+        message: 'Describes video content not found in the title, description or transcript',
+        excerpt: unknown.slice(0, 4).join(', ')
+      });
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Statements that the video description says otherwise about
+ */
+function checkContradictions(reply: string, context: ReplyGuardrailContext): GuardrailIssue[] {
+  const description = plain(context.videoDescription || '');
+  const issues: GuardrailIssue[] = [];
+
+  const reference = reply.match(DESCRIPTION_REFERENCE_PATTERN);
+  if (reference && !description.match(URL_PATTERN)) {
+    issues.push({ check: 'contradiction', severity: 'flag', message: 'Points to the description, but the description has no links', excerpt: reference[0] });
+  }
+
+  const notSponsored = reply.match(NOT_SPONSORED_PATTERN);
+  if (notSponsored && SPONSOR_PATTERN.test(description)) {
+    issues.push({ check: 'contradiction', severity: 'flag', message: 'Denies a sponsorship the description discloses', excerpt: notSponsored[0] });
+  } else if (!notSponsored && /\bsponsored by\b/i.test(reply) && !SPONSOR_PATTERN.test(description)) {
+    issues.push({ check: 'contradiction', severity: 'flag', message: 'Mentions a sponsor the description does not disclose', excerpt: 'sponsored by' });
+  }
+
+  const descriptionPrices = (description.match(PRICE_PATTERN) || []).map(price => price.replace(/\s/g, ''));
+  for (const price of reply.match(PRICE_PATTERN) || []) {
+    if (descriptionPrices.length > 0 && !descriptionPrices.includes(price.replace(/\s/g, ''))) {
+      issues.push({ check: 'contradiction', severity: 'flag', message: 'Quotes a price that differs from the description', excerpt: price });
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Run every guardrail on a reply. Any blocking issue blocks the reply; otherwise any issue flags it.
+ */
+export function checkReplySafety(reply: string, context: ReplyGuardrailContext): GuardrailResult {
+  const text = plain(reply);
+  const issues = [
+    ...checkPromises(text),
+    ...checkLinks(text, context),
+    ...checkPersonalData(text),
+    ...checkToxicity(text),
+    ...checkOffTopicClaims(text, context),
+    ...checkContradictions(text, context)
+  ];
+
+  return {
+    verdict: issues.some(issue => issue.severity === 'block') ? 'block' : issues.length > 0 ? 'flag' : 'pass',
+    issues,
+    checkedAt: new Date().toISOString()
+  };
+}
+
+/**
+ * One-line reason for API errors and queue item errors
+ */
+export function describeGuardrailIssues(result: GuardrailResult): string {
+  const relevant = result.issues.filter(issue => result.verdict !== 'block' || issue.severity === 'block');
+  return relevant.map(issue => issue.excerpt ? `${issue.message} ("${issue.excerpt}")` : issue.message).join('; ');
+}
+
+/**
+ * Record a guardrail decision in the user's log, newest first
+ */
+export async function recordGuardrailCheck(
+  userId: string,
+  entry: Omit<GuardrailLogEntry, 'id' | 'verdict' | 'issues' | 'checkedAt'>,
+  result: GuardrailResult
+): Promise<void> {
+  // Replies that passed cleanly are not worth keeping
+  if (result.verdict === 'pass') {
+    return;
+  }
+
+  await updateStore<GuardrailLogStore>(STORE, emptyLog(), store => {
+    const log = store.users[userId] ??= [];
+    log.unshift({
+      id: randomUUID(),
+      ...entry,
+      verdict: result.verdict,
+      issues: result.issues,
+      checkedAt: result.checkedAt
+    });
+    log.splice(MAX_LOG_ENTRIES);
+  });
+}
+
+/**
+ * A user's flagged and blocked replies, newest first
+ */
+export async function listGuardrailLog(userId: string, limit = 100): Promise<GuardrailLogEntry[]> {
+  const store = await readStore(STORE, emptyLog());
+  return (store.users[userId] || []).slice(0, limit);
+}
@@ -0,0 +1,90 @@
+// Reply language policy shared by every reply generation path (preview, demo, direct post, queue)
+import { identifyLanguage, LANGUAGE_NAMES } from '@/lib/language-id';
+
+export type ReplyLanguageMode = 'commenter' | 'channel-default' | 'fixed';
+
+export interface ReplyLanguagePolicy {
+  mode: ReplyLanguageMode;
+  channelLanguage: string; // also used when the commenter's language cannot be told
+  fixedLanguage?: string;
+}
+
+export interface ReplyLanguageDecision {
+  language: string;
+  commentLanguage: string;
+  confidence: number;
+  mode: ReplyLanguageMode;
+}
+
+export const REPLY_LANGUAGE_MODES: ReplyLanguageMode[] = ['commenter', 'channel-default', 'fixed'];
+
+export const INVALID_LANGUAGE_POLICY =
+  `languageMode must be one of: ${REPLY_LANGUAGE_MODES.join(', ')}; languages must be one of: ${Object.keys(LANGUAGE_NAMES).join(', ')}`;
+
+// Below this the identifier is guessing (one-word or emoji-only comments)
+const MIN_CONFIDENCE = 0.5;
+
+export const isSupportedLanguage = (code: unknown): code is string =>
+  typeof code === 'string' && code in LANGUAGE_NAMES;
+
+export const languageName = (code: string): string => LANGUAGE_NAMES[code] || code;
+
+/**
+ * The configured policy (REPLY_LANGUAGE_MODE / REPLY_CHANNEL_LANGUAGE / REPLY_FIXED_LANGUAGE),
+ * with optional per-request overrides. Returns null when an override is invalid.
+ */
+export function buildReplyLanguagePolicy(overrides: {
+  mode?: unknown;
+  channelLanguage?: unknown;
+  fixedLanguage?: unknown;
+} = {}): ReplyLanguagePolicy | null {
+  const envMode = process.env.REPLY_LANGUAGE_MODE as ReplyLanguageMode;
+  const envChannel = process.env.REPLY_CHANNEL_LANGUAGE;
+  const envFixed = process.env.REPLY_FIXED_LANGUAGE;
+
+  const mode = overrides.mode ?? (REPLY_LANGUAGE_MODES.includes(envMode) ? envMode : 'commenter');
+  const channelLanguage = overrides.channelLanguage ?? (isSupportedLanguage(envChannel) ? envChannel : 'en');
+  const fixedLanguage = overrides.fixedLanguage ?? (isSupportedLanguage(envFixed) ? envFixed : undefined);
+
+  if (!REPLY_LANGUAGE_MODES.includes(mode as ReplyLanguageMode) || !isSupportedLanguage(channelLanguage)) {
+    return null;
+  }
+  if (fixedLanguage !== undefined && !isSupportedLanguage(fixedLanguage)) {
+    return null;
+  }
+
+  return { mode: mode as ReplyLanguageMode, channelLanguage, fixedLanguage };
+}
+
+/**
+ * Pick the reply language for a comment. A caller-supplied comment language (e.g. from
+ * an earlier analysis) is trusted over re-identifying the text.
+ */
+export function resolveReplyLanguage(
+  commentText: string,
+  policy: ReplyLanguagePolicy,
+  knownCommentLanguage?: string
+): ReplyLanguageDecision {
+  const identified = isSupportedLanguage(knownCommentLanguage)
+    ? { language: knownCommentLanguage, confidence: 1 }
+    : identifyLanguage(commentText);
+
+  let language: string;
+  switch (policy.mode) {
+    case 'fixed':
+      language = policy.fixedLanguage || policy.channelLanguage;
+      break;
+    case 'channel-default':
+      language = policy.channelLanguage;
+      break;
+    default:
+      language = identified.confidence >= MIN_CONFIDENCE ? identified.language : policy.channelLanguage;
+  }
+
+  return {
+    language,
+    commentLanguage: identified.language,
+    confidence: identified.confidence,
+    mode: policy.mode
+  };
+}
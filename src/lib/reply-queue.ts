@@ -0,0 +1,572 @@
+// Bulk reply queue: batch-generated drafts that a person reviews before they are posted
+import { randomUUID } from 'crypto';
+import { CommentData, ReplyQueueItem, ReplyQueueStatus, ReplyTone } from '@/types';
+import { CONFIG, cleanText, delay, generateReplyWithMistral, type ReplyGenerationContext } from '@/lib/ai-services-pro';
+import { buildReplyLanguagePolicy, resolveReplyLanguage } from '@/lib/reply-language';
+import { YouTubeService, describeReplyError, type GoogleApiError } from '@/lib/youtube-service';
+import { getYouTubeAccessToken } from '@/lib/youtube-credentials';
+import { getVoiceProfile } from '@/lib/voice-profile';
+import { checkReplySafety, describeGuardrailIssues, recordGuardrailCheck } from '@/lib/reply-guardrails';
+import { recordPostedReply } from '@/lib/reply-audit';
+import { readStore, updateStore } from '@/lib/storage';
+
+interface ReplyVideoContext {
+  title: string;
+  description: string;
+}
+
+interface ReplyQueueStore {
+  users: Record<string, ReplyQueueItem[]>;
+  videos: Record<string, ReplyVideoContext>; // drafting context, kept so interrupted drafts can resume
+}
+
+export interface EnqueueRepliesInput {
+  videoId: string;
+  videoTitle: string;
+  videoContext?: string;
+  tone: ReplyTone;
+  comments: Array<Pick<CommentData, 'id' | 'textDisplay' | 'authorDisplayName'>>;
+}
+
+export interface ReplyItemChanges {
+  draft?: string;
+  status?: Extract<ReplyQueueStatus, 'review' | 'approved' | 'rejected' | 'drafting'>;
+}
+
+const STORE = 'reply-queue';
+export const MAX_QUEUE_ITEMS = 500;
+export const MAX_REPLY_LENGTH = 280; // same cap as single replies from /api/youtube/comment-reply
+
+// YouTube has no published write rate limit, but bursts of replies get flagged as spam
+const POST_INTERVAL_MS = Number(process.env.REPLY_POST_INTERVAL_SECONDS || 5) * 1000;
+
+// Scheduled posts whose token cannot be refreshed are retried with a growing delay
+const MAX_SCHEDULE_ATTEMPTS = 3;
+const SCHEDULE_RETRY_MS = 15 * 60 * 1000;
+
+// Statuses owned by a worker; people cannot edit items in them
+const LOCKED_STATUSES: ReplyQueueStatus[] = ['drafting', 'posting', 'posted'];
+
+// One drafting and one posting worker per user and process
+const activeWorkers = new Set<string>();
+
+const emptyStore = (): ReplyQueueStore => ({ users: {}, videos: {} });
+
+const truncateReply = (text: string): string =>
+  text.length > MAX_REPLY_LENGTH ? text.substring(0, MAX_REPLY_LENGTH - 3) + '...' : text;
+
+/**
+ * Guardrail check of a draft against the video context stored when it was queued
+ */
+const checkDraft = (store: ReplyQueueStore, item: ReplyQueueItem, draft: string) =>
+  checkReplySafety(draft, {
+    commentText: item.commentText,
+    videoTitle: item.videoTitle,
+    videoDescription: store.videos[item.videoId]?.description
+  });
+
+/**
+ * Apply a change to one queue item under the store lock
+ */
+async function patchItem(userId: string, id: string, patch: Partial<ReplyQueueItem>): Promise<void> {
+  await updateStore<ReplyQueueStore>(STORE, emptyStore(), store => {
+    const item = (store.users[userId] || []).find(entry => entry.id === id);
+    if (item) {
+      Object.assign(item, patch, { updatedAt: new Date().toISOString() });
+    }
+  });
+}
+
+/**
+ * A user's queue (optionally for one video), oldest first.
+ * Items left mid-post by a restart are marked failed since the reply may or may not have gone out.
+ */
+export async function listReplyQueue(userId: string, videoId?: string): Promise<ReplyQueueItem[]> {
+  let store = await readStore(STORE, emptyStore());
+  const items = store.users[userId] || [];
+
+  if (!activeWorkers.has(`post:${userId}`) && items.some(item => item.status === 'posting')) {
+    store = await updateStore(STORE, emptyStore(), data => {
+      for (const item of data.users[userId] || []) {
+        if (item.status === 'posting') {
+          item.status = 'failed';
+          item.error = 'Posting was interrupted. Check the comment on YouTube before retrying.';
+          item.updatedAt = new Date().toISOString();
+        }
+      }
+      return data;
+    });
+  }
+  if (items.some(item => item.status === 'drafting')) {
+    startDrafting(userId);
+  }
+
+  return (store.users[userId] || []).filter(item => !videoId || item.videoId === videoId);
+}
+
+/**
+ * Queue comments for drafting. Comments already in the queue are skipped unless they were
+ * rejected or failed, in which case they are drafted again. Returns the queued items.
+ */
+export async function enqueueReplies(userId: string, input: EnqueueRepliesInput): Promise<ReplyQueueItem[]> {
+  const queued = await updateStore<ReplyQueueStore, ReplyQueueItem[]>(STORE, emptyStore(), store => {
+    const items = store.users[userId] ??= [];
+    const now = new Date().toISOString();
+    const result: ReplyQueueItem[] = [];
+
+    store.videos[input.videoId] = {
+      title: input.videoTitle,
+      description: (input.videoContext || '').substring(0, 4000)
+    };
+
+    for (const comment of input.comments) {
+      const existing = items.find(item => item.commentId === comment.id);
+      if (existing) {
+        if (existing.status === 'rejected' || existing.status === 'failed') {
+          Object.assign(existing, { status: 'drafting', tone: input.tone, error: undefined, updatedAt: now });
+          result.push(existing);
+        }
+        continue;
+      }
+      if (items.length >= MAX_QUEUE_ITEMS) {
+        break;
+      }
+
+      const item: ReplyQueueItem = {
+        id: randomUUID(),
+        videoId: input.videoId,
+        videoTitle: input.videoTitle,
+        commentId: comment.id,
+        commentText: comment.textDisplay,
+        authorDisplayName: comment.authorDisplayName,
+        tone: input.tone,
+        draft: '',
+        status: 'drafting',
+        createdAt: now,
+        updatedAt: now
+      };
+      items.push(item);
+      result.push(item);
+    }
+
+    return result;
+  });
+
+  if (queued.length > 0) {
+    startDrafting(userId);
+  }
+  return queued;
+}
+
+/**
+ * Edit, approve, reject or redraft a queue item
+ */
+export async function updateReplyItem(
+  userId: string,
+  id: string,
+  changes: ReplyItemChanges
+): Promise<ReplyQueueItem | 'not-found' | 'locked' | 'empty-draft' | 'blocked'> {
+  const result = await updateStore<ReplyQueueStore, ReplyQueueItem | 'not-found' | 'locked' | 'empty-draft' | 'blocked'>(
+    STORE,
+    emptyStore(),
+    store => {
+      const item = (store.users[userId] || []).find(entry => entry.id === id);
+      if (!item) {
+        return 'not-found';
+      }
+      if (LOCKED_STATUSES.includes(item.status)) {
+        return 'locked';
+      }
+
+      const draft = changes.draft !== undefined ? truncateReply(changes.draft.trim()) : item.draft;
+      if (changes.status === 'approved' && !draft) {
+        return 'empty-draft';
+      }
+
+      const guardrail = draft !== item.draft || !item.guardrail ? checkDraft(store, item, draft) : item.guardrail;
+      if (changes.status === 'approved' && guardrail.verdict === 'block') {
+        return 'blocked';
+      }
+
+      // An edit that makes an approved reply unsafe sends it back for review
+      const status = changes.status ??
+        (guardrail.verdict === 'block' && (item.status === 'approved' || item.status === 'scheduled') ? 'review' : undefined);
+
+      item.draft = draft;
+      item.guardrail = draft ? guardrail : undefined;
+      if (status) {
+        // Any review decision takes the item off the schedule
+        item.status = status;
+        item.error = undefined;
+        item.postAt = undefined;
+        item.attempts = undefined;
+      }
+      item.updatedAt = new Date().toISOString();
+      return { ...item };
+    }
+  );
+
+  if (changes.status === 'drafting' && typeof result === 'object') {
+    startDrafting(userId);
+  }
+  if (changes.status === 'approved' && typeof result === 'object' && result.guardrail?.verdict === 'flag') {
+    await recordGuardrailCheck(userId, {
+      source: 'queue',
+      videoId: result.videoId,
+      commentId: result.commentId,
+      reply: result.draft,
+      outcome: 'allowed'
+    }, result.guardrail);
+  }
+  return result;
+}
+
+/**
+ * Remove items from a user's queue by id or status. Items being posted are kept.
+ */
+export async function removeReplyItems(
+  userId: string,
+  filter: { ids?: string[]; status?: ReplyQueueStatus }
+): Promise<number> {
+  return updateStore<ReplyQueueStore, number>(STORE, emptyStore(), store => {
+    const items = store.users[userId] || [];
+    const kept = items.filter(item =>
+      item.status === 'posting' ||
+      !((filter.ids && filter.ids.includes(item.id)) || (filter.status && item.status === filter.status))
+    );
+    store.users[userId] = kept;
+    return items.length - kept.length;
+  });
+}
+
+/**
+ * Generate drafts for the user's 'drafting' items one at a time, in the background
+ */
+function startDrafting(userId: string): void {
+  const key = `draft:${userId}`;
+  if (activeWorkers.has(key)) {
+    return;
+  }
+  activeWorkers.add(key);
+
+  const run = async () => {
+    for (;;) {
+      const store = await readStore(STORE, emptyStore());
+      const item = (store.users[userId] || []).find(entry => entry.status === 'drafting');
+      if (!item) {
+        return;
+      }
+
+      const video = store.videos[item.videoId] || { title: item.videoTitle, description: '' };
+      const commentText = cleanText(item.commentText.replace(/<[^>]*>/g, ' '));
+
+      // Queued drafts follow the configured policy; the env values are validated so this is never null
+      const languageDecision = resolveReplyLanguage(commentText, buildReplyLanguagePolicy()!);
+
+      const replyContext: ReplyGenerationContext = {
+        commentText,
+        videoTitle: cleanText(video.title),
+        videoDescription: video.description ? cleanText(video.description) : undefined,
+        commentLanguage: languageDecision.commentLanguage,
+        replyLanguage: languageDecision.language,
+        replyTone: item.tone,
+        voiceProfile: await getVoiceProfile(userId)
+      };
+
+      try {
+        const reply = await generateReplyWithMistral(replyContext);
+        const draft = truncateReply(reply.text.trim());
+        const guardrail = checkDraft(store, item, draft);
+        await patchItem(userId, item.id, {
+          status: 'review',
+          draft,
+          aiDraft: draft,
+          model: reply.model,
+          prompt: reply.prompt,
+          guardrail,
+          error: undefined
+        });
+        await recordGuardrailCheck(userId, {
+          source: 'queue',
+          videoId: item.videoId,
+          commentId: item.commentId,
+          reply: draft,
+          outcome: guardrail.verdict === 'block' ? 'blocked' : 'held'
+        }, guardrail);
+      } catch (error) {
+        console.error(`❌ Reply draft failed for comment ${item.commentId}:`, error);
+        await patchItem(userId, item.id, { status: 'failed', error: 'Draft generation failed' });
+      }
+
+      await delay(CONFIG.mistral.delayMs);
+    }
+  };
+
+  run()
+    .catch(error => console.error(`❌ Reply drafting stopped for ${userId}:`, error))
+    .finally(() => activeWorkers.delete(key));
+}
+
+/**
+ * Atomically move the first matching item to 'posting' so no other worker picks it up
+ */
+async function claimNextItem(
+  userId: string,
+  matches: (item: ReplyQueueItem) => boolean
+): Promise<ReplyQueueItem | null> {
+  return updateStore<ReplyQueueStore, ReplyQueueItem | null>(STORE, emptyStore(), data => {
+    const next = (data.users[userId] || []).find(matches);
+    if (next) {
+      next.status = 'posting';
+      next.updatedAt = new Date().toISOString();
+    }
+    return next ? { ...next } : null;
+  });
+}
+
+/**
+ * Post one claimed item through the same YouTube call as /api/youtube/comment-reply.
+ * Returns the API error when it failed (empty when the guardrails stopped it), or null when the reply went out.
+ */
+async function sendQueuedReply(
+  userId: string,
+  youtubeService: YouTubeService,
+  item: ReplyQueueItem
+): Promise<GoogleApiError | null> {
+  // Re-checked at send time so items approved before an edit or a rule change are still covered
+  const guardrail = checkDraft(await readStore(STORE, emptyStore()), item, item.draft);
+  if (guardrail.verdict === 'block') {
+    await patchItem(userId, item.id, {
+      status: 'failed',
+      guardrail,
+      error: `Blocked by reply guardrails: ${describeGuardrailIssues(guardrail)}`
+    });
+    await recordGuardrailCheck(userId, {
+      source: 'queue',
+      videoId: item.videoId,
+      commentId: item.commentId,
+      reply: item.draft,
+      outcome: 'blocked'
+    }, guardrail);
+    return {};
+  }
+
+  try {
+    const replyId = await youtubeService.replyToComment(item.commentId, item.draft);
+    const postedAt = new Date().toISOString();
+    await patchItem(userId, item.id, { status: 'posted', replyId, postedAt, error: undefined });
+    console.log(`📤 Queued reply posted to comment ${item.commentId}`);
+
+    const isCustom = item.draft !== item.aiDraft;
+    await recordPostedReply(userId, {
+      source: item.postAt ? 'scheduled' : 'queue',
+      videoId: item.videoId,
+      videoTitle: item.videoTitle,
+      commentId: item.commentId,
+      commentText: item.commentText,
+      replyId,
+      replyText: item.draft,
+      tone: item.tone,
+      model: item.aiDraft ? item.model || CONFIG.mistral.replyModel : 'custom',
+      isCustom,
+      aiDraft: isCustom ? item.aiDraft : undefined,
+      prompt: item.prompt
+    }).catch(auditError => console.error(`❌ Audit record failed for reply ${replyId}:`, auditError));
+    return null;
+  } catch (error) {
+    console.error(`❌ Queued reply failed for comment ${item.commentId}:`, error);
+    await patchItem(userId, item.id, { status: 'failed', error: describeReplyError(error) });
+    return (error || {}) as GoogleApiError;
+  }
+}
+
+const isQuotaError = ({ errors }: GoogleApiError): boolean =>
+  ['quotaExceeded', 'rateLimitExceeded'].includes(errors?.[0]?.reason || '');
+
+// An expired token or exhausted quota fails every remaining item the same way
+const stopsRun = (error: GoogleApiError): boolean =>
+  error.response?.status === 401 || isQuotaError(error);
+
+/**
+ * Post the user's approved replies (optionally only some of them) in the background,
+ * one every REPLY_POST_INTERVAL_SECONDS. Returns the number of replies waiting to be posted,
+ * or null when a posting run is already in progress.
+ */
+export async function postApprovedReplies(
+  userId: string,
+  accessToken: string,
+  itemIds?: string[]
+): Promise<number | null> {
+  const key = `post:${userId}`;
+  if (activeWorkers.has(key)) {
+    return null;
+  }
+
+  const isSelected = (item: ReplyQueueItem) =>
+    item.status === 'approved' && (!itemIds || itemIds.includes(item.id));
+
+  const store = await readStore(STORE, emptyStore());
+  const pending = (store.users[userId] || []).filter(isSelected).length;
+  if (pending === 0) {
+    return 0;
+  }
+
+  activeWorkers.add(key);
+  const youtubeService = new YouTubeService(accessToken);
+
+  const run = async () => {
+    for (;;) {
+      const item = await claimNextItem(userId, isSelected);
+      if (!item) {
+        return;
+      }
+
+      const error = await sendQueuedReply(userId, youtubeService, item);
+      if (error && stopsRun(error)) {
+        return;
+      }
+      await delay(POST_INTERVAL_MS);
+    }
+  };
+
+  run()
+    .catch(error => console.error(`❌ Reply posting stopped for ${userId}:`, error))
+    .finally(() => activeWorkers.delete(key));
+
+  return pending;
+}
+
+/**
+ * Give approved (or already scheduled) items a postAt time, staggered by spacingMinutes
+ * in queue order starting at startAt. Returns the scheduled items.
+ */
+export async function scheduleReplies(
+  userId: string,
+  itemIds: string[] | undefined,
+  startAt: Date,
+  spacingMinutes: number
+): Promise<ReplyQueueItem[]> {
+  return updateStore<ReplyQueueStore, ReplyQueueItem[]>(STORE, emptyStore(), store => {
+    const now = new Date().toISOString();
+    const items = (store.users[userId] || []).filter(item =>
+      (item.status === 'approved' || item.status === 'scheduled') && (!itemIds || itemIds.includes(item.id))
+    );
+
+    return items.map((item, index) => {
+      Object.assign(item, {
+        status: 'scheduled',
+        postAt: new Date(startAt.getTime() + index * spacingMinutes * 60 * 1000).toISOString(),
+        attempts: 0,
+        error: undefined,
+        updatedAt: now
+      });
+      return { ...item };
+    });
+  });
+}
+
+/**
+ * A user's scheduled replies across videos, including ones already posted or failed, soonest first
+ */
+export async function listScheduledReplies(userId: string): Promise<ReplyQueueItem[]> {
+  const items = await listReplyQueue(userId);
+  return items
+    .filter(item => item.postAt !== undefined)
+    .sort((a, b) => a.postAt!.localeCompare(b.postAt!));
+}
+
+/**
+ * Push back a user's due items. A token that could not be refreshed costs an attempt and fails
+ * items once MAX_SCHEDULE_ATTEMPTS is reached; an exhausted quota only delays them.
+ */
+async function deferDueReplies(
+  userId: string,
+  due: (item: ReplyQueueItem) => boolean,
+  reason: 'token' | 'quota' = 'token'
+): Promise<void> {
+  await updateStore<ReplyQueueStore>(STORE, emptyStore(), store => {
+    const now = Date.now();
+    for (const item of (store.users[userId] || []).filter(due)) {
+      item.updatedAt = new Date(now).toISOString();
+      if (reason === 'quota') {
+        item.postAt = new Date(now + SCHEDULE_RETRY_MS).toISOString();
+        item.error = 'YouTube quota exhausted: retrying later';
+        continue;
+      }
+
+      item.attempts = (item.attempts || 0) + 1;
+      if (item.attempts >= MAX_SCHEDULE_ATTEMPTS) {
+        item.status = 'failed';
+        item.error = 'YouTube access could not be refreshed. Sign in again and reschedule.';
+      } else {
+        item.postAt = new Date(now + item.attempts * SCHEDULE_RETRY_MS).toISOString();
+        item.error = 'RefreshAccessTokenError: retrying later';
+      }
+    }
+  });
+}
+
+/**
+ * Post every scheduled reply whose postAt has passed, using the tokens stored when it was
+ * scheduled. Called by the scheduled-replies background job. Returns the number posted.
+ */
+export async function postDueReplies(now: Date = new Date()): Promise<number> {
+  const store = await readStore(STORE, emptyStore());
+  const isDue = (item: ReplyQueueItem) =>
+    item.status === 'scheduled' && !!item.postAt && new Date(item.postAt) <= now;
+
+  let posted = 0;
+  for (const [userId, items] of Object.entries(store.users)) {
+    const key = `post:${userId}`;
+    if (!items.some(isDue) || activeWorkers.has(key)) {
+      continue;
+    }
+
+    activeWorkers.add(key);
+    try {
+      let accessToken = await getYouTubeAccessToken(userId);
+      if (!accessToken) {
+        await deferDueReplies(userId, isDue);
+        continue;
+      }
+
+      let youtubeService = new YouTubeService(accessToken);
+      let refreshedAfterReject = false;
+
+      for (;;) {
+        const item = await claimNextItem(userId, isDue);
+        if (!item) {
+          break;
+        }
+
+        const error = await sendQueuedReply(userId, youtubeService, item);
+        if (!error) {
+          posted++;
+        } else if (error.response?.status === 401 && !refreshedAfterReject) {
+          // Google revoked the access token early: refresh once and put the item back
+          refreshedAfterReject = true;
+          accessToken = await getYouTubeAccessToken(userId, true);
+          await patchItem(userId, item.id, { status: 'scheduled', error: undefined });
+          if (!accessToken) {
+            await deferDueReplies(userId, isDue);
+            break;
+          }
+          youtubeService = new YouTubeService(accessToken);
+          continue;
+        } else if (isQuotaError(error)) {
+          // Quota outages are not the reply's fault: put it back and wait instead of failing one item per run
+          await patchItem(userId, item.id, { status: 'scheduled' });
+          await deferDueReplies(userId, isDue, 'quota');
+          break;
+        } else if (stopsRun(error)) {
+          break;
+        }
+        await delay(POST_INTERVAL_MS);
+      }
+    } finally {
+      activeWorkers.delete(key);
+    }
+  }
+
+  return posted;
+}
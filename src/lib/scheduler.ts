@@ -0,0 +1,72 @@
+// Minimal in-process interval scheduler for background jobs
+interface ScheduledJob {
+  name: string;
+  intervalMs: number;
+  run: () => Promise<unknown>;
+  running: boolean;
+  timer?: ReturnType<typeof setInterval>;
+}
+
+// Kept on globalThis so dev-server hot reloads do not start a second set of timers
+const globalScheduler = globalThis as typeof globalThis & {
+  __sentimentTrackJobs?: Map<string, ScheduledJob>;
+  __sentimentTrackSchedulerStarted?: boolean;
+};
+const jobs = globalScheduler.__sentimentTrackJobs ??= new Map<string, ScheduledJob>();
+
+/**
+ * Run a job once, skipping the tick if the previous run has not finished yet
+ */
+async function runJob(job: ScheduledJob): Promise<void> {
+  if (job.running) {
+    console.log(`⏭️ Job "${job.name}" still running, skipping tick`);
+    return;
+  }
+
+  job.running = true;
+  try {
+    await job.run();
+  } catch (error) {
+    console.error(`❌ Job "${job.name}" failed:`, error);
+  } finally {
+    job.running = false;
+  }
+}
+
+/**
+ * Register a recurring job. Registering the same name again replaces the handler.
+ */
+export function registerJob(name: string, intervalMs: number, run: () => Promise<unknown>): void {
+  const existing = jobs.get(name);
+  if (existing?.timer) {
+    clearInterval(existing.timer);
+  }
+
+  const job: ScheduledJob = { name, intervalMs, run, running: false };
+  jobs.set(name, job);
+
+  if (globalScheduler.__sentimentTrackSchedulerStarted) {
+    scheduleJob(job);
+  }
+}
+
+function scheduleJob(job: ScheduledJob): void {
+  job.timer = setInterval(() => void runJob(job), job.intervalMs);
+  // Never keep the process alive just for background jobs
+  job.timer.unref?.();
+}
+
+/**
+ * Start all registered jobs (idempotent)
+ */
+export function startScheduler(): void {
+  if (globalScheduler.__sentimentTrackSchedulerStarted) {
+    return;
+  }
+  globalScheduler.__sentimentTrackSchedulerStarted = true;
+
+  for (const job of jobs.values()) {
+    scheduleJob(job);
+  }
+  console.log(`⏰ Scheduler started with ${jobs.size} job(s)`);
+}
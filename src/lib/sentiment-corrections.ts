@@ -0,0 +1,137 @@
+// Creator corrections of model sentiment: few-shot examples for the channel's prompt and a
+// model-vs-human agreement report that shows how far the model's confidence can be trusted
+import { CorrectionAgreementReport, SentimentCorrection, SentimentExample } from '@/types';
+import { readStore, updateStore } from '@/lib/storage';
+
+interface CorrectionStore {
+  users: Record<string, SentimentCorrection[]>; // newest first
+}
+
+const STORE = 'sentiment-corrections';
+const MAX_CORRECTIONS = 500;
+export const MAX_PROMPT_EXAMPLES = 8;
+const MAX_EXAMPLE_LENGTH = 200;
+
+const SENTIMENTS: SentimentExample['sentiment'][] = ['positive', 'neutral', 'negative'];
+
+// Upper bounds are exclusive except for the last band
+const CONFIDENCE_BANDS: Array<{ label: string; min: number; max: number }> = [
+  { label: '<50%', min: 0, max: 0.5 },
+  { label: '50-70%', min: 0.5, max: 0.7 },
+  { label: '70-85%', min: 0.7, max: 0.85 },
+  { label: '85-100%', min: 0.85, max: 1 }
+];
+
+const emptyStore = (): CorrectionStore => ({ users: {} });
+
+const rate = (part: number, whole: number): number =>
+  whole > 0 ? Math.round((part / whole) * 1000) / 1000 : 0;
+
+/**
+ * Record the creator's label for a comment. A later correction of the same comment replaces the earlier one.
+ */
+export async function recordCorrection(userId: string, correction: SentimentCorrection): Promise<SentimentCorrection> {
+  await updateStore<CorrectionStore>(STORE, emptyStore(), store => {
+    const existing = (store.users[userId] || []).filter(entry => entry.commentId !== correction.commentId);
+    store.users[userId] = [correction, ...existing].slice(0, MAX_CORRECTIONS);
+  });
+
+  const verdict = correction.modelSentiment === correction.correctedSentiment
+    ? `confirmed as ${correction.correctedSentiment}`
+    : `corrected from ${correction.modelSentiment} to ${correction.correctedSentiment}`;
+  console.log(`🏷️ Sentiment ${verdict} for comment ${correction.commentId}`);
+  return correction;
+}
+
+/**
+ * A user's corrections, newest first
+ */
+export async function getCorrections(userId: string): Promise<SentimentCorrection[]> {
+  const store = await readStore(STORE, emptyStore());
+  return store.users[userId] || [];
+}
+
+/**
+ * Few-shot examples for the sentiment prompt: the newest comments the model got wrong,
+ * at most one per text so a repeated joke does not crowd out the rest
+ */
+export function selectCorrectionExamples(
+  corrections: SentimentCorrection[],
+  limit: number = MAX_PROMPT_EXAMPLES
+): SentimentExample[] {
+  const seen = new Set<string>();
+  const examples: SentimentExample[] = [];
+
+  for (const correction of corrections) {
+    if (examples.length >= limit) break;
+    if (correction.modelSentiment === correction.correctedSentiment) continue;
+
+    const text = correction.text.replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ').trim().substring(0, MAX_EXAMPLE_LENGTH);
+    const key = text.toLowerCase();
+    if (!text || seen.has(key)) continue;
+    seen.add(key);
+    examples.push({ text, sentiment: correction.correctedSentiment });
+  }
+  return examples;
+}
+
+/**
+ * The user's few-shot examples, empty until they have corrected a comment
+ */
+export async function getCorrectionExamples(userId: string): Promise<SentimentExample[]> {
+  return selectCorrectionExamples(await getCorrections(userId));
+}
+
+/**
+ * Examples for scoring a video's comments. Stored scores are shared by everyone who opens the
+ * video, so only its channel owner's corrections calibrate them.
+ */
+export async function getCorrectionExamplesForVideo(
+  userId: string | null | undefined,
+  ownsVideo: () => Promise<boolean>
+): Promise<SentimentExample[]> {
+  const examples = userId ? await getCorrectionExamples(userId) : [];
+  if (examples.length === 0) {
+    return [];
+  }
+  try {
+    return await ownsVideo() ? examples : [];
+  } catch (error) {
+    console.error('❌ Could not check video ownership for correction examples:', error);
+    return [];
+  }
+}
+
+/**
+ * How often the model agreed with the creator, overall, per confidence band and per label pair
+ */
+export function buildAgreementReport(corrections: SentimentCorrection[]): CorrectionAgreementReport {
+  const confusion = Object.fromEntries(
+    SENTIMENTS.map(model => [model, Object.fromEntries(SENTIMENTS.map(human => [human, 0]))])
+  ) as CorrectionAgreementReport['confusion'];
+
+  let agreed = 0;
+  for (const correction of corrections) {
+    confusion[correction.modelSentiment][correction.correctedSentiment]++;
+    if (correction.modelSentiment === correction.correctedSentiment) agreed++;
+  }
+
+  const byConfidence = CONFIDENCE_BANDS.map((band, index) => {
+    const last = index === CONFIDENCE_BANDS.length - 1;
+    const inBand = corrections.filter(correction => {
+      const confidence = correction.modelConfidence ?? 0.5;
+      return confidence >= band.min && (last ? confidence <= band.max : confidence < band.max);
+    });
+    const bandAgreed = inBand.filter(correction => correction.modelSentiment === correction.correctedSentiment).length;
+    return { ...band, reviewed: inBand.length, agreementRate: rate(bandAgreed, inBand.length) };
+  });
+
+  return {
+    reviewed: corrections.length,
+    agreed,
+    agreementRate: rate(agreed, corrections.length),
+    byConfidence,
+    confusion,
+    examplesInPrompt: selectCorrectionExamples(corrections).length
+  };
+}
@@ -0,0 +1,293 @@
+// Sentiment evaluation harness: score a provider against a versioned, hand-labelled comment set.
+// LLM responses are recorded once and replayed by prompt hash, so runs are offline and repeatable,
+// and any prompt or CONFIG change shows up as missing recordings instead of silently reusing old answers.
+import { promises as fs } from 'fs';
+import path from 'path';
+import { createHash } from 'crypto';
+import {
+  CommentData,
+  EvaluationDataset,
+  EvaluationItem,
+  EvaluationMetrics,
+  SentimentEvaluationReport,
+  SentimentExample
+} from '@/types';
+import { analyzeSentimentLocally, delay, getSentimentPipeline, SentimentPipeline } from '@/lib/ai-services-pro';
+
+type Sentiment = SentimentExample['sentiment'];
+
+interface RecordingFile {
+  dataset: string;
+  provider: string;
+  model: string;
+  recordedAt: string;
+  responses: Record<string, string>; // prompt hash -> raw model response
+}
+
+const EVAL_DIR = path.join(process.cwd(), 'src', 'data', 'sentiment-eval');
+const RECORDING_DIR = path.join(EVAL_DIR, 'recordings');
+const SENTIMENTS: Sentiment[] = ['positive', 'neutral', 'negative'];
+export const EVALUATION_PROVIDERS = ['groq', 'mistral', 'local'] as const;
+export type EvaluationProvider = typeof EVALUATION_PROVIDERS[number];
+
+const datasetPath = (version: string) => path.join(EVAL_DIR, `golden-${version}.json`);
+const recordingPath = (version: string, provider: string) => path.join(RECORDING_DIR, `golden-${version}.${provider}.json`);
+
+const round = (value: number): number => Math.round(value * 1000) / 1000;
+
+/**
+ * Dataset versions available on disk, oldest first (none when the build does not ship src/data)
+ */
+export async function listEvaluationDatasets(): Promise<string[]> {
+  let files: string[];
+  try {
+    files = await fs.readdir(EVAL_DIR);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+  return files
+    .map(file => file.match(/^golden-(v\d+)\.json$/)?.[1])
+    .filter((version): version is string => Boolean(version))
+    .sort((a, b) => Number(a.slice(1)) - Number(b.slice(1)));
+}
+
+/**
+ * Load a dataset version, or null when it does not exist
+ */
+export async function loadEvaluationDataset(version: string): Promise<EvaluationDataset | null> {
+  if (!/^v\d+$/.test(version)) {
+    return null;
+  }
+  try {
+    return JSON.parse(await fs.readFile(datasetPath(version), 'utf8')) as EvaluationDataset;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+async function readRecordings(version: string, provider: string): Promise<RecordingFile | null> {
+  try {
+    return JSON.parse(await fs.readFile(recordingPath(version, provider), 'utf8')) as RecordingFile;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Recordings are committed next to the dataset, so they are pretty-printed for readable diffs
+ */
+async function writeRecordings(recording: RecordingFile): Promise<void> {
+  await fs.mkdir(RECORDING_DIR, { recursive: true });
+  await fs.writeFile(recordingPath(recording.dataset, recording.provider), `${JSON.stringify(recording, null, 2)}\n`, 'utf8');
+}
+
+// The key covers everything that changes the model's answer
+const recordingKey = (pipeline: SentimentPipeline, prompt: string): string =>
+  createHash('sha256')
+    .update(JSON.stringify({ provider: pipeline.name, model: pipeline.model, temperature: pipeline.temperature, prompt }))
+    .digest('hex');
+
+const toComment = (item: EvaluationItem): CommentData => ({
+  id: item.id,
+  authorDisplayName: 'viewer',
+  authorProfileImageUrl: '',
+  textDisplay: item.text,
+  publishedAt: '',
+  likeCount: 0
+});
+
+/**
+ * The dataset split into the provider's batches, with the exact prompt each batch sends
+ */
+function buildBatches(dataset: EvaluationDataset, pipeline: SentimentPipeline) {
+  const batches: Array<{ items: EvaluationItem[]; prompt: string; key: string }> = [];
+  for (let i = 0; i < dataset.items.length; i += pipeline.batchSize) {
+    const items = dataset.items.slice(i, i + pipeline.batchSize);
+    const parentTexts = Object.fromEntries(
+      items.filter(item => item.parentText).map(item => [item.id, item.parentText as string])
+    );
+    const prompt = pipeline.buildPrompt(items.map(toComment), parentTexts);
+    batches.push({ items, prompt, key: recordingKey(pipeline, prompt) });
+  }
+  return batches;
+}
+
+/**
+ * How many of the provider's batches have no recorded response for the current prompt and model
+ */
+export async function findMissingRecordings(
+  dataset: EvaluationDataset,
+  provider: Exclude<EvaluationProvider, 'local'>
+): Promise<{ missing: number; total: number }> {
+  const batches = buildBatches(dataset, getSentimentPipeline(provider));
+  const recording = await readRecordings(dataset.version, provider);
+  return {
+    missing: batches.filter(batch => recording?.responses[batch.key] === undefined).length,
+    total: batches.length
+  };
+}
+
+/**
+ * Accuracy, per-class precision/recall/F1 and the confusion matrix for labelled predictions
+ */
+export function computeClassificationMetrics(pairs: Array<{ label: Sentiment; predicted: Sentiment }>): EvaluationMetrics {
+  const confusion = Object.fromEntries(
+    SENTIMENTS.map(label => [label, Object.fromEntries(SENTIMENTS.map(predicted => [predicted, 0]))])
+  ) as EvaluationMetrics['confusion'];
+  pairs.forEach(({ label, predicted }) => confusion[label][predicted]++);
+
+  const perClass = Object.fromEntries(SENTIMENTS.map(sentiment => {
+    const truePositives = confusion[sentiment][sentiment];
+    const predictedCount = SENTIMENTS.reduce((sum, label) => sum + confusion[label][sentiment], 0);
+    const support = SENTIMENTS.reduce((sum, predicted) => sum + confusion[sentiment][predicted], 0);
+    const precision = predictedCount > 0 ? truePositives / predictedCount : 0;
+    const recall = support > 0 ? truePositives / support : 0;
+    const f1 = precision + recall > 0 ? (2 * precision * recall) / (precision + recall) : 0;
+    return [sentiment, { precision: round(precision), recall: round(recall), f1: round(f1), support }];
+  })) as EvaluationMetrics['perClass'];
+
+  // Macro F1 only averages classes that occur, so a language without neutral items is not penalised
+  const present = SENTIMENTS.filter(sentiment => perClass[sentiment].support > 0);
+  const correct = SENTIMENTS.reduce((sum, sentiment) => sum + confusion[sentiment][sentiment], 0);
+
+  return {
+    count: pairs.length,
+    accuracy: pairs.length > 0 ? round(correct / pairs.length) : 0,
+    macroF1: present.length > 0 ? round(present.reduce((sum, sentiment) => sum + perClass[sentiment].f1, 0) / present.length) : 0,
+    perClass,
+    confusion
+  };
+}
+
+/**
+ * Predictions from recorded (or, when recording, live) model responses.
+ * Items the response does not cover are counted as neutral, as production does.
+ */
+async function predictWithPipeline(
+  dataset: EvaluationDataset,
+  pipeline: SentimentPipeline,
+  record: boolean
+): Promise<{ predictions: Map<string, Sentiment>; unparsed: number }> {
+  const batches = buildBatches(dataset, pipeline);
+  const existing = await readRecordings(dataset.version, pipeline.name);
+  const responses: Record<string, string> = {};
+  const predictions = new Map<string, Sentiment>();
+  let unparsed = 0;
+
+  for (let i = 0; i < batches.length; i++) {
+    const batch = batches[i];
+    let response = record ? undefined : existing?.responses[batch.key];
+
+    if (record) {
+      console.log(`🎙️ Recording ${pipeline.name} response for evaluation batch ${i + 1}/${batches.length}`);
+      response = (await pipeline.complete(batch.prompt))?.trim();
+      if (!response) {
+        throw new Error(`Empty response from ${pipeline.name} for batch ${i + 1}`);
+      }
+      if (i < batches.length - 1) {
+        await delay(pipeline.delayMs);
+      }
+    }
+    if (response === undefined) {
+      throw new Error(`No recorded ${pipeline.name} response for batch ${i + 1}; record again with npm run eval:sentiment -- --provider ${pipeline.name} --record`);
+    }
+    responses[batch.key] = response;
+
+    let results: ReturnType<SentimentPipeline['parse']> = [];
+    try {
+      results = pipeline.parse(response, i + 1);
+    } catch {
+      // Production would retry and fall back to the lexicon; here it counts against the model
+      console.warn(`⚠️ Evaluation batch ${i + 1} response could not be parsed`);
+    }
+    batch.items.forEach((item, index) => {
+      if (!results[index]) unparsed++;
+      predictions.set(item.id, results[index]?.sentiment || 'neutral');
+    });
+  }
+
+  // Only the responses for the current prompts are kept, so stale recordings never pile up
+  if (record) {
+    await writeRecordings({
+      dataset: dataset.version,
+      provider: pipeline.name,
+      model: pipeline.model,
+      recordedAt: new Date().toISOString(),
+      responses
+    });
+  }
+
+  return { predictions, unparsed };
+}
+
+const groupMetrics = (
+  rows: Array<{ item: EvaluationItem; predicted: Sentiment }>,
+  keysOf: (item: EvaluationItem) => string[]
+): Record<string, EvaluationMetrics> => {
+  const groups = new Map<string, Array<{ label: Sentiment; predicted: Sentiment }>>();
+  for (const { item, predicted } of rows) {
+    for (const key of keysOf(item)) {
+      groups.set(key, [...(groups.get(key) || []), { label: item.label, predicted }]);
+    }
+  }
+  return Object.fromEntries([...groups.entries()].sort(([a], [b]) => a.localeCompare(b)).map(([key, pairs]) => [key, computeClassificationMetrics(pairs)]));
+};
+
+/**
+ * Score a provider against a dataset version. LLM providers replay recorded responses unless
+ * record is set, which calls the live API and overwrites the recordings (scripts/sentiment-eval.ts).
+ */
+export async function runSentimentEvaluation(
+  dataset: EvaluationDataset,
+  provider: EvaluationProvider,
+  options: { record?: boolean } = {}
+): Promise<SentimentEvaluationReport> {
+  console.log(`🧪 Evaluating ${provider} on golden-${dataset.version} (${dataset.items.length} comments)`);
+
+  let predictions: Map<string, Sentiment>;
+  let unparsed = 0;
+  let model: string;
+  let mode: SentimentEvaluationReport['mode'];
+
+  if (provider === 'local') {
+    // The lexicon reads each text on its own, so parent context does not apply
+    const analyzed = await analyzeSentimentLocally(dataset.items.map(toComment));
+    predictions = new Map(analyzed.map(comment => [comment.id, comment.sentiment || 'neutral']));
+    model = 'afinn-165+multilingual-lexicons';
+    mode = 'offline';
+  } else {
+    const pipeline = getSentimentPipeline(provider);
+    ({ predictions, unparsed } = await predictWithPipeline(dataset, pipeline, options.record === true));
+    model = pipeline.model;
+    mode = options.record ? 'record' : 'replay';
+  }
+
+  const rows = dataset.items.map(item => ({ item, predicted: predictions.get(item.id) || 'neutral' }));
+  const overall = computeClassificationMetrics(rows.map(({ item, predicted }) => ({ label: item.label, predicted })));
+
+  console.log(`🧪 ${provider} on golden-${dataset.version}: accuracy ${overall.accuracy}, macro F1 ${overall.macroF1}`);
+
+  return {
+    dataset: dataset.version,
+    provider,
+    model,
+    mode,
+    evaluatedAt: new Date().toISOString(),
+    unparsed,
+    overall,
+    byLanguage: groupMetrics(rows, item => [item.language]),
+    byTag: groupMetrics(rows, item => item.tags || []),
+    errors: rows
+      .filter(({ item, predicted }) => item.label !== predicted)
+      .map(({ item, predicted }) => ({ id: item.id, language: item.language, text: item.text, label: item.label, predicted }))
+  };
+}
@@ -0,0 +1,149 @@
+// Periodic statistics snapshots for videos without YouTube Analytics access
+import { StatsSnapshot, VideoData } from '@/types';
+import { fetchVideoData } from '@/lib/youtube';
+import { readStore, updateStore } from '@/lib/storage';
+
+interface VideoSnapshotStore {
+  videoId: string;
+  publishedAt?: string;
+  snapshots: StatsSnapshot[];
+}
+
+interface SnapshotTarget {
+  addedAt: string;
+  lastRequestedAt: string;
+}
+
+interface SnapshotTargetStore {
+  videos: Record<string, SnapshotTarget>;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+export const SNAPSHOT_INTERVAL_MS = Number(process.env.SNAPSHOT_INTERVAL_MINUTES || 60) * 60 * 1000;
+
+// Videos nobody has looked at for this long stop being polled
+const TRACKING_WINDOW_MS = Number(process.env.SNAPSHOT_TRACK_DAYS || 30) * 24 * HOUR_MS;
+
+// Each tracked video costs one videos.list call per interval
+const MAX_TRACKED_VIDEOS = Number(process.env.SNAPSHOT_MAX_VIDEOS || 200);
+
+// ~90 days of hourly points per video
+const MAX_SNAPSHOTS = 2160;
+
+const TARGETS_STORE = 'snapshot-targets';
+const storeName = (videoId: string) => `snapshots/${videoId}`;
+
+const emptyStore = (videoId: string): VideoSnapshotStore => ({ videoId, snapshots: [] });
+
+/**
+ * Append the current statistics of a video to its history.
+ * Skipped when the last snapshot is fresher than half the polling interval, so page loads
+ * and the scheduler can both call this without piling up near-duplicate points.
+ */
+export async function recordSnapshot(videoId: string, video?: VideoData | null): Promise<StatsSnapshot | null> {
+  const current = await readStore(storeName(videoId), emptyStore(videoId));
+  const last = current.snapshots[current.snapshots.length - 1];
+  if (last && Date.now() - new Date(last.capturedAt).getTime() < SNAPSHOT_INTERVAL_MS / 2) {
+    return null;
+  }
+
+  const data = video ?? await fetchVideoData(videoId);
+  if (!data) {
+    return null;
+  }
+
+  const snapshot: StatsSnapshot = {
+    capturedAt: new Date().toISOString(),
+    viewCount: data.viewCount,
+    likeCount: data.likeCount,
+    commentCount: data.commentCount
+  };
+
+  await updateStore(storeName(videoId), emptyStore(videoId), store => {
+    store.publishedAt = data.publishedAt;
+    store.snapshots.push(snapshot);
+    if (store.snapshots.length > MAX_SNAPSHOTS) {
+      store.snapshots = store.snapshots.slice(-MAX_SNAPSHOTS);
+    }
+  });
+
+  return snapshot;
+}
+
+/**
+ * Stored statistics history for a video, oldest first
+ */
+export async function getSnapshots(videoId: string): Promise<StatsSnapshot[]> {
+  const store = await readStore(storeName(videoId), emptyStore(videoId));
+  return store.snapshots;
+}
+
+/**
+ * Stored history together with the publish date recorded alongside it
+ */
+export async function getSnapshotHistory(videoId: string): Promise<{ publishedAt?: string; snapshots: StatsSnapshot[] }> {
+  const { publishedAt, snapshots } = await readStore(storeName(videoId), emptyStore(videoId));
+  return { publishedAt, snapshots };
+}
+
+/**
+ * Keep polling a video on the snapshot schedule (refreshed every time it is requested).
+ * Only call this for videos known to exist. At the cap, the least recently requested video is dropped.
+ */
+export async function trackVideoSnapshots(videoId: string): Promise<void> {
+  const now = new Date().toISOString();
+  await updateStore<SnapshotTargetStore>(TARGETS_STORE, { videos: {} }, store => {
+    store.videos[videoId] = {
+      addedAt: store.videos[videoId]?.addedAt || now,
+      lastRequestedAt: now
+    };
+
+    const overflow = Object.keys(store.videos).length - MAX_TRACKED_VIDEOS;
+    if (overflow > 0) {
+      Object.entries(store.videos)
+        .sort(([, a], [, b]) => a.lastRequestedAt.localeCompare(b.lastRequestedAt))
+        .slice(0, overflow)
+        .forEach(([staleId]) => delete store.videos[staleId]);
+    }
+  });
+}
+
+/**
+ * Snapshot every tracked video once. Targets past the tracking window are dropped.
+ */
+export async function captureTrackedSnapshots(): Promise<{ captured: number; skipped: number; expired: number }> {
+  const cutoff = Date.now() - TRACKING_WINDOW_MS;
+  const { active, expired } = await updateStore<SnapshotTargetStore, { active: string[]; expired: number }>(
+    TARGETS_STORE,
+    { videos: {} },
+    store => {
+      let expired = 0;
+      for (const [videoId, target] of Object.entries(store.videos)) {
+        if (new Date(target.lastRequestedAt).getTime() < cutoff) {
+          delete store.videos[videoId];
+          expired++;
+        }
+      }
+      return { active: Object.keys(store.videos), expired };
+    }
+  );
+
+  let captured = 0;
+  let skipped = 0;
+  // Sequential on purpose: one videos.list call at a time keeps quota usage predictable
+  for (const videoId of active) {
+    try {
+      const snapshot = await recordSnapshot(videoId);
+      if (snapshot) {
+        captured++;
+      } else {
+        skipped++;
+      }
+    } catch (error) {
+      console.error(`❌ Snapshot failed for video ${videoId}:`, error);
+      skipped++;
+    }
+  }
+
+  return { captured, skipped, expired };
+}
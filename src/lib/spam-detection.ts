@@ -0,0 +1,174 @@
+// Spam and bot comment detection: near-duplicate clusters, links, contact details, author names, lookalike text
+import { CommentData, SpamAssessment, SpamSignal } from '@/types';
+
+// Signals combine as independent evidence: 1 - (1 - a)(1 - b)...
+const SIGNAL_WEIGHTS: Record<SpamSignal, number> = {
+  duplicate: 0.5, // MIN_CLUSTER_SIZE copies or more; see SMALL_CLUSTER_WEIGHT
+  contact: 0.5,
+  link: 0.35,
+  lookalike: 0.35,
+  author: 0.3
+};
+
+export const SPAM_THRESHOLD = 0.5;
+
+// Short texts like "great video" are repeated honestly, so only longer copies count as duplicates
+const MIN_DUPLICATE_WORDS = 6;
+const SHINGLE_SIZE = 3;
+const DUPLICATE_SIMILARITY = 0.7;
+const MIN_CLUSTER_SIZE = 3;
+// People repeat themselves honestly (thank-you replies, follow-ups), so one author's pair needs a second signal
+const SMALL_CLUSTER_WEIGHT = 0.3;
+
+// Cyrillic and Greek letters that render like Latin ones
+const HOMOGLYPHS: Record<string, string> = {
+  'а': 'a', 'в': 'b', 'е': 'e', 'к': 'k', 'м': 'm', 'н': 'h', 'о': 'o', 'р': 'p', 'с': 'c', 'т': 't',
+  'у': 'y', 'х': 'x', 'і': 'i', 'ј': 'j', 'ԁ': 'd', 'ѕ': 's', 'ӏ': 'l', 'ɡ': 'g',
+  'α': 'a', 'β': 'b', 'ε': 'e', 'ι': 'i', 'κ': 'k', 'ν': 'v', 'ο': 'o', 'ρ': 'p', 'τ': 't', 'υ': 'u', 'χ': 'x'
+};
+
+// Mathematical alphanumerics, fullwidth, small capitals and enclosed letters
+const STYLED_LETTERS = /[\u{1D400}-\u{1D7FF}Ａ-Ｚａ-ｚᴀ-ᴫⒶ-ⓩ\u{1F130}-\u{1F189}]/gu;
+
+const LINK_PATTERN = /https?:\/\/|www\.|\b(?:t\.me|wa\.me|bit\.ly|tinyurl\.com)\b|\b[a-z0-9-]{2,}\s?(?:\.|\(dot\)|\[dot\])\s?(?:com|net|org|io|me|ly|xyz|site|link|info|online|shop)\b/i;
+const PHONE_PATTERN = /\+?\d[\d\s().-]{8,}\d/g;
+const MESSENGER_PATTERN = /\b(?:whats\s?app|telegram|signal|wickr|viber)\b[^.!?\n]{0,25}?(?:\+?\d{3,}|@\w{3,})/i;
+const AUTHOR_PATTERN = /\b(?:whats\s?app|telegram|t\.me|crypto|bitcoin|btc|forex|invest(?:ment|or)?|trading|profit|giveaway|dm\s?me|text\s?me|contact)\b|\+\d{5,}|\d{7,}/i;
+
+const stripHtml = (text: string): string => text.replace(/<[^>]*>/g, ' ');
+
+/**
+ * Fold styled and lookalike letters to plain Latin so disguised copies and numbers still match
+ */
+export function foldLookalikes(text: string): string {
+  return Array.from(text.normalize('NFKC').toLowerCase())
+    .map(char => HOMOGLYPHS[char] || char)
+    .join('');
+}
+
+/**
+ * Latin words containing Cyrillic/Greek letters, or runs of styled Unicode letters
+ */
+function hasLookalikeText(text: string): boolean {
+  const mixedWord = text.split(/\s+/).some(word =>
+    /\p{Script=Latin}/u.test(word) && /[\p{Script=Cyrillic}\p{Script=Greek}]/u.test(word)
+  );
+  return mixedWord || (text.match(STYLED_LETTERS) || []).length >= 3;
+}
+
+function hasContactDetails(folded: string): boolean {
+  const phone = (folded.match(PHONE_PATTERN) || []).some(match => match.replace(/\D/g, '').length >= 10);
+  return phone || MESSENGER_PATTERN.test(folded);
+}
+
+const duplicateKey = (folded: string): string[] =>
+  folded.replace(/[^\p{L}\p{N}\s]/gu, ' ').split(/\s+/).filter(Boolean);
+
+/**
+ * Group comments whose word shingles overlap by at least DUPLICATE_SIMILARITY.
+ * Only comments sharing a shingle are compared, so this stays close to linear on real threads.
+ */
+function findDuplicateClusters(comments: CommentData[], foldedTexts: string[]): number[][] {
+  const shingleSets = foldedTexts.map(text => {
+    const words = duplicateKey(text);
+    if (words.length < MIN_DUPLICATE_WORDS) return null;
+    const shingles = new Set<string>();
+    for (let i = 0; i <= words.length - SHINGLE_SIZE; i++) {
+      shingles.add(words.slice(i, i + SHINGLE_SIZE).join(' '));
+    }
+    return shingles;
+  });
+
+  const parent = comments.map((_, index) => index);
+  const find = (index: number): number => parent[index] === index ? index : (parent[index] = find(parent[index]));
+
+  const postings = new Map<string, number[]>();
+  shingleSets.forEach((shingles, index) => {
+    if (!shingles) return;
+    const compared = new Set<number>();
+
+    for (const shingle of shingles) {
+      const others = postings.get(shingle) || [];
+      for (const other of others) {
+        if (compared.has(other)) continue;
+        compared.add(other);
+
+        const otherShingles = shingleSets[other]!;
+        let shared = 0;
+        shingles.forEach(value => { if (otherShingles.has(value)) shared++; });
+        if (shared / (shingles.size + otherShingles.size - shared) >= DUPLICATE_SIMILARITY) {
+          parent[find(index)] = find(other);
+        }
+      }
+      others.push(index);
+      postings.set(shingle, others);
+    }
+  });
+
+  const clusters = new Map<number, number[]>();
+  comments.forEach((_, index) => {
+    if (!shingleSets[index]) return;
+    const root = find(index);
+    clusters.set(root, [...(clusters.get(root) || []), index]);
+  });
+
+  // Several copies, or the same author repeating themselves
+  return [...clusters.values()].filter(members => {
+    if (members.length >= MIN_CLUSTER_SIZE) return true;
+    const authors = members.map(index => comments[index].authorChannelId || comments[index].authorDisplayName);
+    return new Set(authors).size < authors.length;
+  });
+}
+
+/**
+ * Assess every comment in a thread set. Comments with no signal are left out of the result,
+ * and so are the channel owner's own comments and replies.
+ */
+export function detectSpam(
+  allComments: CommentData[],
+  options: { ownerChannelId?: string } = {}
+): Map<string, SpamAssessment> {
+  const comments = options.ownerChannelId
+    ? allComments.filter(comment => comment.authorChannelId !== options.ownerChannelId)
+    : allComments;
+  const plainTexts = comments.map(comment => stripHtml(comment.textDisplay));
+  const foldedTexts = plainTexts.map(foldLookalikes);
+
+  const clusterSizes = new Map<number, number>();
+  for (const members of findDuplicateClusters(comments, foldedTexts)) {
+    members.forEach(index => clusterSizes.set(index, members.length));
+  }
+
+  const results = new Map<string, SpamAssessment>();
+  comments.forEach((comment, index) => {
+    const signals: SpamSignal[] = [];
+    if (clusterSizes.has(index)) signals.push('duplicate');
+    if (LINK_PATTERN.test(foldedTexts[index])) signals.push('link');
+    if (hasContactDetails(foldedTexts[index])) signals.push('contact');
+    if (AUTHOR_PATTERN.test(foldLookalikes(comment.authorDisplayName)) || hasLookalikeText(comment.authorDisplayName)) {
+      signals.push('author');
+    }
+    if (hasLookalikeText(plainTexts[index])) signals.push('lookalike');
+
+    if (signals.length === 0) return;
+
+    const weightOf = (signal: SpamSignal): number =>
+      signal === 'duplicate' && clusterSizes.get(index)! < MIN_CLUSTER_SIZE ? SMALL_CLUSTER_WEIGHT : SIGNAL_WEIGHTS[signal];
+    const score = 1 - signals.reduce((remaining, signal) => remaining * (1 - weightOf(signal)), 1);
+    results.set(comment.id, {
+      isSpam: score >= SPAM_THRESHOLD,
+      score: Math.round(score * 100) / 100,
+      signals,
+      duplicates: clusterSizes.get(index)
+    });
+  });
+
+  const spamCount = [...results.values()].filter(result => result.isSpam).length;
+  if (spamCount > 0) {
+    console.log(`🚫 Spam detection: ${spamCount}/${allComments.length} comments flagged as spam`);
+  }
+
+  return results;
+}
+
+export const isSpamComment = (comment: CommentData): boolean => Boolean(comment.spam?.isSpam);
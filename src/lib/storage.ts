@@ -0,0 +1,64 @@
+// File-backed JSON persistence for server-side state
+import { promises as fs } from 'fs';
+import path from 'path';
+
+const DATA_DIR = process.env.SENTIMENTTRACK_DATA_DIR || path.join(process.cwd(), '.data');
+
+// Serialize writes per file so concurrent route handlers never interleave updates
+const writeQueues = new Map<string, Promise<unknown>>();
+
+const storePath = (name: string): string => path.join(DATA_DIR, `${name}.json`);
+
+/**
+ * Read a named JSON store, returning the fallback when it does not exist yet
+ */
+export async function readStore<T>(name: string, fallback: T): Promise<T> {
+  try {
+    const raw = await fs.readFile(storePath(name), 'utf8');
+    return JSON.parse(raw) as T;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      console.error(`❌ Failed to read store "${name}":`, error);
+    }
+    return fallback;
+  }
+}
+
+/**
+ * Atomically replace the contents of a named JSON store
+ */
+async function writeStoreFile<T>(name: string, data: T): Promise<void> {
+  const file = storePath(name);
+  await fs.mkdir(path.dirname(file), { recursive: true });
+
+  const tempFile = `${file}.${process.pid}.${Date.now()}.tmp`;
+  await fs.writeFile(tempFile, JSON.stringify(data), 'utf8');
+  await fs.rename(tempFile, file);
+}
+
+/**
+ * Read-modify-write a named JSON store under a per-file lock
+ */
+export async function updateStore<T, R = void>(
+  name: string,
+  fallback: T,
+  mutate: (data: T) => R | Promise<R>
+): Promise<R> {
+  const previous = writeQueues.get(name) || Promise.resolve();
+
+  const next = previous.catch(() => undefined).then(async () => {
+    const data = await readStore(name, fallback);
+    const result = await mutate(data);
+    await writeStoreFile(name, data);
+    return result;
+  });
+
+  writeQueues.set(name, next);
+  try {
+    return await next;
+  } finally {
+    if (writeQueues.get(name) === next) {
+      writeQueues.delete(name);
+    }
+  }
+}
@@ -0,0 +1,332 @@
+// Caption track selection and timed-text parsing into TranscriptSegment[]
+import { TranscriptSegment } from '@/types';
+
+export type TranscriptFormat = 'vtt' | 'srt' | 'timedtext';
+
+export interface CaptionTrack {
+  baseUrl: string;
+  languageCode: string;
+  name: string;
+  kind?: string; // 'asr' for auto-generated tracks
+  isTranslatable?: boolean;
+}
+
+const HTML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' '
+};
+
+/**
+ * Decode XML/HTML entities found in timed-text payloads (YouTube double-encodes apostrophes)
+ */
+function decodeEntities(text: string): string {
+  let decoded = text;
+  // Two passes handle "&amp;#39;" style double encoding
+  for (let pass = 0; pass < 2; pass++) {
+    decoded = decoded
+      .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+      .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(parseInt(dec, 10)))
+      .replace(/&([a-z]+);/gi, (match, name) => HTML_ENTITIES[name.toLowerCase()] ?? match);
+  }
+  return decoded;
+}
+
+// srv1 encodes formatting tags as entities, so strip tags again after decoding
+const cleanCueText = (text: string): string =>
+  decodeEntities(text.replace(/<[^>]*>/g, ''))
+    .replace(/<\/?[a-z][^>]*>/gi, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+const roundSeconds = (seconds: number): number => Math.round(seconds * 1000) / 1000;
+
+/**
+ * Parse YouTube json3 timed-text ({ events: [{ tStartMs, dDurationMs, segs }] })
+ */
+function parseJson3TimedText(payload: string): TranscriptSegment[] {
+  const data = JSON.parse(payload) as {
+    events?: Array<{ tStartMs?: number; dDurationMs?: number; segs?: Array<{ utf8?: string }> }>;
+  };
+
+  return (data.events || [])
+    .filter(event => Array.isArray(event.segs))
+    .map(event => ({
+      start: roundSeconds((event.tStartMs || 0) / 1000),
+      duration: roundSeconds((event.dDurationMs || 0) / 1000),
+      text: cleanCueText((event.segs || []).map(seg => seg.utf8 || '').join(''))
+    }))
+    .filter(segment => segment.text.length > 0);
+}
+
+/**
+ * Parse XML timed-text: srv1 (<text start dur>), srv3 (<p t d>, milliseconds) and TTML (<p begin end>)
+ */
+function parseXmlTimedText(payload: string): TranscriptSegment[] {
+  const segments: TranscriptSegment[] = [];
+  const attribute = (attributes: string, name: string): number | undefined => {
+    const match = attributes.match(new RegExp(`\\b${name}="([\\d.]+)"`));
+    return match ? parseFloat(match[1]) : undefined;
+  };
+
+  for (const match of payload.matchAll(/<text\b([^>]*)>([\s\S]*?)<\/text>/g)) {
+    segments.push({
+      start: roundSeconds(attribute(match[1], 'start') || 0),
+      duration: roundSeconds(attribute(match[1], 'dur') || 0),
+      text: cleanCueText(match[2])
+    });
+  }
+
+  if (segments.length === 0) {
+    for (const match of payload.matchAll(/<p\b([^>]*)>([\s\S]*?)<\/p>/g)) {
+      const begin = match[1].match(/\bbegin="([^"]+)"/);
+      if (begin) {
+        // TTML: clock times with either end or dur
+        const start = parseClockTime(begin[1]);
+        const end = match[1].match(/\bend="([^"]+)"/);
+        const dur = match[1].match(/\bdur="([^"]+)"/);
+        segments.push({
+          start: roundSeconds(start),
+          duration: roundSeconds(end ? parseClockTime(end[1]) - start : dur ? parseClockTime(dur[1]) : 0),
+          text: cleanCueText(match[2].replace(/<br\s*\/?>/gi, ' '))
+        });
+      } else {
+        segments.push({
+          start: roundSeconds((attribute(match[1], 't') || 0) / 1000),
+          duration: roundSeconds((attribute(match[1], 'd') || 0) / 1000),
+          text: cleanCueText(match[2])
+        });
+      }
+    }
+  }
+
+  return segments.filter(segment => segment.text.length > 0);
+}
+
+/**
+ * Parse a clock value ("01:02:03.450", "02:03,450", "12.5s") into seconds
+ */
+export function parseClockTime(value: string): number {
+  const trimmed = value.trim().replace(',', '.');
+  if (trimmed.endsWith('ms')) {
+    return parseFloat(trimmed) / 1000;
+  }
+  if (trimmed.endsWith('s')) {
+    return parseFloat(trimmed);
+  }
+  return trimmed
+    .split(':')
+    .reduce((total, part) => total * 60 + (parseFloat(part) || 0), 0);
+}
+
+const CUE_TIMING = /^((?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3})\s+-->\s+((?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3})/;
+
+/**
+ * Parse cue blocks shared by WebVTT and SRT (timing line followed by text lines)
+ */
+function parseCueBlocks(payload: string): TranscriptSegment[] {
+  const segments: TranscriptSegment[] = [];
+  // YouTube auto-caption VTT (inline <00:00:01.000><c> word timings) repeats the
+  // previous line at the top of each rolling cue
+  const rolling = /<\d{2}:\d{2}:\d{2}\.\d{3}>/.test(payload);
+  let previousLine = '';
+
+  for (const block of payload.replace(/\r\n?/g, '\n').split(/\n{2,}/)) {
+    const lines = block.split('\n');
+    const timingIndex = lines.findIndex(line => CUE_TIMING.test(line.trim()));
+    if (timingIndex === -1) {
+      continue; // WEBVTT header, NOTE, STYLE or REGION blocks
+    }
+
+    const [, startValue, endValue] = lines[timingIndex].trim().match(CUE_TIMING)!;
+    const start = parseClockTime(startValue);
+
+    const textLines = lines
+      .slice(timingIndex + 1)
+      .map(line => cleanCueText(line))
+      .filter(line => line.length > 0 && !(rolling && line === previousLine));
+
+    if (textLines.length === 0) {
+      continue;
+    }
+
+    previousLine = textLines[textLines.length - 1];
+    segments.push({
+      start: roundSeconds(start),
+      duration: roundSeconds(Math.max(0, parseClockTime(endValue) - start)),
+      text: textLines.join(' ')
+    });
+  }
+
+  return segments;
+}
+
+/**
+ * Parse a WebVTT caption file
+ */
+export function parseVtt(payload: string): TranscriptSegment[] {
+  return parseCueBlocks(payload);
+}
+
+/**
+ * Parse an SRT caption file
+ */
+export function parseSrt(payload: string): TranscriptSegment[] {
+  return parseCueBlocks(payload);
+}
+
+/**
+ * Guess the caption format of a payload
+ */
+export function detectTranscriptFormat(payload: string): TranscriptFormat {
+  const trimmed = payload.trim();
+  if (trimmed.startsWith('WEBVTT')) {
+    return 'vtt';
+  }
+  if (trimmed.startsWith('{') || trimmed.startsWith('<')) {
+    return 'timedtext';
+  }
+  return 'srt';
+}
+
+/**
+ * Parse a caption payload in any supported format (auto-detected when not given)
+ */
+export function parseTranscript(payload: string, format: TranscriptFormat = detectTranscriptFormat(payload)): TranscriptSegment[] {
+  switch (format) {
+    case 'vtt':
+      return parseVtt(payload);
+    case 'srt':
+      return parseSrt(payload);
+    default:
+      return parseTimedText(payload);
+  }
+}
+
+/**
+ * Parse a YouTube timed-text payload (json3 or XML) into transcript segments
+ */
+export function parseTimedText(payload: string): TranscriptSegment[] {
+  const trimmed = payload.trim();
+  if (!trimmed) {
+    return [];
+  }
+  return trimmed.startsWith('{') ? parseJson3TimedText(trimmed) : parseXmlTimedText(trimmed);
+}
+
+/**
+ * Join segments into plain transcript text
+ */
+export function segmentsToText(segments: TranscriptSegment[]): string {
+  return segments
+    .map(segment => segment.text)
+    .join(' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Format seconds as m:ss or h:mm:ss
+ */
+export function formatTimestamp(seconds: number): string {
+  const total = Math.max(0, Math.floor(seconds));
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const secs = String(total % 60).padStart(2, '0');
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${secs}` : `${minutes}:${secs}`;
+}
+
+/**
+ * Extract the captionTracks array embedded in a watch page's player response
+ */
+export function extractCaptionTracks(html: string): CaptionTrack[] {
+  const keyIndex = html.indexOf('"captionTracks":');
+  if (keyIndex === -1) {
+    return [];
+  }
+
+  // Scan to the matching bracket, skipping brackets inside JSON strings
+  const start = html.indexOf('[', keyIndex);
+  if (start === -1) {
+    return [];
+  }
+
+  let depth = 0;
+  let inString = false;
+  let end = -1;
+  for (let i = start; i < html.length && end === -1; i++) {
+    const char = html[i];
+    if (inString) {
+      if (char === '\\') i++;
+      else if (char === '"') inString = false;
+    } else if (char === '"') {
+      inString = true;
+    } else if (char === '[') {
+      depth++;
+    } else if (char === ']' && --depth === 0) {
+      end = i;
+    }
+  }
+
+  if (end === -1) {
+    return [];
+  }
+
+  try {
+    const tracks = JSON.parse(html.slice(start, end + 1)) as Array<{
+      baseUrl: string;
+      languageCode: string;
+      kind?: string;
+      isTranslatable?: boolean;
+      name?: { simpleText?: string; runs?: Array<{ text: string }> };
+    }>;
+
+    return tracks.map(track => ({
+      baseUrl: track.baseUrl,
+      languageCode: track.languageCode,
+      name: track.name?.simpleText || track.name?.runs?.map(run => run.text).join('') || track.languageCode,
+      kind: track.kind,
+      isTranslatable: track.isTranslatable
+    }));
+  } catch (error) {
+    console.error('❌ Failed to parse caption tracks:', error);
+    return [];
+  }
+}
+
+/**
+ * Pick the best caption track for the preferred languages, in order.
+ * Manual tracks beat auto-generated ones. When no preferred language exists the
+ * original track is used, or machine-translated via tlang when allowTranslation is set.
+ */
+export function selectCaptionTrack(
+  tracks: CaptionTrack[],
+  preferredLanguages: string[] = ['en'],
+  allowTranslation: boolean = false
+): { track: CaptionTrack; translateTo?: string } | null {
+  if (tracks.length === 0) {
+    return null;
+  }
+
+  const matchesLanguage = (track: CaptionTrack, language: string) =>
+    track.languageCode.toLowerCase().split('-')[0] === language.toLowerCase().split('-')[0];
+
+  for (const language of preferredLanguages) {
+    const candidates = tracks.filter(track => matchesLanguage(track, language));
+    const track = candidates.find(candidate => candidate.kind !== 'asr') || candidates[0];
+    if (track) {
+      return { track };
+    }
+  }
+
+  // Original-language manual track first, auto-generated otherwise
+  const fallback = tracks.find(track => track.kind !== 'asr') || tracks[0];
+  const requested = preferredLanguages[0];
+  if (allowTranslation && requested && fallback.isTranslatable) {
+    return { track: fallback, translateTo: requested.split('-')[0] };
+  }
+  return { track: fallback };
+}
@@ -0,0 +1,160 @@
+// Deterministic daily-view estimates for videos without YouTube Analytics access
+import { StatsSnapshot } from '@/types';
+
+export interface EstimatedViewsDay {
+  date: string;
+  views: number; // cumulative at end of day
+  dailyViews: number;
+  dailyViewsLow: number;
+  dailyViewsHigh: number;
+  observed: boolean; // true when bracketed by real snapshots rather than modelled
+}
+
+export interface ViewsEstimate {
+  viewsPerDay: EstimatedViewsDay[];
+  method: 'decay-curve' | 'decay-curve+snapshots';
+  decayExponent: number;
+  exponentRange: [number, number];
+  snapshotsUsed: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Daily views are modelled as k·(t+1)^-α. α≈1 is a typical upload; lower values keep a long tail
+// (evergreen tutorials), higher values burn out fast (news, launches).
+const DEFAULT_EXPONENT = 1.0;
+const DEFAULT_EXPONENT_RANGE: [number, number] = [0.6, 1.4];
+const FITTED_BAND = 0.15;
+const EXPONENT_GRID = Array.from({ length: 35 }, (_, i) => Math.round((0.3 + i * 0.05) * 100) / 100);
+
+/**
+ * Cumulative share of views after t days: ∫0^t (x+1)^-α dx
+ */
+function cumulativeCurve(t: number, alpha: number): number {
+  if (t <= 0) return 0;
+  if (Math.abs(alpha - 1) < 1e-9) return Math.log(t + 1);
+  return (Math.pow(t + 1, 1 - alpha) - 1) / (1 - alpha);
+}
+
+/**
+ * Fit the decay exponent to snapshot history (least squares on log cumulative views),
+ * anchored so the curve always passes through the current total
+ */
+function fitExponent(
+  snapshots: Array<{ ageDays: number; viewCount: number }>,
+  ageDays: number,
+  totalViews: number
+): number {
+  let best = DEFAULT_EXPONENT;
+  let bestError = Infinity;
+
+  for (const alpha of EXPONENT_GRID) {
+    const scale = totalViews / cumulativeCurve(ageDays, alpha);
+    const error = snapshots.reduce((sum, snapshot) => {
+      const predicted = Math.max(1, scale * cumulativeCurve(snapshot.ageDays, alpha));
+      return sum + Math.pow(Math.log(predicted) - Math.log(Math.max(1, snapshot.viewCount)), 2);
+    }, 0);
+
+    if (error < bestError) {
+      bestError = error;
+      best = alpha;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Interpolate cumulative views at a moment from the snapshots that bracket it
+ */
+function interpolateSnapshots(
+  snapshots: Array<{ time: number; viewCount: number }>,
+  time: number
+): number | null {
+  for (let i = 1; i < snapshots.length; i++) {
+    const before = snapshots[i - 1];
+    const after = snapshots[i];
+    if (before.time <= time && time <= after.time) {
+      const span = after.time - before.time;
+      return span === 0
+        ? after.viewCount
+        : before.viewCount + (after.viewCount - before.viewCount) * ((time - before.time) / span);
+    }
+  }
+  return null;
+}
+
+/**
+ * Estimate daily views for the last windowDays (UTC days) of a video's life from its publish date
+ * and current total views. Snapshots narrow the band and replace the model on the days they cover.
+ */
+export function estimateDailyViews(input: {
+  publishedAt: string;
+  totalViews: number;
+  snapshots?: Array<Pick<StatsSnapshot, 'capturedAt' | 'viewCount'>>;
+  now?: Date;
+  windowDays?: number;
+}): ViewsEstimate {
+  const now = input.now || new Date();
+  const published = new Date(input.publishedAt).getTime();
+  const ageDays = Math.max(1 / 24, (now.getTime() - published) / DAY_MS);
+  const totalViews = Math.max(0, input.totalViews);
+
+  const snapshots = (input.snapshots || [])
+    .map(snapshot => ({ time: new Date(snapshot.capturedAt).getTime(), viewCount: snapshot.viewCount }))
+    .filter(snapshot => !isNaN(snapshot.time) && snapshot.time >= published && snapshot.time <= now.getTime())
+    .sort((a, b) => a.time - b.time);
+
+  // Two snapshots at least a few hours apart are needed to say anything about the curve's shape
+  const usableSnapshots = snapshots.length >= 2 && snapshots[snapshots.length - 1].time - snapshots[0].time >= DAY_MS / 4;
+  const decayExponent = usableSnapshots
+    ? fitExponent(snapshots.map(s => ({ ageDays: (s.time - published) / DAY_MS, viewCount: s.viewCount })), ageDays, totalViews)
+    : DEFAULT_EXPONENT;
+  const exponentRange: [number, number] = usableSnapshots
+    ? [Math.max(0.1, Math.round((decayExponent - FITTED_BAND) * 100) / 100), Math.round((decayExponent + FITTED_BAND) * 100) / 100]
+    : DEFAULT_EXPONENT_RANGE;
+
+  const exponents = [decayExponent, ...exponentRange];
+  const scales = exponents.map(alpha => totalViews / cumulativeCurve(ageDays, alpha));
+  const cumulativeAt = (t: number, index: number) =>
+    Math.min(totalViews, scales[index] * cumulativeCurve(Math.min(t, ageDays), exponents[index]));
+
+  const today = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+  const firstDay = new Date(Date.UTC(
+    new Date(published).getUTCFullYear(),
+    new Date(published).getUTCMonth(),
+    new Date(published).getUTCDate()
+  ));
+  const windowDays = input.windowDays || 30;
+  const start = Math.max(firstDay.getTime(), today.getTime() - (windowDays - 1) * DAY_MS);
+  const observedSnapshots = usableSnapshots ? [...snapshots, { time: now.getTime(), viewCount: totalViews }] : [];
+
+  const viewsPerDay: EstimatedViewsDay[] = [];
+  for (let dayStart = start; dayStart <= today.getTime(); dayStart += DAY_MS) {
+    const t0 = Math.max(0, (dayStart - published) / DAY_MS);
+    const t1 = Math.min(ageDays, (dayStart + DAY_MS - published) / DAY_MS);
+
+    const modelled = exponents.map((_, index) => Math.max(0, cumulativeAt(t1, index) - cumulativeAt(t0, index)));
+    const observedStart = interpolateSnapshots(observedSnapshots, published + t0 * DAY_MS);
+    const observedEnd = interpolateSnapshots(observedSnapshots, published + t1 * DAY_MS);
+    const observed = observedStart !== null && observedEnd !== null;
+
+    const dailyViews = observed ? Math.max(0, observedEnd - observedStart) : modelled[0];
+    viewsPerDay.push({
+      date: new Date(dayStart).toISOString().split('T')[0],
+      views: Math.round(observed ? observedEnd : cumulativeAt(t1, 0)),
+      dailyViews: Math.round(dailyViews),
+      dailyViewsLow: Math.round(observed ? dailyViews : Math.min(...modelled)),
+      dailyViewsHigh: Math.round(observed ? dailyViews : Math.max(...modelled)),
+      observed
+    });
+  }
+
+  return {
+    viewsPerDay,
+    method: usableSnapshots ? 'decay-curve+snapshots' : 'decay-curve',
+    decayExponent,
+    exponentRange,
+    snapshotsUsed: usableSnapshots ? snapshots.length : 0
+  };
+}
@@ -0,0 +1,202 @@
+// Creator voice profile learned from the channel owner's own past replies
+import { VoiceProfile } from '@/types';
+import { YouTubeService } from '@/lib/youtube-service';
+import { readStore, updateStore } from '@/lib/storage';
+
+interface VoiceProfileStore {
+  users: Record<string, VoiceProfile>;
+}
+
+const STORE = 'voice-profiles';
+export const MIN_VOICE_SAMPLES = 5;
+
+// Threads checked per build; each one costs a comments.list call
+const MAX_THREADS = 50;
+const MAX_SAMPLES = 200;
+const MAX_EXAMPLES = 5;
+
+const EMOJI = /\p{Extended_Pictographic}/gu;
+
+// Phrases made only of these say nothing about the creator's voice
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'the', 'to', 'of', 'in', 'on', 'for', 'it', 'is', 'i', 'you', 'that', 'this',
+  'be', 'was', 'are', 'with', 'at', 'as', 'so', 'but', 'or', 'if', 'my', 'your', 'me', 'we', 'do'
+]);
+
+const emptyStore = (): VoiceProfileStore => ({ users: {} });
+
+/**
+ * Reply text as the viewer saw it: no markup, entities decoded and the leading @mention dropped
+ */
+function plainReply(text: string): string {
+  return text
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<[^>]*>/g, '')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&')
+    .replace(/^\s*@[^\s]+\s*/, '')
+    .trim();
+}
+
+const wordsOf = (text: string): string[] =>
+  text.toLowerCase().replace(EMOJI, ' ').split(/\s+/).map(word => word.replace(/^[^\p{L}\p{N}']+|[^\p{L}\p{N}']+$/gu, '')).filter(Boolean);
+
+/**
+ * Values appearing in at least minShare of the replies (and at least twice), most common first
+ */
+function recurring(values: string[], sampleSize: number, minShare: number, limit: number): string[] {
+  const counts = new Map<string, number>();
+  for (const value of values) {
+    counts.set(value, (counts.get(value) || 0) + 1);
+  }
+
+  return [...counts.entries()]
+    .filter(([, count]) => count >= 2 && count >= sampleSize * minShare)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, limit)
+    .map(([value]) => value);
+}
+
+/**
+ * Closing line of a reply when it is short enough to be a sign-off ("- Sam", "Cheers!")
+ */
+function closingLine(reply: string): string | null {
+  const lines = reply.split(/\n|(?<=[.!?])\s+/).map(line => line.trim()).filter(Boolean);
+  const last = lines[lines.length - 1];
+  if (!last || lines.length < 2) {
+    return null;
+  }
+  const normalized = last.replace(EMOJI, '').trim();
+  return normalized && normalized.split(/\s+/).length <= 4 ? normalized : null;
+}
+
+/**
+ * Build a voice profile from reply texts (newest first). Returns null below MIN_VOICE_SAMPLES.
+ */
+export function buildVoiceProfile(replyTexts: string[]): VoiceProfile | null {
+  const replies = replyTexts.map(plainReply).filter(reply => wordsOf(reply).length > 0);
+  if (replies.length < MIN_VOICE_SAMPLES) {
+    return null;
+  }
+
+  const wordCounts = replies.map(reply => wordsOf(reply).length);
+  const sortedCounts = [...wordCounts].sort((a, b) => a - b);
+  const maxWords = sortedCounts[Math.min(sortedCounts.length - 1, Math.floor(sortedCounts.length * 0.9))];
+  const share = (predicate: (reply: string) => boolean) =>
+    Math.round((replies.filter(predicate).length / replies.length) * 100) / 100;
+
+  const emojis = replies.flatMap(reply => reply.match(EMOJI) || []);
+  const openers = replies.map(reply => wordsOf(reply)[0]).filter(word => word && !STOPWORDS.has(word));
+  const closings = replies.map(closingLine).filter((line): line is string => line !== null);
+
+  // Count each phrase once per reply so one long reply cannot dominate
+  const phrases = replies.flatMap(reply => {
+    const words = wordsOf(reply);
+    const grams = new Set<string>();
+    for (const size of [3, 2]) {
+      for (let i = 0; i + size <= words.length; i++) {
+        const gram = words.slice(i, i + size);
+        if (!gram.every(word => STOPWORDS.has(word))) {
+          grams.add(gram.join(' '));
+        }
+      }
+    }
+    return [...grams];
+  });
+  const topPhrases = recurring(phrases, replies.length, 0.1, 16);
+
+  const closingCounts = recurring(closings.map(line => line.toLowerCase()), replies.length, 0.1, 3);
+
+  return {
+    sampleSize: replies.length,
+    averageWords: Math.round(wordCounts.reduce((sum, count) => sum + count, 0) / replies.length),
+    maxWords,
+    emojiRate: share(reply => (reply.match(EMOJI) || []).length > 0),
+    topEmojis: recurring(emojis, 0, 0, 5),
+    exclamationRate: share(reply => reply.includes('!')),
+    lowercaseRate: share(reply => /^\p{Ll}/u.test(reply)),
+    openers: recurring(openers, replies.length, 0.15, 3),
+    // Keep the creator's own casing for sign-offs
+    signOffs: closingCounts.map(lower => closings.find(line => line.toLowerCase() === lower)!),
+    // Drop phrases already contained in a longer recurring phrase
+    phrases: topPhrases
+      .filter(phrase => !topPhrases.some(other => other !== phrase && other.includes(phrase)))
+      .slice(0, 8),
+    examples: [...new Set(replies.filter((reply, index) => wordCounts[index] >= 3 && wordCounts[index] <= maxWords))]
+      .slice(0, MAX_EXAMPLES),
+    builtAt: new Date().toISOString()
+  };
+}
+
+/**
+ * Prompt section describing the creator's voice for reply generation
+ */
+export function describeVoiceProfile(profile: VoiceProfile): string {
+  const emojiHabit = profile.emojiRate >= 0.5 ? 'in most replies'
+    : profile.emojiRate >= 0.15 ? 'sometimes'
+    : 'almost never';
+  const lines = [
+    `CREATOR VOICE (learned from ${profile.sampleSize} of the creator's own replies, match it closely):`,
+    `- Length: usually about ${profile.averageWords} words, rarely more than ${profile.maxWords}`,
+    `- Emojis: ${emojiHabit}${profile.topEmojis.length > 0 ? ` (favourites: ${profile.topEmojis.join(' ')})` : ''}`,
+    `- Exclamation marks in ${Math.round(profile.exclamationRate * 100)}% of replies` +
+      (profile.lowercaseRate >= 0.5 ? '; usually starts in lowercase' : ''),
+    profile.openers.length > 0 ? `- Often opens with: ${profile.openers.map(word => `"${word}"`).join(', ')}` : '',
+    profile.signOffs.length > 0 ? `- Often signs off with: ${profile.signOffs.map(line => `"${line}"`).join(', ')}` : '',
+    profile.phrases.length > 0 ? `- Recurring phrases: ${profile.phrases.map(phrase => `"${phrase}"`).join(', ')}` : '',
+    profile.examples.length > 0 ? `- Real replies by the creator:\n${profile.examples.map(example => `  "${example.replace(/\s*\n+\s*/g, ' ')}"`).join('\n')}` : ''
+  ];
+  return lines.filter(Boolean).join('\n');
+}
+
+/**
+ * The stored voice profile for a user, if one has been built
+ */
+export async function getVoiceProfile(userId: string): Promise<VoiceProfile | null> {
+  const store = await readStore(STORE, emptyStore());
+  return store.users[userId] || null;
+}
+
+/**
+ * Forget a user's voice profile; replies fall back to the plain tone presets
+ */
+export async function deleteVoiceProfile(userId: string): Promise<boolean> {
+  return updateStore<VoiceProfileStore, boolean>(STORE, emptyStore(), store => {
+    const existed = userId in store.users;
+    delete store.users[userId];
+    return existed;
+  });
+}
+
+/**
+ * Rebuild a user's profile from the replies their channel has left on recent comment threads.
+ * Returns null (and keeps any existing profile) when too few replies were found.
+ */
+export async function refreshVoiceProfile(userId: string, accessToken: string): Promise<VoiceProfile | null> {
+  const youtubeService = new YouTubeService(accessToken);
+  const channelId = await youtubeService.getOwnChannelId();
+  if (!channelId) {
+    return null;
+  }
+
+  const threadIds = await youtubeService.getRepliedCommentIds(channelId);
+  const replyTexts: string[] = [];
+  for (const commentId of threadIds.slice(0, MAX_THREADS)) {
+    const replies = await youtubeService.getCommentReplies(commentId, channelId);
+    replyTexts.push(...replies.map(reply => reply.textOriginal));
+    if (replyTexts.length >= MAX_SAMPLES) {
+      break;
+    }
+  }
+
+  console.log(`🗣️ Found ${replyTexts.length} owner replies across ${threadIds.length} threads`);
+
+  const profile = buildVoiceProfile(replyTexts.slice(0, MAX_SAMPLES));
+  if (profile) {
+    await updateStore<VoiceProfileStore>(STORE, emptyStore(), store => {
+      store.users[userId] = profile;
+    });
+  }
+  return profile;
+}
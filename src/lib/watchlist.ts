@@ -0,0 +1,221 @@
+// Per-user watchlist of tracked videos and channels with sentiment runs
+import { ParsedUrl, SentimentAnalysis, WatchlistDelta, WatchlistEntry, WatchlistItem, WatchlistRun } from '@/types';
+import { fetchChannelData, fetchVideoData, resolveChannelId } from '@/lib/youtube';
+import { syncVideoComments, scoreStoredComments, selectStoredComments } from '@/lib/comment-store';
+import { calculateSentimentAnalysis } from '@/lib/metrics';
+import { recordSnapshot, trackVideoSnapshots } from '@/lib/snapshots';
+import { readStore, updateStore } from '@/lib/storage';
+
+interface WatchlistStore {
+  users: Record<string, WatchlistItem[]>;
+}
+
+const STORE = 'watchlists';
+export const MAX_WATCHLIST_ITEMS = 50;
+
+// Same sample the /try pie chart scores, so watchlist numbers match a manual analysis
+const COMMENTS_PER_VIDEO = 100;
+const CHANNEL_VIDEOS_PER_RUN = Number(process.env.WATCHLIST_CHANNEL_VIDEOS || 3);
+
+const emptyStore = (): WatchlistStore => ({ users: {} });
+
+export const watchlistItemId = (target: ParsedUrl): string => `${target.type}:${target.id}`;
+
+const percentage = (count: number, sentiment: SentimentAnalysis): number =>
+  sentiment.total > 0 ? (count / sentiment.total) * 100 : 0;
+
+/**
+ * Change between the last two runs (percentage points for sentiment, absolute for counts)
+ */
+function calculateDelta(item: WatchlistItem): WatchlistDelta | null {
+  const { lastRun, previousRun } = item;
+  if (!lastRun || !previousRun) {
+    return null;
+  }
+
+  const points = (key: 'positive' | 'neutral' | 'negative') =>
+    Math.round((percentage(lastRun.sentiment[key], lastRun.sentiment) - percentage(previousRun.sentiment[key], previousRun.sentiment)) * 10) / 10;
+
+  return {
+    positivePercentage: points('positive'),
+    neutralPercentage: points('neutral'),
+    negativePercentage: points('negative'),
+    viewCount: lastRun.viewCount - previousRun.viewCount,
+    commentCount: lastRun.commentCount - previousRun.commentCount
+  };
+}
+
+/**
+ * A user's tracked items with deltas since the previous run, most recently added first
+ */
+export async function listWatchlist(userId: string): Promise<WatchlistEntry[]> {
+  const store = await readStore(STORE, emptyStore());
+  return (store.users[userId] || [])
+    .map(item => ({ ...item, delta: calculateDelta(item) }))
+    .sort((a, b) => b.addedAt.localeCompare(a.addedAt));
+}
+
+/**
+ * Add a video or channel to a user's watchlist (adding an existing target is a no-op).
+ * Returns null when the watchlist is full.
+ */
+export async function addWatchlistItem(userId: string, target: ParsedUrl): Promise<WatchlistItem | null> {
+  if (target.type === null || !target.id) {
+    throw new Error('Watchlist targets must be a video or channel');
+  }
+
+  const item = await updateStore<WatchlistStore, WatchlistItem | null>(STORE, emptyStore(), store => {
+    const items = store.users[userId] ??= [];
+    const existing = items.find(entry => entry.id === watchlistItemId(target));
+    if (existing) {
+      return existing;
+    }
+    if (items.length >= MAX_WATCHLIST_ITEMS) {
+      return null;
+    }
+
+    const created: WatchlistItem = {
+      id: watchlistItemId(target),
+      target: { type: target.type, id: target.id },
+      addedAt: new Date().toISOString()
+    };
+    items.push(created);
+    return created;
+  });
+
+  if (item && target.type === 'video') {
+    await trackVideoSnapshots(target.id);
+  }
+  return item;
+}
+
+/**
+ * Remove an item from a user's watchlist, returning whether it existed
+ */
+export async function removeWatchlistItem(userId: string, itemId: string): Promise<boolean> {
+  return updateStore(STORE, emptyStore(), store => {
+    const items = store.users[userId] || [];
+    const remaining = items.filter(item => item.id !== itemId);
+    store.users[userId] = remaining;
+    return remaining.length !== items.length;
+  });
+}
+
+/**
+ * Sync and score the top comments of one video
+ */
+async function analyzeVideo(videoId: string): Promise<SentimentAnalysis> {
+  const { comments } = await syncVideoComments(videoId);
+  const sample = selectStoredComments(comments, { order: 'likes', limit: COMMENTS_PER_VIDEO });
+  const scored = await scoreStoredComments(videoId, sample.map(comment => comment.id));
+  return calculateSentimentAnalysis(scored);
+}
+
+/**
+ * Fresh sentiment and statistics for a target. Channels aggregate their latest uploads.
+ */
+async function runTarget(target: ParsedUrl): Promise<WatchlistRun> {
+  if (target.type === 'video') {
+    const video = await fetchVideoData(target.id);
+    if (!video) {
+      throw new Error('Video not found or unavailable');
+    }
+
+    // Runs keep the video on the snapshot schedule for as long as it stays watched
+    await trackVideoSnapshots(video.id);
+    await recordSnapshot(video.id, video);
+    return {
+      runAt: new Date().toISOString(),
+      title: video.title,
+      videoIds: [video.id],
+      sentiment: await analyzeVideo(video.id),
+      viewCount: video.viewCount,
+      commentCount: video.commentCount
+    };
+  }
+
+  const channelId = await resolveChannelId(target.id);
+  const channel = channelId ? await fetchChannelData(channelId) : null;
+  if (!channel) {
+    throw new Error('Channel not found or unavailable');
+  }
+
+  const videos = channel.videos.slice(0, CHANNEL_VIDEOS_PER_RUN);
+  const sentiment: SentimentAnalysis = { positive: 0, neutral: 0, negative: 0, total: 0 };
+  for (const video of videos) {
+    const videoSentiment = await analyzeVideo(video.id);
+    sentiment.positive += videoSentiment.positive;
+    sentiment.neutral += videoSentiment.neutral;
+    sentiment.negative += videoSentiment.negative;
+    sentiment.total += videoSentiment.total;
+  }
+
+  return {
+    runAt: new Date().toISOString(),
+    title: channel.title,
+    videoIds: videos.map(video => video.id),
+    sentiment,
+    viewCount: channel.viewCount,
+    commentCount: videos.reduce((sum, video) => sum + video.commentCount, 0)
+  };
+}
+
+/**
+ * Run the given items of a user's watchlist (all items when none are given).
+ * Each run shifts the last result into previousRun so deltas always compare consecutive runs.
+ */
+export async function runWatchlist(
+  userId: string,
+  options: { itemIds?: string[]; minAgeMs?: number } = {}
+): Promise<WatchlistEntry[]> {
+  const store = await readStore(STORE, emptyStore());
+  const due = (store.users[userId] || []).filter(item =>
+    (!options.itemIds || options.itemIds.includes(item.id)) &&
+    (!options.minAgeMs || !item.lastRun || Date.now() - new Date(item.lastRun.runAt).getTime() >= options.minAgeMs)
+  );
+
+  for (const item of due) {
+    console.log(`👀 Watchlist run for ${item.id}`);
+
+    let run: WatchlistRun | null = null;
+    let error: string | undefined;
+    try {
+      run = await runTarget(item.target);
+    } catch (runError) {
+      console.error(`❌ Watchlist run failed for ${item.id}:`, runError);
+      error = runError instanceof Error ? runError.message : 'Run failed';
+    }
+
+    // Re-read under the lock: the item may have been removed while the run was in flight
+    await updateStore(STORE, emptyStore(), latest => {
+      const stored = (latest.users[userId] || []).find(entry => entry.id === item.id);
+      if (!stored) {
+        return;
+      }
+      if (run) {
+        stored.previousRun = stored.lastRun;
+        stored.lastRun = run;
+      }
+      stored.lastError = error;
+    });
+  }
+
+  return listWatchlist(userId);
+}
+
+/**
+ * Scheduled pass over every user's watchlist, skipping items run more recently than minAgeMs
+ */
+export async function runAllWatchlists(minAgeMs: number = 0): Promise<number> {
+  const store = await readStore(STORE, emptyStore());
+  let users = 0;
+
+  for (const userId of Object.keys(store.users)) {
+    if (store.users[userId].length > 0) {
+      await runWatchlist(userId, { minAgeMs });
+      users++;
+    }
+  }
+
+  return users;
+}
@@ -0,0 +1,162 @@
+// Stored Google OAuth tokens so background jobs can act for a user without a browser session
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+import { OAuthTokenSet, refreshAccessToken } from '@/lib/google-oauth';
+import { readStore, updateStore } from '@/lib/storage';
+
+// Tokens are encrypted at rest; expiry and error stay readable for status checks
+interface StoredCredentials {
+  accessToken?: string;
+  refreshToken?: string;
+  expiresAt?: number;
+  error?: string;
+  updatedAt: string;
+}
+
+interface CredentialStore {
+  users: Record<string, StoredCredentials>;
+}
+
+export interface CredentialStatus {
+  connected: boolean;
+  error?: string;
+}
+
+const STORE = 'youtube-credentials';
+
+// Refresh a little early so a token never expires between lookup and use
+const EXPIRY_MARGIN_MS = 60 * 1000;
+
+const CIPHER = 'aes-256-gcm';
+const ENCRYPTED_PREFIX = 'v1';
+
+const emptyStore = (): CredentialStore => ({ users: {} });
+
+// One refresh per user at a time; concurrent callers share its result
+const inFlightRefreshes = new Map<string, Promise<string | null>>();
+
+/**
+ * Encryption key derived from NEXTAUTH_SECRET, which every deployment already sets
+ */
+function encryptionKey(): Buffer {
+  const secret = process.env.NEXTAUTH_SECRET;
+  if (!secret) {
+    throw new Error('NEXTAUTH_SECRET environment variable is required to store YouTube credentials');
+  }
+  return createHash('sha256').update(`youtube-credentials:${secret}`).digest();
+}
+
+function encryptToken(value: string | undefined): string | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const iv = randomBytes(12);
+  const cipher = createCipheriv(CIPHER, encryptionKey(), iv);
+  const data = Buffer.concat([cipher.update(value, 'utf8'), cipher.final()]);
+  return [ENCRYPTED_PREFIX, iv.toString('base64'), cipher.getAuthTag().toString('base64'), data.toString('base64')].join(':');
+}
+
+/**
+ * Decrypt a stored token. Returns null when it cannot be read, e.g. after NEXTAUTH_SECRET changed.
+ */
+function decryptToken(value: string | undefined): string | undefined | null {
+  if (!value) {
+    return undefined;
+  }
+  const [prefix, iv, tag, data] = value.split(':');
+  if (prefix !== ENCRYPTED_PREFIX || !iv || !tag || !data) {
+    return null;
+  }
+  try {
+    const decipher = createDecipheriv(CIPHER, encryptionKey(), Buffer.from(iv, 'base64'));
+    decipher.setAuthTag(Buffer.from(tag, 'base64'));
+    return Buffer.concat([decipher.update(Buffer.from(data, 'base64')), decipher.final()]).toString('utf8');
+  } catch (error) {
+    console.error('❌ Stored YouTube credentials could not be decrypted:', error);
+    return null;
+  }
+}
+
+const sealCredentials = (tokens: OAuthTokenSet): StoredCredentials => ({
+  accessToken: encryptToken(tokens.accessToken),
+  refreshToken: encryptToken(tokens.refreshToken),
+  expiresAt: tokens.expiresAt,
+  error: tokens.error,
+  updatedAt: new Date().toISOString()
+});
+
+/**
+ * Remember a user's tokens from their session. Returns false when the session has no
+ * refresh token, since the stored access token alone would stop working within the hour.
+ */
+export async function saveYouTubeCredentials(userId: string, tokens: OAuthTokenSet): Promise<boolean> {
+  if (!tokens.refreshToken || !tokens.accessToken) {
+    return false;
+  }
+
+  const sealed = sealCredentials({
+    accessToken: tokens.accessToken,
+    refreshToken: tokens.refreshToken,
+    expiresAt: tokens.expiresAt
+  });
+  await updateStore<CredentialStore>(STORE, emptyStore(), store => {
+    store.users[userId] = sealed;
+  });
+  return true;
+}
+
+/**
+ * A usable access token for the user, refreshed when it is close to expiry (or always with
+ * forceRefresh). Returns null when nothing readable is stored or Google rejects the refresh token.
+ */
+export async function getYouTubeAccessToken(userId: string, forceRefresh = false): Promise<string | null> {
+  const stored = (await readStore(STORE, emptyStore())).users[userId];
+  const refreshToken = decryptToken(stored?.refreshToken);
+  if (!stored || !refreshToken) {
+    return null;
+  }
+
+  const accessToken = decryptToken(stored.accessToken);
+  const fresh = accessToken && !stored.error &&
+    (stored.expiresAt || 0) * 1000 - EXPIRY_MARGIN_MS > Date.now();
+  if (fresh && !forceRefresh) {
+    return accessToken;
+  }
+
+  const inFlight = inFlightRefreshes.get(userId);
+  if (inFlight) {
+    return inFlight;
+  }
+
+  // The Google call runs outside the store lock so other users' credentials stay readable meanwhile
+  const refresh = (async () => {
+    const refreshed = await refreshAccessToken<OAuthTokenSet>({ accessToken: accessToken || undefined, refreshToken, expiresAt: stored.expiresAt });
+    const sealed = sealCredentials(refreshed);
+    await updateStore<CredentialStore>(STORE, emptyStore(), store => {
+      // Tokens saved from a new sign-in during the refresh are newer than these
+      if (store.users[userId]?.updatedAt === stored.updatedAt) {
+        store.users[userId] = sealed;
+      }
+    });
+    return refreshed.error ? null : refreshed.accessToken || null;
+  })();
+
+  inFlightRefreshes.set(userId, refresh);
+  try {
+    return await refresh;
+  } finally {
+    inFlightRefreshes.delete(userId);
+  }
+}
+
+/**
+ * Whether background jobs can currently act for the user
+ */
+export async function getCredentialStatus(userId: string): Promise<CredentialStatus> {
+  const store = await readStore(STORE, emptyStore());
+  const credentials = store.users[userId];
+  return {
+    // Tokens stored in plaintext before encryption, or under another secret, need a new sign-in
+    connected: Boolean(decryptToken(credentials?.refreshToken)) && !credentials?.error,
+    error: credentials?.error
+  };
+}
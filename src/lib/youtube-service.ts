@@ -35,6 +35,18 @@ export interface YouTubeVideoData {
   tags?: string[];
 }
 
+export interface YouTubeReplyData {
+  id: string;
+  textDisplay: string;
+  textOriginal: string;
+  authorDisplayName: string;
+  authorProfileImageUrl: string;
+  authorChannelId?: string;
+  likeCount: number;
+  publishedAt: string;
+  updatedAt: string;
+}
+
 export class YouTubeService {
   private youtube;
   private youtubeAnalytics;
@@ -152,4 +164,125 @@ export class YouTubeService {
       return null;
     }
   }
+
+  /**
+   * Id of the signed-in user's channel
+   */
+  async getOwnChannelId(): Promise<string | null> {
+    const response = await this.youtube.channels.list({ part: ['id'], mine: true });
+    return response.data.items?.[0]?.id || null;
+  }
+
+  /**
+   * Whether a video was uploaded by the signed-in user's channel
+   */
+  async ownsVideo(videoId: string): Promise<boolean> {
+    const [channelId, response] = await Promise.all([
+      this.getOwnChannelId(),
+      this.youtube.videos.list({ part: ['snippet'], id: [videoId] })
+    ]);
+    return Boolean(channelId && response.data.items?.[0]?.snippet?.channelId === channelId);
+  }
+
+  /**
+   * Replies to a top-level comment, optionally only those written by one channel
+   */
+  async getCommentReplies(parentId: string, authorChannelId?: string): Promise<YouTubeReplyData[]> {
+    const response = await this.youtube.comments.list({
+      part: ['snippet'],
+      parentId,
+      maxResults: 100
+    });
+
+    const replies = (response.data.items || []).map(reply => ({
+      id: reply.id!,
+      textDisplay: reply.snippet?.textDisplay || '',
+      textOriginal: reply.snippet?.textOriginal || reply.snippet?.textDisplay || '',
+      authorDisplayName: reply.snippet?.authorDisplayName || '',
+      authorProfileImageUrl: reply.snippet?.authorProfileImageUrl || '',
+      authorChannelId: reply.snippet?.authorChannelId?.value || undefined,
+      likeCount: reply.snippet?.likeCount || 0,
+      publishedAt: reply.snippet?.publishedAt || '',
+      updatedAt: reply.snippet?.updatedAt || '',
+    }));
+
+    return authorChannelId !== undefined ? replies.filter(reply => reply.authorChannelId === authorChannelId) : replies;
+  }
+
+  /**
+   * Ids of the most recent top-level comments across a channel's videos that have replies
+   */
+  async getRepliedCommentIds(channelId: string, maxResults: number = 100): Promise<string[]> {
+    const response = await this.youtube.commentThreads.list({
+      part: ['snippet'],
+      allThreadsRelatedToChannelId: channelId,
+      order: 'time',
+      maxResults
+    });
+
+    return (response.data.items || [])
+      .filter(thread => (thread.snippet?.totalReplyCount || 0) > 0)
+      .map(thread => thread.snippet?.topLevelComment?.id || thread.id!)
+      .filter(Boolean);
+  }
+
+  /**
+   * Post a reply to a top-level comment as the signed-in channel, returning the new reply's id
+   */
+  async replyToComment(parentId: string, text: string): Promise<string> {
+    const response = await this.youtube.comments.insert({
+      part: ['snippet'],
+      requestBody: {
+        snippet: {
+          parentId,
+          textOriginal: text
+        }
+      }
+    });
+
+    return response.data.id!;
+  }
+
+  /**
+   * Delete a comment or reply the signed-in channel wrote
+   */
+  async deleteComment(commentId: string): Promise<void> {
+    await this.youtube.comments.delete({ id: commentId });
+  }
+
+  /**
+   * Hold, publish or reject comments on the signed-in channel's videos, optionally banning their authors
+   */
+  async setModerationStatus(
+    commentIds: string[],
+    moderationStatus: 'heldForReview' | 'published' | 'rejected',
+    banAuthor: boolean = false
+  ): Promise<void> {
+    await this.youtube.comments.setModerationStatus({ id: commentIds, moderationStatus, banAuthor });
+  }
+
+  /**
+   * Report comments as spam
+   */
+  async markAsSpam(commentIds: string[]): Promise<void> {
+    await this.youtube.comments.markAsSpam({ id: commentIds });
+  }
+}
+
+// Shape of the errors thrown by googleapis calls
+export interface GoogleApiError {
+  response?: { status?: number };
+  errors?: Array<{ reason?: string }>;
+}
+
+/**
+ * User-facing message for a failed comments.insert call
+ */
+export function describeReplyError(error: unknown): string {
+  switch ((error as GoogleApiError | undefined)?.response?.status) {
+    case 403: return 'Insufficient permissions to reply to this comment';
+    case 404: return 'Comment not found or video unavailable';
+    case 400: return 'Invalid comment or reply content';
+    default: return 'Failed to post reply to YouTube';
+  }
 }
\ No newline at end of file
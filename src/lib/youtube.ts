@@ -1,5 +1,6 @@
 // YouTube Data API v3 utilities and helpers
-import { ParsedUrl, VideoData, ChannelData, CommentData } from '@/types';
+import { ParsedUrl, VideoData, ChannelData, CommentData, VideoTranscript } from '@/types';
+import { CaptionTrack, extractCaptionTracks, parseTimedText, segmentsToText, selectCaptionTrack } from '@/lib/transcript';
 
 const YOUTUBE_API_BASE = 'https://www.googleapis.com/youtube/v3';
 
@@ -83,6 +84,35 @@ export async function fetchVideoData(videoId: string): Promise<VideoData | null>
   }
 }
 
+/**
+ * Resolve a channel reference from parseYouTubeUrl (UC… id, @handle or legacy username) to a channel ID
+ */
+export async function resolveChannelId(reference: string): Promise<string | null> {
+  if (/^UC[a-zA-Z0-9_-]{22}$/.test(reference)) {
+    return reference;
+  }
+
+  try {
+    for (const lookup of [`forHandle=${encodeURIComponent(`@${reference}`)}`, `forUsername=${encodeURIComponent(reference)}`]) {
+      const response = await fetch(
+        `${YOUTUBE_API_BASE}/channels?${lookup}&part=id&key=${process.env.YOUTUBE_API_KEY}`
+      );
+      if (!response.ok) {
+        throw new Error(`YouTube API error: ${response.status}`);
+      }
+
+      const data = await response.json();
+      if (data.items?.[0]?.id) {
+        return data.items[0].id;
+      }
+    }
+    return null;
+  } catch (error) {
+    console.error('Error resolving channel ID:', error);
+    return null;
+  }
+}
+
 /**
  * Fetch comprehensive channel data from YouTube Data API v3
  */
@@ -186,6 +216,37 @@ export async function fetchChannelData(channelId: string): Promise<ChannelData |
   }
 }
 
+/**
+ * Map a commentThreads item (part=snippet,replies) to the top-level comment with its inline replies.
+ * The API inlines at most five replies; totalReplyCount tells whether the thread has more.
+ */
+function mapCommentThread(item: any): CommentData {
+  const topComment = item.snippet.topLevelComment.snippet;
+
+  return {
+    id: item.id,
+    authorDisplayName: topComment.authorDisplayName,
+    authorProfileImageUrl: topComment.authorProfileImageUrl,
+    textDisplay: topComment.textDisplay,
+    publishedAt: topComment.publishedAt,
+    updatedAt: topComment.updatedAt,
+    likeCount: topComment.likeCount || 0,
+    authorChannelId: topComment.authorChannelId?.value,
+    totalReplyCount: item.snippet.totalReplyCount || 0,
+    replies: (item.replies?.comments || []).map((reply: any) => ({
+      id: reply.id,
+      parentId: item.id,
+      authorDisplayName: reply.snippet.authorDisplayName,
+      authorProfileImageUrl: reply.snippet.authorProfileImageUrl,
+      textDisplay: reply.snippet.textDisplay,
+      publishedAt: reply.snippet.publishedAt,
+      updatedAt: reply.snippet.updatedAt,
+      likeCount: reply.snippet.likeCount || 0,
+      authorChannelId: reply.snippet.authorChannelId?.value
+    }))
+  };
+}
+
 /**
  * Fetch comments from YouTube Data API v3
  */
@@ -198,7 +259,7 @@ export async function fetchVideoComments(
     const response = await fetch(
       `${YOUTUBE_API_BASE}/commentThreads?` +
       `videoId=${videoId}&` +
-      `part=snippet&` +
+      `part=snippet,replies&` +
       `order=relevance&` +
       `maxResults=${maxResults}&` +
       `${pageToken ? `pageToken=${pageToken}&` : ''}` +
@@ -215,19 +276,7 @@ export async function fetchVideoComments(
       return { comments: [] };
     }
 
-    const comments: CommentData[] = data.items.map((item: any) => {
-      const topComment = item.snippet.topLevelComment.snippet;
-      
-      return {
-        id: item.id,
-        authorDisplayName: topComment.authorDisplayName,
-        authorProfileImageUrl: topComment.authorProfileImageUrl,
-        textDisplay: topComment.textDisplay,
-        publishedAt: topComment.publishedAt,
-        likeCount: topComment.likeCount || 0,
-        authorChannelId: topComment.authorChannelId?.value
-      };
-    });
+    const comments: CommentData[] = data.items.map(mapCommentThread);
 
     return {
       comments,
@@ -269,6 +318,15 @@ export function parseDuration(duration: string): string {
   return `${minutes}:${seconds.toString().padStart(2, '0')}`;
 }
 
+/**
+ * Parse ISO 8601 duration to total seconds
+ */
+export function parseDurationSeconds(duration: string): number {
+  const match = duration.match(/PT(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?/);
+  if (!match) return 0;
+  return parseInt(match[1] || '0') * 3600 + parseInt(match[2] || '0') * 60 + parseInt(match[3] || '0');
+}
+
 /**
  * Calculate time elapsed since publication
  */
@@ -289,25 +347,89 @@ export function getTimeElapsed(publishedAt: string): string {
 }
 
 /**
- * Fetch video transcript/captions (fallback to description if unavailable)
+ * Fetch caption tracks for a public video from its watch page (no OAuth needed)
  */
-export async function fetchVideoTranscript(videoId: string): Promise<string> {
+async function fetchCaptionTracks(videoId: string): Promise<CaptionTrack[]> {
+  const response = await fetch(`https://www.youtube.com/watch?v=${videoId}&hl=en`, {
+    headers: {
+      'Accept-Language': 'en-US,en;q=0.9',
+      'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0 Safari/537.36',
+      // Skip the EU consent interstitial, which has no player response
+      'Cookie': 'CONSENT=YES+1'
+    }
+  });
+
+  if (!response.ok) {
+    throw new Error(`YouTube watch page error: ${response.status}`);
+  }
+
+  return extractCaptionTracks(await response.text());
+}
+
+/**
+ * Fetch a timestamped transcript for a public video.
+ * Caption tracks are chosen by preferred language (manual before auto-generated);
+ * when a video has no captions the title and description stand in as a single segment.
+ */
+export async function fetchVideoTranscriptSegments(
+  videoId: string,
+  options: { languages?: string[]; allowTranslation?: boolean } = {}
+): Promise<VideoTranscript | null> {
+  const languages = options.languages?.length ? options.languages : ['en'];
+
   try {
-    // Note: YouTube Data API v3 doesn't provide transcript access
-    // This would require a separate transcript API or service
-    // For now, we'll return a placeholder and use video description
-    
-    // In a real implementation, you might use:
-    // - youtube-transcript-api (Python equivalent)
-    // - YouTube transcript API (if available)
-    // - Third-party transcript services
-    
-    console.log(`Transcript not available for video ${videoId} via YouTube Data API v3`);
-    return '';
+    const tracks = await fetchCaptionTracks(videoId);
+    console.log(`📄 Found ${tracks.length} caption tracks for video ${videoId}`);
+
+    const selection = selectCaptionTrack(tracks, languages, options.allowTranslation);
+    if (selection) {
+      const { track, translateTo } = selection;
+      const trackUrl = `${track.baseUrl}&fmt=json3${translateTo ? `&tlang=${translateTo}` : ''}`;
+      const response = await fetch(trackUrl);
+
+      if (!response.ok) {
+        throw new Error(`YouTube timed-text error: ${response.status}`);
+      }
+
+      const segments = parseTimedText(await response.text());
+      if (segments.length > 0) {
+        console.log(`✅ Parsed ${segments.length} transcript segments (${track.languageCode}${translateTo ? ` → ${translateTo}` : ''}, ${track.kind === 'asr' ? 'auto' : 'manual'})`);
+        return {
+          videoId,
+          source: track.kind === 'asr' ? 'auto-captions' : 'captions',
+          language: translateTo || track.languageCode,
+          translated: Boolean(translateTo),
+          segments,
+          text: segmentsToText(segments)
+        };
+      }
+    }
   } catch (error) {
-    console.error('Error fetching transcript:', error);
-    return '';
+    console.error(`❌ Error fetching captions for video ${videoId}:`, error);
+  }
+
+  // Fallback: title + description as pseudo-transcript
+  const video = await fetchVideoData(videoId);
+  const description = video ? `${video.title}\n\n${video.description || ''}`.trim() : '';
+  if (!description) {
+    return null;
   }
+
+  console.log(`📝 Using description as transcript fallback for video ${videoId}`);
+  return {
+    videoId,
+    source: 'description',
+    segments: [{ start: 0, duration: 0, text: description }],
+    text: description
+  };
+}
+
+/**
+ * Fetch video transcript text (falls back to title + description if no captions)
+ */
+export async function fetchVideoTranscript(videoId: string, languages?: string[]): Promise<string> {
+  const transcript = await fetchVideoTranscriptSegments(videoId, { languages });
+  return transcript?.text || '';
 }
 
 /**
@@ -318,7 +440,7 @@ export async function fetchLatestVideoComments(videoId: string, maxComments: num
     const response = await fetch(
       `${YOUTUBE_API_BASE}/commentThreads?` +
       `videoId=${videoId}&` +
-      `part=snippet&` +
+      `part=snippet,replies&` +
       `order=time&` +
       `maxResults=${Math.min(maxComments, 100)}&` +
       `key=${process.env.YOUTUBE_API_KEY}`
@@ -334,19 +456,7 @@ export async function fetchLatestVideoComments(videoId: string, maxComments: num
       return [];
     }
 
-    const comments: CommentData[] = data.items.map((item: any) => {
-      const topComment = item.snippet.topLevelComment.snippet;
-      
-      return {
-        id: item.id,
-        authorDisplayName: topComment.authorDisplayName,
-        authorProfileImageUrl: topComment.authorProfileImageUrl,
-        textDisplay: topComment.textDisplay,
-        publishedAt: topComment.publishedAt,
-        likeCount: topComment.likeCount || 0,
-        authorChannelId: topComment.authorChannelId?.value
-      };
-    });
+    const comments: CommentData[] = data.items.map(mapCommentThread);
 
     return comments;
   } catch (error) {
@@ -374,7 +484,7 @@ export async function fetchAllVideoComments(videoId: string): Promise<CommentDat
       const response = await fetch(
         `${YOUTUBE_API_BASE}/commentThreads?` +
         `videoId=${videoId}&` +
-        `part=snippet&` +
+        `part=snippet,replies&` +
         `order=relevance&` +
         `maxResults=100&` +
         `${nextPageToken ? `pageToken=${nextPageToken}&` : ''}` +
@@ -397,16 +507,8 @@ export async function fetchAllVideoComments(videoId: string): Promise<CommentDat
       }
       
       const comments: CommentData[] = data.items.map((item: any) => {
-        const topComment = item.snippet.topLevelComment.snippet;
-        
         return {
-          id: item.id,
-          authorDisplayName: topComment.authorDisplayName,
-          authorProfileImageUrl: topComment.authorProfileImageUrl,
-          textDisplay: topComment.textDisplay,
-          publishedAt: topComment.publishedAt,
-          likeCount: topComment.likeCount || 0,
-          authorChannelId: topComment.authorChannelId?.value,
+          ...mapCommentThread(item),
           sentiment: 'neutral' as const,
           confidence: 0.5,
           detectedLanguage: 'en'
@@ -432,4 +534,84 @@ export async function fetchAllVideoComments(videoId: string): Promise<CommentDat
     console.error(`Error fetching all video comments for ${videoId}:`, error);
     return [];
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Fetch comment threads newest-first, stopping once threads are older than the sync cursor.
+ * A pass cut short by maxRequests or an API refusal is not complete and returns the token of the
+ * page it stopped at so it can be resumed.
+ * channelId is the video owner's channel, as reported on the threads.
+ */
+export async function fetchCommentThreadsSince(
+  videoId: string,
+  since?: string,
+  maxRequests: number = 50,
+  pageToken?: string
+): Promise<{ comments: CommentData[]; complete: boolean; nextPageToken?: string; channelId?: string }> {
+  const comments: CommentData[] = [];
+  let channelId: string | undefined;
+  const cursorTime = since ? new Date(since).getTime() : 0;
+  let nextPageToken: string | undefined = pageToken;
+  let requestCount = 0;
+  let reachedCursor = false;
+  let refused = false;
+
+  do {
+    requestCount++;
+
+    const response = await fetch(
+      `${YOUTUBE_API_BASE}/commentThreads?` +
+      `videoId=${videoId}&` +
+      `part=snippet,replies&` +
+      `order=time&` +
+      `maxResults=100&` +
+      `${nextPageToken ? `pageToken=${nextPageToken}&` : ''}` +
+      `key=${process.env.YOUTUBE_API_KEY}`
+    );
+
+    if (!response.ok) {
+      if (response.status === 403) {
+        console.warn(`⚠️ Comments disabled or quota exceeded for video ${videoId}`);
+        refused = true;
+        break;
+      }
+      throw new Error(`YouTube API error: ${response.status}`);
+    }
+
+    const data = await response.json();
+
+    if (!data.items || data.items.length === 0) {
+      break;
+    }
+
+    channelId ??= data.items[0].snippet?.channelId;
+
+    for (const item of data.items) {
+      const topComment = item.snippet.topLevelComment.snippet;
+
+      // order=time is newest first, so everything after this thread was already synced
+      if (cursorTime && new Date(topComment.publishedAt).getTime() <= cursorTime) {
+        reachedCursor = true;
+        break;
+      }
+
+      comments.push(mapCommentThread(item));
+    }
+
+    nextPageToken = data.nextPageToken;
+
+    if (!reachedCursor && nextPageToken && requestCount < maxRequests) {
+      await new Promise(resolve => setTimeout(resolve, 800));
+    }
+  } while (!reachedCursor && nextPageToken && requestCount < maxRequests);
+
+  console.log(`📥 Fetched ${comments.length} new comment threads for video ${videoId} in ${requestCount} requests`);
+
+  const complete = !refused && (reachedCursor || !nextPageToken);
+  return {
+    comments,
+    complete,
+    nextPageToken: complete ? undefined : nextPageToken,
+    channelId
+  };
+}
@@ -35,17 +35,86 @@ export interface ChannelData {
   videos: VideoData[];
 }
 
+export type CommentCategory =
+  | 'question'
+  | 'feature-request' // asks for a video, topic or product change
+  | 'bug-report'      // audio, video, link or product problems
+  | 'spam'
+  | 'self-promo'
+  | 'toxicity'
+  | 'praise'
+  | 'other';
+
+// Fine-grained emotions on top of polarity; a comment can carry none or several
+export type CommentEmotion =
+  | 'joy'
+  | 'gratitude'
+  | 'anger'
+  | 'confusion'
+  | 'disappointment'
+  | 'excitement'
+  | 'sarcasm';
+
+// Comments per emotion for a video (each comment counts once per emotion it carries)
+export type EmotionDistribution = Record<CommentEmotion, number>;
+
+export type SpamSignal =
+  | 'duplicate' // copy-pasted text posted several times
+  | 'link'
+  | 'contact'   // phone numbers or messenger handles
+  | 'author'    // scam-style author name
+  | 'lookalike'; // Unicode letters disguised as Latin text
+
+export interface SpamAssessment {
+  isSpam: boolean;
+  score: number; // 0-1, combined signal strength
+  signals: SpamSignal[];
+  duplicates?: number; // size of the near-duplicate cluster
+}
+
+export type ModerationAction =
+  | 'hold'   // hold for review
+  | 'reject'
+  | 'ban'    // reject and ban the author from the channel
+  | 'spam';
+
+export interface ModerationResult {
+  action: ModerationAction;
+  succeeded: string[];
+  failed: Array<{ commentId: string; error: string }>;
+}
+
+export interface ThreadSentiment {
+  replyCount: number; // scored replies
+  positive: number;
+  neutral: number;
+  negative: number;
+  netSentiment: number; // -1 to 1 across the parent and its replies, confidence weighted
+  controversy: number; // 0 (one-sided or quiet) to 1 (busy thread split between positive and negative)
+}
+
 export interface CommentData {
   id: string;
   authorDisplayName: string;
   authorProfileImageUrl: string;
   textDisplay: string;
   publishedAt: string;
+  updatedAt?: string;
   likeCount: number;
   authorChannelId?: string;
   sentiment?: 'positive' | 'neutral' | 'negative';
   confidence?: number;
+  sentimentSource?: 'groq' | 'mistral' | 'local'; // provider that produced the score; 'local' when an LLM batch fell back to the lexicon
   detectedLanguage?: string;
+  categories?: CommentCategory[]; // triage intents, most relevant first
+  emotions?: CommentEmotion[]; // strongest first, empty for flat comments
+  correction?: SentimentCorrectionMark; // sentiment was set by the creator, not the model
+  spam?: SpamAssessment; // only set when a spam signal fired
+  parentId?: string; // set on replies
+  totalReplyCount?: number;
+  replies?: CommentData[]; // inline replies as fetched with the thread
+  thread?: ThreadSentiment; // top-level comments with scored replies
+  timestamps?: number[]; // video moments (seconds) the comment refers to
 }
 
 export interface TranscriptSegment {
@@ -54,6 +123,27 @@ export interface TranscriptSegment {
   text: string;
 }
 
+export interface TimelineSentimentBucket {
+  start: number;
+  end: number;
+  positive: number;
+  neutral: number;
+  negative: number;
+  mentions: number;
+  netSentiment: number; // -1 (all negative) to 1 (all positive)
+  transcriptExcerpt?: string;
+  commentIds: string[];
+}
+
+export interface VideoTranscript {
+  videoId: string;
+  source: 'captions' | 'auto-captions' | 'description';
+  language?: string;
+  translated?: boolean;
+  segments: TranscriptSegment[];
+  text: string;
+}
+
 export interface SentimentAnalysis {
   positive: number;
   neutral: number;
@@ -61,6 +151,34 @@ export interface SentimentAnalysis {
   total: number;
 }
 
+export interface StatsSnapshot {
+  capturedAt: string;
+  viewCount: number;
+  likeCount: number;
+  commentCount: number;
+}
+
+export interface GrowthRates {
+  source: 'snapshots' | 'lifetime'; // measured between snapshots, or averaged since publish
+  windowHours: number;
+  viewsPerHour: number;
+  likesPerHour: number;
+  commentsPerHour: number;
+}
+
+export type SentimentTimeBucket = 'hour' | 'day' | 'week';
+
+export interface SentimentTimePoint {
+  date: string; // bucket label (UTC): "2024-05-01 14:00" for hours, bucket start date otherwise
+  bucketStart: string;
+  sentiment_score: number; // confidence-weighted net sentiment, -1 to 1
+  positive: number;
+  neutral: number;
+  negative: number;
+  total: number;
+  averageConfidence: number;
+}
+
 export interface KeywordData {
   word: string;
   count: number;
@@ -89,6 +207,280 @@ export interface ParsedUrl {
   id: string;
 }
 
+export interface WatchlistRun {
+  runAt: string;
+  title: string;
+  videoIds: string[]; // the video itself, or the latest uploads of a channel
+  sentiment: SentimentAnalysis;
+  viewCount: number;
+  commentCount: number;
+}
+
+export interface WatchlistItem {
+  id: string; // "<type>:<id>"
+  target: ParsedUrl;
+  addedAt: string;
+  lastRun?: WatchlistRun;
+  previousRun?: WatchlistRun;
+  lastError?: string;
+}
+
+export interface WatchlistDelta {
+  positivePercentage: number; // percentage points since the previous run
+  neutralPercentage: number;
+  negativePercentage: number;
+  viewCount: number;
+  commentCount: number;
+}
+
+export interface WatchlistEntry extends WatchlistItem {
+  delta: WatchlistDelta | null;
+}
+
+export type AlertChannel =
+  | { type: 'webhook'; url: string }
+  | { type: 'email'; to: string }
+  | { type: 'inbox' };
+
+export interface AlertRule {
+  id: string;
+  userId: string;
+  videoId: string;
+  thresholdPercent?: number; // fire when negative share in the window reaches this
+  changePercent?: number; // fire when negative share rises this much (relative %) over the earlier baseline
+  minSampleSize: number; // scored comments needed in the window before the rule is evaluated
+  windowHours: number;
+  cooldownMinutes: number;
+  channels: AlertChannel[];
+  enabled: boolean;
+  createdAt: string;
+  lastTriggeredAt?: string;
+}
+
+export interface AlertEvent {
+  id: string;
+  ruleId: string;
+  userId: string;
+  videoId: string;
+  reason: 'threshold' | 'change';
+  negativePercent: number;
+  baselinePercent: number | null;
+  sampleSize: number;
+  message: string;
+  createdAt: string;
+  read: boolean;
+}
+
+export interface VoiceProfile {
+  sampleSize: number;
+  averageWords: number;
+  maxWords: number; // 90th percentile reply length
+  emojiRate: number; // share of replies with at least one emoji (0-1)
+  topEmojis: string[];
+  exclamationRate: number;
+  lowercaseRate: number; // share of replies that start in lowercase
+  openers: string[]; // recurring first words, e.g. "Thanks", "Haha"
+  signOffs: string[]; // recurring closing lines, e.g. "- Sam", "see you next week!"
+  phrases: string[]; // recurring 2-3 word phrases
+  examples: string[];
+  builtAt: string;
+}
+
+export type ReplyTone = 'friendly' | 'professional' | 'casual' | 'humorous';
+
+export type ReplyQueueStatus =
+  | 'drafting'   // waiting for a generated draft
+  | 'review'     // draft ready for a human
+  | 'approved'   // queued for posting
+  | 'scheduled'  // approved, waiting for postAt
+  | 'rejected'
+  | 'posting'
+  | 'posted'
+  | 'failed';    // drafting or posting failed, see error
+
+export type GuardrailCheck = 'promise' | 'link' | 'personal-data' | 'toxicity' | 'off-topic' | 'contradiction';
+
+export interface GuardrailIssue {
+  check: GuardrailCheck;
+  severity: 'flag' | 'block'; // flagged replies need a person to confirm, blocked ones are never posted
+  message: string;
+  excerpt?: string;
+}
+
+export interface GuardrailResult {
+  verdict: 'pass' | 'flag' | 'block';
+  issues: GuardrailIssue[];
+  checkedAt: string;
+}
+
+export interface GuardrailLogEntry {
+  id: string;
+  source: 'direct' | 'queue';
+  videoId: string;
+  commentId: string;
+  reply: string;
+  verdict: GuardrailResult['verdict'];
+  issues: GuardrailIssue[];
+  outcome: 'allowed' | 'held' | 'blocked'; // held = flagged and waiting for confirmation
+  checkedAt: string;
+}
+
+export interface ReplyQueueItem {
+  id: string;
+  videoId: string;
+  videoTitle: string;
+  commentId: string;
+  commentText: string;
+  authorDisplayName: string;
+  tone: ReplyTone;
+  draft: string;
+  status: ReplyQueueStatus;
+  error?: string;
+  replyId?: string;
+  postAt?: string;
+  attempts?: number; // scheduled posts retried after token refresh failures
+  guardrail?: GuardrailResult; // checked whenever the draft changes
+  aiDraft?: string; // generated text, to tell edited replies apart in the audit log
+  model?: string; // model behind aiDraft, or the fallback template marker
+  prompt?: string;
+  createdAt: string;
+  updatedAt: string;
+  postedAt?: string;
+}
+
+export interface ReplyAuditEntry {
+  id: string;
+  userId: string; // session user who posted, or who queued a background post
+  userName?: string;
+  source: 'direct' | 'queue' | 'scheduled';
+  videoId: string;
+  videoTitle?: string;
+  commentId: string;
+  commentText: string;
+  replyId: string;
+  replyText: string;
+  tone: string;
+  model: string; // 'custom' when a person wrote the reply, 'fallback-template' when generation failed
+  isCustom: boolean; // written or edited by a person
+  aiDraft?: string; // generated text before any edits
+  prompt?: string;
+  postedAt: string;
+  deletedAt?: string;
+  deletedBy?: string;
+}
+
+export interface SentimentCorrectionMark {
+  modelSentiment: 'positive' | 'neutral' | 'negative';
+  modelConfidence?: number;
+  correctedAt: string;
+}
+
+// A creator's verdict on one model-scored comment; confirmations (same label) count as agreement
+export interface SentimentCorrection {
+  commentId: string;
+  videoId: string;
+  text: string;
+  modelSentiment: 'positive' | 'neutral' | 'negative';
+  modelConfidence?: number;
+  modelProvider?: string;
+  correctedSentiment: 'positive' | 'neutral' | 'negative';
+  correctedAt: string;
+}
+
+// Few-shot example fed back into the sentiment prompt
+export interface SentimentExample {
+  text: string;
+  sentiment: 'positive' | 'neutral' | 'negative';
+}
+
+export interface CorrectionAgreementReport {
+  reviewed: number;
+  agreed: number;
+  agreementRate: number; // 0-1, share of reviewed comments the model got right
+  byConfidence: Array<{
+    label: string; // e.g. "70-85%"
+    min: number;
+    max: number;
+    reviewed: number;
+    agreementRate: number;
+  }>;
+  // model label -> creator label -> count
+  confusion: Record<SentimentExample['sentiment'], Record<SentimentExample['sentiment'], number>>;
+  examplesInPrompt: number;
+}
+
+// Versioned, hand-labelled comment set for sentiment regression checks
+export interface EvaluationItem {
+  id: string;
+  text: string;
+  language: string; // ISO 639-1, as labelled (not detected)
+  label: SentimentExample['sentiment'];
+  parentText?: string; // replies are scored in their parent's context
+  tags?: string[]; // e.g. sarcasm, reply, romanized
+}
+
+export interface EvaluationDataset {
+  version: string;
+  description: string;
+  createdAt: string;
+  items: EvaluationItem[];
+}
+
+export interface EvaluationMetrics {
+  count: number;
+  accuracy: number;
+  macroF1: number;
+  perClass: Record<SentimentExample['sentiment'], { precision: number; recall: number; f1: number; support: number }>;
+  // expected label -> predicted label -> count
+  confusion: Record<SentimentExample['sentiment'], Record<SentimentExample['sentiment'], number>>;
+}
+
+export interface SentimentEvaluationReport {
+  dataset: string;
+  provider: string;
+  model: string;
+  mode: 'replay' | 'record' | 'offline'; // offline: the lexicon provider needs no recordings
+  evaluatedAt: string;
+  unparsed: number; // items the model response did not cover, counted as neutral like in production
+  overall: EvaluationMetrics;
+  byLanguage: Record<string, EvaluationMetrics>;
+  byTag: Record<string, EvaluationMetrics>;
+  errors: Array<{ id: string; language: string; text: string; label: string; predicted: string }>;
+}
+
+export interface AspectDefinition {
+  id: string;
+  label: string;
+  keywords: string[]; // lowercase words or phrases that signal the aspect
+  custom?: boolean; // added by the creator for their channel
+}
+
+export interface AspectMention {
+  commentId: string;
+  aspect: string;
+  sentiment: 'positive' | 'neutral' | 'negative';
+  quote: string; // the part of the comment about the aspect
+}
+
+export interface AspectSentiment {
+  aspect: string;
+  label: string;
+  custom: boolean;
+  mentions: number;
+  positive: number;
+  neutral: number;
+  negative: number;
+  netSentiment: number; // -1 to 1
+  quotes: Array<{ commentId: string; author: string; text: string; sentiment: AspectMention['sentiment'] }>;
+}
+
+export interface AspectSentimentReport {
+  aspects: AspectSentiment[]; // mentioned aspects, most discussed first
+  commentsAnalyzed: number;
+  source: 'model' | 'lexicon';
+  model: string;
+}
+
 export interface APIResponse<T> {
   success: boolean;
   data?: T;
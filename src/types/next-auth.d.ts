@@ -10,7 +10,9 @@ declare module "next-auth" {
       id: string
     } & DefaultSession["user"]
   }
+}
 
+declare module "next-auth/jwt" {
   interface JWT {
     accessToken?: string
     refreshToken?: string
@@ -0,0 +1,25 @@
+declare module "sentiment" {
+  interface SentimentResult {
+    score: number
+    comparative: number
+    calculation: Array<Record<string, number>>
+    tokens: string[]
+    words: string[]
+    positive: string[]
+    negative: string[]
+  }
+
+  interface SentimentLanguage {
+    labels: Record<string, number>
+    scoringStrategy?: {
+      apply: (tokens: string[], cursor: number, tokenScore: number) => number
+    }
+  }
+
+  class Sentiment {
+    registerLanguage(languageCode: string, language: SentimentLanguage): void
+    analyze(phrase: string, options?: { language?: string }): SentimentResult
+  }
+
+  export = Sentiment
+}